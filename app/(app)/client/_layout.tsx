@@ -37,9 +37,13 @@ export default function ClientLayout() {
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="index" />
         <Stack.Screen name="checkin" />
+        <Stack.Screen name="history" />
+        <Stack.Screen name="program" />
         <Stack.Screen name="chat" />
+        <Stack.Screen name="appointments" />
         <Stack.Screen name="files" />
         <Stack.Screen name="settings" />
+        <Stack.Screen name="notifications" />
       </Stack>
       <FloatingTabBar tabs={tabs} />
     </>
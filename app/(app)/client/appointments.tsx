@@ -0,0 +1,573 @@
+
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import Modal from "react-native-modal";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { authenticatedGet, authenticatedPost, authenticatedPut, parseApiError } from "@/utils/api";
+import {
+  Appointment,
+  APPOINTMENT_STATUS_COLORS,
+  APPOINTMENT_STATUS_LABELS,
+  DEFAULT_DURATION_MINUTES,
+  addDays,
+  describeSlotRejection,
+  formatDayLabel,
+  formatTime,
+  formatTimeRange,
+  openCalendarSubscription,
+  toDateKey,
+} from "@/utils/appointments";
+import { bcctColors } from "@/styles/bcctTheme";
+import { LinearGradient } from "expo-linear-gradient";
+
+interface FreeSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+// How far ahead clients can look for open slots
+const BOOKING_WINDOW_DAYS = 14;
+
+export default function ClientAppointmentsScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState(false);
+
+  const [bookingVisible, setBookingVisible] = useState(false);
+  const [slotDays, setSlotDays] = useState<{ date: string; slots: FreeSlot[] }[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<FreeSlot | null>(null);
+  const [bookingNotes, setBookingNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  useEffect(() => {
+    fetchAppointments();
+  }, []);
+
+  const fetchAppointments = async () => {
+    console.log("[ClientAppointments] Fetching appointments");
+    try {
+      const data = await authenticatedGet<Appointment[]>("/api/client/appointments");
+      setAppointments(data);
+      setError(false);
+    } catch (err: any) {
+      console.error("[ClientAppointments] Error fetching appointments:", err);
+      setError(true);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchAppointments();
+  };
+
+  const openBooking = async () => {
+    console.log("[ClientAppointments] Fetching free slots");
+    setSelectedSlot(null);
+    setBookingNotes("");
+    setBookingVisible(true);
+    setSlotsLoading(true);
+    try {
+      const today = new Date();
+      const from = toDateKey(today);
+      const to = toDateKey(addDays(today, BOOKING_WINDOW_DAYS - 1));
+      const data = await authenticatedGet<{ days: { date: string; slots: FreeSlot[] }[] }>(
+        `/api/client/appointments/free-slots?from=${from}&to=${to}&durationMinutes=${DEFAULT_DURATION_MINUTES}`
+      );
+      setSlotDays(data.days.filter((day) => day.slots.length > 0));
+    } catch (err: any) {
+      console.error("[ClientAppointments] Error fetching free slots:", err);
+      setSlotDays([]);
+    } finally {
+      setSlotsLoading(false);
+    }
+  };
+
+  const requestAppointment = async () => {
+    if (!selectedSlot) return;
+
+    console.log("[ClientAppointments] Requesting appointment", selectedSlot.startsAt);
+    setSubmitting(true);
+    try {
+      await authenticatedPost("/api/client/appointments/requests", {
+        scheduledAt: selectedSlot.startsAt,
+        durationMinutes: DEFAULT_DURATION_MINUTES,
+        notes: bookingNotes.trim() || null,
+      });
+      setBookingVisible(false);
+      showModal("Aangevraagd", "Je coach ontvangt je aanvraag en bevestigt de afspraak zo snel mogelijk.");
+      fetchAppointments();
+    } catch (err: any) {
+      console.error("[ClientAppointments] Error requesting appointment:", err);
+      const { body } = parseApiError(err);
+      setBookingVisible(false);
+      showModal("Fout", describeSlotRejection(body) || "Kon afspraak niet aanvragen");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancelAppointment = async (appointment: Appointment) => {
+    console.log("[ClientAppointments] Cancelling appointment", appointment.id);
+    try {
+      await authenticatedPut(`/api/client/appointments/${appointment.id}/cancel`, {});
+      setAppointments((current) =>
+        current.map((a) => (a.id === appointment.id ? { ...a, status: "cancelled" } : a))
+      );
+    } catch (err: any) {
+      console.error("[ClientAppointments] Error cancelling appointment:", err);
+      showModal("Fout", "Kon afspraak niet annuleren");
+    }
+  };
+
+  const connectCalendar = async () => {
+    console.log("[ClientAppointments] Connecting calendar feed");
+    try {
+      await openCalendarSubscription();
+    } catch (err: any) {
+      console.error("[ClientAppointments] Error connecting calendar:", err);
+      showModal("Fout", "Kon agenda niet koppelen");
+    }
+  };
+
+  const now = Date.now();
+  const upcoming = appointments.filter(
+    (a) =>
+      (a.status === "scheduled" || a.status === "requested") &&
+      new Date(a.scheduledAt).getTime() >= now
+  );
+  const past = appointments
+    .filter((a) => !upcoming.includes(a))
+    .sort((a, b) => new Date(b.scheduledAt).getTime() - new Date(a.scheduledAt).getTime());
+
+  const renderAppointment = (appointment: Appointment) => {
+    const statusColor = APPOINTMENT_STATUS_COLORS[appointment.status];
+
+    return (
+      <View
+        key={appointment.id}
+        style={[styles.appointmentCard, { backgroundColor: colors.card, borderLeftColor: statusColor }]}
+      >
+        <View style={styles.appointmentHeader}>
+          <Text style={[styles.appointmentDate, { color: colors.text }]}>
+            {formatDayLabel(new Date(appointment.scheduledAt))}
+          </Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusColor + "20" }]}>
+            <Text style={[styles.statusBadgeText, { color: statusColor }]}>
+              {APPOINTMENT_STATUS_LABELS[appointment.status]}
+            </Text>
+          </View>
+        </View>
+        <Text style={[styles.appointmentTime, { color: colors.text, opacity: 0.8 }]}>
+          {formatTimeRange(appointment)} · {appointment.durationMinutes || DEFAULT_DURATION_MINUTES} min
+        </Text>
+        {appointment.coachName ? (
+          <Text style={[styles.appointmentMeta, { color: colors.text, opacity: 0.6 }]}>
+            Met {appointment.coachName}
+          </Text>
+        ) : null}
+        {appointment.notes ? (
+          <Text style={[styles.appointmentMeta, { color: colors.text, opacity: 0.6 }]}>
+            {appointment.notes}
+          </Text>
+        ) : null}
+        {upcoming.includes(appointment) ? (
+          <TouchableOpacity onPress={() => cancelAppointment(appointment)}>
+            <Text style={[styles.cancelText, { color: bcctColors.error }]}>
+              {appointment.status === "requested" ? "Aanvraag intrekken" : "Annuleren"}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+              <IconSymbol
+                ios_icon_name="chevron.left"
+                android_material_icon_name="arrow-back"
+                size={24}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+            <Text style={[styles.title, { color: colors.text }]}>Afspraken</Text>
+            <Text style={[styles.subtitle, { color: colors.text, opacity: 0.7 }]}>
+              Je sessies met je coach
+            </Text>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+            </View>
+          ) : error ? (
+            <Text style={[styles.infoText, { color: colors.text, opacity: 0.6 }]}>
+              Kon afspraken niet laden. Trek omlaag om het opnieuw te proberen.
+            </Text>
+          ) : (
+            <>
+              <TouchableOpacity onPress={openBooking} style={styles.section}>
+                <LinearGradient
+                  colors={[bcctColors.primaryOrange, bcctColors.primaryOrangeDark]}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 0 }}
+                  style={styles.primaryButton}
+                >
+                  <Text style={styles.primaryButtonText}>Sessie aanvragen</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={[styles.section, styles.calendarLink]} onPress={connectCalendar}>
+                <IconSymbol
+                  ios_icon_name="calendar.badge.plus"
+                  android_material_icon_name="event"
+                  size={20}
+                  color={bcctColors.primaryOrange}
+                />
+                <Text style={[styles.calendarLinkText, { color: bcctColors.primaryOrange }]}>
+                  Toevoegen aan mijn agenda
+                </Text>
+              </TouchableOpacity>
+
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>Aankomend</Text>
+                {upcoming.length === 0 ? (
+                  <Text style={[styles.infoText, { color: colors.text, opacity: 0.6 }]}>
+                    Je hebt geen geplande afspraken.
+                  </Text>
+                ) : (
+                  upcoming.map(renderAppointment)
+                )}
+              </View>
+
+              {past.length > 0 ? (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>Eerder</Text>
+                  {past.map(renderAppointment)}
+                </View>
+              ) : null}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={bookingVisible}
+        onBackdropPress={() => setBookingVisible(false)}
+        onBackButtonPress={() => setBookingVisible(false)}
+        animationIn="slideInUp"
+        animationOut="slideOutDown"
+        backdropOpacity={0.5}
+        style={styles.bottomModal}
+        avoidKeyboard
+      >
+        <View style={[styles.bookingContent, { backgroundColor: colors.card }]}>
+          <View style={styles.modalHandle} />
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Kies een moment</Text>
+
+          {slotsLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+            </View>
+          ) : slotDays.length === 0 ? (
+            <Text style={[styles.infoText, { color: colors.text, opacity: 0.6 }]}>
+              Er zijn de komende {BOOKING_WINDOW_DAYS} dagen geen vrije momenten. Stuur je coach een bericht.
+            </Text>
+          ) : (
+            <ScrollView style={styles.slotList}>
+              {slotDays.map((day) => (
+                <View key={day.date} style={styles.slotDay}>
+                  <Text style={[styles.appointmentDate, { color: colors.text }]}>
+                    {formatDayLabel(new Date(day.slots[0].startsAt))}
+                  </Text>
+                  <View style={styles.slotRow}>
+                    {day.slots.map((slot) => {
+                      const selected = selectedSlot?.startsAt === slot.startsAt;
+                      return (
+                        <TouchableOpacity
+                          key={slot.startsAt}
+                          style={[
+                            styles.slotChip,
+                            { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                            selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                          ]}
+                          onPress={() => setSelectedSlot(slot)}
+                        >
+                          <Text style={[styles.slotText, { color: colors.text }]}>
+                            {formatTime(new Date(slot.startsAt))}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <TextInput
+            style={[styles.notesInput, { color: colors.text, borderColor: colors.border }]}
+            value={bookingNotes}
+            onChangeText={setBookingNotes}
+            placeholder="Waar wil je het over hebben? (optioneel)"
+            placeholderTextColor={colors.text + "80"}
+            multiline
+          />
+
+          <TouchableOpacity onPress={requestAppointment} disabled={!selectedSlot || submitting}>
+            <LinearGradient
+              colors={
+                selectedSlot
+                  ? [bcctColors.primaryOrange, bcctColors.primaryOrangeDark]
+                  : [bcctColors.primaryOrangeDisabled, bcctColors.primaryOrangeDisabled]
+              }
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 0 }}
+              style={styles.primaryButton}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Aanvragen</Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: colors.text, opacity: 0.7 }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.modalButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  header: {
+    marginBottom: 32,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+  },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: "center",
+  },
+  section: {
+    marginBottom: 24,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  appointmentCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderLeftWidth: 4,
+    gap: 6,
+  },
+  appointmentHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  appointmentDate: {
+    fontSize: 16,
+    fontWeight: "600",
+    textTransform: "capitalize",
+    flex: 1,
+  },
+  appointmentTime: {
+    fontSize: 14,
+  },
+  appointmentMeta: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  infoText: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: "center",
+  },
+  calendarLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  calendarLinkText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  bottomModal: {
+    justifyContent: "flex-end",
+    margin: 0,
+  },
+  bookingContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: "85%",
+    gap: 16,
+  },
+  modalHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: "#ccc",
+    borderRadius: 2,
+    alignSelf: "center",
+  },
+  slotList: {
+    maxHeight: 320,
+  },
+  slotDay: {
+    marginBottom: 16,
+    gap: 8,
+  },
+  slotRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  slotChip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  slotText: {
+    fontSize: 14,
+  },
+  notesInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    minHeight: 60,
+    fontSize: 16,
+    textAlignVertical: "top",
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    alignItems: "center",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 12,
+  },
+  modalMessage: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  modalButton: {
+    borderRadius: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    minWidth: 100,
+  },
+  modalButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+});
@@ -1,29 +1,74 @@
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   View,
   Text,
   StyleSheet,
-  ScrollView,
-  TouchableOpacity,
+  ActivityIndicator,
 } from "react-native";
 import { useTheme } from "@react-navigation/native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
+import ChatThread from "@/components/ChatThread";
+import { authenticatedPost } from "@/utils/api";
+import { bcctColors } from "@/styles/bcctTheme";
+
+interface Conversation {
+  id: string;
+  coachId: string;
+  clientId: string;
+  participant: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+}
 
 export default function ChatScreen() {
   const { colors } = useTheme();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [noCoach, setNoCoach] = useState(false);
+
+  useEffect(() => {
+    loadConversation();
+  }, []);
+
+  const loadConversation = async () => {
+    console.log("[ClientChat] Loading conversation with coach");
+    try {
+      const data = await authenticatedPost<Conversation>("/api/client/conversations", {});
+      setConversation(data);
+    } catch (error: any) {
+      console.error("[ClientChat] Error loading conversation:", error);
+      setNoCoach(true);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
-      <ScrollView contentContainerStyle={styles.scrollContent}>
-        <View style={styles.header}>
-          <Text style={[styles.title, { color: colors.text }]}>Chat met Coach</Text>
-          <Text style={[styles.subtitle, { color: colors.text, opacity: 0.7 }]}>
-            Blijf in contact met je coach
-          </Text>
-        </View>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]}>Chat met Coach</Text>
+        <Text style={[styles.subtitle, { color: colors.text, opacity: 0.7 }]}>
+          {conversation?.participant?.name || "Blijf in contact met je coach"}
+        </Text>
+      </View>
 
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+        </View>
+      ) : conversation ? (
+        <View style={styles.threadContainer}>
+          <ChatThread
+            conversationId={conversation.id}
+            currentUserId={conversation.clientId}
+            messagesEndpoint={`/api/client/conversations/${conversation.id}/messages`}
+          />
+        </View>
+      ) : (
         <View style={styles.section}>
           <View style={[styles.card, { backgroundColor: colors.card }]}>
             <View style={styles.cardHeader}>
@@ -36,17 +81,13 @@ export default function ChatScreen() {
               <Text style={[styles.cardTitle, { color: colors.text }]}>Berichten</Text>
             </View>
             <Text style={[styles.cardDescription, { color: colors.text, opacity: 0.7 }]}>
-              Stuur berichten naar je coach en ontvang persoonlijke begeleiding.
+              {noCoach
+                ? "Je bent nog niet gekoppeld aan een coach. Zodra je gekoppeld bent kun je hier berichten sturen."
+                : "Stuur berichten naar je coach en ontvang persoonlijke begeleiding."}
             </Text>
           </View>
         </View>
-
-        <View style={styles.section}>
-          <Text style={[styles.infoText, { color: colors.text, opacity: 0.6 }]}>
-            Chat functionaliteit wordt binnenkort toegevoegd.
-          </Text>
-        </View>
-      </ScrollView>
+      )}
     </SafeAreaView>
   );
 }
@@ -55,12 +96,10 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
-  scrollContent: {
-    padding: 20,
-    paddingBottom: 100,
-  },
   header: {
-    marginBottom: 32,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 12,
   },
   title: {
     fontSize: 32,
@@ -70,8 +109,17 @@ const styles = StyleSheet.create({
   subtitle: {
     fontSize: 16,
   },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  threadContainer: {
+    flex: 1,
+    paddingBottom: 90,
+  },
   section: {
-    marginBottom: 24,
+    padding: 20,
   },
   card: {
     padding: 24,
@@ -91,9 +139,4 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
-  infoText: {
-    fontSize: 14,
-    lineHeight: 20,
-    textAlign: "center",
-  },
 });
@@ -15,21 +15,20 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from "@/contexts/AuthContext";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter } from "expo-router";
-import { supabase } from "@/lib/supabase";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { toDateKey } from "@/utils/appointments";
+import { Checkin, CheckinResponse, CHECKIN_SCALE_MAX } from "@/utils/checkins";
+import { CurrentTheme, DEFAULT_LIKERT_LABELS, ThemeItem, THEME_FREQUENCY_LABELS } from "@/utils/themes";
 import Slider from "@react-native-community/slider";
 import { LinearGradient } from "expo-linear-gradient";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
 
-interface ThemeItem {
-  id: string;
-  label: string;
-  sort_order: number;
-}
+// Answers keyed by theme item id. Number items keep the typed text until the check-in is saved.
+type Answer = { value: number | null; text: string | null };
 
-interface SliderValue {
-  theme_item_id: string;
-  value: number;
-}
+const LIKERT_STEPS = [1, 2, 3, 4, 5];
+
+const MAX_TEXT_ANSWER_LENGTH = 500;
 
 export default function ClientCheckinScreen() {
   const { colors } = useTheme();
@@ -37,9 +36,8 @@ export default function ClientCheckinScreen() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [activeTheme, setActiveTheme] = useState<any>(null);
-  const [themeItems, setThemeItems] = useState<ThemeItem[]>([]);
-  const [sliderValues, setSliderValues] = useState<SliderValue[]>([]);
+  const [themes, setThemes] = useState<CurrentTheme[]>([]);
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
   const [feelingText, setFeelingText] = useState("");
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
@@ -51,86 +49,50 @@ export default function ClientCheckinScreen() {
     setModalVisible(true);
   };
 
+  // All items of the current themes; a check-in saves the answers to all of them at once
+  const themeItems = themes.flatMap((theme) => theme.items);
+
   useEffect(() => {
-    fetchActiveTheme();
+    fetchCurrentThemes();
   }, []);
 
-  const fetchActiveTheme = async () => {
-    console.log("[Client Checkin] Fetching active theme");
+  const fetchCurrentThemes = async () => {
+    console.log("[Client Checkin] Fetching current themes");
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        console.error("[Client Checkin] No user session");
-        return;
-      }
-
-      const { data: assignment, error: assignmentError } = await supabase
-        .from("client_theme_assignments")
-        .select("*, themes(*)")
-        .eq("client_id", session.session.user.id)
-        .eq("active", true)
-        .single();
-
-      if (assignmentError && assignmentError.code !== "PGRST116") {
-        console.error("[Client Checkin] Error fetching assignment", assignmentError);
-        showModal("Fout", "Kon actief thema niet laden");
-        return;
-      }
-
-      if (!assignment) {
-        console.log("[Client Checkin] No active theme assigned");
-        setLoading(false);
-        return;
-      }
-
-      console.log("[Client Checkin] Active theme found", assignment);
-      setActiveTheme(assignment.themes);
-
-      const { data: items, error: itemsError } = await supabase
-        .from("theme_items")
-        .select("*")
-        .eq("theme_id", assignment.theme_id)
-        .eq("is_active", true)
-        .order("sort_order", { ascending: true });
+      const { themes: current } = await authenticatedGet<{ today: string; themes: CurrentTheme[] }>(
+        "/api/client/themes"
+      );
 
-      if (itemsError) {
-        console.error("[Client Checkin] Error fetching items", itemsError);
-        showModal("Fout", "Kon vragen niet laden");
+      if (current.length === 0) {
+        console.log("[Client Checkin] No current themes assigned");
         return;
       }
 
-      console.log("[Client Checkin] Theme items loaded", items);
-      setThemeItems(items || []);
-      setSliderValues((items || []).map(item => ({
-        theme_item_id: item.id,
-        value: 50,
-      })));
-
-      await fetchTodayCheckin(session.session.user.id);
+      console.log("[Client Checkin] Current themes found", current.length);
+      setThemes(current);
+      const items = current.flatMap((theme) => theme.items);
+      // Sliders start in the middle of the scale, other types start unanswered
+      setAnswers(Object.fromEntries(
+        items
+          .filter((item) => item.type === "slider")
+          .map((item) => [item.id, { value: CHECKIN_SCALE_MAX / 2, text: null }])
+      ));
+
+      await fetchTodayCheckin(items);
     } catch (error: any) {
-      console.error("[Client Checkin] Error fetching active theme", error);
-      showModal("Fout", "Kon actief thema niet laden");
+      console.error("[Client Checkin] Error fetching current themes", error);
+      showModal("Fout", "Kon thema's niet laden");
     } finally {
       setLoading(false);
     }
   };
 
-  const fetchTodayCheckin = async (userId: string) => {
+  const fetchTodayCheckin = async (items: ThemeItem[]) => {
     console.log("[Client Checkin] Fetching today's check-in");
     try {
-      const today = new Date().toISOString().split("T")[0];
-
-      const { data: checkin, error: checkinError } = await supabase
-        .from("checkins")
-        .select("*")
-        .eq("user_id", userId)
-        .eq("date", today)
-        .single();
-
-      if (checkinError && checkinError.code !== "PGRST116") {
-        console.error("[Client Checkin] Error fetching checkin", checkinError);
-        return;
-      }
+      const [checkin] = await authenticatedGet<Checkin[]>(
+        `/api/client/checkins?date=${toDateKey(new Date())}`
+      );
 
       if (!checkin) {
         console.log("[Client Checkin] No checkin found for today");
@@ -138,90 +100,66 @@ export default function ClientCheckinScreen() {
       }
 
       console.log("[Client Checkin] Today's checkin found", checkin);
-      setFeelingText(checkin.feeling_text || "");
-
-      const { data: responses, error: responsesError } = await supabase
-        .from("checkin_responses")
-        .select("*")
-        .eq("checkin_id", checkin.id);
-
-      if (responsesError) {
-        console.error("[Client Checkin] Error fetching responses", responsesError);
-        return;
-      }
-
-      if (responses && responses.length > 0) {
-        console.log("[Client Checkin] Responses loaded", responses);
-        setSliderValues(responses.map(r => ({
-          theme_item_id: r.theme_item_id,
-          value: r.value_int,
-        })));
-      }
+      setFeelingText(checkin.note || "");
+
+      // Items that were added to the theme after today's answers keep their default
+      const numberItemIds = new Set(items.filter((item) => item.type === "number").map((item) => item.id));
+      setAnswers((current) => ({
+        ...current,
+        ...Object.fromEntries(checkin.responses.map((r) => [
+          r.themeItemId,
+          numberItemIds.has(r.themeItemId) ? { value: null, text: String(r.value ?? "") } : { value: r.value, text: r.text },
+        ])),
+      }));
     } catch (error: any) {
       console.error("[Client Checkin] Error fetching today's checkin", error);
     }
   };
 
-  const saveCheckin = async () => {
-    console.log("[Client Checkin] Saving check-in");
-    setSaving(true);
-    try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        showModal("Fout", "Je bent niet ingelogd");
-        return;
-      }
-
-      const today = new Date().toISOString().split("T")[0];
-
-      const { data: checkin, error: checkinError } = await supabase
-        .from("checkins")
-        .upsert({
-          user_id: session.session.user.id,
-          date: today,
-          feeling_text: feelingText,
-          energy: 50,
-          stress: 50,
-          sleep: 50,
-          mood: 5,
-        }, {
-          onConflict: "user_id,date",
-        })
-        .select()
-        .single();
-
-      if (checkinError) {
-        console.error("[Client Checkin] Error saving checkin", checkinError);
-        showModal("Fout", "Kon check-in niet opslaan");
-        return;
+  // Answered items as check-in responses, or a message for the first invalid number
+  const buildResponses = (): CheckinResponse[] | string => {
+    const responses: CheckinResponse[] = [];
+    for (const item of themeItems) {
+      const answer = answers[item.id];
+      if (!answer) continue;
+
+      if (item.type === "number") {
+        const raw = (answer.text || "").trim().replace(",", ".");
+        if (!raw) continue;
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+          return `Vul een geldig getal in bij "${item.label}"`;
+        }
+        if ((item.minValue !== null && value < item.minValue) || (item.maxValue !== null && value > item.maxValue)) {
+          return `"${item.label}" moet tussen ${item.minValue ?? "…"} en ${item.maxValue ?? "…"} liggen`;
+        }
+        responses.push({ themeItemId: item.id, value, text: null });
+      } else if (item.type === "text" || item.type === "choice") {
+        const text = (answer.text || "").trim();
+        if (text) responses.push({ themeItemId: item.id, value: null, text });
+      } else if (answer.value !== null) {
+        responses.push({ themeItemId: item.id, value: answer.value, text: null });
       }
+    }
+    return responses;
+  };
 
-      console.log("[Client Checkin] Checkin saved", checkin);
-
-      const { error: deleteError } = await supabase
-        .from("checkin_responses")
-        .delete()
-        .eq("checkin_id", checkin.id);
-
-      if (deleteError) {
-        console.error("[Client Checkin] Error deleting old responses", deleteError);
-      }
-
-      const responses = sliderValues.map(sv => ({
-        checkin_id: checkin.id,
-        theme_item_id: sv.theme_item_id,
-        value_int: sv.value,
-      }));
-
-      const { error: responsesError } = await supabase
-        .from("checkin_responses")
-        .insert(responses);
+  const saveCheckin = async () => {
+    const responses = buildResponses();
+    if (typeof responses === "string") {
+      showModal("Fout", responses);
+      return;
+    }
 
-      if (responsesError) {
-        console.error("[Client Checkin] Error saving responses", responsesError);
-        showModal("Fout", "Kon antwoorden niet opslaan");
-        return;
-      }
+    console.log("[Client Checkin] Saving check-in", responses.length);
+    setSaving(true);
+    try {
+      // Only the note and theme answers are sent, so the home screen metrics stay untouched
+      await authenticatedPost("/api/client/checkins", {
+        date: toDateKey(new Date()),
+        note: feelingText,
+        responses,
+      });
 
       console.log("[Client Checkin] Check-in saved successfully");
       showModal("Opgeslagen ✓", "Je check-in is succesvol opgeslagen");
@@ -234,15 +172,137 @@ export default function ClientCheckinScreen() {
     }
   };
 
-  const updateSliderValue = (themeItemId: string, value: number) => {
-    setSliderValues(sliderValues.map(sv =>
-      sv.theme_item_id === themeItemId ? { ...sv, value: Math.round(value) } : sv
-    ));
+  const setAnswer = (themeItemId: string, answer: Partial<Answer>) => {
+    setAnswers((current) => ({
+      ...current,
+      [themeItemId]: { ...(current[themeItemId] || { value: null, text: null }), ...answer },
+    }));
   };
 
-  const getSliderValue = (themeItemId: string) => {
-    const sv = sliderValues.find(s => s.theme_item_id === themeItemId);
-    return sv ? sv.value : 50;
+  const renderChips = (options: { label: string; selected: boolean; onPress: () => void }[]) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.label}
+          style={[
+            styles.chip,
+            { borderColor: option.selected ? bcctColors.primaryOrange : colors.border },
+            option.selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+          ]}
+          onPress={option.onPress}
+        >
+          <Text style={[styles.chipText, { color: colors.text }]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderItemInput = (item: ThemeItem) => {
+    const answer = answers[item.id];
+
+    switch (item.type) {
+      case "yes_no":
+        return renderChips([
+          { label: "Ja", selected: answer?.value === 1, onPress: () => setAnswer(item.id, { value: 1 }) },
+          { label: "Nee", selected: answer?.value === 0, onPress: () => setAnswer(item.id, { value: 0 }) },
+        ]);
+      case "choice":
+        return renderChips(
+          (item.config?.options || []).map((option) => ({
+            label: option,
+            selected: answer?.text === option,
+            onPress: () => setAnswer(item.id, { text: option }),
+          }))
+        );
+      case "likert": {
+        const labels = { ...DEFAULT_LIKERT_LABELS, ...item.config };
+        return (
+          <View>
+            <View style={styles.likertRow}>
+              {LIKERT_STEPS.map((step) => {
+                const selected = answer?.value === step;
+                return (
+                  <TouchableOpacity
+                    key={step}
+                    style={[
+                      styles.likertStep,
+                      { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                      selected && { backgroundColor: bcctColors.primaryOrange },
+                    ]}
+                    onPress={() => setAnswer(item.id, { value: step })}
+                  >
+                    <Text style={[styles.likertStepText, { color: selected ? "#fff" : colors.text }]}>{step}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.likertLabels}>
+              <Text style={[styles.likertLabel, { color: bcctColors.textSecondary }]}>{labels.minLabel}</Text>
+              <Text style={[styles.likertLabel, styles.likertLabelEnd, { color: bcctColors.textSecondary }]}>
+                {labels.maxLabel}
+              </Text>
+            </View>
+          </View>
+        );
+      }
+      case "number":
+        return (
+          <View style={styles.numberRow}>
+            <TextInput
+              style={[styles.numberInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+              placeholder="0"
+              placeholderTextColor={bcctColors.textSecondary}
+              keyboardType="decimal-pad"
+              value={answer?.text || ""}
+              onChangeText={(text) => setAnswer(item.id, { text })}
+            />
+            {item.config?.unit ? (
+              <Text style={[styles.numberUnit, { color: bcctColors.textSecondary }]}>{item.config.unit}</Text>
+            ) : null}
+          </View>
+        );
+      case "text":
+        return (
+          <TextInput
+            style={[styles.textInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+            placeholder="Typ hier je antwoord…"
+            placeholderTextColor={bcctColors.textSecondary}
+            value={answer?.text || ""}
+            onChangeText={(text) => setAnswer(item.id, { text })}
+            maxLength={MAX_TEXT_ANSWER_LENGTH}
+            multiline
+          />
+        );
+      default: {
+        const value = answer?.value ?? CHECKIN_SCALE_MAX / 2;
+        return (
+          <>
+            <View style={[styles.sliderTrack, { backgroundColor: colors.border }]}>
+              <View
+                style={[
+                  styles.sliderFill,
+                  {
+                    width: `${(value / CHECKIN_SCALE_MAX) * 100}%`,
+                    backgroundColor: bcctColors.primaryOrange,
+                  },
+                ]}
+              />
+            </View>
+            <Slider
+              style={styles.slider}
+              minimumValue={0}
+              maximumValue={CHECKIN_SCALE_MAX}
+              step={1}
+              value={value}
+              onValueChange={(v) => setAnswer(item.id, { value: Math.round(v) })}
+              minimumTrackTintColor="transparent"
+              maximumTrackTintColor="transparent"
+              thumbTintColor={bcctColors.primaryOrange}
+            />
+          </>
+        );
+      }
+    }
   };
 
   if (loading) {
@@ -255,7 +315,7 @@ export default function ClientCheckinScreen() {
     );
   }
 
-  if (!activeTheme) {
+  if (themes.length === 0) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
         <View style={styles.header}>
@@ -311,11 +371,6 @@ export default function ClientCheckinScreen() {
         </View>
 
         <ScrollView contentContainerStyle={styles.scrollContent}>
-          <View style={[styles.themeCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
-            <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>Actief thema</Text>
-            <Text style={[styles.themeName, { color: colors.text }]}>{activeTheme.name}</Text>
-          </View>
-
           <Text style={[styles.questionTitle, { color: colors.text }]}>
             Hoe voel je je vandaag?
           </Text>
@@ -332,42 +387,42 @@ export default function ClientCheckinScreen() {
             {feelingText.length}/250
           </Text>
 
-          <Text style={[styles.sectionTitle, { color: colors.text }]}>Vragen</Text>
-
-          {themeItems.map((item) => {
-            const value = getSliderValue(item.id);
-            const valueText = `${value}`;
-            return (
-              <View key={item.id} style={styles.sliderContainer}>
-                <View style={styles.sliderHeader}>
-                  <Text style={[styles.sliderLabel, { color: colors.text }]}>{item.label}</Text>
-                  <Text style={[styles.sliderValue, { color: bcctColors.primaryOrange }]}>{valueText}</Text>
-                </View>
-                <View style={[styles.sliderTrack, { backgroundColor: colors.border }]}>
+          {themes.map((theme) => (
+            <View key={theme.assignmentId}>
+              <View style={[styles.themeCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <View style={styles.themeHeader}>
+                  <Text style={[styles.themeName, { color: colors.text }]}>{theme.name}</Text>
                   <View
                     style={[
-                      styles.sliderFill,
-                      {
-                        width: `${value}%`,
-                        backgroundColor: bcctColors.primaryOrange,
-                      },
+                      styles.dueBadge,
+                      { backgroundColor: (theme.due ? bcctColors.primaryOrange : bcctColors.success) + "20" },
                     ]}
-                  />
+                  >
+                    <Text style={[styles.dueBadgeText, { color: theme.due ? bcctColors.primaryOrange : bcctColors.success }]}>
+                      {theme.answeredToday ? "Vandaag ingevuld" : theme.due ? "Vandaag invullen" : "Week voltooid"}
+                    </Text>
+                  </View>
                 </View>
-                <Slider
-                  style={styles.slider}
-                  minimumValue={0}
-                  maximumValue={100}
-                  step={1}
-                  value={value}
-                  onValueChange={(v) => updateSliderValue(item.id, v)}
-                  minimumTrackTintColor="transparent"
-                  maximumTrackTintColor="transparent"
-                  thumbTintColor={bcctColors.primaryOrange}
-                />
+                <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>
+                  {`${THEME_FREQUENCY_LABELS[theme.frequency]} · ${Math.min(theme.checkinsThisWeek, theme.checkinsPerWeek)}/${theme.checkinsPerWeek} deze week`}
+                </Text>
               </View>
-            );
-          })}
+
+              {theme.items.map((item) => (
+                <View key={item.id} style={styles.sliderContainer}>
+                  <View style={styles.sliderHeader}>
+                    <Text style={[styles.sliderLabel, { color: colors.text }]}>{item.label}</Text>
+                    {item.type === "slider" ? (
+                      <Text style={[styles.sliderValue, { color: bcctColors.primaryOrange }]}>
+                        {`${answers[item.id]?.value ?? CHECKIN_SCALE_MAX / 2}`}
+                      </Text>
+                    ) : null}
+                  </View>
+                  {renderItemInput(item)}
+                </View>
+              ))}
+            </View>
+          ))}
 
           <TouchableOpacity
             style={styles.saveButtonContainer}
@@ -453,12 +508,27 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     marginBottom: 24,
   },
+  themeHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    marginBottom: 4,
+  },
   themeLabel: {
     ...bcctTypography.small,
-    marginBottom: 4,
   },
   themeName: {
     ...bcctTypography.h3,
+    flex: 1,
+  },
+  dueBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  dueBadgeText: {
+    ...bcctTypography.small,
   },
   questionTitle: {
     ...bcctTypography.h3,
@@ -478,10 +548,6 @@ const styles = StyleSheet.create({
     textAlign: "right",
     marginBottom: 24,
   },
-  sectionTitle: {
-    ...bcctTypography.h3,
-    marginBottom: 16,
-  },
   sliderContainer: {
     marginBottom: 24,
   },
@@ -511,6 +577,63 @@ const styles = StyleSheet.create({
     width: "100%",
     height: 40,
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  chipText: {
+    ...bcctTypography.bodyMedium,
+  },
+  likertRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  likertStep: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  likertStepText: {
+    ...bcctTypography.bodySemiBold,
+  },
+  likertLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 8,
+    gap: 16,
+  },
+  likertLabel: {
+    ...bcctTypography.small,
+    flex: 1,
+  },
+  likertLabelEnd: {
+    textAlign: "right",
+  },
+  numberRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  numberInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    ...bcctTypography.body,
+    minWidth: 120,
+  },
+  numberUnit: {
+    ...bcctTypography.bodyMedium,
+  },
   saveButtonContainer: {
     borderRadius: 12,
     overflow: "hidden",
@@ -0,0 +1,429 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import CheckinTrendChart, { MARKER_COLORS } from "@/components/CheckinTrendChart";
+import { authenticatedGet } from "@/utils/api";
+import { addDays, toDateKey } from "@/utils/appointments";
+import {
+  ANALYTICS_RANGE_LABELS,
+  AnalyticsRange,
+  CHECKIN_METRICS,
+  CHECKIN_METRIC_COLORS,
+  CHECKIN_METRIC_LABELS,
+  CHECKIN_SCALE_MAX,
+  Checkin,
+  CheckinAnalytics,
+  CheckinInsight,
+  CheckinMetric,
+  describeInsight,
+  toChartMarkers,
+} from "@/utils/checkins";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+// Number of weeks shown in the calendar heatmap
+const HEATMAP_WEEKS = 12;
+const HEATMAP_DAY_LABELS = ["ma", "di", "wo", "do", "vr", "za", "zo"];
+
+// Columns of Monday-first weeks ending with the current week
+const buildHeatmapWeeks = (today: Date): Date[][] => {
+  const mondayOffset = (today.getDay() + 6) % 7;
+  const firstMonday = addDays(today, -mondayOffset - (HEATMAP_WEEKS - 1) * 7);
+  return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(firstMonday, week * 7 + day))
+  );
+};
+
+export default function ClientHistoryScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [checkins, setCheckins] = useState<Checkin[]>([]);
+  const [insights, setInsights] = useState<CheckinInsight[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const [heatmapMetric, setHeatmapMetric] = useState<CheckinMetric>("energy");
+
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>("14d");
+  const [analytics, setAnalytics] = useState<CheckinAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  // Reload trends whenever the client picks another range
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      console.log("[ClientHistory] Fetching checkin analytics", analyticsRange);
+      setAnalyticsLoading(true);
+      try {
+        const data = await authenticatedGet<CheckinAnalytics>(
+          `/api/client/checkins/analytics?range=${analyticsRange}`
+        );
+        setAnalytics(data);
+      } catch (err: any) {
+        console.error("[ClientHistory] Error fetching checkin analytics:", err);
+        setAnalytics(null);
+      } finally {
+        setAnalyticsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [analyticsRange]);
+
+  const fetchHistory = async () => {
+    console.log("[ClientHistory] Fetching checkins and insights");
+    try {
+      const [checkinData, insightData] = await Promise.all([
+        authenticatedGet<Checkin[]>("/api/client/checkins"),
+        authenticatedGet<{ insights: CheckinInsight[] }>("/api/client/checkins/insights"),
+      ]);
+      setCheckins(checkinData);
+      setInsights(insightData.insights);
+      setError(false);
+    } catch (err: any) {
+      console.error("[ClientHistory] Error fetching history:", err);
+      setError(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const today = new Date();
+  const todayKey = toDateKey(today);
+  const checkinsByDate = new Map(checkins.map((checkin) => [String(checkin.date).slice(0, 10), checkin]));
+  const heatmapWeeks = buildHeatmapWeeks(today);
+
+  const renderHeatmapCell = (day: Date) => {
+    const dateKey = toDateKey(day);
+    const checkin = checkinsByDate.get(dateKey);
+    const value = checkin ? checkin[heatmapMetric] : null;
+
+    let backgroundColor = colors.border;
+    if (dateKey > todayKey) {
+      backgroundColor = "transparent";
+    } else if (checkin) {
+      // Stronger colour for higher scores; a check-in without this metric still shows faintly
+      const opacity = value !== null ? Math.round(40 + (value / CHECKIN_SCALE_MAX) * 215) : 40;
+      backgroundColor = CHECKIN_METRIC_COLORS[heatmapMetric] + opacity.toString(16).padStart(2, "0");
+    }
+
+    return (
+      <View
+        key={dateKey}
+        style={[styles.heatmapCell, { backgroundColor }, dateKey === todayKey && { borderWidth: 1, borderColor: colors.text }]}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="arrow-back"
+              size={24}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: colors.text }]}>Mijn voortgang</Text>
+          <Text style={[styles.subtitle, { color: colors.text, opacity: 0.7 }]}>
+            Je check-ins en wat ze over jou laten zien
+          </Text>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+          </View>
+        ) : error ? (
+          <Text style={[styles.infoText, { color: colors.text, opacity: 0.6 }]}>
+            Kon je check-ins niet laden. Probeer het later opnieuw.
+          </Text>
+        ) : (
+          <>
+            <View style={[styles.card, styles.streakCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <IconSymbol
+                ios_icon_name="flame"
+                android_material_icon_name="local-fire-department"
+                size={32}
+                color={bcctColors.primaryOrange}
+              />
+              <View style={styles.streakText}>
+                <Text style={[styles.streakValue, { color: colors.text }]}>
+                  {analytics?.streaks.current ?? 0} {analytics?.streaks.current === 1 ? "dag" : "dagen"} op rij
+                </Text>
+                <Text style={[styles.cardMeta, { color: bcctColors.textSecondary }]}>
+                  Langste reeks: {analytics?.streaks.longest ?? 0} dagen
+                </Text>
+              </View>
+            </View>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <Text style={[styles.cardTitle, { color: colors.text }]}>Kalender</Text>
+              <View style={styles.chipRow}>
+                {CHECKIN_METRICS.map((metric) => {
+                  const selected = metric === heatmapMetric;
+                  return (
+                    <TouchableOpacity
+                      key={metric}
+                      style={[
+                        styles.chip,
+                        { borderColor: selected ? CHECKIN_METRIC_COLORS[metric] : colors.border },
+                        selected && { backgroundColor: CHECKIN_METRIC_COLORS[metric] + "20" },
+                      ]}
+                      onPress={() => setHeatmapMetric(metric)}
+                    >
+                      <Text style={[styles.chipText, { color: colors.text }]}>{CHECKIN_METRIC_LABELS[metric]}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.heatmap}>
+                <View style={styles.heatmapColumn}>
+                  {HEATMAP_DAY_LABELS.map((label) => (
+                    <Text key={label} style={[styles.heatmapDayLabel, { color: bcctColors.textSecondary }]}>
+                      {label}
+                    </Text>
+                  ))}
+                </View>
+                {heatmapWeeks.map((week) => (
+                  <View key={toDateKey(week[0])} style={styles.heatmapColumn}>
+                    {week.map(renderHeatmapCell)}
+                  </View>
+                ))}
+              </View>
+              <Text style={[styles.cardMeta, { color: bcctColors.textSecondary }]}>
+                Hoe voller de kleur, hoe hoger je {CHECKIN_METRIC_LABELS[heatmapMetric].toLowerCase()} die dag.
+              </Text>
+            </View>
+
+            <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <Text style={[styles.cardTitle, { color: colors.text }]}>Inzichten</Text>
+              {insights.length === 0 ? (
+                <Text style={[styles.cardMeta, { color: bcctColors.textSecondary }]}>
+                  Nog geen patronen gevonden. Blijf dagelijks inchecken, dan verschijnen hier je persoonlijke
+                  inzichten.
+                </Text>
+              ) : (
+                insights.map((insight, index) => (
+                  <View key={`${insight.kind}-${insight.metric}-${index}`} style={styles.insightRow}>
+                    <View style={[styles.insightDot, { backgroundColor: CHECKIN_METRIC_COLORS[insight.metric] }]} />
+                    <Text style={[styles.insightText, { color: colors.text }]}>{describeInsight(insight)}</Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Trends</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(ANALYTICS_RANGE_LABELS) as AnalyticsRange[]).map((range) => {
+                  const selected = range === analyticsRange;
+                  return (
+                    <TouchableOpacity
+                      key={range}
+                      style={[
+                        styles.chip,
+                        { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                        selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                      ]}
+                      onPress={() => setAnalyticsRange(range)}
+                    >
+                      <Text style={[styles.chipText, { color: colors.text }]}>{ANALYTICS_RANGE_LABELS[range]}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {analyticsLoading && !analytics ? (
+                <ActivityIndicator color={bcctColors.primaryOrange} />
+              ) : !analytics ? (
+                <Text style={[styles.infoText, { color: bcctColors.error }]}>Kon je trends niet laden.</Text>
+              ) : analytics.checkinCount === 0 ? (
+                <Text style={[styles.infoText, { color: bcctColors.textSecondary }]}>
+                  Geen check-ins in deze periode.
+                </Text>
+              ) : (
+                <>
+                  {CHECKIN_METRICS.map((metric) => (
+                    <View
+                      key={metric}
+                      style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}
+                    >
+                      <View style={styles.chartHeader}>
+                        <Text style={[styles.cardTitle, { color: colors.text }]}>{CHECKIN_METRIC_LABELS[metric]}</Text>
+                        <Text style={[styles.cardMeta, { color: bcctColors.textSecondary }]}>
+                          Gemiddeld {analytics.metrics[metric].average?.toLocaleString("nl-NL") ?? "–"}
+                        </Text>
+                      </View>
+                      <CheckinTrendChart
+                        series={analytics.metrics[metric].series}
+                        markers={toChartMarkers(analytics)}
+                        color={CHECKIN_METRIC_COLORS[metric]}
+                        height={100}
+                        variant="line"
+                      />
+                    </View>
+                  ))}
+                  <View style={styles.legendRow}>
+                    <View style={styles.legendItem}>
+                      <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS.appointment }]} />
+                      <Text style={[styles.cardMeta, { color: bcctColors.textSecondary }]}>Afspraak</Text>
+                    </View>
+                    <View style={styles.legendItem}>
+                      <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS.programWeek }]} />
+                      <Text style={[styles.cardMeta, { color: bcctColors.textSecondary }]}>Programmaweek</Text>
+                    </View>
+                  </View>
+                </>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  header: {
+    marginBottom: 32,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+  },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: "center",
+  },
+  section: {
+    marginBottom: 24,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 12,
+  },
+  cardTitle: {
+    ...bcctTypography.h3,
+  },
+  cardMeta: {
+    ...bcctTypography.small,
+  },
+  streakCard: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  streakText: {
+    flex: 1,
+    gap: 2,
+  },
+  streakValue: {
+    fontSize: 22,
+    fontWeight: "bold",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  heatmap: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  heatmapColumn: {
+    gap: 4,
+  },
+  heatmapDayLabel: {
+    ...bcctTypography.small,
+    fontSize: 10,
+    height: 16,
+    lineHeight: 16,
+    width: 18,
+  },
+  heatmapCell: {
+    width: 16,
+    height: 16,
+    borderRadius: 3,
+  },
+  insightRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 10,
+  },
+  insightDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 6,
+  },
+  insightText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  chartHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+  },
+  legendRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  infoText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
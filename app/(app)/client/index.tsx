@@ -15,16 +15,18 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from "@/contexts/AuthContext";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter } from "expo-router";
-import { authenticatedGet } from "@/utils/api";
-import { supabase } from "@/lib/supabase";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { toDateKey } from "@/utils/appointments";
+import { Checkin, CHECKIN_SCALE_MAX } from "@/utils/checkins";
+import { ProgramTask, ProgramWeek } from "@/utils/programs";
 import Slider from "@react-native-community/slider";
 import { LinearGradient } from "expo-linear-gradient";
 import { bcctColors, bcctTypography, getSliderColor, getStressLabel, getSleepLabel, getEnergyLabel } from "@/styles/bcctTheme";
 
 interface HomeData {
   checkinStatus: string | null;
-  currentWeek: any | null;
-  nextTask: any | null;
+  currentWeek: (Omit<ProgramWeek, "tasks"> & { clientProgramId: string }) | null;
+  nextTask: ProgramTask | null;
   nextAppointment: any | null;
   unreadChatCount: number;
 }
@@ -86,7 +88,7 @@ function CustomSlider({ label, value, locked, onValueChange, onLockToggle, type,
           style={[
             styles.sliderFill,
             {
-              width: `${value}%`,
+              width: `${(value / CHECKIN_SCALE_MAX) * 100}%`,
               backgroundColor: sliderColor,
             },
           ]}
@@ -95,7 +97,7 @@ function CustomSlider({ label, value, locked, onValueChange, onLockToggle, type,
       <Slider
         style={styles.slider}
         minimumValue={0}
-        maximumValue={100}
+        maximumValue={CHECKIN_SCALE_MAX}
         step={1}
         value={value}
         onValueChange={onValueChange}
@@ -123,9 +125,9 @@ export default function ClientHomeScreen() {
   const [checkinSaving, setCheckinSaving] = useState(false);
   const [checkinData, setCheckinData] = useState<CheckinData>({
     feeling_text: "",
-    energy: 50,
-    stress: 50,
-    sleep: 50,
+    energy: 5,
+    stress: 5,
+    sleep: 5,
     locked_energy: false,
     locked_stress: false,
     locked_sleep: false,
@@ -160,40 +162,26 @@ export default function ClientHomeScreen() {
   const fetchTodayCheckin = async () => {
     console.log("[Client] Fetching today's check-in");
     try {
-      const today = new Date().toISOString().split("T")[0];
-      const { data: session } = await supabase.auth.getSession();
-      
-      if (!session?.session?.user) {
-        console.error("[Client] No user session found");
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from("checkins")
-        .select("*")
-        .eq("user_id", session.session.user.id)
-        .eq("date", today)
-        .single();
-
-      if (error && error.code !== "PGRST116") {
-        console.error("[Client] Error fetching today's check-in", error);
-        return;
-      }
+      const today = toDateKey(new Date());
+      const [data] = await authenticatedGet<Checkin[]>(`/api/client/checkins?date=${today}`);
 
-      if (data) {
+      // The theme check-in can create today's row without the home screen metrics
+      if (data && data.energy !== null && data.stress !== null && data.sleep !== null) {
         console.log("[Client] Today's check-in found", data);
         setCheckinData({
           id: data.id,
-          feeling_text: data.feeling_text || "",
+          feeling_text: data.note || "",
           energy: data.energy,
           stress: data.stress,
           sleep: data.sleep,
-          locked_energy: data.locked_energy,
-          locked_stress: data.locked_stress,
-          locked_sleep: data.locked_sleep,
+          locked_energy: data.lockedEnergy,
+          locked_stress: data.lockedStress,
+          locked_sleep: data.lockedSleep,
         });
         setTodayCheckinSaved(true);
         setCheckinExpanded(false);
+      } else if (data) {
+        setCheckinData((current) => ({ ...current, id: data.id, feeling_text: data.note || "" }));
       }
     } catch (error: any) {
       console.error("[Client] Error fetching today's check-in", error);
@@ -204,42 +192,21 @@ export default function ClientHomeScreen() {
     console.log("[Client] Saving check-in", checkinData);
     setCheckinSaving(true);
     try {
-      const today = new Date().toISOString().split("T")[0];
-      const { data: session } = await supabase.auth.getSession();
-      
-      if (!session?.session?.user) {
-        showModal("Fout", "Je bent niet ingelogd");
-        return;
-      }
-
-      const upsertData = {
-        user_id: session.session.user.id,
-        date: today,
-        feeling_text: checkinData.feeling_text,
+      const data = await authenticatedPost<{ id: string }>("/api/client/checkins", {
+        date: toDateKey(new Date()),
+        note: checkinData.feeling_text,
         energy: checkinData.energy,
         stress: checkinData.stress,
         sleep: checkinData.sleep,
-        locked_energy: checkinData.locked_energy,
-        locked_stress: checkinData.locked_stress,
-        locked_sleep: checkinData.locked_sleep,
-        mood: 5,
-      };
-
-      const { data, error } = await supabase
-        .from("checkins")
-        .upsert(upsertData, {
-          onConflict: "user_id,date",
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error("[Client] Error saving check-in", error);
-        showModal("Fout", "Kon check-in niet opslaan");
-        return;
-      }
+        locked: {
+          energy: checkinData.locked_energy,
+          stress: checkinData.locked_stress,
+          sleep: checkinData.locked_sleep,
+        },
+      });
 
       console.log("[Client] Check-in saved successfully", data);
+      setCheckinData((current) => ({ ...current, id: data.id }));
       setTodayCheckinSaved(true);
       setCheckinExpanded(false);
       showModal("Opgeslagen ✓", "Je check-in is succesvol opgeslagen");
@@ -275,13 +242,21 @@ export default function ClientHomeScreen() {
       color: bcctColors.error,
       route: "/(app)/client/checkin" as const,
     },
+    {
+      id: "history",
+      title: "Mijn Voortgang",
+      description: "Bekijk je check-ins en inzichten",
+      icon: "insights" as const,
+      color: bcctColors.success,
+      route: "/(app)/client/history" as const,
+    },
     {
       id: "program",
       title: "Mijn Programma",
       description: "Ga verder met je coachingtraject",
       icon: "school" as const,
       color: bcctColors.primaryOrange,
-      route: null,
+      route: "/(app)/client/program" as const,
     },
     {
       id: "chat",
@@ -289,7 +264,7 @@ export default function ClientHomeScreen() {
       description: "Stuur een bericht naar je coach",
       icon: "chat" as const,
       color: bcctColors.gradientTeal,
-      route: null,
+      route: "/(app)/client/chat" as const,
     },
     {
       id: "appointments",
@@ -297,7 +272,7 @@ export default function ClientHomeScreen() {
       description: "Bekijk aankomende sessies",
       icon: "calendar-today" as const,
       color: bcctColors.primaryOrangeLight,
-      route: null,
+      route: "/(app)/client/appointments" as const,
     },
   ];
 
@@ -467,13 +442,7 @@ export default function ClientHomeScreen() {
               <TouchableOpacity
                 key={action.id}
                 style={[styles.actionCard, { backgroundColor: colors.card, borderColor: colors.border }]}
-                onPress={() => {
-                  if (action.route) {
-                    router.push(action.route);
-                  } else {
-                    console.log("Action pressed:", action.id);
-                  }
-                }}
+                onPress={() => router.push(action.route)}
               >
                 <View style={[styles.actionIcon, { backgroundColor: action.color + "20" }]}>
                   <IconSymbol
@@ -528,6 +497,27 @@ export default function ClientHomeScreen() {
                 </Text>
               </View>
             </View>
+            {homeData?.currentWeek && (
+              <>
+                <View style={[styles.divider, { backgroundColor: colors.border }]} />
+                <View style={styles.overviewItem}>
+                  <IconSymbol
+                    ios_icon_name="book"
+                    android_material_icon_name="school"
+                    size={24}
+                    color={bcctColors.gradientTeal}
+                  />
+                  <View style={styles.overviewText}>
+                    <Text style={[styles.overviewLabel, { color: bcctColors.textSecondary }]}>
+                      {`Programma · Week ${homeData.currentWeek.weekNumber}`}
+                    </Text>
+                    <Text style={[styles.overviewValue, { color: colors.text }]}>
+                      {homeData.nextTask ? homeData.nextTask.title : "Week afgerond"}
+                    </Text>
+                  </View>
+                </View>
+              </>
+            )}
             {homeData && homeData.unreadChatCount > 0 && (
               <>
                 <View style={[styles.divider, { backgroundColor: colors.border }]} />
@@ -0,0 +1,6 @@
+import React from "react";
+import NotificationSettings from "@/components/NotificationSettings";
+
+export default function ClientNotificationsScreen() {
+  return <NotificationSettings categories={["chatMessage", "appointmentReminder", "checkinReminder", "programUpdate"]} />;
+}
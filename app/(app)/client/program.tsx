@@ -0,0 +1,582 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import Modal from "react-native-modal";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import ProgramTaskPlayer from "@/components/ProgramTaskPlayer";
+import TaskCommentThread from "@/components/TaskCommentThread";
+import { authenticatedGet, authenticatedPost, parseApiError } from "@/utils/api";
+import {
+  ClientProgramProgress,
+  ClientProgramSummary,
+  formatUnlockDate,
+  PROGRAM_TASK_TYPE_LABELS,
+  ProgramTask,
+  ProgramWeek,
+  TaskComment,
+  TaskResponse,
+} from "@/utils/programs";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+export default function ClientProgramScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [programs, setPrograms] = useState<ClientProgramSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [program, setProgram] = useState<ClientProgramProgress | null>(null);
+  const [programLoading, setProgramLoading] = useState(false);
+  const [expandedWeekId, setExpandedWeekId] = useState<string | null>(null);
+  const [activeTask, setActiveTask] = useState<ProgramTask | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  useEffect(() => {
+    const fetchPrograms = async () => {
+      console.log("[ClientProgram] Fetching programs");
+      try {
+        const data = await authenticatedGet<ClientProgramSummary[]>("/api/client/programs");
+        console.log("[ClientProgram] Programs loaded", data.length);
+        setPrograms(data);
+        // Open the first program that is still running
+        const running = data.find((item) => !item.completedAt) || data[0];
+        setSelectedId(running ? running.id : null);
+      } catch (error: any) {
+        console.error("[ClientProgram] Error fetching programs", error);
+        showModal("Fout", "Kon programma's niet laden");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPrograms();
+  }, []);
+
+  const fetchProgram = useCallback(async () => {
+    if (!selectedId) return;
+
+    console.log("[ClientProgram] Fetching program progress", selectedId);
+    setProgramLoading(true);
+    try {
+      const data = await authenticatedGet<ClientProgramProgress>(`/api/client/programs/${selectedId}`);
+      setProgram(data);
+      setExpandedWeekId((current) =>
+        current && data.weeks.some((week) => week.id === current) ? current : data.currentWeek?.id ?? null
+      );
+    } catch (error: any) {
+      console.error("[ClientProgram] Error fetching program progress", error);
+      showModal("Fout", "Kon programma niet laden");
+    } finally {
+      setProgramLoading(false);
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    fetchProgram();
+  }, [fetchProgram]);
+
+  const completeTask = async (task: ProgramTask, responseJson: TaskResponse | null) => {
+    if (!program) return;
+
+    console.log("[ClientProgram] Completing task", task.id);
+    setSubmitting(true);
+    try {
+      const result = await authenticatedPost<{ id: string; programCompleted: boolean }>(
+        `/api/client/tasks/${task.id}/complete`,
+        { clientProgramId: program.id, responseJson }
+      );
+      console.log("[ClientProgram] Task completed", result);
+      setActiveTask(null);
+      await fetchProgram();
+      if (result.programCompleted && !program.completedAt) {
+        showModal("Gefeliciteerd!", `Je hebt ${program.title} helemaal afgerond.`);
+      }
+    } catch (error: any) {
+      console.error("[ClientProgram] Error completing task", error);
+      const { body } = parseApiError(error);
+      setActiveTask(null);
+      showModal(
+        "Fout",
+        body?.unlocksOn
+          ? `Deze week is beschikbaar vanaf ${formatUnlockDate(body.unlocksOn)}.`
+          : "Kon taak niet afronden"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const replyToFeedback = async (task: ProgramTask, content: string) => {
+    console.log("[ClientProgram] Replying to feedback", task.completionId);
+    try {
+      const comment = await authenticatedPost<TaskComment>(
+        `/api/client/task-completions/${task.completionId}/comments`,
+        { content }
+      );
+      setActiveTask((current) =>
+        current && current.id === task.id ? { ...current, comments: [...current.comments, comment] } : current
+      );
+      fetchProgram();
+    } catch (error: any) {
+      console.error("[ClientProgram] Error replying to feedback", error);
+      throw error;
+    }
+  };
+
+  const renderProgressBar = (done: number, total: number) => (
+    <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+      <View
+        style={[
+          styles.progressFill,
+          {
+            width: `${total > 0 ? Math.round((done / total) * 100) : 0}%`,
+            backgroundColor: done === total && total > 0 ? bcctColors.success : bcctColors.primaryOrange,
+          },
+        ]}
+      />
+    </View>
+  );
+
+  const renderTask = (week: ProgramWeek, task: ProgramTask) => {
+    const isNext = program?.nextTask?.id === task.id;
+    return (
+      <TouchableOpacity
+        key={task.id}
+        style={[
+          styles.taskRow,
+          { borderColor: isNext ? bcctColors.primaryOrange : colors.border },
+          isNext && { backgroundColor: bcctColors.primaryOrange + "10" },
+        ]}
+        onPress={() => setActiveTask(task)}
+        disabled={!week.unlocked}
+        activeOpacity={0.7}
+      >
+        <IconSymbol
+          ios_icon_name={task.completed ? "checkmark.circle.fill" : "circle"}
+          android_material_icon_name={task.completed ? "check-circle" : "radio-button-unchecked"}
+          size={24}
+          color={task.completed ? bcctColors.success : bcctColors.textSecondary}
+        />
+        <View style={styles.taskText}>
+          <Text style={[styles.taskTitle, { color: colors.text }]}>{task.title}</Text>
+          <Text style={[styles.taskMeta, { color: bcctColors.textSecondary }]}>
+            {PROGRAM_TASK_TYPE_LABELS[task.type]}
+            {isNext ? " · Volgende taak" : ""}
+            {task.comments.some((comment) => comment.authorRole === "coach") ? " · Feedback van je coach" : ""}
+          </Text>
+        </View>
+        <IconSymbol
+          ios_icon_name="chevron.right"
+          android_material_icon_name="chevron-right"
+          size={20}
+          color={bcctColors.textSecondary}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderWeek = (week: ProgramWeek) => {
+    const expanded = expandedWeekId === week.id;
+    const isCurrent = program?.currentWeek?.id === week.id;
+
+    return (
+      <View
+        key={week.id}
+        style={[
+          styles.weekCard,
+          { backgroundColor: colors.card, borderColor: isCurrent ? bcctColors.primaryOrange : colors.border },
+          !week.unlocked && styles.weekLocked,
+        ]}
+      >
+        <TouchableOpacity
+          style={styles.weekHeader}
+          onPress={() => setExpandedWeekId(expanded ? null : week.id)}
+          disabled={!week.unlocked}
+          activeOpacity={0.7}
+        >
+          <View style={styles.weekTitleBlock}>
+            <Text style={[styles.weekTitle, { color: colors.text }]}>
+              {`Week ${week.weekNumber}${week.title ? ` · ${week.title}` : ""}`}
+            </Text>
+            <Text style={[styles.weekMeta, { color: bcctColors.textSecondary }]}>
+              {week.unlocked
+                ? `${week.completedCount}/${week.taskCount} taken afgerond`
+                : `Beschikbaar vanaf ${formatUnlockDate(week.unlocksOn as string)}`}
+            </Text>
+          </View>
+          <IconSymbol
+            ios_icon_name={!week.unlocked ? "lock.fill" : week.completed ? "checkmark.seal.fill" : expanded ? "chevron.up" : "chevron.down"}
+            android_material_icon_name={!week.unlocked ? "lock" : week.completed ? "verified" : expanded ? "expand-less" : "expand-more"}
+            size={22}
+            color={week.completed ? bcctColors.success : bcctColors.textSecondary}
+          />
+        </TouchableOpacity>
+
+        {week.unlocked ? renderProgressBar(week.completedCount, week.taskCount) : null}
+
+        {expanded && week.unlocked ? (
+          <View style={styles.taskList}>
+            {week.tasks.length === 0 ? (
+              <Text style={[styles.weekMeta, { color: bcctColors.textSecondary }]}>Geen taken deze week</Text>
+            ) : (
+              week.tasks.map((task) => renderTask(week, task))
+            )}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+              <IconSymbol
+                ios_icon_name="chevron.left"
+                android_material_icon_name="arrow-back"
+                size={24}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+            <Text style={[styles.title, { color: colors.text }]}>Mijn programma</Text>
+            <Text style={[styles.subtitle, { color: colors.text, opacity: 0.7 }]}>
+              Werk week voor week aan je coachingtraject
+            </Text>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+            </View>
+          ) : programs.length === 0 ? (
+            <View style={styles.emptyState}>
+              <IconSymbol
+                ios_icon_name="book"
+                android_material_icon_name="school"
+                size={64}
+                color={bcctColors.textSecondary}
+              />
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>Nog geen programma</Text>
+              <Text style={[styles.emptyDescription, { color: bcctColors.textSecondary }]}>
+                Je coach heeft nog geen programma voor je klaargezet.
+              </Text>
+            </View>
+          ) : (
+            <>
+              {programs.length > 1 ? (
+                <View style={styles.chipRow}>
+                  {programs.map((item) => {
+                    const selected = item.id === selectedId;
+                    return (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={[
+                          styles.chip,
+                          { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                          selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                        ]}
+                        onPress={() => setSelectedId(item.id)}
+                      >
+                        <Text style={[styles.chipText, { color: colors.text }]}>
+                          {item.title}
+                          {item.completedAt ? " ✓" : ""}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ) : null}
+
+              {program ? (
+                <View style={[styles.programCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                  <View style={styles.programHeader}>
+                    <Text style={[styles.programTitle, { color: colors.text }]}>{program.title}</Text>
+                    {programLoading ? <ActivityIndicator size="small" color={bcctColors.primaryOrange} /> : null}
+                  </View>
+                  {program.description ? (
+                    <Text style={[styles.programDescription, { color: bcctColors.textSecondary }]}>
+                      {program.description}
+                    </Text>
+                  ) : null}
+                  {renderProgressBar(program.completedTaskCount, program.taskCount)}
+                  <Text style={[styles.weekMeta, { color: bcctColors.textSecondary }]}>
+                    {program.completedAt
+                      ? "Programma afgerond"
+                      : `${program.completedTaskCount}/${program.taskCount} taken afgerond`}
+                  </Text>
+                </View>
+              ) : null}
+
+              {program?.weeks.map(renderWeek)}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={activeTask !== null}
+        onBackdropPress={() => !submitting && setActiveTask(null)}
+        onBackButtonPress={() => !submitting && setActiveTask(null)}
+        animationIn="slideInUp"
+        animationOut="slideOutDown"
+        backdropOpacity={0.5}
+        style={styles.bottomModal}
+        avoidKeyboard
+      >
+        {activeTask ? (
+          <View style={[styles.taskModalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHandle} />
+            <Text style={[styles.taskMeta, { color: bcctColors.textSecondary }]}>
+              {PROGRAM_TASK_TYPE_LABELS[activeTask.type]}
+            </Text>
+            <Text style={[styles.taskModalTitle, { color: colors.text }]}>{activeTask.title}</Text>
+            <ScrollView contentContainerStyle={styles.taskModalScroll} keyboardShouldPersistTaps="handled">
+              <ProgramTaskPlayer
+                key={activeTask.id}
+                task={activeTask}
+                submitting={submitting}
+                onSubmit={(response) => completeTask(activeTask, response)}
+              />
+              {activeTask.completionId ? (
+                <View style={styles.feedbackSection}>
+                  <Text style={[styles.weekTitle, { color: colors.text }]}>Feedback</Text>
+                  {activeTask.comments.length === 0 ? (
+                    <Text style={[styles.weekMeta, { color: bcctColors.textSecondary }]}>
+                      Je coach heeft nog niet gereageerd.
+                    </Text>
+                  ) : null}
+                  <TaskCommentThread
+                    comments={activeTask.comments}
+                    viewerRole="client"
+                    placeholder="Stuur een bericht over deze taak…"
+                    onSend={(content) => replyToFeedback(activeTask, content)}
+                  />
+                </View>
+              ) : null}
+            </ScrollView>
+          </View>
+        ) : null}
+      </Modal>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.modalButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+  },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: "center",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyTitle: {
+    ...bcctTypography.h3,
+  },
+  emptyDescription: {
+    ...bcctTypography.body,
+    textAlign: "center",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  programCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 10,
+  },
+  programHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  programTitle: {
+    ...bcctTypography.h3,
+    flex: 1,
+  },
+  programDescription: {
+    ...bcctTypography.body,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  weekCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 10,
+  },
+  weekLocked: {
+    opacity: 0.6,
+  },
+  weekHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  weekTitleBlock: {
+    flex: 1,
+    gap: 2,
+  },
+  weekTitle: {
+    ...bcctTypography.bodySemiBold,
+  },
+  weekMeta: {
+    ...bcctTypography.small,
+  },
+  taskList: {
+    gap: 8,
+    marginTop: 4,
+  },
+  taskRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  taskText: {
+    flex: 1,
+    gap: 2,
+  },
+  taskTitle: {
+    ...bcctTypography.bodyMedium,
+  },
+  taskMeta: {
+    ...bcctTypography.small,
+  },
+  bottomModal: {
+    justifyContent: "flex-end",
+    margin: 0,
+  },
+  taskModalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: "90%",
+  },
+  modalHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: "#ccc",
+    borderRadius: 2,
+    alignSelf: "center",
+    marginBottom: 16,
+  },
+  taskModalTitle: {
+    ...bcctTypography.h3,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  taskModalScroll: {
+    paddingBottom: 24,
+  },
+  feedbackSection: {
+    marginTop: 24,
+    gap: 8,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    alignItems: "center",
+  },
+  modalTitle: {
+    ...bcctTypography.h3,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    ...bcctTypography.body,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  modalButton: {
+    borderRadius: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    minWidth: 100,
+  },
+  modalButtonText: {
+    color: "#fff",
+    ...bcctTypography.button,
+    textAlign: "center",
+  },
+});
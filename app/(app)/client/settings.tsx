@@ -111,7 +111,12 @@ export default function SettingsScreen() {
               <TouchableOpacity
                 key={option.id}
                 style={[styles.settingItem, { backgroundColor: colors.card }]}
-                onPress={() => console.log("Setting pressed:", option.id)}
+                onPress={() => {
+                  console.log("Setting pressed:", option.id);
+                  if (option.id === "notifications") {
+                    router.push("/(app)/client/notifications" as any);
+                  }
+                }}
               >
                 <View style={[styles.settingIcon, { backgroundColor: option.color + "20" }]}>
                   <IconSymbol
@@ -1,45 +1,731 @@
 
-import React from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
 } from "react-native";
+import Modal from "react-native-modal";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "@react-navigation/native";
 import { IconSymbol } from "@/components/IconSymbol";
+import { useRouter } from "expo-router";
+import { authenticatedGet, authenticatedPost, authenticatedPut, parseApiError } from "@/utils/api";
+import {
+  Appointment,
+  AppointmentStatus,
+  APPOINTMENT_STATUS_COLORS,
+  APPOINTMENT_STATUS_LABELS,
+  DEFAULT_DURATION_MINUTES,
+  DEFAULT_SERIES_COUNT,
+  DURATION_OPTIONS,
+  MAX_SERIES_COUNT,
+  RECURRENCE_LABELS,
+  RecurrenceFrequency,
+  addDays,
+  describeSlotRejection,
+  formatDayLabel,
+  formatTime,
+  formatTimeRange,
+  openCalendarSubscription,
+  parseLocalDateTime,
+  startOfDay,
+  startOfWeek,
+  toDateKey,
+} from "@/utils/appointments";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+import { LinearGradient } from "expo-linear-gradient";
+
+type ViewMode = "day" | "week";
+
+type EditScope = "this" | "following";
+
+interface FreeSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+interface ClientOption {
+  clientId: string;
+  clientName: string | null;
+  clientEmail: string | null;
+}
+
+// Largest page the client list endpoint returns
+const CLIENTS_PAGE_SIZE = 200;
 
 export default function CoachAppointmentsScreen() {
   const { colors } = useTheme();
+  const router = useRouter();
+  const [viewMode, setViewMode] = useState<ViewMode>("week");
+  const [anchorDate, setAnchorDate] = useState(() => startOfDay(new Date()));
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
 
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
-      <ScrollView contentContainerStyle={styles.scrollContent}>
-        <View style={styles.header}>
-          <Text style={[styles.headerTitle, { color: colors.text }]}>Afspraken</Text>
+  const [formVisible, setFormVisible] = useState(false);
+  const [editing, setEditing] = useState<Appointment | null>(null);
+  const [formClientId, setFormClientId] = useState<string | null>(null);
+  const [formDate, setFormDate] = useState("");
+  const [formTime, setFormTime] = useState("");
+  const [formDuration, setFormDuration] = useState(DEFAULT_DURATION_MINUTES);
+  const [formNotes, setFormNotes] = useState("");
+  const [formRecurrence, setFormRecurrence] = useState<RecurrenceFrequency | null>(null);
+  const [formSeriesCount, setFormSeriesCount] = useState(`${DEFAULT_SERIES_COUNT}`);
+  const [formScope, setFormScope] = useState<EditScope>("this");
+  const [saving, setSaving] = useState(false);
+  const [freeSlots, setFreeSlots] = useState<FreeSlot[]>([]);
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  const rangeStart = viewMode === "week" ? startOfWeek(anchorDate) : anchorDate;
+  const rangeDays = viewMode === "week" ? 7 : 1;
+  const rangeEnd = addDays(rangeStart, rangeDays);
+  const rangeStartKey = toDateKey(rangeStart);
+
+  const fetchAppointments = useCallback(async () => {
+    const from = new Date(`${rangeStartKey}T00:00:00`);
+    const to = addDays(from, rangeDays);
+    console.log("[Coach Appointments] Fetching appointments", from.toISOString(), to.toISOString());
+    try {
+      const data = await authenticatedGet<Appointment[]>(
+        `/api/coach/appointments?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`
+      );
+      setAppointments(data);
+    } catch (error: any) {
+      console.error("[Coach Appointments] Error fetching appointments", error);
+      showModal("Fout", "Kon afspraken niet laden");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [rangeStartKey, rangeDays]);
+
+  useEffect(() => {
+    fetchAppointments();
+  }, [fetchAppointments]);
+
+  useEffect(() => {
+    fetchClients();
+  }, []);
+
+  const fetchClients = async () => {
+    console.log("[Coach Appointments] Fetching clients");
+    try {
+      // The list endpoint is paged, so keep fetching until every client is loaded
+      const all: ClientOption[] = [];
+      let total = Infinity;
+      while (all.length < total) {
+        const data = await authenticatedGet<{ clients: ClientOption[]; total: number }>(
+          `/api/coach/clients?sort=name&limit=${CLIENTS_PAGE_SIZE}&offset=${all.length}`
+        );
+        all.push(...data.clients);
+        total = data.total;
+        if (data.clients.length === 0) break;
+      }
+      setClients(all);
+    } catch (error: any) {
+      console.error("[Coach Appointments] Error fetching clients", error);
+    }
+  };
+
+  // Suggest free times for the selected day while the form is open
+  useEffect(() => {
+    if (!formVisible || !/^\d{4}-\d{2}-\d{2}$/.test(formDate)) {
+      setFreeSlots([]);
+      return;
+    }
+
+    const fetchFreeSlots = async () => {
+      try {
+        const data = await authenticatedGet<{ days: { date: string; slots: FreeSlot[] }[] }>(
+          `/api/coach/availability/free-slots?from=${formDate}&to=${formDate}&durationMinutes=${formDuration}`
+        );
+        setFreeSlots(data.days[0]?.slots || []);
+      } catch (error: any) {
+        console.error("[Coach Appointments] Error fetching free slots", error);
+        setFreeSlots([]);
+      }
+    };
+
+    fetchFreeSlots();
+  }, [formVisible, formDate, formDuration]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchAppointments();
+  };
+
+  const shiftRange = (direction: number) => {
+    setAnchorDate((current) => addDays(current, direction * rangeDays));
+  };
+
+  const openCreateForm = (day?: Date) => {
+    const date = day || anchorDate;
+    setEditing(null);
+    setFormClientId(clients.length === 1 ? clients[0].clientId : null);
+    setFormDate(toDateKey(date));
+    setFormTime("09:00");
+    setFormDuration(DEFAULT_DURATION_MINUTES);
+    setFormNotes("");
+    setFormRecurrence(null);
+    setFormSeriesCount(`${DEFAULT_SERIES_COUNT}`);
+    setFormVisible(true);
+  };
+
+  const openRescheduleForm = (appointment: Appointment) => {
+    const start = new Date(appointment.scheduledAt);
+    setEditing(appointment);
+    setFormClientId(appointment.clientId);
+    setFormDate(toDateKey(start));
+    setFormTime(formatTime(start));
+    setFormDuration(appointment.durationMinutes || DEFAULT_DURATION_MINUTES);
+    setFormNotes(appointment.notes || "");
+    setFormScope("this");
+    setFormVisible(true);
+  };
+
+  const saveAppointment = async () => {
+    if (!formClientId) {
+      showModal("Fout", "Kies een cliënt voor de afspraak");
+      return;
+    }
+
+    const scheduledAt = parseLocalDateTime(formDate, formTime);
+    if (!scheduledAt) {
+      showModal("Fout", "Vul een geldige datum (JJJJ-MM-DD) en tijd (UU:MM) in");
+      return;
+    }
+
+    const seriesCount = parseInt(formSeriesCount, 10);
+    if (!editing && formRecurrence && (isNaN(seriesCount) || seriesCount < 2 || seriesCount > MAX_SERIES_COUNT)) {
+      showModal("Fout", `Kies tussen 2 en ${MAX_SERIES_COUNT} sessies voor de reeks`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        console.log("[Coach Appointments] Rescheduling appointment", editing.id, formScope);
+        await authenticatedPut(`/api/coach/appointments/${editing.id}`, {
+          scheduledAt: scheduledAt.toISOString(),
+          durationMinutes: formDuration,
+          notes: formNotes.trim() || null,
+          scope: editing.seriesId ? formScope : "this",
+        });
+      } else {
+        console.log("[Coach Appointments] Creating appointment for client", formClientId, formRecurrence);
+        await authenticatedPost("/api/coach/appointments", {
+          clientId: formClientId,
+          scheduledAt: scheduledAt.toISOString(),
+          durationMinutes: formDuration,
+          notes: formNotes.trim() || null,
+          recurrence: formRecurrence ? { frequency: formRecurrence, count: seriesCount } : null,
+        });
+      }
+
+      setFormVisible(false);
+      setAnchorDate(startOfDay(scheduledAt));
+      fetchAppointments();
+    } catch (error: any) {
+      console.error("[Coach Appointments] Error saving appointment", error);
+      const { body } = parseApiError(error);
+      showModal("Fout", describeSlotRejection(body) || "Kon afspraak niet opslaan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateStatus = async (appointment: Appointment, status: AppointmentStatus) => {
+    console.log("[Coach Appointments] Updating status", appointment.id, status);
+    try {
+      await authenticatedPut(`/api/coach/appointments/${appointment.id}`, { status });
+      setAppointments((current) =>
+        current.map((a) => (a.id === appointment.id ? { ...a, status } : a))
+      );
+    } catch (error: any) {
+      console.error("[Coach Appointments] Error updating status", error);
+      showModal("Fout", "Kon status van de afspraak niet wijzigen");
+    }
+  };
+
+  const respondToRequest = async (appointment: Appointment, action: "approve" | "decline") => {
+    console.log("[Coach Appointments] Responding to request", appointment.id, action);
+    try {
+      const updated = await authenticatedPut<{ id: string; status: AppointmentStatus }>(
+        `/api/coach/appointments/${appointment.id}/${action}`,
+        {}
+      );
+      setAppointments((current) =>
+        current.map((a) => (a.id === appointment.id ? { ...a, status: updated.status } : a))
+      );
+    } catch (error: any) {
+      console.error("[Coach Appointments] Error responding to request", error);
+      const { body } = parseApiError(error);
+      showModal("Fout", describeSlotRejection(body) || "Kon aanvraag niet verwerken");
+    }
+  };
+
+  const connectCalendar = async () => {
+    console.log("[Coach Appointments] Connecting calendar feed");
+    try {
+      await openCalendarSubscription();
+    } catch (error: any) {
+      console.error("[Coach Appointments] Error connecting calendar", error);
+      showModal("Fout", "Kon agenda niet koppelen");
+    }
+  };
+
+  const days = Array.from({ length: rangeDays }, (_, index) => addDays(rangeStart, index));
+  const rangeLabel =
+    viewMode === "week"
+      ? `${rangeStart.toLocaleDateString("nl-NL", { day: "numeric", month: "short" })} – ${addDays(rangeEnd, -1).toLocaleDateString("nl-NL", { day: "numeric", month: "short" })}`
+      : formatDayLabel(rangeStart);
+
+  const renderAppointment = (appointment: Appointment) => {
+    const statusColor = APPOINTMENT_STATUS_COLORS[appointment.status];
+    const isScheduled = appointment.status === "scheduled";
+
+    return (
+      <View
+        key={appointment.id}
+        style={[
+          styles.appointmentCard,
+          { backgroundColor: colors.card, borderColor: colors.border, borderLeftColor: statusColor },
+        ]}
+      >
+        <View style={styles.appointmentHeader}>
+          <Text style={[styles.appointmentTime, { color: colors.text }]}>
+            {formatTimeRange(appointment)}
+          </Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusColor + "20" }]}>
+            <Text style={[styles.statusBadgeText, { color: statusColor }]}>
+              {APPOINTMENT_STATUS_LABELS[appointment.status]}
+            </Text>
+          </View>
         </View>
+        <Text style={[styles.appointmentClient, { color: colors.text }]}>
+          {appointment.clientName || appointment.clientEmail || "Cliënt"}
+        </Text>
+        <Text style={[styles.appointmentMeta, { color: bcctColors.textSecondary }]}>
+          {appointment.durationMinutes || DEFAULT_DURATION_MINUTES} minuten
+          {appointment.seriesId ? " · Onderdeel van een reeks" : ""}
+        </Text>
+        {appointment.notes ? (
+          <Text style={[styles.appointmentNotes, { color: bcctColors.textSecondary }]}>
+            {appointment.notes}
+          </Text>
+        ) : null}
 
-        <View style={styles.emptyState}>
-          <View style={[styles.emptyIconContainer, { backgroundColor: bcctColors.primaryOrange + "20" }]}>
-            <IconSymbol
-              ios_icon_name="calendar"
-              android_material_icon_name="event"
-              size={48}
-              color={bcctColors.primaryOrange}
-            />
+        {appointment.status === "requested" ? (
+          <View style={styles.appointmentActions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => respondToRequest(appointment, "approve")}>
+              <Text style={[styles.actionButtonText, { color: bcctColors.success }]}>Goedkeuren</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => respondToRequest(appointment, "decline")}>
+              <Text style={[styles.actionButtonText, { color: bcctColors.error }]}>Afwijzen</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {isScheduled ? (
+          <View style={styles.appointmentActions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => openRescheduleForm(appointment)}>
+              <Text style={[styles.actionButtonText, { color: bcctColors.primaryOrange }]}>Verplaatsen</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => updateStatus(appointment, "completed")}>
+              <Text style={[styles.actionButtonText, { color: bcctColors.success }]}>Afronden</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={() => updateStatus(appointment, "cancelled")}>
+              <Text style={[styles.actionButtonText, { color: bcctColors.error }]}>Annuleren</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          <View style={styles.header}>
+            <Text style={[styles.headerTitle, { color: colors.text }]}>Afspraken</Text>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={[styles.availabilityButton, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={connectCalendar}
+              >
+                <IconSymbol
+                  ios_icon_name="calendar.badge.plus"
+                  android_material_icon_name="event"
+                  size={22}
+                  color={colors.text}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.availabilityButton, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() => router.push("/(app)/coach/availability" as any)}
+              >
+                <IconSymbol
+                  ios_icon_name="clock"
+                  android_material_icon_name="schedule"
+                  size={22}
+                  color={colors.text}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.addButton, { backgroundColor: bcctColors.primaryOrange }]}
+                onPress={() => openCreateForm()}
+              >
+                <IconSymbol
+                  ios_icon_name="plus"
+                  android_material_icon_name="add"
+                  size={24}
+                  color="#FFFFFF"
+                />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={[styles.segmented, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            {(["day", "week"] as ViewMode[]).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.segment, viewMode === mode && { backgroundColor: bcctColors.primaryOrange }]}
+                onPress={() => setViewMode(mode)}
+              >
+                <Text style={[styles.segmentText, { color: viewMode === mode ? "#FFFFFF" : colors.text }]}>
+                  {mode === "day" ? "Dag" : "Week"}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
-          <Text style={[styles.emptyTitle, { color: colors.text }]}>Binnenkort beschikbaar</Text>
-          <Text style={[styles.emptyText, { color: bcctColors.textSecondary }]}>
-            Hier kun je binnenkort afspraken plannen en beheren met je cliënten.
+
+          <View style={styles.rangeRow}>
+            <TouchableOpacity style={styles.rangeButton} onPress={() => shiftRange(-1)}>
+              <IconSymbol
+                ios_icon_name="chevron.left"
+                android_material_icon_name="chevron-left"
+                size={24}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.rangeLabelContainer} onPress={() => setAnchorDate(startOfDay(new Date()))}>
+              <Text style={[styles.rangeLabel, { color: colors.text }]}>{rangeLabel}</Text>
+              <Text style={[styles.todayLink, { color: bcctColors.primaryOrange }]}>Vandaag</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.rangeButton} onPress={() => shiftRange(1)}>
+              <IconSymbol
+                ios_icon_name="chevron.right"
+                android_material_icon_name="chevron-right"
+                size={24}
+                color={colors.text}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+            </View>
+          ) : (
+            days.map((day) => {
+              const dayKey = toDateKey(day);
+              const dayAppointments = appointments.filter(
+                (a) => toDateKey(new Date(a.scheduledAt)) === dayKey
+              );
+              const isToday = dayKey === toDateKey(new Date());
+
+              return (
+                <View key={dayKey} style={styles.daySection}>
+                  {viewMode === "week" ? (
+                    <View style={styles.dayHeader}>
+                      <Text
+                        style={[
+                          styles.dayTitle,
+                          { color: isToday ? bcctColors.primaryOrange : colors.text },
+                        ]}
+                      >
+                        {formatDayLabel(day)}
+                      </Text>
+                      <TouchableOpacity onPress={() => openCreateForm(day)}>
+                        <IconSymbol
+                          ios_icon_name="plus.circle"
+                          android_material_icon_name="add-circle-outline"
+                          size={22}
+                          color={bcctColors.primaryOrange}
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  ) : null}
+
+                  {dayAppointments.length === 0 ? (
+                    <Text style={[styles.emptyDayText, { color: bcctColors.textSecondary }]}>
+                      Geen afspraken
+                    </Text>
+                  ) : (
+                    dayAppointments.map(renderAppointment)
+                  )}
+                </View>
+              );
+            })
+          )}
+
+          {/* Bottom padding for tab bar */}
+          <View style={{ height: 100 }} />
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={formVisible}
+        onBackdropPress={() => setFormVisible(false)}
+        onBackButtonPress={() => setFormVisible(false)}
+        animationIn="slideInUp"
+        animationOut="slideOutDown"
+        backdropOpacity={0.5}
+        style={styles.bottomModal}
+        avoidKeyboard
+      >
+        <View style={[styles.formModalContent, { backgroundColor: colors.card }]}>
+          <View style={styles.modalHandle} />
+          <Text style={[styles.formTitle, { color: colors.text }]}>
+            {editing ? "Afspraak wijzigen" : "Nieuwe afspraak"}
           </Text>
+
+          <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Cliënt</Text>
+            {editing ? (
+              <Text style={[styles.formValue, { color: colors.text }]}>
+                {editing.clientName || editing.clientEmail}
+              </Text>
+            ) : clients.length === 0 ? (
+              <Text style={[styles.formValue, { color: bcctColors.textSecondary }]}>
+                Je hebt nog geen cliënten gekoppeld.
+              </Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {clients.map((client) => {
+                  const selected = client.clientId === formClientId;
+                  return (
+                    <TouchableOpacity
+                      key={client.clientId}
+                      style={[
+                        styles.chip,
+                        { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                        selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                      ]}
+                      onPress={() => setFormClientId(client.clientId)}
+                    >
+                      <Text style={[styles.chipText, { color: colors.text }]}>
+                        {client.clientName || client.clientEmail}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            <View style={styles.formRow}>
+              <View style={styles.formColumn}>
+                <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Datum</Text>
+                <TextInput
+                  style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                  value={formDate}
+                  onChangeText={setFormDate}
+                  placeholder="JJJJ-MM-DD"
+                  placeholderTextColor={bcctColors.textSecondary}
+                />
+              </View>
+              <View style={styles.formColumn}>
+                <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Tijd</Text>
+                <TextInput
+                  style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                  value={formTime}
+                  onChangeText={setFormTime}
+                  placeholder="UU:MM"
+                  placeholderTextColor={bcctColors.textSecondary}
+                />
+              </View>
+            </View>
+
+            {freeSlots.length > 0 ? (
+              <>
+                <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Vrije tijden</Text>
+                <View style={styles.chipRow}>
+                  {freeSlots.map((slot) => {
+                    const slotTime = formatTime(new Date(slot.startsAt));
+                    const selected = slotTime === formTime;
+                    return (
+                      <TouchableOpacity
+                        key={slot.startsAt}
+                        style={[
+                          styles.chip,
+                          { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                          selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                        ]}
+                        onPress={() => setFormTime(slotTime)}
+                      >
+                        <Text style={[styles.chipText, { color: colors.text }]}>{slotTime}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            ) : null}
+
+            <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Duur</Text>
+            <View style={styles.chipRow}>
+              {DURATION_OPTIONS.map((minutes) => {
+                const selected = minutes === formDuration;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[
+                      styles.chip,
+                      { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                      selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                    ]}
+                    onPress={() => setFormDuration(minutes)}
+                  >
+                    <Text style={[styles.chipText, { color: colors.text }]}>{minutes} min</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {editing?.seriesId ? (
+              <>
+                <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Wijzigen voor</Text>
+                <View style={styles.chipRow}>
+                  {(["this", "following"] as EditScope[]).map((scope) => {
+                    const selected = scope === formScope;
+                    return (
+                      <TouchableOpacity
+                        key={scope}
+                        style={[
+                          styles.chip,
+                          { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                          selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                        ]}
+                        onPress={() => setFormScope(scope)}
+                      >
+                        <Text style={[styles.chipText, { color: colors.text }]}>
+                          {scope === "this" ? "Alleen deze sessie" : "Deze en volgende"}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </>
+            ) : null}
+
+            {!editing ? (
+              <>
+                <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Herhalen</Text>
+                <View style={styles.chipRow}>
+                  {([null, "weekly", "biweekly", "monthly"] as (RecurrenceFrequency | null)[]).map((frequency) => {
+                    const selected = frequency === formRecurrence;
+                    return (
+                      <TouchableOpacity
+                        key={frequency || "once"}
+                        style={[
+                          styles.chip,
+                          { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                          selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                        ]}
+                        onPress={() => setFormRecurrence(frequency)}
+                      >
+                        <Text style={[styles.chipText, { color: colors.text }]}>
+                          {frequency ? RECURRENCE_LABELS[frequency] : "Eenmalig"}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {formRecurrence ? (
+                  <>
+                    <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Aantal sessies</Text>
+                    <TextInput
+                      style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                      value={formSeriesCount}
+                      onChangeText={setFormSeriesCount}
+                      keyboardType="number-pad"
+                      placeholder={`${DEFAULT_SERIES_COUNT}`}
+                      placeholderTextColor={bcctColors.textSecondary}
+                    />
+                  </>
+                ) : null}
+              </>
+            ) : null}
+
+            <Text style={[styles.formLabel, { color: bcctColors.textSecondary }]}>Notities</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput, { color: colors.text, borderColor: colors.border }]}
+              value={formNotes}
+              onChangeText={setFormNotes}
+              placeholder="Bijv. onderwerp of locatie"
+              placeholderTextColor={bcctColors.textSecondary}
+              multiline
+            />
+          </ScrollView>
+
+          <TouchableOpacity onPress={saveAppointment} disabled={saving}>
+            <LinearGradient
+              colors={[bcctColors.primaryOrange, bcctColors.primaryOrangeDark]}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 0 }}
+              style={styles.saveButton}
+            >
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>
+                  {editing ? "Opslaan" : formRecurrence ? "Reeks plannen" : "Afspraak plannen"}
+                </Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
         </View>
+      </Modal>
 
-        {/* Bottom padding for tab bar */}
-        <View style={{ height: 100 }} />
-      </ScrollView>
-    </SafeAreaView>
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.modalButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
   );
 }
 
@@ -50,34 +736,236 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: 20,
   },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: "center",
+  },
   header: {
-    marginBottom: 32,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 20,
     marginTop: 8,
   },
   headerTitle: {
     ...bcctTypography.h1,
   },
-  emptyState: {
-    flex: 1,
+  headerActions: {
+    flexDirection: "row",
     alignItems: "center",
+    gap: 8,
+  },
+  availabilityButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
     justifyContent: "center",
-    paddingVertical: 80,
-    gap: 16,
+    alignItems: "center",
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  segmented: {
+    flexDirection: "row",
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 4,
+    marginBottom: 16,
   },
-  emptyIconContainer: {
-    width: 96,
-    height: 96,
-    borderRadius: 48,
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  segmentText: {
+    ...bcctTypography.bodyMedium,
+  },
+  rangeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  rangeButton: {
+    width: 40,
+    height: 40,
     justifyContent: "center",
     alignItems: "center",
+  },
+  rangeLabelContainer: {
+    flex: 1,
+    alignItems: "center",
+  },
+  rangeLabel: {
+    ...bcctTypography.bodySemiBold,
+  },
+  todayLink: {
+    ...bcctTypography.small,
+  },
+  daySection: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  dayTitle: {
+    ...bcctTypography.bodySemiBold,
+    textTransform: "capitalize",
+  },
+  emptyDayText: {
+    ...bcctTypography.small,
+  },
+  appointmentCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderLeftWidth: 4,
+    gap: 4,
+  },
+  appointmentHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  appointmentTime: {
+    ...bcctTypography.bodySemiBold,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    ...bcctTypography.small,
+    fontSize: 12,
+  },
+  appointmentClient: {
+    ...bcctTypography.bodyMedium,
+  },
+  appointmentMeta: {
+    ...bcctTypography.small,
+  },
+  appointmentNotes: {
+    ...bcctTypography.small,
+    fontStyle: "italic",
+  },
+  appointmentActions: {
+    flexDirection: "row",
+    gap: 16,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingVertical: 4,
+  },
+  actionButtonText: {
+    ...bcctTypography.smallMedium,
+  },
+  bottomModal: {
+    justifyContent: "flex-end",
+    margin: 0,
+  },
+  formModalContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 24,
+    maxHeight: "85%",
+  },
+  modalHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: "#ccc",
+    borderRadius: 2,
+    alignSelf: "center",
+    marginBottom: 16,
+  },
+  formTitle: {
+    ...bcctTypography.h3,
+    marginBottom: 8,
+  },
+  formScroll: {
+    marginBottom: 16,
+  },
+  formLabel: {
+    ...bcctTypography.label,
+    marginTop: 16,
     marginBottom: 8,
   },
-  emptyTitle: {
-    ...bcctTypography.h2,
+  formValue: {
+    ...bcctTypography.body,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    ...bcctTypography.body,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    ...bcctTypography.button,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    alignItems: "center",
   },
-  emptyText: {
+  modalTitle: {
+    ...bcctTypography.h3,
+    marginBottom: 12,
+  },
+  modalMessage: {
     ...bcctTypography.body,
     textAlign: "center",
-    maxWidth: 280,
+    marginBottom: 24,
+  },
+  modalButton: {
+    borderRadius: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    minWidth: 100,
+  },
+  modalButtonText: {
+    color: "#fff",
+    ...bcctTypography.button,
+    textAlign: "center",
   },
 });
@@ -0,0 +1,526 @@
+
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from "react-native";
+import Modal from "react-native-modal";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useTheme } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { authenticatedGet, authenticatedPut, authenticatedPost, authenticatedDelete } from "@/utils/api";
+import { addDays, formatDayLabel, parseLocalDateTime } from "@/utils/appointments";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+import { LinearGradient } from "expo-linear-gradient";
+
+interface WorkingHours {
+  weekday: number;
+  startTime: string;
+  endTime: string;
+}
+
+interface AvailabilityException {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+// Monday-first display order; weekday numbers follow JavaScript (0 = Sunday)
+const WEEKDAYS = [
+  { weekday: 1, label: "Maandag" },
+  { weekday: 2, label: "Dinsdag" },
+  { weekday: 3, label: "Woensdag" },
+  { weekday: 4, label: "Donderdag" },
+  { weekday: 5, label: "Vrijdag" },
+  { weekday: 6, label: "Zaterdag" },
+  { weekday: 0, label: "Zondag" },
+];
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function CoachAvailabilityScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [timezone, setTimezone] = useState("");
+  const [hours, setHours] = useState<WorkingHours[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+
+  const [exceptionFrom, setExceptionFrom] = useState("");
+  const [exceptionTo, setExceptionTo] = useState("");
+  const [exceptionReason, setExceptionReason] = useState("");
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  useEffect(() => {
+    fetchAvailability();
+  }, []);
+
+  const fetchAvailability = async () => {
+    console.log("[Coach Availability] Fetching availability");
+    try {
+      const data = await authenticatedGet<{
+        timezone: string;
+        hours: WorkingHours[];
+        exceptions: AvailabilityException[];
+      }>("/api/coach/availability");
+
+      setTimezone(data.timezone);
+      // Postgres returns HH:MM:SS, the editor works with HH:MM
+      setHours(
+        data.hours.map((h) => ({
+          weekday: h.weekday,
+          startTime: h.startTime.slice(0, 5),
+          endTime: h.endTime.slice(0, 5),
+        }))
+      );
+      setExceptions(data.exceptions);
+      setLoadError(false);
+    } catch (error: any) {
+      console.error("[Coach Availability] Error fetching availability", error);
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addWindow = (weekday: number) => {
+    setHours((current) => [...current, { weekday, startTime: "09:00", endTime: "17:00" }]);
+  };
+
+  const updateWindow = (index: number, field: "startTime" | "endTime", value: string) => {
+    setHours((current) => current.map((h, i) => (i === index ? { ...h, [field]: value } : h)));
+  };
+
+  const removeWindow = (index: number) => {
+    setHours((current) => current.filter((_, i) => i !== index));
+  };
+
+  const saveHours = async () => {
+    const invalid = hours.find(
+      (h) => !TIME_REGEX.test(h.startTime) || !TIME_REGEX.test(h.endTime) || h.startTime >= h.endTime
+    );
+    if (invalid) {
+      showModal("Fout", "Controleer je werktijden: gebruik UU:MM en zorg dat de begintijd voor de eindtijd ligt.");
+      return;
+    }
+
+    console.log("[Coach Availability] Saving working hours", hours.length);
+    setSaving(true);
+    try {
+      await authenticatedPut("/api/coach/availability", { hours });
+      showModal("Opgeslagen", "Je werktijden zijn bijgewerkt.");
+    } catch (error: any) {
+      console.error("[Coach Availability] Error saving working hours", error);
+      showModal("Fout", "Kon werktijden niet opslaan. Controleer of tijden elkaar niet overlappen.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addException = async () => {
+    const start = parseLocalDateTime(exceptionFrom, "00:00");
+    const lastDay = parseLocalDateTime(exceptionTo || exceptionFrom, "00:00");
+    if (!start || !lastDay || lastDay < start) {
+      showModal("Fout", "Vul een geldige periode in (JJJJ-MM-DD)");
+      return;
+    }
+
+    console.log("[Coach Availability] Blocking period", exceptionFrom, exceptionTo);
+    try {
+      await authenticatedPost("/api/coach/availability/exceptions", {
+        startsAt: start.toISOString(),
+        endsAt: addDays(lastDay, 1).toISOString(),
+        reason: exceptionReason.trim() || null,
+      });
+      setExceptionFrom("");
+      setExceptionTo("");
+      setExceptionReason("");
+      fetchAvailability();
+    } catch (error: any) {
+      console.error("[Coach Availability] Error blocking period", error);
+      showModal("Fout", "Kon periode niet blokkeren");
+    }
+  };
+
+  const removeException = async (exception: AvailabilityException) => {
+    console.log("[Coach Availability] Removing exception", exception.id);
+    try {
+      await authenticatedDelete(`/api/coach/availability/exceptions/${exception.id}`);
+      setExceptions((current) => current.filter((e) => e.id !== exception.id));
+    } catch (error: any) {
+      console.error("[Coach Availability] Error removing exception", error);
+      showModal("Fout", "Kon periode niet verwijderen");
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="arrow-back"
+              size={24}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Beschikbaarheid</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {loadError ? (
+            <Text style={[styles.mutedText, { color: bcctColors.error }]}>
+              Kon beschikbaarheid niet laden. Probeer het later opnieuw.
+            </Text>
+          ) : null}
+
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Werktijden</Text>
+            <Text style={[styles.cardSubtitle, { color: bcctColors.textSecondary }]}>
+              Afspraken kunnen alleen binnen deze tijden worden gepland ({timezone}).
+            </Text>
+
+            {WEEKDAYS.map(({ weekday, label }) => {
+              const windows = hours
+                .map((h, index) => ({ ...h, index }))
+                .filter((h) => h.weekday === weekday);
+
+              return (
+                <View key={weekday} style={[styles.dayRow, { borderTopColor: colors.border }]}>
+                  <View style={styles.dayHeader}>
+                    <Text style={[styles.dayLabel, { color: colors.text }]}>{label}</Text>
+                    <TouchableOpacity onPress={() => addWindow(weekday)}>
+                      <Text style={[styles.linkText, { color: bcctColors.primaryOrange }]}>+ Tijdvak</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {windows.length === 0 ? (
+                    <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>Niet beschikbaar</Text>
+                  ) : (
+                    windows.map((window) => (
+                      <View key={window.index} style={styles.windowRow}>
+                        <TextInput
+                          style={[styles.timeInput, { color: colors.text, borderColor: colors.border }]}
+                          value={window.startTime}
+                          onChangeText={(value) => updateWindow(window.index, "startTime", value)}
+                          placeholder="09:00"
+                          placeholderTextColor={bcctColors.textSecondary}
+                        />
+                        <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>tot</Text>
+                        <TextInput
+                          style={[styles.timeInput, { color: colors.text, borderColor: colors.border }]}
+                          value={window.endTime}
+                          onChangeText={(value) => updateWindow(window.index, "endTime", value)}
+                          placeholder="17:00"
+                          placeholderTextColor={bcctColors.textSecondary}
+                        />
+                        <TouchableOpacity onPress={() => removeWindow(window.index)}>
+                          <IconSymbol
+                            ios_icon_name="trash"
+                            android_material_icon_name="delete"
+                            size={20}
+                            color={bcctColors.error}
+                          />
+                        </TouchableOpacity>
+                      </View>
+                    ))
+                  )}
+                </View>
+              );
+            })}
+
+            <TouchableOpacity onPress={saveHours} disabled={saving}>
+              <LinearGradient
+                colors={[bcctColors.primaryOrange, bcctColors.primaryOrangeDark]}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 0 }}
+                style={styles.saveButton}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Werktijden opslaan</Text>
+                )}
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>Geblokkeerde periodes</Text>
+            <Text style={[styles.cardSubtitle, { color: bcctColors.textSecondary }]}>
+              Bijvoorbeeld vakantie of een cursusdag.
+            </Text>
+
+            {exceptions.length === 0 ? (
+              <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>Geen geblokkeerde periodes</Text>
+            ) : (
+              exceptions.map((exception) => (
+                <View key={exception.id} style={[styles.exceptionRow, { borderColor: colors.border }]}>
+                  <View style={styles.exceptionContent}>
+                    <Text style={[styles.exceptionDates, { color: colors.text }]}>
+                      {formatDayLabel(new Date(exception.startsAt))} – {formatDayLabel(new Date(new Date(exception.endsAt).getTime() - 1))}
+                    </Text>
+                    {exception.reason ? (
+                      <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>{exception.reason}</Text>
+                    ) : null}
+                  </View>
+                  <TouchableOpacity onPress={() => removeException(exception)}>
+                    <IconSymbol
+                      ios_icon_name="trash"
+                      android_material_icon_name="delete"
+                      size={20}
+                      color={bcctColors.error}
+                    />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            <View style={styles.exceptionForm}>
+              <View style={styles.formRow}>
+                <TextInput
+                  style={[styles.input, styles.formColumn, { color: colors.text, borderColor: colors.border }]}
+                  value={exceptionFrom}
+                  onChangeText={setExceptionFrom}
+                  placeholder="Van (JJJJ-MM-DD)"
+                  placeholderTextColor={bcctColors.textSecondary}
+                />
+                <TextInput
+                  style={[styles.input, styles.formColumn, { color: colors.text, borderColor: colors.border }]}
+                  value={exceptionTo}
+                  onChangeText={setExceptionTo}
+                  placeholder="Tot en met"
+                  placeholderTextColor={bcctColors.textSecondary}
+                />
+              </View>
+              <TextInput
+                style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+                value={exceptionReason}
+                onChangeText={setExceptionReason}
+                placeholder="Reden (optioneel)"
+                placeholderTextColor={bcctColors.textSecondary}
+              />
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: bcctColors.primaryOrange }]}
+                onPress={addException}
+              >
+                <Text style={[styles.secondaryButtonText, { color: bcctColors.primaryOrange }]}>Periode blokkeren</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Bottom padding for tab bar */}
+          <View style={{ height: 100 }} />
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.modalButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    ...bcctTypography.h2,
+    flex: 1,
+    textAlign: "center",
+  },
+  placeholder: {
+    width: 40,
+  },
+  scrollContent: {
+    padding: 20,
+    gap: 20,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 20,
+    borderWidth: 1,
+    gap: 12,
+  },
+  cardTitle: {
+    ...bcctTypography.h3,
+  },
+  cardSubtitle: {
+    ...bcctTypography.small,
+  },
+  dayRow: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    gap: 8,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  dayLabel: {
+    ...bcctTypography.bodyMedium,
+  },
+  linkText: {
+    ...bcctTypography.smallMedium,
+  },
+  mutedText: {
+    ...bcctTypography.small,
+  },
+  windowRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  timeInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    width: 80,
+    textAlign: "center",
+    ...bcctTypography.body,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    ...bcctTypography.button,
+  },
+  exceptionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 12,
+  },
+  exceptionContent: {
+    flex: 1,
+    gap: 2,
+  },
+  exceptionDates: {
+    ...bcctTypography.smallMedium,
+    textTransform: "capitalize",
+  },
+  exceptionForm: {
+    gap: 8,
+    marginTop: 8,
+  },
+  formRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  formColumn: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    ...bcctTypography.body,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    ...bcctTypography.button,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    alignItems: "center",
+  },
+  modalTitle: {
+    ...bcctTypography.h3,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    ...bcctTypography.body,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  modalButton: {
+    borderRadius: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    minWidth: 100,
+  },
+  modalButtonText: {
+    color: "#fff",
+    ...bcctTypography.button,
+    textAlign: "center",
+  },
+});
@@ -7,28 +7,74 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
+  TextInput,
 } from "react-native";
 import Modal from "react-native-modal";
 import { useTheme } from "@react-navigation/native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter, useLocalSearchParams } from "expo-router";
-import { supabase } from "@/lib/supabase";
+import { authenticatedDelete, authenticatedGet, authenticatedPost, authenticatedPut } from "@/utils/api";
+import { addDays, parseLocalDateTime, toDateKey } from "@/utils/appointments";
+import CheckinTrendChart, { MARKER_COLORS } from "@/components/CheckinTrendChart";
+import TaskCommentThread from "@/components/TaskCommentThread";
+import {
+  ANALYTICS_RANGE_LABELS,
+  CHECKIN_METRICS,
+  CHECKIN_METRIC_COLORS,
+  CHECKIN_METRIC_LABELS,
+  formatDelta,
+  toChartMarkers,
+  type AnalyticsRange,
+  type CheckinAnalytics,
+  type CheckinMetric,
+} from "@/utils/checkins";
+import {
+  ThemeAssignment,
+  ThemeFrequency,
+  ThemeItemAnalytics,
+  THEME_ASSIGNMENT_STATUS_LABELS,
+  THEME_FREQUENCIES,
+  THEME_FREQUENCY_LABELS,
+  THEME_ITEM_TYPE_LABELS,
+} from "@/utils/themes";
+import {
+  describeTaskResponse,
+  PROGRAM_TASK_TYPE_LABELS,
+  REVIEW_STATUS_LABELS,
+  ReviewStatus,
+  TaskComment,
+  TaskCompletionReview,
+} from "@/utils/programs";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
 import { LinearGradient } from "expo-linear-gradient";
 
 interface Client {
   id: string;
-  full_name: string;
+  name: string | null;
   email: string;
 }
 
 interface Theme {
   id: string;
   name: string;
-  description: string;
+  description: string | null;
 }
 
+// Assignment length in weeks; null keeps the theme running until the coach ends it
+const DURATION_WEEKS = [null, 1, 2, 3, 4, 6, 8];
+
+const REVIEW_STATUS_COLORS: Record<ReviewStatus, string> = {
+  unread: bcctColors.primaryOrange,
+  reviewed: bcctColors.textSecondary,
+};
+
+const ASSIGNMENT_STATUS_COLORS = {
+  active: bcctColors.success,
+  scheduled: bcctColors.primaryBlue,
+  ended: bcctColors.textSecondary,
+};
+
 export default function ClientDetailScreen() {
   const { colors } = useTheme();
   const router = useRouter();
@@ -36,12 +82,24 @@ export default function ClientDetailScreen() {
   const [loading, setLoading] = useState(true);
   const [client, setClient] = useState<Client | null>(null);
   const [themes, setThemes] = useState<Theme[]>([]);
-  const [activeThemeId, setActiveThemeId] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<ThemeAssignment[]>([]);
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
   const [themeModalVisible, setThemeModalVisible] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [selectedThemeId, setSelectedThemeId] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<ThemeFrequency>("daily");
+  const [startDateText, setStartDateText] = useState("");
+  const [durationWeeks, setDurationWeeks] = useState<number | null>(null);
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>("14d");
+  const [analyticsMetric, setAnalyticsMetric] = useState<CheckinMetric>("stress");
+  const [analytics, setAnalytics] = useState<CheckinAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [analyticsError, setAnalyticsError] = useState(false);
+  const [completions, setCompletions] = useState<TaskCompletionReview[]>([]);
+  const [showAllCompletions, setShowAllCompletions] = useState(false);
+  const [expandedCompletionId, setExpandedCompletionId] = useState<string | null>(null);
 
   const showModal = (title: string, message: string) => {
     setModalTitle(title);
@@ -52,42 +110,41 @@ export default function ClientDetailScreen() {
   useEffect(() => {
     if (id) {
       fetchClientDetails();
+      fetchAssignments();
       fetchThemes();
+      fetchCompletions();
     }
   }, [id]);
 
-  const fetchClientDetails = async () => {
-    console.log("[Client Detail] Fetching client details for", id);
-    try {
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("id, full_name, email")
-        .eq("id", id)
-        .single();
-
-      if (profileError) {
-        console.error("[Client Detail] Error fetching profile", profileError);
-        showModal("Fout", "Kon cliënt niet laden");
-        return;
-      }
-
-      setClient(profile);
-
-      const { data: assignment, error: assignmentError } = await supabase
-        .from("client_theme_assignments")
-        .select("theme_id")
-        .eq("client_id", id)
-        .eq("active", true)
-        .single();
+  // Reload trends whenever the coach picks another range
+  useEffect(() => {
+    if (!id) return;
 
-      if (assignmentError && assignmentError.code !== "PGRST116") {
-        console.error("[Client Detail] Error fetching assignment", assignmentError);
+    const fetchAnalytics = async () => {
+      console.log("[Client Detail] Fetching checkin analytics", id, analyticsRange);
+      setAnalyticsLoading(true);
+      try {
+        const data = await authenticatedGet<CheckinAnalytics>(
+          `/api/coach/clients/${id}/checkins/analytics?range=${analyticsRange}`
+        );
+        setAnalytics(data);
+        setAnalyticsError(false);
+      } catch (error: any) {
+        console.error("[Client Detail] Error fetching checkin analytics", error);
+        setAnalyticsError(true);
+      } finally {
+        setAnalyticsLoading(false);
       }
+    };
 
-      if (assignment) {
-        console.log("[Client Detail] Active theme found", assignment.theme_id);
-        setActiveThemeId(assignment.theme_id);
-      }
+    fetchAnalytics();
+  }, [id, analyticsRange]);
+
+  const fetchClientDetails = async () => {
+    console.log("[Client Detail] Fetching client details for", id);
+    try {
+      const detail = await authenticatedGet<{ profile: Client; status: string }>(`/api/coach/clients/${id}`);
+      setClient(detail.profile);
     } catch (error: any) {
       console.error("[Client Detail] Error fetching client details", error);
       showModal("Fout", "Kon cliënt niet laden");
@@ -99,64 +156,104 @@ export default function ClientDetailScreen() {
   const fetchThemes = async () => {
     console.log("[Client Detail] Fetching themes");
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        console.error("[Client Detail] No user session");
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from("themes")
-        .select("id, name, description")
-        .eq("created_by", session.session.user.id)
-        .order("name", { ascending: true });
-
-      if (error) {
-        console.error("[Client Detail] Error fetching themes", error);
-        showModal("Fout", "Kon thema's niet laden");
-        return;
-      }
-
+      const data = await authenticatedGet<Theme[]>("/api/coach/themes");
       console.log("[Client Detail] Themes loaded", data);
-      setThemes(data || []);
+      setThemes([...data].sort((a, b) => a.name.localeCompare(b.name, "nl")));
     } catch (error: any) {
       console.error("[Client Detail] Error fetching themes", error);
       showModal("Fout", "Kon thema's niet laden");
     }
   };
 
-  const assignTheme = async (themeId: string) => {
-    console.log("[Client Detail] Assigning theme", themeId, "to client", id);
-    setSaving(true);
+  const fetchAssignments = async () => {
+    console.log("[Client Detail] Fetching theme assignments for", id);
     try {
-      const { error: deactivateError } = await supabase
-        .from("client_theme_assignments")
-        .update({ active: false })
-        .eq("client_id", id)
-        .eq("active", true);
-
-      if (deactivateError) {
-        console.error("[Client Detail] Error deactivating old assignments", deactivateError);
-      }
+      const data = await authenticatedGet<{ today: string; assignments: ThemeAssignment[] }>(
+        `/api/coach/clients/${id}/themes`
+      );
+      console.log("[Client Detail] Theme assignments loaded", data.assignments.length);
+      setAssignments(data.assignments);
+    } catch (error: any) {
+      console.error("[Client Detail] Error fetching theme assignments", error);
+    }
+  };
 
-      const { error: insertError } = await supabase
-        .from("client_theme_assignments")
-        .insert({
-          client_id: id,
-          theme_id: themeId,
-          active: true,
-          start_date: new Date().toISOString().split("T")[0],
-        });
-
-      if (insertError) {
-        console.error("[Client Detail] Error assigning theme", insertError);
-        showModal("Fout", "Kon thema niet toewijzen");
-        return;
-      }
+  const fetchCompletions = async () => {
+    console.log("[Client Detail] Fetching task completions for", id);
+    try {
+      const data = await authenticatedGet<TaskCompletionReview[]>(`/api/coach/clients/${id}/task-completions`);
+      console.log("[Client Detail] Task completions loaded", data.length);
+      setCompletions(data);
+    } catch (error: any) {
+      console.error("[Client Detail] Error fetching task completions", error);
+    }
+  };
+
+  const setReviewStatus = async (completion: TaskCompletionReview, status: ReviewStatus) => {
+    console.log("[Client Detail] Setting review status", completion.id, status);
+    try {
+      const updated = await authenticatedPut<{ reviewStatus: ReviewStatus; reviewedAt: string | null }>(
+        `/api/coach/task-completions/${completion.id}/review`,
+        { status }
+      );
+      setCompletions((current) =>
+        current.map((item) => (item.id === completion.id ? { ...item, ...updated } : item))
+      );
+    } catch (error: any) {
+      console.error("[Client Detail] Error setting review status", error);
+      showModal("Fout", "Kon status niet bijwerken");
+    }
+  };
+
+  // Feedback marks the response as reviewed on the server as well
+  const sendFeedback = async (completion: TaskCompletionReview, content: string) => {
+    console.log("[Client Detail] Sending task feedback", completion.id);
+    const comment = await authenticatedPost<TaskComment>(`/api/coach/task-completions/${completion.id}/comments`, {
+      content,
+    });
+    setCompletions((current) =>
+      current.map((item) =>
+        item.id === completion.id
+          ? { ...item, reviewStatus: "reviewed", comments: [...item.comments, comment] }
+          : item
+      )
+    );
+  };
+
+  const openAssignModal = () => {
+    setSelectedThemeId(null);
+    setFrequency("daily");
+    setStartDateText(toDateKey(new Date()));
+    setDurationWeeks(null);
+    setThemeModalVisible(true);
+  };
+
+  const assignTheme = async () => {
+    if (!selectedThemeId) {
+      showModal("Fout", "Kies een thema");
+      return;
+    }
+    const start = parseLocalDateTime(startDateText, "00:00");
+    if (!start) {
+      showModal("Fout", "Vul een geldige startdatum in (JJJJ-MM-DD)");
+      return;
+    }
+    // The end date is the last day of the last week
+    const endDate = durationWeeks ? toDateKey(addDays(start, durationWeeks * 7 - 1)) : null;
+
+    console.log("[Client Detail] Assigning theme", selectedThemeId, "to client", id, startDateText, endDate);
+    setSaving(true);
+    try {
+      await authenticatedPost(`/api/coach/clients/${id}/themes`, {
+        themeId: selectedThemeId,
+        startDate: toDateKey(start),
+        endDate,
+        frequency,
+      });
 
       console.log("[Client Detail] Theme assigned successfully");
-      setActiveThemeId(themeId);
       setThemeModalVisible(false);
+      await fetchAssignments();
       showModal("Succes", "Thema succesvol toegewezen");
     } catch (error: any) {
       console.error("[Client Detail] Error assigning theme", error);
@@ -166,6 +263,183 @@ export default function ClientDetailScreen() {
     }
   };
 
+  const removeAssignment = async (assignment: ThemeAssignment) => {
+    console.log("[Client Detail] Removing theme assignment", assignment.id);
+    try {
+      await authenticatedDelete(`/api/coach/clients/${id}/themes/${assignment.id}`);
+      console.log("[Client Detail] Theme assignment removed");
+      await fetchAssignments();
+    } catch (error: any) {
+      console.error("[Client Detail] Error removing theme assignment", error);
+      showModal("Fout", "Kon thema niet stoppen");
+    }
+  };
+
+  const describeAssignment = (assignment: ThemeAssignment) => {
+    const period = assignment.endDate
+      ? `${assignment.startDate} t/m ${assignment.endDate}`
+      : `vanaf ${assignment.startDate}`;
+    return `${THEME_FREQUENCY_LABELS[assignment.frequency]} · ${period}`;
+  };
+
+  const openConversation = async () => {
+    console.log("[Client Detail] Opening conversation with client", id);
+    try {
+      const conversation = await authenticatedPost<{ id: string; coachId: string }>(
+        `/api/coach/clients/${id}/conversation`,
+        {}
+      );
+      router.push({
+        pathname: "/(app)/coach/conversation",
+        params: { id: conversation.id, coachId: conversation.coachId, name: client?.name || client?.email },
+      } as any);
+    } catch (error: any) {
+      console.error("[Client Detail] Error opening conversation", error);
+      showModal("Fout", "Kon gesprek niet openen");
+    }
+  };
+
+  // Each item type is summarized in its own way: a trend for numbers, a rate for yes/no, counts for choices
+  const renderThemeItemSummary = (item: ThemeItemAnalytics) => {
+    if (item.responseCount === 0) {
+      return null;
+    }
+
+    switch (item.type) {
+      case "yes_no":
+        return (
+          <View style={styles.shareRow}>
+            <View style={[styles.shareTrack, { backgroundColor: colors.border }]}>
+              <View
+                style={[styles.shareFill, { width: `${item.summary.yesRate ?? 0}%`, backgroundColor: bcctColors.success }]}
+              />
+            </View>
+            <Text style={[styles.shareText, { color: colors.text }]}>
+              {`${item.summary.yesRate ?? 0}% ja (${item.summary.yesCount} van ${item.summary.yesCount + item.summary.noCount})`}
+            </Text>
+          </View>
+        );
+      case "choice": {
+        const total = item.summary.counts.reduce((sum, option) => sum + option.count, 0);
+        return item.summary.counts.map((option) => (
+          <View key={option.option} style={styles.shareRow}>
+            <Text style={[styles.shareLabel, { color: colors.text }]} numberOfLines={1}>
+              {option.option}
+            </Text>
+            <View style={[styles.shareTrack, { backgroundColor: colors.border }]}>
+              <View
+                style={[
+                  styles.shareFill,
+                  { width: `${total > 0 ? (option.count / total) * 100 : 0}%`, backgroundColor: bcctColors.primaryOrange },
+                ]}
+              />
+            </View>
+            <Text style={[styles.shareText, { color: colors.text }]}>{option.count}</Text>
+          </View>
+        ));
+      }
+      case "text":
+        return item.summary.entries.map((entry) => (
+          <View key={`${entry.date}-${entry.text}`} style={styles.textAnswer}>
+            <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>
+              {new Date(`${entry.date}T12:00:00`).toLocaleDateString("nl-NL", { day: "numeric", month: "short" })}
+            </Text>
+            <Text style={[styles.themeDescription, { color: colors.text }]}>{entry.text}</Text>
+          </View>
+        ));
+      default: {
+        const unit = item.type === "number" && item.config?.unit ? ` ${item.config.unit}` : "";
+        return (
+          <>
+            <CheckinTrendChart
+              series={item.summary.series}
+              color={bcctColors.primaryOrange}
+              maxValue={item.maxValue ?? Math.max(item.summary.max ?? 0, 1)}
+              height={80}
+            />
+            <View style={styles.statsGrid}>
+              <View style={styles.statItem}>
+                <Text style={[styles.statValue, { color: colors.text }]}>{`${item.summary.average ?? "–"}${unit}`}</Text>
+                <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>Gemiddeld</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={[styles.statValue, { color: colors.text }]}>{`${item.summary.latest ?? "–"}${unit}`}</Text>
+                <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>Laatste</Text>
+              </View>
+            </View>
+          </>
+        );
+      }
+    }
+  };
+
+  const unreadCompletionCount = completions.filter((completion) => completion.reviewStatus === "unread").length;
+  const visibleCompletions = showAllCompletions
+    ? completions
+    : completions.filter((completion) => completion.reviewStatus === "unread");
+
+  const renderCompletion = (completion: TaskCompletionReview) => {
+    const expanded = expandedCompletionId === completion.id;
+    const answers = describeTaskResponse(completion.taskType, completion.contentJson, completion.responseJson);
+
+    return (
+      <View key={completion.id} style={[styles.completionRow, { borderColor: colors.border }]}>
+        <TouchableOpacity onPress={() => setExpandedCompletionId(expanded ? null : completion.id)} activeOpacity={0.7}>
+          <View style={styles.assignmentTitleRow}>
+            <Text style={[styles.themeOptionName, { color: colors.text }]}>{completion.taskTitle}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: REVIEW_STATUS_COLORS[completion.reviewStatus] + "20" }]}>
+              <Text style={[styles.statusBadgeText, { color: REVIEW_STATUS_COLORS[completion.reviewStatus] }]}>
+                {REVIEW_STATUS_LABELS[completion.reviewStatus]}
+              </Text>
+            </View>
+          </View>
+          <Text style={[styles.themeOptionDescription, { color: bcctColors.textSecondary }]}>
+            {`${PROGRAM_TASK_TYPE_LABELS[completion.taskType]} · ${completion.programTitle} · week ${completion.weekNumber} · ${new Date(
+              completion.completedAt
+            ).toLocaleDateString("nl-NL", { day: "numeric", month: "short" })}`}
+          </Text>
+        </TouchableOpacity>
+
+        {answers.map((answer) => (
+          <View key={answer.label} style={styles.textAnswer}>
+            <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>{answer.label}</Text>
+            <Text style={[styles.themeDescription, { color: colors.text }]}>{answer.value}</Text>
+          </View>
+        ))}
+
+        {expanded ? (
+          <View style={styles.completionThread}>
+            <TaskCommentThread
+              comments={completion.comments}
+              viewerRole="coach"
+              placeholder="Schrijf feedback…"
+              onSend={(content) => sendFeedback(completion, content)}
+            />
+          </View>
+        ) : null}
+
+        <View style={styles.completionActions}>
+          <TouchableOpacity onPress={() => setExpandedCompletionId(expanded ? null : completion.id)}>
+            <Text style={[styles.changeButtonText, { color: bcctColors.primaryOrange }]}>
+              {expanded
+                ? "Sluiten"
+                : completion.comments.length > 0
+                  ? `Feedback (${completion.comments.length})`
+                  : "Feedback geven"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setReviewStatus(completion, completion.reviewStatus === "unread" ? "reviewed" : "unread")}
+          >
+            <Text style={[styles.changeButtonText, { color: bcctColors.textSecondary }]}>
+              {completion.reviewStatus === "unread" ? "Markeer als bekeken" : "Markeer als nieuw"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
@@ -186,9 +460,6 @@ export default function ClientDetailScreen() {
     );
   }
 
-  const activeTheme = themes.find(t => t.id === activeThemeId);
-  const activeThemeText = activeTheme ? activeTheme.name : "Geen thema toegewezen";
-
   return (
     <>
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
@@ -205,7 +476,17 @@ export default function ClientDetailScreen() {
             />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, { color: colors.text }]}>Cliënt Detail</Text>
-          <View style={styles.placeholder} />
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={openConversation}
+          >
+            <IconSymbol
+              ios_icon_name="message.fill"
+              android_material_icon_name="chat"
+              size={24}
+              color={bcctColors.primaryOrange}
+            />
+          </TouchableOpacity>
         </View>
 
         <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -218,7 +499,7 @@ export default function ClientDetailScreen() {
                 color={bcctColors.primaryOrange}
               />
             </View>
-            <Text style={[styles.clientName, { color: colors.text }]}>{client.full_name}</Text>
+            <Text style={[styles.clientName, { color: colors.text }]}>{client.name || client.email}</Text>
             <Text style={[styles.clientEmail, { color: bcctColors.textSecondary }]}>
               {client.email}
             </Text>
@@ -226,24 +507,207 @@ export default function ClientDetailScreen() {
 
           <View style={[styles.themeCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
             <View style={styles.themeHeader}>
-              <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>Actief Thema</Text>
+              <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>Thema&apos;s</Text>
               <TouchableOpacity
                 style={styles.changeButton}
-                onPress={() => setThemeModalVisible(true)}
+                onPress={openAssignModal}
               >
                 <Text style={[styles.changeButtonText, { color: bcctColors.primaryOrange }]}>
-                  Wijzigen
+                  Toevoegen
                 </Text>
               </TouchableOpacity>
             </View>
-            <Text style={[styles.themeName, { color: colors.text }]}>{activeThemeText}</Text>
-            {activeTheme?.description ? (
+            {assignments.length === 0 ? (
+              <Text style={[styles.themeName, { color: colors.text }]}>Geen thema toegewezen</Text>
+            ) : (
+              assignments.map((assignment) => (
+                <View key={assignment.id} style={styles.assignmentRow}>
+                  <View style={styles.themeOptionContent}>
+                    <View style={styles.assignmentTitleRow}>
+                      <Text style={[styles.themeOptionName, { color: colors.text }]}>{assignment.themeName}</Text>
+                      <View
+                        style={[
+                          styles.statusBadge,
+                          { backgroundColor: ASSIGNMENT_STATUS_COLORS[assignment.status] + "20" },
+                        ]}
+                      >
+                        <Text style={[styles.statusBadgeText, { color: ASSIGNMENT_STATUS_COLORS[assignment.status] }]}>
+                          {THEME_ASSIGNMENT_STATUS_LABELS[assignment.status]}
+                        </Text>
+                      </View>
+                    </View>
+                    <Text style={[styles.themeOptionDescription, { color: bcctColors.textSecondary }]}>
+                      {describeAssignment(assignment)}
+                    </Text>
+                  </View>
+                  {assignment.status !== "ended" ? (
+                    <TouchableOpacity onPress={() => removeAssignment(assignment)}>
+                      <IconSymbol
+                        ios_icon_name="xmark.circle"
+                        android_material_icon_name="cancel"
+                        size={22}
+                        color={bcctColors.textSecondary}
+                      />
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={[styles.themeCard, styles.trendsCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>
+              {unreadCompletionCount > 0 ? `Opdrachten · ${unreadCompletionCount} nieuw` : "Opdrachten"}
+            </Text>
+            <View style={styles.chipRow}>
+              {[false, true].map((all) => {
+                const selected = all === showAllCompletions;
+                return (
+                  <TouchableOpacity
+                    key={String(all)}
+                    style={[
+                      styles.chip,
+                      { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                      selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                    ]}
+                    onPress={() => setShowAllCompletions(all)}
+                  >
+                    <Text style={[styles.chipText, { color: colors.text }]}>{all ? "Alles" : "Te bekijken"}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {visibleCompletions.length === 0 ? (
+              <Text style={[styles.themeDescription, { color: bcctColors.textSecondary }]}>
+                {showAllCompletions ? "Nog geen opdrachten afgerond." : "Geen nieuwe antwoorden om te bekijken."}
+              </Text>
+            ) : (
+              visibleCompletions.map(renderCompletion)
+            )}
+          </View>
+
+          <View style={[styles.themeCard, styles.trendsCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>Check-in trends</Text>
+
+            <View style={styles.chipRow}>
+              {(Object.keys(ANALYTICS_RANGE_LABELS) as AnalyticsRange[]).map((range) => {
+                const selected = range === analyticsRange;
+                return (
+                  <TouchableOpacity
+                    key={range}
+                    style={[
+                      styles.chip,
+                      { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                      selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                    ]}
+                    onPress={() => setAnalyticsRange(range)}
+                  >
+                    <Text style={[styles.chipText, { color: colors.text }]}>{ANALYTICS_RANGE_LABELS[range]}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.chipRow}>
+              {CHECKIN_METRICS.map((metric) => {
+                const selected = metric === analyticsMetric;
+                return (
+                  <TouchableOpacity
+                    key={metric}
+                    style={[
+                      styles.chip,
+                      { borderColor: selected ? CHECKIN_METRIC_COLORS[metric] : colors.border },
+                      selected && { backgroundColor: CHECKIN_METRIC_COLORS[metric] + "20" },
+                    ]}
+                    onPress={() => setAnalyticsMetric(metric)}
+                  >
+                    <Text style={[styles.chipText, { color: colors.text }]}>{CHECKIN_METRIC_LABELS[metric]}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {analyticsLoading && !analytics ? (
+              <ActivityIndicator color={bcctColors.primaryOrange} />
+            ) : analyticsError || !analytics ? (
+              <Text style={[styles.themeDescription, { color: bcctColors.error }]}>
+                Kon check-in trends niet laden.
+              </Text>
+            ) : analytics.checkinCount === 0 ? (
               <Text style={[styles.themeDescription, { color: bcctColors.textSecondary }]}>
-                {activeTheme.description}
+                Geen check-ins in deze periode.
               </Text>
-            ) : null}
+            ) : (
+              <>
+                <CheckinTrendChart
+                  series={analytics.metrics[analyticsMetric].series}
+                  average={analytics.metrics[analyticsMetric][analyticsRange === "14d" ? "rolling7" : "rolling30"]}
+                  markers={toChartMarkers(analytics)}
+                  color={CHECKIN_METRIC_COLORS[analyticsMetric]}
+                />
+
+                <View style={styles.legendRow}>
+                  <View style={styles.legendItem}>
+                    <View style={[styles.legendSwatch, { backgroundColor: CHECKIN_METRIC_COLORS[analyticsMetric] }]} />
+                    <Text style={[styles.legendText, { color: bcctColors.textSecondary }]}>
+                      {analyticsRange === "14d" ? "7-daags gemiddelde" : "30-daags gemiddelde"}
+                    </Text>
+                  </View>
+                  <View style={styles.legendItem}>
+                    <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS.appointment }]} />
+                    <Text style={[styles.legendText, { color: bcctColors.textSecondary }]}>Afspraak</Text>
+                  </View>
+                  <View style={styles.legendItem}>
+                    <View style={[styles.legendSwatch, { backgroundColor: MARKER_COLORS.programWeek }]} />
+                    <Text style={[styles.legendText, { color: bcctColors.textSecondary }]}>Programmaweek</Text>
+                  </View>
+                </View>
+
+                <View style={styles.statsGrid}>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.text }]}>
+                      {analytics.metrics[analyticsMetric].average ?? "–"}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>Gemiddeld</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.text }]}>
+                      {analytics.metrics[analyticsMetric].min?.value ?? "–"} / {analytics.metrics[analyticsMetric].max?.value ?? "–"}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>Min / max</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.text }]}>
+                      {formatDelta(analytics.metrics[analyticsMetric].weekOverWeek.delta)}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>T.o.v. vorige week</Text>
+                  </View>
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: colors.text }]}>{analytics.streaks.current}</Text>
+                    <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>
+                      Dagen op rij (max {analytics.streaks.longest})
+                    </Text>
+                  </View>
+                </View>
+              </>
+            )}
           </View>
 
+          {analytics?.themeItems && analytics.themeItems.length > 0 ? (
+            <View style={[styles.themeCard, styles.trendsCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <Text style={[styles.themeLabel, { color: bcctColors.textSecondary }]}>Thema vragen</Text>
+              {analytics.themeItems.map((item) => (
+                <View key={item.id} style={styles.themeItemSummary}>
+                  <Text style={[styles.themeItemLabel, { color: colors.text }]}>{item.label}</Text>
+                  <Text style={[styles.statLabel, { color: bcctColors.textSecondary }]}>
+                    {`${THEME_ITEM_TYPE_LABELS[item.type]} · ${item.responseCount} antwoorden`}
+                  </Text>
+                  {renderThemeItemSummary(item)}
+                </View>
+              ))}
+            </View>
+          ) : null}
+
           {/* Bottom padding for tab bar */}
           <View style={{ height: 100 }} />
         </ScrollView>
@@ -260,7 +724,7 @@ export default function ClientDetailScreen() {
       >
         <View style={[styles.themeModalContent, { backgroundColor: colors.card }]}>
           <View style={styles.modalHandle} />
-          <Text style={[styles.modalTitle, { color: colors.text }]}>Selecteer Thema</Text>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>Thema Toewijzen</Text>
           <ScrollView style={styles.themesList}>
             {themes.length === 0 ? (
               <View style={styles.emptyThemes}>
@@ -270,7 +734,7 @@ export default function ClientDetailScreen() {
               </View>
             ) : (
               themes.map((theme) => {
-                const isActive = theme.id === activeThemeId;
+                const isActive = theme.id === selectedThemeId;
                 return (
                   <TouchableOpacity
                     key={theme.id}
@@ -279,8 +743,7 @@ export default function ClientDetailScreen() {
                       { borderColor: colors.border },
                       isActive && { borderColor: bcctColors.primaryOrange, backgroundColor: bcctColors.primaryOrange + "10" }
                     ]}
-                    onPress={() => assignTheme(theme.id)}
-                    disabled={saving}
+                    onPress={() => setSelectedThemeId(theme.id)}
                   >
                     <View style={styles.themeOptionContent}>
                       <Text style={[styles.themeOptionName, { color: colors.text }]}>{theme.name}</Text>
@@ -302,7 +765,67 @@ export default function ClientDetailScreen() {
                 );
               })
             )}
+
+            <Text style={[styles.fieldLabel, { color: colors.text }]}>Frequentie</Text>
+            <View style={styles.chipRow}>
+              {THEME_FREQUENCIES.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.chip,
+                    { borderColor: option === frequency ? bcctColors.primaryOrange : colors.border },
+                    option === frequency && { backgroundColor: bcctColors.primaryOrange + "20" },
+                  ]}
+                  onPress={() => setFrequency(option)}
+                >
+                  <Text style={[styles.chipText, { color: colors.text }]}>{THEME_FREQUENCY_LABELS[option]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={[styles.fieldLabel, { color: colors.text }]}>Startdatum</Text>
+            <TextInput
+              style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+              placeholder="JJJJ-MM-DD"
+              placeholderTextColor={bcctColors.textSecondary}
+              value={startDateText}
+              onChangeText={setStartDateText}
+            />
+
+            <Text style={[styles.fieldLabel, { color: colors.text }]}>Duur</Text>
+            <View style={styles.chipRow}>
+              {DURATION_WEEKS.map((weeks) => (
+                <TouchableOpacity
+                  key={weeks ?? "open"}
+                  style={[
+                    styles.chip,
+                    { borderColor: weeks === durationWeeks ? bcctColors.primaryOrange : colors.border },
+                    weeks === durationWeeks && { backgroundColor: bcctColors.primaryOrange + "20" },
+                  ]}
+                  onPress={() => setDurationWeeks(weeks)}
+                >
+                  <Text style={[styles.chipText, { color: colors.text }]}>
+                    {weeks === null ? "Doorlopend" : `${weeks} ${weeks === 1 ? "week" : "weken"}`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
           </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.assignButton,
+              { backgroundColor: selectedThemeId && !saving ? bcctColors.primaryOrange : bcctColors.primaryOrangeDisabled },
+            ]}
+            onPress={assignTheme}
+            disabled={!selectedThemeId || saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.modalButtonText}>Toewijzen</Text>
+            )}
+          </TouchableOpacity>
         </View>
       </Modal>
 
@@ -364,9 +887,6 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: "center",
   },
-  placeholder: {
-    width: 40,
-  },
   scrollContent: {
     padding: 20,
   },
@@ -430,6 +950,89 @@ const styles = StyleSheet.create({
   themeDescription: {
     ...bcctTypography.body,
   },
+  trendsCard: {
+    marginTop: 24,
+    gap: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  legendRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    ...bcctTypography.small,
+  },
+  themeItemSummary: {
+    gap: 8,
+    paddingTop: 12,
+  },
+  themeItemLabel: {
+    ...bcctTypography.bodySemiBold,
+  },
+  shareRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  shareLabel: {
+    ...bcctTypography.small,
+    width: 90,
+  },
+  shareTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  shareFill: {
+    height: "100%",
+    borderRadius: 4,
+  },
+  shareText: {
+    ...bcctTypography.small,
+  },
+  textAnswer: {
+    gap: 2,
+  },
+  statsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    rowGap: 12,
+  },
+  statItem: {
+    width: "50%",
+    gap: 2,
+  },
+  statValue: {
+    ...bcctTypography.h3,
+  },
+  statLabel: {
+    ...bcctTypography.small,
+  },
   bottomModal: {
     justifyContent: "flex-end",
     margin: 0,
@@ -478,6 +1081,55 @@ const styles = StyleSheet.create({
   themeOptionDescription: {
     ...bcctTypography.small,
   },
+  assignmentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    gap: 12,
+  },
+  assignmentTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  completionRow: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    gap: 8,
+  },
+  completionThread: {
+    marginTop: 4,
+  },
+  completionActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    ...bcctTypography.small,
+  },
+  fieldLabel: {
+    ...bcctTypography.bodySemiBold,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    ...bcctTypography.body,
+  },
+  assignButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+    alignItems: "center",
+  },
   modalContent: {
     borderRadius: 20,
     padding: 24,
@@ -8,6 +8,7 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Share,
+  TextInput,
 } from "react-native";
 import Modal from "react-native-modal";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -15,6 +16,14 @@ import { useTheme } from "@react-navigation/native";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter } from "expo-router";
 import { supabase } from "@/lib/supabase";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import {
+  ClientInvite,
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+  INVITE_STATUS_COLORS,
+  INVITE_STATUS_LABELS,
+} from "@/utils/invites";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
 import * as Clipboard from 'expo-clipboard';
 import { LinearGradient } from "expo-linear-gradient";
@@ -26,15 +35,12 @@ interface Client {
   active_theme?: string;
 }
 
-interface ClientInvite {
-  id: string;
-  code: string;
-  created_at: string;
-  used_at: string | null;
-  used_by: string | null;
-  expires_at: string | null;
-  is_active: boolean;
-}
+const formatInviteDate = (value: string) =>
+  new Date(value).toLocaleDateString('nl-NL', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
 
 export default function CoachClientsScreen() {
   const { colors } = useTheme();
@@ -46,9 +52,15 @@ export default function CoachClientsScreen() {
   const [modalMessage, setModalMessage] = useState("");
   const [inviteCodeModalVisible, setInviteCodeModalVisible] = useState(false);
   const [generatedInviteCode, setGeneratedInviteCode] = useState<string>('');
+  const [generatedInviteEmail, setGeneratedInviteEmail] = useState<string | null>(null);
   const [generatingCode, setGeneratingCode] = useState(false);
   const [invites, setInvites] = useState<ClientInvite[]>([]);
   const [showInvitesList, setShowInvitesList] = useState(false);
+  const [createInviteVisible, setCreateInviteVisible] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteExpiryDays, setInviteExpiryDays] = useState<number | null>(14);
+  const [inviteMaxUses, setInviteMaxUses] = useState(1);
+  const [updatingInviteId, setUpdatingInviteId] = useState<string | null>(null);
 
   const showModal = (title: string, message: string) => {
     setModalTitle(title);
@@ -128,66 +140,87 @@ export default function CoachClientsScreen() {
   const fetchInvites = async () => {
     console.log("[Coach Clients] Fetching invites");
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        console.error("[Coach Clients] No user found");
-        return;
-      }
-
-      const { data: invitesData, error: invitesError } = await supabase
-        .from('client_invites')
-        .select('id, code, created_at, used_at, used_by, expires_at, is_active')
-        .eq('coach_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (invitesError) {
-        console.error("[Coach Clients] Error fetching invites:", invitesError);
-        return;
-      }
-
-      console.log("[Coach Clients] Invites loaded:", invitesData?.length || 0);
-      setInvites(invitesData || []);
+      const data = await authenticatedGet<ClientInvite[]>("/api/coach/invites");
+      console.log("[Coach Clients] Invites loaded:", data.length);
+      setInvites(data);
     } catch (error: any) {
       console.error("[Coach Clients] Error fetching invites:", error);
     }
   };
 
+  const openCreateInvite = () => {
+    setInviteEmail('');
+    setInviteExpiryDays(14);
+    setInviteMaxUses(1);
+    setCreateInviteVisible(true);
+  };
+
   const handleCreateInviteCode = async () => {
-    console.log("[Coach Clients] Creating invite code");
+    const email = inviteEmail.trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      showModal("Fout", "Vul een geldig e-mailadres in");
+      return;
+    }
+
+    console.log("[Coach Clients] Creating invite code", { email: email ? 'provided' : 'empty', inviteExpiryDays, inviteMaxUses });
     setGeneratingCode(true);
     try {
-      const { data, error } = await supabase.rpc('create_client_invite', {
-        p_expires_at: null,
+      const invite = await authenticatedPost<ClientInvite>("/api/coach/invites", {
+        email: email || null,
+        expiresInDays: inviteExpiryDays,
+        maxUses: inviteMaxUses,
       });
 
-      if (error) {
-        console.error("[Coach Clients] Error creating invite:", error);
-        showModal("Fout", "Kon uitnodigingscode niet aanmaken");
-        return;
+      console.log("[Coach Clients] Invite code created:", invite.code, "emailSent:", invite.emailSent);
+      setCreateInviteVisible(false);
+      setGeneratedInviteCode(invite.code);
+      setGeneratedInviteEmail(invite.emailSent ? invite.email : null);
+      setInviteCodeModalVisible(true);
+      if (email && !invite.emailSent) {
+        showModal("Let op", "De code is aangemaakt, maar de e-mail kon niet worden verstuurd. Deel de code zelf of probeer het later opnieuw.");
       }
 
-      console.log("[Coach Clients] Invite code created:", data);
-      
-      // The RPC returns just the code string
-      if (typeof data === 'string') {
-        setGeneratedInviteCode(data);
-      } else {
-        console.error("[Coach Clients] Unexpected data type from RPC:", typeof data);
-        setGeneratedInviteCode(String(data));
-      }
-      
-      setInviteCodeModalVisible(true);
-      
       // Refresh invites list
       fetchInvites();
     } catch (error: any) {
-      console.error("[Coach Clients] Error:", error);
-      showModal("Fout", "Er is een fout opgetreden");
+      console.error("[Coach Clients] Error creating invite:", error);
+      showModal("Fout", "Kon uitnodigingscode niet aanmaken");
     } finally {
       setGeneratingCode(false);
     }
   };
 
+  const handleRevokeInvite = async (invite: ClientInvite) => {
+    console.log("[Coach Clients] Revoking invite", invite.id);
+    setUpdatingInviteId(invite.id);
+    try {
+      await authenticatedPost(`/api/coach/invites/${invite.id}/revoke`, {});
+      console.log("[Coach Clients] Invite revoked");
+      fetchInvites();
+    } catch (error: any) {
+      console.error("[Coach Clients] Error revoking invite:", error);
+      showModal("Fout", "Kon uitnodiging niet intrekken");
+    } finally {
+      setUpdatingInviteId(null);
+    }
+  };
+
+  const handleResendInvite = async (invite: ClientInvite) => {
+    console.log("[Coach Clients] Resending invite", invite.id);
+    setUpdatingInviteId(invite.id);
+    try {
+      await authenticatedPost(`/api/coach/invites/${invite.id}/resend`, {});
+      console.log("[Coach Clients] Invite resent");
+      showModal("Verstuurd", `De uitnodiging is opnieuw verstuurd naar ${invite.email}`);
+      fetchInvites();
+    } catch (error: any) {
+      console.error("[Coach Clients] Error resending invite:", error);
+      showModal("Fout", "Kon uitnodiging niet opnieuw versturen");
+    } finally {
+      setUpdatingInviteId(null);
+    }
+  };
+
   const handleCopyCode = async () => {
     if (!generatedInviteCode) {
       console.error("[Coach Clients] No invite code to copy");
@@ -261,7 +294,7 @@ export default function CoachClientsScreen() {
               
               <TouchableOpacity
                 style={styles.createInviteButtonContainer}
-                onPress={handleCreateInviteCode}
+                onPress={openCreateInvite}
                 disabled={generatingCode}
                 activeOpacity={0.9}
               >
@@ -302,7 +335,7 @@ export default function CoachClientsScreen() {
             <>
               <TouchableOpacity
                 style={styles.createInviteButtonContainer}
-                onPress={handleCreateInviteCode}
+                onPress={openCreateInvite}
                 disabled={generatingCode}
                 activeOpacity={0.9}
               >
@@ -424,7 +457,9 @@ export default function CoachClientsScreen() {
           
           <Text style={[styles.inviteModalTitle, { color: colors.text }]}>Uitnodigingscode aangemaakt</Text>
           <Text style={[styles.inviteModalSubtitle, { color: bcctColors.textSecondary }]}>
-            Deel deze code met je cliënt
+            {generatedInviteEmail
+              ? `De code is per e-mail verstuurd naar ${generatedInviteEmail}`
+              : "Deel deze code met je cliënt"}
           </Text>
 
           <View style={[styles.codeContainer, { backgroundColor: colors.background, borderColor: colors.border }]}>
@@ -479,6 +514,109 @@ export default function CoachClientsScreen() {
         </View>
       </Modal>
 
+      <Modal
+        isVisible={createInviteVisible}
+        onBackdropPress={() => setCreateInviteVisible(false)}
+        onBackButtonPress={() => setCreateInviteVisible(false)}
+        animationIn="slideInUp"
+        animationOut="slideOutDown"
+        backdropOpacity={0.5}
+        style={styles.invitesListModal}
+      >
+        <View style={[styles.invitesListContent, { backgroundColor: colors.card }]}>
+          <View style={styles.invitesListHeader}>
+            <Text style={[styles.invitesListTitle, { color: colors.text }]}>Nieuwe uitnodiging</Text>
+            <TouchableOpacity onPress={() => setCreateInviteVisible(false)}>
+              <IconSymbol
+                ios_icon_name="xmark.circle.fill"
+                android_material_icon_name="cancel"
+                size={28}
+                color={bcctColors.textSecondary}
+              />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: colors.text }]}>E-mailadres (optioneel)</Text>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+            placeholder="client@voorbeeld.nl"
+            placeholderTextColor={bcctColors.textSecondary}
+            value={inviteEmail}
+            onChangeText={setInviteEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={[styles.fieldHelper, { color: bcctColors.textSecondary }]}>
+            We sturen de code naar dit adres. Laat leeg om de code zelf te delen.
+          </Text>
+
+          <Text style={[styles.fieldLabel, { color: colors.text }]}>Geldigheid</Text>
+          <View style={styles.chipRow}>
+            {INVITE_EXPIRY_OPTIONS.map((days) => {
+              const selected = days === inviteExpiryDays;
+              return (
+                <TouchableOpacity
+                  key={days ?? 'none'}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                    selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                  ]}
+                  onPress={() => setInviteExpiryDays(days)}
+                >
+                  <Text style={[styles.chipText, { color: colors.text }]}>
+                    {days === null ? 'Onbeperkt' : `${days} dagen`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: colors.text }]}>Aantal cliënten</Text>
+          <View style={styles.chipRow}>
+            {INVITE_MAX_USES_OPTIONS.map((uses) => {
+              const selected = uses === inviteMaxUses;
+              return (
+                <TouchableOpacity
+                  key={uses}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                    selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                  ]}
+                  onPress={() => setInviteMaxUses(uses)}
+                >
+                  <Text style={[styles.chipText, { color: colors.text }]}>{uses}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={styles.createInviteButtonContainer}
+            onPress={handleCreateInviteCode}
+            disabled={generatingCode}
+            activeOpacity={0.9}
+          >
+            <LinearGradient
+              colors={generatingCode ? [bcctColors.primaryOrangeDisabled, bcctColors.primaryOrangeDisabled] : [bcctColors.primaryOrange, bcctColors.primaryOrangeDark]}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 0 }}
+              style={styles.createInviteButton}
+            >
+              {generatingCode ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.createInviteButtonText}>
+                  {inviteEmail.trim() ? 'Maak en verstuur code' : 'Maak code'}
+                </Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+
       <Modal
         isVisible={showInvitesList}
         onBackdropPress={() => setShowInvitesList(false)}
@@ -503,19 +641,8 @@ export default function CoachClientsScreen() {
 
           <ScrollView style={styles.invitesListScroll} showsVerticalScrollIndicator={false}>
             {invites.map((invite) => {
-              const isUsed = !!invite.used_at;
-              const createdDate = new Date(invite.created_at).toLocaleDateString('nl-NL', {
-                day: 'numeric',
-                month: 'short',
-                year: 'numeric',
-              });
-              const usedDate = invite.used_at
-                ? new Date(invite.used_at).toLocaleDateString('nl-NL', {
-                    day: 'numeric',
-                    month: 'short',
-                    year: 'numeric',
-                  })
-                : null;
+              const statusColor = INVITE_STATUS_COLORS[invite.status];
+              const isUpdating = updatingInviteId === invite.id;
 
               return (
                 <React.Fragment key={invite.id}>
@@ -524,20 +651,45 @@ export default function CoachClientsScreen() {
                     <Text style={[styles.inviteListItemCode, { color: colors.text }]}>
                       {invite.code}
                     </Text>
-                    <View style={[styles.inviteStatusBadge, { backgroundColor: isUsed ? bcctColors.success + "20" : bcctColors.primaryOrange + "20" }]}>
-                      <Text style={[styles.inviteStatusText, { color: isUsed ? bcctColors.success : bcctColors.primaryOrange }]}>
-                        {isUsed ? 'Gebruikt' : 'Ongebruikt'}
+                    <View style={[styles.inviteStatusBadge, { backgroundColor: statusColor + "20" }]}>
+                      <Text style={[styles.inviteStatusText, { color: statusColor }]}>
+                        {INVITE_STATUS_LABELS[invite.status]}
                       </Text>
                     </View>
                   </View>
                   <Text style={[styles.inviteListItemDate, { color: bcctColors.textSecondary }]}>
-                    Aangemaakt: {createdDate}
+                    Aangemaakt: {formatInviteDate(invite.createdAt)}
+                    {invite.expiresAt ? ` · Geldig t/m ${formatInviteDate(invite.expiresAt)}` : ''}
                   </Text>
-                  {usedDate && (
-                    <Text style={[styles.inviteListItemDate, { color: bcctColors.textSecondary }]}>
-                      Gebruikt: {usedDate}
+                  <Text style={[styles.inviteListItemDate, { color: bcctColors.textSecondary }]}>
+                    {invite.useCount}/{invite.maxUses} keer gebruikt
+                    {invite.email ? ` · ${invite.email}` : ''}
+                  </Text>
+                  {invite.claims.map((claim) => (
+                    <Text key={claim.clientId} style={[styles.inviteListItemDate, { color: bcctColors.textSecondary }]}>
+                      Gebruikt door {claim.name || claim.email} op {formatInviteDate(claim.claimedAt)}
                     </Text>
-                  )}
+                  ))}
+                  {invite.status === 'active' ? (
+                    <View style={styles.inviteListActions}>
+                      {isUpdating ? (
+                        <ActivityIndicator color={bcctColors.primaryOrange} size="small" />
+                      ) : (
+                        <>
+                          {invite.email ? (
+                            <TouchableOpacity onPress={() => handleResendInvite(invite)}>
+                              <Text style={[styles.inviteListActionText, { color: bcctColors.primaryOrange }]}>
+                                Opnieuw versturen
+                              </Text>
+                            </TouchableOpacity>
+                          ) : null}
+                          <TouchableOpacity onPress={() => handleRevokeInvite(invite)}>
+                            <Text style={[styles.inviteListActionText, { color: bcctColors.error }]}>Intrekken</Text>
+                          </TouchableOpacity>
+                        </>
+                      )}
+                    </View>
+                  ) : null}
                 </View>
                 </React.Fragment>
               );
@@ -818,6 +970,44 @@ const styles = StyleSheet.create({
     ...bcctTypography.small,
     fontWeight: '600',
   },
+  inviteListActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 16,
+    marginTop: 8,
+  },
+  inviteListActionText: {
+    ...bcctTypography.smallMedium,
+  },
+  fieldLabel: {
+    ...bcctTypography.bodySemiBold,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  fieldHelper: {
+    ...bcctTypography.small,
+    marginTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    ...bcctTypography.body,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
   inviteListItemDate: {
     ...bcctTypography.small,
   },
@@ -0,0 +1,83 @@
+
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { IconSymbol } from "@/components/IconSymbol";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import ChatThread from "@/components/ChatThread";
+import { bcctTypography } from "@/styles/bcctTheme";
+
+export default function CoachConversationScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const { id, coachId, name } = useLocalSearchParams<{ id: string; coachId: string; name?: string }>();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <IconSymbol
+            ios_icon_name="chevron.left"
+            android_material_icon_name="arrow-back"
+            size={24}
+            color={colors.text}
+          />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+          {name || "Gesprek"}
+        </Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {id && coachId ? (
+        <View style={styles.threadContainer}>
+          <ChatThread
+            conversationId={id}
+            currentUserId={coachId}
+            messagesEndpoint={`/api/coach/conversations/${id}/messages`}
+          />
+        </View>
+      ) : null}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    ...bcctTypography.h2,
+    flex: 1,
+    textAlign: "center",
+  },
+  placeholder: {
+    width: 40,
+  },
+  threadContainer: {
+    flex: 1,
+    paddingBottom: 80,
+  },
+});
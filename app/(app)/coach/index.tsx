@@ -17,9 +17,35 @@ import { useAuth } from "@/contexts/AuthContext";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter } from "expo-router";
 import { supabase } from "@/lib/supabase";
+import { authenticatedGet, authenticatedPut } from "@/utils/api";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
 import { LinearGradient } from "expo-linear-gradient";
 
+interface CoachAlert {
+  id: string;
+  clientId: string;
+  clientName: string | null;
+  status: "open" | "acknowledged";
+  severity: "low" | "medium" | "high";
+  title: string;
+  triggeredAt: string;
+}
+
+const SEVERITY_COLORS: Record<CoachAlert["severity"], string> = {
+  high: bcctColors.error,
+  medium: bcctColors.accentOrange,
+  low: bcctColors.textSecondary,
+};
+
+// Number of alerts shown on the dashboard; the rest stay available through the API
+const DASHBOARD_ALERT_LIMIT = 5;
+
+// Task responses waiting for the coach's review, per client
+interface UnreadReviews {
+  count: number;
+  clients: { clientId: string; name: string | null; count: number }[];
+}
+
 interface DashboardStats {
   clientsCount: number;
   activeProgramsCount: number;
@@ -37,6 +63,9 @@ export default function CoachDashboardScreen() {
     todayAppointmentsCount: 0,
   });
   const [profile, setProfile] = useState<any>(null);
+  const [unreadMessagesCount, setUnreadMessagesCount] = useState(0);
+  const [alerts, setAlerts] = useState<CoachAlert[]>([]);
+  const [unreadReviews, setUnreadReviews] = useState<UnreadReviews>({ count: 0, clients: [] });
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
@@ -114,6 +143,34 @@ export default function CoachDashboardScreen() {
         appointmentsCount = 0;
       }
 
+      // Fetch unread chat messages across all conversations
+      try {
+        const conversations = await authenticatedGet<{ unreadCount: number }[]>("/api/coach/conversations");
+        const unread = conversations.reduce((sum, c) => sum + (c.unreadCount || 0), 0);
+        console.log("[Coach Dashboard] Unread messages:", unread);
+        setUnreadMessagesCount(unread);
+      } catch (conversationsError: any) {
+        console.error("[Coach Dashboard] Unread messages error:", conversationsError);
+      }
+
+      // Fetch unresolved client alerts
+      try {
+        const openAlerts = await authenticatedGet<CoachAlert[]>(`/api/coach/alerts?limit=${DASHBOARD_ALERT_LIMIT}`);
+        console.log("[Coach Dashboard] Open alerts:", openAlerts.length);
+        setAlerts(openAlerts);
+      } catch (alertsError: any) {
+        console.error("[Coach Dashboard] Alerts error:", alertsError);
+      }
+
+      // Fetch client task responses waiting for review
+      try {
+        const reviews = await authenticatedGet<UnreadReviews>("/api/coach/task-completions/unread");
+        console.log("[Coach Dashboard] Unread task responses:", reviews.count);
+        setUnreadReviews(reviews);
+      } catch (reviewsError: any) {
+        console.error("[Coach Dashboard] Unread task responses error:", reviewsError);
+      }
+
       setStats({
         clientsCount: clientsCount || 0,
         activeProgramsCount: activeProgramsCount,
@@ -127,6 +184,21 @@ export default function CoachDashboardScreen() {
     }
   };
 
+  const updateAlert = async (alert: CoachAlert, action: "acknowledge" | "resolve") => {
+    console.log("[Coach Dashboard] Updating alert", alert.id, action);
+    try {
+      await authenticatedPut(`/api/coach/alerts/${alert.id}/${action}`, {});
+      setAlerts((current) =>
+        action === "resolve"
+          ? current.filter((a) => a.id !== alert.id)
+          : current.map((a) => (a.id === alert.id ? { ...a, status: "acknowledged" } : a))
+      );
+    } catch (error: any) {
+      console.error("[Coach Dashboard] Error updating alert", error);
+      showModal("Fout", "Kon signaal niet bijwerken");
+    }
+  };
+
   const handleCopyInviteCode = async () => {
     if (!profile?.invite_code) {
       showModal("Geen code", "Je hebt nog geen coachcode. Neem contact op met support.");
@@ -172,6 +244,15 @@ export default function CoachDashboardScreen() {
       subtitle: "Bekijk en beheer je cliënten",
       icon: "group" as const,
       route: "/(app)/coach/clients" as const,
+      badge: 0,
+    },
+    {
+      id: "messages",
+      title: "Berichten",
+      subtitle: "Chat met je cliënten",
+      icon: "chat" as const,
+      route: "/(app)/coach/messages" as const,
+      badge: unreadMessagesCount,
     },
     {
       id: "modules",
@@ -179,6 +260,7 @@ export default function CoachDashboardScreen() {
       subtitle: "Beheer thema's en vragen",
       icon: "folder" as const,
       route: "/(app)/coach/modules" as const,
+      badge: 0,
     },
     {
       id: "insights",
@@ -186,6 +268,7 @@ export default function CoachDashboardScreen() {
       subtitle: "Bekijk grafieken en patronen",
       icon: "insights" as const,
       route: null,
+      badge: 0,
     },
   ];
 
@@ -240,6 +323,76 @@ export default function CoachDashboardScreen() {
             </View>
           </View>
 
+          {/* Signalen Section */}
+          {alerts.length > 0 ? (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Signalen</Text>
+              <View style={styles.actionsList}>
+                {alerts.map((alert) => (
+                  <TouchableOpacity
+                    key={alert.id}
+                    style={[styles.alertCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                    onPress={() => router.push(`/(app)/coach/client-detail?id=${alert.clientId}` as any)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={[styles.alertSeverity, { backgroundColor: SEVERITY_COLORS[alert.severity] }]} />
+                    <View style={styles.actionContent}>
+                      <Text style={[styles.actionTitle, { color: colors.text }]}>{alert.clientName || "Cliënt"}</Text>
+                      <Text style={[styles.actionSubtitle, { color: bcctColors.textSecondary }]}>{alert.title}</Text>
+                      <View style={styles.alertActions}>
+                        {alert.status === "open" ? (
+                          <TouchableOpacity onPress={() => updateAlert(alert, "acknowledge")}>
+                            <Text style={[styles.alertActionText, { color: bcctColors.primaryOrange }]}>Gezien</Text>
+                          </TouchableOpacity>
+                        ) : (
+                          <Text style={[styles.alertActionText, { color: bcctColors.textSecondary }]}>Gezien</Text>
+                        )}
+                        <TouchableOpacity onPress={() => updateAlert(alert, "resolve")}>
+                          <Text style={[styles.alertActionText, { color: bcctColors.primaryOrange }]}>Afhandelen</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ) : null}
+
+          {/* Nieuwe reflecties Section */}
+          {unreadReviews.count > 0 ? (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {`Nieuwe reflecties (${unreadReviews.count})`}
+              </Text>
+              <View style={styles.actionsList}>
+                {unreadReviews.clients.map((client) => (
+                  <TouchableOpacity
+                    key={client.clientId}
+                    style={[styles.actionCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                    onPress={() => router.push(`/(app)/coach/client-detail?id=${client.clientId}` as any)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.actionContent}>
+                      <Text style={[styles.actionTitle, { color: colors.text }]}>{client.name || "Cliënt"}</Text>
+                      <Text style={[styles.actionSubtitle, { color: bcctColors.textSecondary }]}>
+                        {client.count === 1 ? "1 antwoord te bekijken" : `${client.count} antwoorden te bekijken`}
+                      </Text>
+                    </View>
+                    <View style={styles.actionBadge}>
+                      <Text style={styles.actionBadgeText}>{client.count}</Text>
+                    </View>
+                    <IconSymbol
+                      ios_icon_name="chevron.right"
+                      android_material_icon_name="chevron-right"
+                      size={20}
+                      color={bcctColors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ) : null}
+
           {/* Snelle Acties Section */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>Snelle Acties</Text>
@@ -272,6 +425,11 @@ export default function CoachDashboardScreen() {
                       {action.subtitle}
                     </Text>
                   </View>
+                  {action.badge > 0 ? (
+                    <View style={styles.actionBadge}>
+                      <Text style={styles.actionBadgeText}>{action.badge}</Text>
+                    </View>
+                  ) : null}
                   <IconSymbol
                     ios_icon_name="chevron.right"
                     android_material_icon_name="chevron-right"
@@ -441,9 +599,43 @@ const styles = StyleSheet.create({
   actionTitle: {
     ...bcctTypography.bodyMedium,
   },
+  actionBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    backgroundColor: bcctColors.primaryOrange,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 8,
+  },
+  actionBadgeText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
   actionSubtitle: {
     ...bcctTypography.small,
   },
+  alertCard: {
+    flexDirection: "row",
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  alertSeverity: {
+    width: 4,
+    borderRadius: 2,
+  },
+  alertActions: {
+    flexDirection: "row",
+    gap: 16,
+    marginTop: 4,
+  },
+  alertActionText: {
+    ...bcctTypography.smallMedium,
+  },
   tipCard: {
     padding: 20,
     borderRadius: 16,
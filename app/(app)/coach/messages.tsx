@@ -0,0 +1,295 @@
+
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { IconSymbol } from "@/components/IconSymbol";
+import { useRouter, useFocusEffect } from "expo-router";
+import { authenticatedGet } from "@/utils/api";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+interface ConversationSummary {
+  id: string;
+  coachId: string;
+  clientId: string;
+  createdAt: string;
+  participant: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+  lastMessage: {
+    id: string;
+    senderId: string;
+    content: string;
+    createdAt: string;
+  } | null;
+  unreadCount: number;
+}
+
+const formatLastActivity = (iso: string) => {
+  const date = new Date(iso);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+  }
+  return date.toLocaleDateString("nl-NL", { day: "numeric", month: "short" });
+};
+
+export default function CoachMessagesScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+
+  const fetchConversations = useCallback(async () => {
+    console.log("[CoachMessages] Fetching conversations");
+    try {
+      const data = await authenticatedGet<ConversationSummary[]>("/api/coach/conversations");
+      setConversations(data);
+    } catch (error) {
+      console.error("[CoachMessages] Error fetching conversations:", error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  // Refresh unread counts whenever the inbox regains focus
+  useFocusEffect(
+    useCallback(() => {
+      fetchConversations();
+    }, [fetchConversations])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    fetchConversations();
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <IconSymbol
+            ios_icon_name="chevron.left"
+            android_material_icon_name="arrow-back"
+            size={24}
+            color={colors.text}
+          />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Berichten</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {conversations.length === 0 ? (
+          <View style={styles.emptyState}>
+            <IconSymbol
+              ios_icon_name="message"
+              android_material_icon_name="chat"
+              size={48}
+              color={bcctColors.textSecondary}
+            />
+            <Text style={[styles.emptyText, { color: bcctColors.textSecondary }]}>
+              Nog geen gesprekken. Start een gesprek vanuit het profiel van een cliënt.
+            </Text>
+          </View>
+        ) : (
+          conversations.map((conversation) => {
+            const name = conversation.participant?.name || "Onbekende cliënt";
+            const preview = conversation.lastMessage
+              ? `${conversation.lastMessage.senderId === conversation.coachId ? "Jij: " : ""}${conversation.lastMessage.content}`
+              : "Nog geen berichten";
+            const activityText = formatLastActivity(
+              conversation.lastMessage?.createdAt || conversation.createdAt
+            );
+            const hasUnread = conversation.unreadCount > 0;
+
+            return (
+              <React.Fragment key={conversation.id}>
+              <TouchableOpacity
+                style={[styles.conversationCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() =>
+                  router.push({
+                    pathname: "/(app)/coach/conversation",
+                    params: { id: conversation.id, coachId: conversation.coachId, name },
+                  } as any)
+                }
+                activeOpacity={0.7}
+              >
+                <View style={[styles.avatar, { backgroundColor: bcctColors.primaryOrange + "20" }]}>
+                  <IconSymbol
+                    ios_icon_name="person"
+                    android_material_icon_name="person"
+                    size={24}
+                    color={bcctColors.primaryOrange}
+                  />
+                </View>
+                <View style={styles.conversationContent}>
+                  <View style={styles.conversationTopRow}>
+                    <Text style={[styles.conversationName, { color: colors.text }]} numberOfLines={1}>
+                      {name}
+                    </Text>
+                    <Text style={[styles.activityText, { color: bcctColors.textSecondary }]}>
+                      {activityText}
+                    </Text>
+                  </View>
+                  <View style={styles.conversationBottomRow}>
+                    <Text
+                      style={[
+                        styles.previewText,
+                        { color: hasUnread ? colors.text : bcctColors.textSecondary },
+                        hasUnread && styles.previewUnread,
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {preview}
+                    </Text>
+                    {hasUnread ? (
+                      <View style={styles.unreadBadge}>
+                        <Text style={styles.unreadBadgeText}>{conversation.unreadCount}</Text>
+                      </View>
+                    ) : null}
+                  </View>
+                </View>
+              </TouchableOpacity>
+              </React.Fragment>
+            );
+          })
+        )}
+
+        {/* Bottom padding for tab bar */}
+        <View style={{ height: 100 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    ...bcctTypography.h2,
+    flex: 1,
+    textAlign: "center",
+  },
+  placeholder: {
+    width: 40,
+  },
+  scrollContent: {
+    padding: 20,
+    gap: 12,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+    gap: 16,
+  },
+  emptyText: {
+    ...bcctTypography.body,
+    textAlign: "center",
+  },
+  conversationCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  avatar: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  conversationContent: {
+    flex: 1,
+    gap: 4,
+  },
+  conversationTopRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  conversationName: {
+    ...bcctTypography.bodySemiBold,
+    flex: 1,
+  },
+  activityText: {
+    ...bcctTypography.small,
+  },
+  conversationBottomRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  previewText: {
+    ...bcctTypography.small,
+    flex: 1,
+  },
+  previewUnread: {
+    fontWeight: "600",
+  },
+  unreadBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    backgroundColor: bcctColors.primaryOrange,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  unreadBadgeText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+});
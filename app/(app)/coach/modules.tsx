@@ -15,16 +15,32 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useAuth } from "@/contexts/AuthContext";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter } from "expo-router";
-import { supabase } from "@/lib/supabase";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
 import { LinearGradient } from "expo-linear-gradient";
 
 interface Theme {
   id: string;
   name: string;
-  description: string;
-  created_at: string;
-  item_count?: number;
+  description: string | null;
+  createdAt: string;
+  itemCount: number;
+  version: number;
+  sourceThemeId: string | null;
+  sourceVersion: number | null;
+  sourceLatestVersion: number | null;
+}
+
+// A published theme from one of the coach's organizations
+interface LibraryTheme {
+  id: string;
+  name: string;
+  description: string | null;
+  orgName: string;
+  version: number;
+  itemCount: number;
+  clonedThemeId: string | null;
+  clonedVersion: number | null;
 }
 
 export default function CoachModulesScreen() {
@@ -33,6 +49,8 @@ export default function CoachModulesScreen() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [themes, setThemes] = useState<Theme[]>([]);
+  const [libraryThemes, setLibraryThemes] = useState<LibraryTheme[]>([]);
+  const [cloningId, setCloningId] = useState<string | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
@@ -54,31 +72,13 @@ export default function CoachModulesScreen() {
   const fetchThemes = async () => {
     console.log("[Coach Modules] Fetching themes");
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        console.error("[Coach Modules] No user session");
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from("themes")
-        .select("*, theme_items(count)")
-        .eq("created_by", session.session.user.id)
-        .order("created_at", { ascending: false });
-
-      if (error) {
-        console.error("[Coach Modules] Error fetching themes", error);
-        showModal("Fout", "Kon thema's niet laden");
-        return;
-      }
-
-      const themesWithCount = data.map((theme: any) => ({
-        ...theme,
-        item_count: theme.theme_items?.[0]?.count || 0,
-      }));
-
-      console.log("[Coach Modules] Themes loaded", themesWithCount);
-      setThemes(themesWithCount);
+      const [data, library] = await Promise.all([
+        authenticatedGet<Theme[]>("/api/coach/themes"),
+        authenticatedGet<LibraryTheme[]>("/api/coach/themes/library"),
+      ]);
+      console.log("[Coach Modules] Themes loaded", data, library);
+      setThemes(data);
+      setLibraryThemes(library);
     } catch (error: any) {
       console.error("[Coach Modules] Error fetching themes", error);
       showModal("Fout", "Kon thema's niet laden");
@@ -96,27 +96,10 @@ export default function CoachModulesScreen() {
     console.log("[Coach Modules] Creating theme", newThemeName);
     setCreating(true);
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        showModal("Fout", "Je bent niet ingelogd");
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from("themes")
-        .insert({
-          name: newThemeName.trim(),
-          description: newThemeDescription.trim(),
-          created_by: session.session.user.id,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error("[Coach Modules] Error creating theme", error);
-        showModal("Fout", "Kon thema niet aanmaken");
-        return;
-      }
+      const data = await authenticatedPost<{ id: string }>("/api/coach/themes", {
+        name: newThemeName.trim(),
+        description: newThemeDescription.trim(),
+      });
 
       console.log("[Coach Modules] Theme created", data);
       setCreateModalVisible(false);
@@ -132,16 +115,26 @@ export default function CoachModulesScreen() {
     }
   };
 
+  const cloneLibraryTheme = async (theme: LibraryTheme) => {
+    console.log("[Coach Modules] Cloning library theme", theme.id);
+    setCloningId(theme.id);
+    try {
+      const data = await authenticatedPost<{ id: string }>(`/api/coach/themes/library/${theme.id}/clone`, {});
+      console.log("[Coach Modules] Library theme cloned", data);
+      router.push(`/(app)/coach/theme-detail?id=${data.id}`);
+      fetchThemes();
+    } catch (error: any) {
+      console.error("[Coach Modules] Error cloning library theme", error);
+      showModal("Fout", "Kon thema niet kopiëren");
+    } finally {
+      setCloningId(null);
+    }
+  };
+
   const seedDefaultThemes = async () => {
     console.log("[Coach Modules] Seeding default themes");
     setLoading(true);
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        showModal("Fout", "Je bent niet ingelogd");
-        return;
-      }
-
       const defaultThemes = [
         {
           name: "Burn-out",
@@ -166,37 +159,10 @@ export default function CoachModulesScreen() {
       ];
 
       for (const theme of defaultThemes) {
-        const { data: themeData, error: themeError } = await supabase
-          .from("themes")
-          .insert({
-            name: theme.name,
-            description: theme.description,
-            created_by: session.session.user.id,
-          })
-          .select()
-          .single();
-
-        if (themeError) {
-          console.error("[Coach Modules] Error creating theme", themeError);
-          continue;
-        }
-
-        const items = theme.items.map((label, index) => ({
-          theme_id: themeData.id,
-          label,
-          type: "slider",
-          min_value: 0,
-          max_value: 100,
-          sort_order: index + 1,
-          is_active: true,
-        }));
-
-        const { error: itemsError } = await supabase
-          .from("theme_items")
-          .insert(items);
-
-        if (itemsError) {
-          console.error("[Coach Modules] Error creating theme items", itemsError);
+        try {
+          await authenticatedPost("/api/coach/themes", theme);
+        } catch (themeError: any) {
+          console.error("[Coach Modules] Error creating theme", theme.name, themeError);
         }
       }
 
@@ -251,6 +217,35 @@ export default function CoachModulesScreen() {
         </View>
 
         <ScrollView contentContainerStyle={styles.scrollContent}>
+          <TouchableOpacity
+            style={[styles.themeCard, styles.programsCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+            onPress={() => router.push("/(app)/coach/programs" as any)}
+          >
+            <View style={styles.themeHeader}>
+              <View style={[styles.themeIcon, { backgroundColor: bcctColors.primaryBlue + "20" }]}>
+                <IconSymbol
+                  ios_icon_name="calendar"
+                  android_material_icon_name="calendar-today"
+                  size={28}
+                  color={bcctColors.primaryBlue}
+                />
+              </View>
+              <View style={styles.themeContent}>
+                <Text style={[styles.themeName, { color: colors.text }]}>Programma&apos;s</Text>
+                <Text style={[styles.themeDescription, { color: bcctColors.textSecondary }]}>
+                  Bouw trajecten van meerdere weken met opdrachten
+                </Text>
+              </View>
+              <IconSymbol
+                ios_icon_name="chevron.right"
+                android_material_icon_name="chevron-right"
+                size={20}
+                color={colors.text}
+                style={{ opacity: 0.4 }}
+              />
+            </View>
+          </TouchableOpacity>
+
           {themes.length === 0 ? (
             <View style={styles.emptyState}>
               <IconSymbol
@@ -282,7 +277,11 @@ export default function CoachModulesScreen() {
           ) : (
             <View style={styles.themesList}>
               {themes.map((theme) => {
-                const itemCountText = `${theme.item_count || 0} vragen`;
+                const itemCountText = `${theme.itemCount} vragen`;
+                const updateAvailable =
+                  theme.sourceVersion !== null &&
+                  theme.sourceLatestVersion !== null &&
+                  theme.sourceLatestVersion > theme.sourceVersion;
                 return (
                   <TouchableOpacity
                     key={theme.id}
@@ -308,6 +307,13 @@ export default function CoachModulesScreen() {
                         <Text style={[styles.themeItemCount, { color: bcctColors.textSecondary }]}>
                           {itemCountText}
                         </Text>
+                        {updateAvailable ? (
+                          <View style={[styles.badge, { backgroundColor: bcctColors.primaryBlue + "20" }]}>
+                            <Text style={[styles.badgeText, { color: bcctColors.primaryBlue }]}>
+                              Update beschikbaar
+                            </Text>
+                          </View>
+                        ) : null}
                       </View>
                       <IconSymbol
                         ios_icon_name="chevron.right"
@@ -323,6 +329,67 @@ export default function CoachModulesScreen() {
             </View>
           )}
 
+          {libraryThemes.length > 0 ? (
+            <View style={styles.librarySection}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Bibliotheek</Text>
+              <Text style={[styles.sectionDescription, { color: bcctColors.textSecondary }]}>
+                Thema's gedeeld door je organisatie. Kopieer een thema om het aan te passen.
+              </Text>
+              {libraryThemes.map((theme) => {
+                const cloned = theme.clonedThemeId !== null;
+                const outdated = cloned && theme.clonedVersion !== null && theme.clonedVersion < theme.version;
+                return (
+                  <View
+                    key={theme.id}
+                    style={[styles.themeCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+                  >
+                    <View style={styles.themeHeader}>
+                      <View style={[styles.themeIcon, { backgroundColor: bcctColors.primaryBlue + "20" }]}>
+                        <IconSymbol
+                          ios_icon_name="books.vertical"
+                          android_material_icon_name="library-books"
+                          size={28}
+                          color={bcctColors.primaryBlue}
+                        />
+                      </View>
+                      <View style={styles.themeContent}>
+                        <Text style={[styles.themeName, { color: colors.text }]}>{theme.name}</Text>
+                        {theme.description ? (
+                          <Text style={[styles.themeDescription, { color: bcctColors.textSecondary }]}>
+                            {theme.description}
+                          </Text>
+                        ) : null}
+                        <Text style={[styles.themeItemCount, { color: bcctColors.textSecondary }]}>
+                          {`${theme.orgName} · ${theme.itemCount} vragen · versie ${theme.version}`}
+                        </Text>
+                        {outdated ? (
+                          <View style={[styles.badge, { backgroundColor: bcctColors.primaryBlue + "20" }]}>
+                            <Text style={[styles.badgeText, { color: bcctColors.primaryBlue }]}>
+                              Update beschikbaar
+                            </Text>
+                          </View>
+                        ) : null}
+                      </View>
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.cloneButton, { borderColor: bcctColors.primaryOrange }]}
+                      onPress={() => cloneLibraryTheme(theme)}
+                      disabled={cloningId !== null}
+                    >
+                      {cloningId === theme.id ? (
+                        <ActivityIndicator color={bcctColors.primaryOrange} />
+                      ) : (
+                        <Text style={[styles.cloneButtonText, { color: bcctColors.primaryOrange }]}>
+                          {cloned ? "Opnieuw kopiëren" : "Kopiëren"}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          ) : null}
+
           {/* Bottom padding for tab bar */}
           <View style={{ height: 100 }} />
         </ScrollView>
@@ -500,12 +567,45 @@ const styles = StyleSheet.create({
   themeName: {
     ...bcctTypography.h3,
   },
+  programsCard: {
+    marginBottom: 20,
+  },
   themeDescription: {
     ...bcctTypography.body,
   },
   themeItemCount: {
     ...bcctTypography.small,
   },
+  badge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  badgeText: {
+    ...bcctTypography.smallMedium,
+  },
+  librarySection: {
+    marginTop: 32,
+    gap: 12,
+  },
+  sectionTitle: {
+    ...bcctTypography.h3,
+  },
+  sectionDescription: {
+    ...bcctTypography.body,
+  },
+  cloneButton: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  cloneButtonText: {
+    ...bcctTypography.button,
+  },
   modalContent: {
     borderRadius: 20,
     padding: 24,
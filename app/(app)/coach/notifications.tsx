@@ -0,0 +1,6 @@
+import React from "react";
+import NotificationSettings from "@/components/NotificationSettings";
+
+export default function CoachNotificationsScreen() {
+  return <NotificationSettings categories={["chatMessage", "appointmentReminder", "coachAlert"]} />;
+}
@@ -0,0 +1,1005 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+} from "react-native";
+import Modal from "react-native-modal";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import DraggableList from "@/components/DraggableList";
+import ProgramTaskEditor, { ProgramTaskDraft } from "@/components/ProgramTaskEditor";
+import ProgramTaskPlayer from "@/components/ProgramTaskPlayer";
+import { authenticatedDelete, authenticatedGet, authenticatedPost, authenticatedPut, parseApiError } from "@/utils/api";
+import {
+  CoachProgramDetail,
+  previewProgramTask,
+  PROGRAM_TASK_TYPE_LABELS,
+  ProgramBuilderTask,
+  ProgramBuilderWeek,
+  ProgramTask,
+} from "@/utils/programs";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+interface ConfirmAction {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => Promise<void>;
+}
+
+// The task editor sheet: a new task for a week, or an existing task
+interface TaskEditorState {
+  weekId: string;
+  task: ProgramBuilderTask | null;
+}
+
+export default function ProgramBuilderScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [loading, setLoading] = useState(true);
+  const [program, setProgram] = useState<CoachProgramDetail | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [preview, setPreview] = useState(false);
+  const [previewTask, setPreviewTask] = useState<ProgramTask | null>(null);
+  const [editor, setEditor] = useState<TaskEditorState | null>(null);
+  const [savingTask, setSavingTask] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [publishVisible, setPublishVisible] = useState(false);
+  const [migrateAssignees, setMigrateAssignees] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  const fetchProgram = useCallback(async () => {
+    if (!id) return;
+
+    console.log("[Program Builder] Fetching program", id);
+    try {
+      const data = await authenticatedGet<CoachProgramDetail>(`/api/coach/programs/${id}`);
+      console.log("[Program Builder] Program loaded", { draft: data.draftVersion, latest: data.latestVersion });
+      setProgram(data);
+      const version = data.draft || data.published;
+      setTitle(version?.title ?? data.title);
+      setDescription(version?.description ?? data.description ?? "");
+    } catch (error: any) {
+      console.error("[Program Builder] Error fetching program", error);
+      showModal("Fout", "Kon programma niet laden");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchProgram();
+  }, [fetchProgram]);
+
+  const draft = program?.draft ?? null;
+  const editable = !!draft && !program?.archivedAt;
+  const weeks = (draft || program?.published)?.weeks ?? [];
+  // The version assigned clients follow; a draft offers to move them over when published
+  const latest = program?.versions.find((version) => version.status === "published") ?? null;
+
+  const setDraftWeeks = (nextWeeks: ProgramBuilderWeek[]) =>
+    setProgram((current) =>
+      current && current.draft ? { ...current, draft: { ...current.draft, weeks: nextWeeks } } : current
+    );
+
+  // Runs a builder change and reloads the program; failures are shown with the given message
+  const runChange = async (label: string, failure: string, change: () => Promise<void>) => {
+    console.log(`[Program Builder] ${label}`);
+    setBusy(true);
+    try {
+      await change();
+      await fetchProgram();
+    } catch (error: any) {
+      console.error(`[Program Builder] Error: ${label}`, error);
+      showModal("Fout", failure);
+      fetchProgram();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startDraft = () =>
+    runChange("Starting draft", "Kon geen nieuwe versie starten", async () => {
+      await authenticatedPost(`/api/coach/programs/${id}/draft`, {});
+    });
+
+  const saveDetails = async () => {
+    if (!draft || !title.trim()) return;
+    if (title.trim() === draft.title && (description.trim() || null) === draft.description) return;
+
+    console.log("[Program Builder] Saving details");
+    try {
+      await authenticatedPut(`/api/coach/programs/${id}`, {
+        title: title.trim(),
+        description: description.trim() || null,
+      });
+      setProgram((current) =>
+        current && current.draft
+          ? { ...current, draft: { ...current.draft, title: title.trim(), description: description.trim() || null } }
+          : current
+      );
+    } catch (error: any) {
+      console.error("[Program Builder] Error saving details", error);
+      showModal("Fout", "Kon titel en beschrijving niet opslaan");
+    }
+  };
+
+  const addWeek = () =>
+    runChange("Adding week", "Kon week niet toevoegen", async () => {
+      await authenticatedPost(`/api/coach/programs/${id}/weeks`, {});
+    });
+
+  const renameWeek = async (week: ProgramBuilderWeek, weekTitle: string) => {
+    if ((weekTitle.trim() || null) === week.title) return;
+
+    console.log("[Program Builder] Renaming week", week.id);
+    try {
+      await authenticatedPut(`/api/coach/programs/${id}/weeks/${week.id}`, { title: weekTitle.trim() || null });
+      setDraftWeeks(weeks.map((item) => (item.id === week.id ? { ...item, title: weekTitle.trim() || null } : item)));
+    } catch (error: any) {
+      console.error("[Program Builder] Error renaming week", error);
+      showModal("Fout", "Kon weektitel niet opslaan");
+    }
+  };
+
+  const duplicateWeek = (week: ProgramBuilderWeek) =>
+    runChange("Duplicating week", "Kon week niet dupliceren", async () => {
+      await authenticatedPost(`/api/coach/programs/${id}/weeks/${week.id}/duplicate`, {});
+    });
+
+  const deleteWeek = (week: ProgramBuilderWeek) =>
+    setConfirmAction({
+      title: `Week ${week.weekNumber} verwijderen`,
+      message:
+        week.tasks.length > 0
+          ? `De week en de ${week.tasks.length} opdrachten erin worden uit het concept verwijderd.`
+          : "De week wordt uit het concept verwijderd.",
+      confirmLabel: "Verwijderen",
+      onConfirm: () =>
+        runChange("Deleting week", "Kon week niet verwijderen", async () => {
+          await authenticatedDelete(`/api/coach/programs/${id}/weeks/${week.id}`);
+        }),
+    });
+
+  const reorderWeeks = async (nextWeeks: ProgramBuilderWeek[]) => {
+    console.log("[Program Builder] Reordering weeks");
+    // Shown right away; the saved order comes back from the server
+    setDraftWeeks(nextWeeks.map((week, index) => ({ ...week, weekNumber: index + 1 })));
+    try {
+      const saved = await authenticatedPut<ProgramBuilderWeek[]>(`/api/coach/programs/${id}/weeks/order`, {
+        weekIds: nextWeeks.map((week) => week.id),
+      });
+      setDraftWeeks(saved);
+    } catch (error: any) {
+      console.error("[Program Builder] Error reordering weeks", error);
+      showModal("Fout", "Kon volgorde van de weken niet opslaan");
+      fetchProgram();
+    }
+  };
+
+  const saveTaskOrder = async (nextWeeks: ProgramBuilderWeek[]) => {
+    const saved = await authenticatedPut<ProgramBuilderWeek[]>(`/api/coach/programs/${id}/tasks/order`, {
+      weeks: nextWeeks.map((week) => ({ weekId: week.id, taskIds: week.tasks.map((task) => task.id) })),
+    });
+    setDraftWeeks(saved);
+  };
+
+  const reorderTasks = async (week: ProgramBuilderWeek, tasks: ProgramBuilderTask[]) => {
+    console.log("[Program Builder] Reordering tasks", week.id);
+    const nextWeeks = weeks.map((item) => (item.id === week.id ? { ...item, tasks } : item));
+    setDraftWeeks(nextWeeks);
+    try {
+      await saveTaskOrder(nextWeeks);
+    } catch (error: any) {
+      console.error("[Program Builder] Error reordering tasks", error);
+      showModal("Fout", "Kon volgorde van de opdrachten niet opslaan");
+      fetchProgram();
+    }
+  };
+
+  const saveTask = async (taskDraft: ProgramTaskDraft) => {
+    if (!editor) return;
+
+    console.log("[Program Builder] Saving task", editor.task?.id ?? "new");
+    setSavingTask(true);
+    try {
+      if (editor.task) {
+        await authenticatedPut(`/api/coach/programs/${id}/tasks/${editor.task.id}`, {
+          title: taskDraft.title,
+          contentJson: taskDraft.contentJson,
+        });
+        // Moving to another week puts the task at the end of that week
+        if (taskDraft.weekId !== editor.task.weekId) {
+          const moved = editor.task;
+          await saveTaskOrder(
+            weeks.map((week) =>
+              week.id === taskDraft.weekId
+                ? { ...week, tasks: [...week.tasks, moved] }
+                : { ...week, tasks: week.tasks.filter((task) => task.id !== moved.id) }
+            )
+          );
+        }
+      } else {
+        await authenticatedPost(`/api/coach/programs/${id}/tasks`, taskDraft);
+      }
+      setEditor(null);
+      await fetchProgram();
+    } catch (error: any) {
+      console.error("[Program Builder] Error saving task", error);
+      const { body } = parseApiError(error);
+      showModal("Fout", body?.error ? `Kon opdracht niet opslaan: ${body.error}` : "Kon opdracht niet opslaan");
+    } finally {
+      setSavingTask(false);
+    }
+  };
+
+  const deleteTask = (task: ProgramBuilderTask) => {
+    setEditor(null);
+    setConfirmAction({
+      title: "Opdracht verwijderen",
+      message: `"${task.title}" wordt uit het concept verwijderd.`,
+      confirmLabel: "Verwijderen",
+      onConfirm: () =>
+        runChange("Deleting task", "Kon opdracht niet verwijderen", async () => {
+          await authenticatedDelete(`/api/coach/programs/${id}/tasks/${task.id}`);
+        }),
+    });
+  };
+
+  const discardDraft = () =>
+    setConfirmAction({
+      title: "Concept verwijderen",
+      message: `Alle wijzigingen sinds versie ${latest?.version} gaan verloren.`,
+      confirmLabel: "Verwijderen",
+      onConfirm: () =>
+        runChange("Discarding draft", "Kon concept niet verwijderen", async () => {
+          await authenticatedDelete(`/api/coach/programs/${id}/draft`);
+        }),
+    });
+
+  const publish = async () => {
+    console.log("[Program Builder] Publishing", { migrateAssignees });
+    setBusy(true);
+    try {
+      const result = await authenticatedPost<{ version: number; migratedCount: number }>(
+        `/api/coach/programs/${id}/publish`,
+        { migrateAssignees }
+      );
+      console.log("[Program Builder] Published", result);
+      setPublishVisible(false);
+      await fetchProgram();
+      showModal(
+        "Gepubliceerd",
+        result.migratedCount > 0
+          ? `Versie ${result.version} is gepubliceerd. ${result.migratedCount} ${
+              result.migratedCount === 1 ? "cliënt volgt" : "cliënten volgen"
+            } nu deze versie.`
+          : `Versie ${result.version} is gepubliceerd. Nieuwe toewijzingen krijgen deze versie.`
+      );
+    } catch (error: any) {
+      console.error("[Program Builder] Error publishing", error);
+      setPublishVisible(false);
+      showModal("Fout", "Kon programma niet publiceren");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const archiveProgram = () =>
+    setConfirmAction({
+      title: "Programma verwijderen",
+      message:
+        "Een programma dat al aan cliënten is toegewezen wordt gearchiveerd, zodat hun voortgang bewaard blijft. Anders worden het programma en alle weken verwijderd.",
+      confirmLabel: "Verwijderen",
+      onConfirm: async () => {
+        console.log("[Program Builder] Deleting program", id);
+        setBusy(true);
+        try {
+          const result = await authenticatedDelete<{ archived: boolean }>(`/api/coach/programs/${id}`);
+          if (result.archived) {
+            await fetchProgram();
+            showModal("Gearchiveerd", "Het programma is gearchiveerd en kan niet meer worden toegewezen.");
+          } else {
+            router.back();
+          }
+        } catch (error: any) {
+          console.error("[Program Builder] Error deleting program", error);
+          showModal("Fout", "Kon programma niet verwijderen");
+        } finally {
+          setBusy(false);
+        }
+      },
+    });
+
+  const restoreProgram = () =>
+    runChange("Restoring program", "Kon programma niet terugzetten", async () => {
+      await authenticatedPost(`/api/coach/programs/${id}/restore`, {});
+    });
+
+  const renderTaskRow = (week: ProgramBuilderWeek, task: ProgramBuilderTask, dragHandle: React.ReactNode) => (
+    <View style={[styles.taskRow, { borderColor: colors.border, backgroundColor: colors.card }]}>
+      {editable ? dragHandle : null}
+      <TouchableOpacity
+        style={styles.taskText}
+        onPress={() => (editable ? setEditor({ weekId: week.id, task }) : setPreviewTask(previewProgramTask(task)))}
+      >
+        <Text style={[styles.taskTitle, { color: colors.text }]}>{task.title}</Text>
+        <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>{PROGRAM_TASK_TYPE_LABELS[task.type]}</Text>
+      </TouchableOpacity>
+      <IconSymbol
+        ios_icon_name={editable ? "pencil" : "eye"}
+        android_material_icon_name={editable ? "edit" : "visibility"}
+        size={18}
+        color={bcctColors.textSecondary}
+      />
+    </View>
+  );
+
+  const renderWeek = (week: ProgramBuilderWeek, dragHandle: React.ReactNode) => (
+    <View style={[styles.weekCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <View style={styles.weekHeader}>
+        {editable ? dragHandle : null}
+        <Text style={[styles.weekNumber, { color: colors.text }]}>{`Week ${week.weekNumber}`}</Text>
+        {editable ? (
+          <>
+            <TouchableOpacity style={styles.iconButton} onPress={() => duplicateWeek(week)} disabled={busy}>
+              <IconSymbol
+                ios_icon_name="plus.square.on.square"
+                android_material_icon_name="content-copy"
+                size={20}
+                color={bcctColors.primaryOrange}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => deleteWeek(week)} disabled={busy}>
+              <IconSymbol ios_icon_name="trash" android_material_icon_name="delete" size={20} color={bcctColors.error} />
+            </TouchableOpacity>
+          </>
+        ) : null}
+      </View>
+      {editable ? (
+        <TextInput
+          key={`${week.id}-${week.title}`}
+          style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+          placeholder="Titel van de week (optioneel)"
+          placeholderTextColor={bcctColors.textSecondary}
+          defaultValue={week.title ?? ""}
+          onEndEditing={(event) => renameWeek(week, event.nativeEvent.text)}
+        />
+      ) : week.title ? (
+        <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>{week.title}</Text>
+      ) : null}
+      {week.tasks.length === 0 ? (
+        <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>Nog geen opdrachten</Text>
+      ) : (
+        <DraggableList
+          items={week.tasks}
+          keyExtractor={(task) => task.id}
+          renderItem={(task, taskHandle) => renderTaskRow(week, task, taskHandle)}
+          onReorder={(tasks) => reorderTasks(week, tasks)}
+          disabled={!editable || busy}
+          onDragStart={() => setDragging(true)}
+          onDragEnd={() => setDragging(false)}
+        />
+      )}
+      {editable ? (
+        <TouchableOpacity
+          style={[styles.dashedButton, { borderColor: colors.border }]}
+          onPress={() => setEditor({ weekId: week.id, task: null })}
+        >
+          <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={16} color={bcctColors.primaryOrange} />
+          <Text style={[styles.dashedButtonText, { color: bcctColors.primaryOrange }]}>Opdracht toevoegen</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+
+  // The program the way an assigned client sees it, before any week has opened
+  const renderPreview = () => (
+    <View style={styles.list}>
+      <View style={[styles.weekCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        <Text style={[styles.previewTitle, { color: colors.text }]}>{title || program?.title}</Text>
+        {description ? (
+          <Text style={[styles.body, { color: bcctColors.textSecondary }]}>{description}</Text>
+        ) : null}
+        <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>
+          {`0/${weeks.reduce((sum, week) => sum + week.tasks.length, 0)} taken afgerond`}
+        </Text>
+      </View>
+      {weeks.map((week) => (
+        <View key={week.id} style={[styles.weekCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Text style={[styles.weekNumber, { color: colors.text }]}>
+            {`Week ${week.weekNumber}${week.title ? ` · ${week.title}` : ""}`}
+          </Text>
+          <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>
+            {week.weekNumber === 1 ? `0/${week.tasks.length} taken afgerond` : `Opent op dag ${(week.weekNumber - 1) * 7 + 1}`}
+          </Text>
+          {week.tasks.map((task) => (
+            <TouchableOpacity
+              key={task.id}
+              style={[styles.taskRow, { borderColor: colors.border }]}
+              onPress={() => setPreviewTask(previewProgramTask(task))}
+            >
+              <IconSymbol
+                ios_icon_name="circle"
+                android_material_icon_name="radio-button-unchecked"
+                size={22}
+                color={bcctColors.textSecondary}
+              />
+              <View style={styles.taskText}>
+                <Text style={[styles.taskTitle, { color: colors.text }]}>{task.title}</Text>
+                <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>
+                  {PROGRAM_TASK_TYPE_LABELS[task.type]}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderStatus = () => {
+    if (!program) return null;
+
+    if (program.archivedAt) {
+      return (
+        <View style={[styles.statusCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Text style={[styles.body, { color: colors.text }]}>
+            Dit programma is gearchiveerd. Cliënten die het volgen houden hun versie.
+          </Text>
+          <TouchableOpacity style={[styles.outlineButton, { borderColor: bcctColors.primaryOrange }]} onPress={restoreProgram} disabled={busy}>
+            <Text style={[styles.outlineButtonText, { color: bcctColors.primaryOrange }]}>Terugzetten</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (!draft) {
+      return (
+        <View style={[styles.statusCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Text style={[styles.body, { color: colors.text }]}>
+            {`Versie ${latest?.version} is gepubliceerd en wordt gevolgd door ${latest?.assigneeCount ?? 0} ${
+              latest?.assigneeCount === 1 ? "cliënt" : "cliënten"
+            }. Wijzigingen maak je in een nieuwe versie.`}
+          </Text>
+          <TouchableOpacity style={[styles.primaryButton, { backgroundColor: bcctColors.primaryOrange }]} onPress={startDraft} disabled={busy}>
+            <Text style={styles.primaryButtonText}>Nieuwe versie bewerken</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.statusCard, { backgroundColor: colors.card, borderColor: bcctColors.primaryOrange }]}>
+        <Text style={[styles.body, { color: colors.text }]}>
+          {latest
+            ? `Concept versie ${draft.version}. Cliënten zien de wijzigingen pas na publiceren.`
+            : "Concept. Publiceer het programma om het toe te kunnen wijzen."}
+        </Text>
+        <View style={styles.buttonRow}>
+          {latest ? (
+            <TouchableOpacity style={[styles.outlineButton, styles.flexButton, { borderColor: colors.border }]} onPress={discardDraft} disabled={busy}>
+              <Text style={[styles.outlineButtonText, { color: colors.text }]}>Verwerpen</Text>
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.flexButton, { backgroundColor: bcctColors.primaryOrange }, weeks.length === 0 && styles.disabled]}
+            onPress={() => {
+              setMigrateAssignees(true);
+              setPublishVisible(true);
+            }}
+            disabled={busy || weeks.length === 0}
+          >
+            <Text style={styles.primaryButtonText}>Publiceren</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  // Clients on any published version can be moved to the new one
+  const assigneeCount = program?.assigneeCount ?? 0;
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="arrow-back"
+              size={24}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+            {preview ? "Voorbeeld" : "Programma bouwen"}
+          </Text>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setPreview(!preview)} disabled={!program}>
+            <IconSymbol
+              ios_icon_name={preview ? "pencil" : "eye"}
+              android_material_icon_name={preview ? "edit" : "visibility"}
+              size={24}
+              color={bcctColors.primaryOrange}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+          </View>
+        ) : !program ? null : (
+          <ScrollView contentContainerStyle={styles.scrollContent} scrollEnabled={!dragging} keyboardShouldPersistTaps="handled">
+            {preview ? (
+              renderPreview()
+            ) : (
+              <View style={styles.list}>
+                {renderStatus()}
+
+                {editable ? (
+                  <View style={styles.section}>
+                    <TextInput
+                      style={[styles.input, styles.titleInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                      placeholder="Titel"
+                      placeholderTextColor={bcctColors.textSecondary}
+                      value={title}
+                      onChangeText={setTitle}
+                      onEndEditing={saveDetails}
+                    />
+                    <TextInput
+                      style={[styles.input, styles.textArea, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                      placeholder="Beschrijving (optioneel)"
+                      placeholderTextColor={bcctColors.textSecondary}
+                      value={description}
+                      onChangeText={setDescription}
+                      onEndEditing={saveDetails}
+                      multiline
+                    />
+                  </View>
+                ) : (
+                  <View style={styles.section}>
+                    <Text style={[styles.previewTitle, { color: colors.text }]}>{title}</Text>
+                    {description ? (
+                      <Text style={[styles.body, { color: bcctColors.textSecondary }]}>{description}</Text>
+                    ) : null}
+                  </View>
+                )}
+
+                {weeks.length === 0 ? (
+                  <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>
+                    Een programma bestaat uit weken. Elke week opent zeven dagen na de vorige.
+                  </Text>
+                ) : (
+                  <DraggableList
+                    items={weeks}
+                    keyExtractor={(week) => week.id}
+                    renderItem={(week, dragHandle) => renderWeek(week, dragHandle)}
+                    onReorder={reorderWeeks}
+                    gap={12}
+                    disabled={!editable || busy}
+                    onDragStart={() => setDragging(true)}
+                    onDragEnd={() => setDragging(false)}
+                  />
+                )}
+
+                {editable ? (
+                  <TouchableOpacity
+                    style={[styles.dashedButton, { borderColor: colors.border }]}
+                    onPress={addWeek}
+                    disabled={busy}
+                  >
+                    <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={18} color={bcctColors.primaryOrange} />
+                    <Text style={[styles.dashedButtonText, { color: bcctColors.primaryOrange }]}>Week toevoegen</Text>
+                  </TouchableOpacity>
+                ) : null}
+
+                {program.versions.length > 0 ? (
+                  <View style={styles.section}>
+                    <Text style={[styles.sectionTitle, { color: colors.text }]}>Versies</Text>
+                    {program.versions.map((version) => (
+                      <Text key={version.id} style={[styles.meta, { color: bcctColors.textSecondary }]}>
+                        {version.status === "draft"
+                          ? `Versie ${version.version} · concept`
+                          : `Versie ${version.version} · gepubliceerd ${new Date(version.publishedAt as string).toLocaleDateString("nl-NL")} · ${version.assigneeCount} ${
+                              version.assigneeCount === 1 ? "cliënt" : "cliënten"
+                            }`}
+                      </Text>
+                    ))}
+                  </View>
+                ) : null}
+
+                {!program.archivedAt ? (
+                  <TouchableOpacity style={styles.deleteButton} onPress={archiveProgram} disabled={busy}>
+                    <Text style={[styles.deleteText, { color: bcctColors.error }]}>Programma verwijderen</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+            )}
+
+            {/* Bottom padding for tab bar */}
+            <View style={{ height: 100 }} />
+          </ScrollView>
+        )}
+      </SafeAreaView>
+
+      <Modal
+        isVisible={editor !== null}
+        onBackdropPress={() => !savingTask && setEditor(null)}
+        onBackButtonPress={() => !savingTask && setEditor(null)}
+        animationIn="slideInUp"
+        animationOut="slideOutDown"
+        backdropOpacity={0.5}
+        style={styles.bottomModal}
+        avoidKeyboard
+      >
+        {editor ? (
+          <View style={[styles.sheetContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHandle} />
+            <Text style={[styles.sheetTitle, { color: colors.text }]}>
+              {editor.task ? "Opdracht bewerken" : "Nieuwe opdracht"}
+            </Text>
+            <ScrollView contentContainerStyle={styles.sheetScroll} keyboardShouldPersistTaps="handled">
+              <ProgramTaskEditor
+                key={editor.task?.id ?? `new-${editor.weekId}`}
+                task={editor.task}
+                weekId={editor.weekId}
+                weeks={weeks}
+                saving={savingTask}
+                onSave={saveTask}
+                onDelete={editor.task ? () => deleteTask(editor.task as ProgramBuilderTask) : undefined}
+              />
+            </ScrollView>
+          </View>
+        ) : null}
+      </Modal>
+
+      <Modal
+        isVisible={previewTask !== null}
+        onBackdropPress={() => setPreviewTask(null)}
+        onBackButtonPress={() => setPreviewTask(null)}
+        animationIn="slideInUp"
+        animationOut="slideOutDown"
+        backdropOpacity={0.5}
+        style={styles.bottomModal}
+        avoidKeyboard
+      >
+        {previewTask ? (
+          <View style={[styles.sheetContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHandle} />
+            <Text style={[styles.meta, { color: bcctColors.textSecondary }]}>
+              {`${PROGRAM_TASK_TYPE_LABELS[previewTask.type]} · voorbeeld, antwoorden worden niet opgeslagen`}
+            </Text>
+            <Text style={[styles.sheetTitle, { color: colors.text }]}>{previewTask.title}</Text>
+            <ScrollView contentContainerStyle={styles.sheetScroll} keyboardShouldPersistTaps="handled">
+              <ProgramTaskPlayer
+                key={previewTask.id}
+                task={previewTask}
+                submitting={false}
+                onSubmit={() => setPreviewTask(null)}
+              />
+            </ScrollView>
+          </View>
+        ) : null}
+      </Modal>
+
+      <Modal
+        isVisible={publishVisible}
+        onBackdropPress={() => !busy && setPublishVisible(false)}
+        onBackButtonPress={() => !busy && setPublishVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>{`Versie ${draft?.version} publiceren`}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>
+            Nieuwe toewijzingen krijgen deze versie.
+          </Text>
+          {assigneeCount > 0 ? (
+            <TouchableOpacity style={styles.checkRow} onPress={() => setMigrateAssignees(!migrateAssignees)}>
+              <IconSymbol
+                ios_icon_name={migrateAssignees ? "checkmark.square.fill" : "square"}
+                android_material_icon_name={migrateAssignees ? "check-box" : "check-box-outline-blank"}
+                size={24}
+                color={bcctColors.primaryOrange}
+              />
+              <Text style={[styles.body, styles.checkText, { color: colors.text }]}>
+                {`Ook ${assigneeCount} ${assigneeCount === 1 ? "cliënt" : "cliënten"} die het programma nu volgen overzetten. Afgeronde opdrachten blijven afgerond.`}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.outlineButton, styles.flexButton, { borderColor: colors.border }]}
+              onPress={() => setPublishVisible(false)}
+              disabled={busy}
+            >
+              <Text style={[styles.outlineButtonText, { color: colors.text }]}>Annuleren</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.flexButton, { backgroundColor: bcctColors.primaryOrange }]}
+              onPress={publish}
+              disabled={busy}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Publiceren</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        isVisible={confirmAction !== null}
+        onBackdropPress={() => setConfirmAction(null)}
+        onBackButtonPress={() => setConfirmAction(null)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        {confirmAction ? (
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>{confirmAction.title}</Text>
+            <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{confirmAction.message}</Text>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.outlineButton, styles.flexButton, { borderColor: colors.border }]}
+                onPress={() => setConfirmAction(null)}
+              >
+                <Text style={[styles.outlineButtonText, { color: colors.text }]}>Annuleren</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.flexButton, { backgroundColor: bcctColors.error }]}
+                onPress={() => {
+                  const action = confirmAction;
+                  setConfirmAction(null);
+                  action.onConfirm();
+                }}
+              >
+                <Text style={styles.primaryButtonText}>{confirmAction.confirmLabel}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : null}
+      </Modal>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.primaryButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    ...bcctTypography.h2,
+    flex: 1,
+    textAlign: "center",
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  list: {
+    gap: 12,
+  },
+  section: {
+    gap: 8,
+  },
+  sectionTitle: {
+    ...bcctTypography.h3,
+  },
+  statusCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  body: {
+    ...bcctTypography.body,
+  },
+  meta: {
+    ...bcctTypography.small,
+  },
+  previewTitle: {
+    ...bcctTypography.h3,
+  },
+  input: {
+    ...bcctTypography.body,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+  },
+  titleInput: {
+    ...bcctTypography.bodySemiBold,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  weekCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 10,
+  },
+  weekHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  weekNumber: {
+    ...bcctTypography.bodySemiBold,
+    flex: 1,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  taskRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  taskText: {
+    flex: 1,
+    gap: 2,
+  },
+  taskTitle: {
+    ...bcctTypography.bodyMedium,
+  },
+  dashedButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  dashedButtonText: {
+    ...bcctTypography.smallMedium,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  flexButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    ...bcctTypography.button,
+  },
+  outlineButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  outlineButtonText: {
+    ...bcctTypography.button,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  deleteButton: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  deleteText: {
+    ...bcctTypography.button,
+  },
+  checkRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 10,
+  },
+  checkText: {
+    flex: 1,
+  },
+  bottomModal: {
+    justifyContent: "flex-end",
+    margin: 0,
+  },
+  sheetContent: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 24,
+    paddingBottom: 40,
+    maxHeight: "90%",
+    gap: 8,
+  },
+  modalHandle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#D1D5DB",
+    alignSelf: "center",
+    marginBottom: 8,
+  },
+  sheetTitle: {
+    ...bcctTypography.h3,
+  },
+  sheetScroll: {
+    paddingVertical: 12,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    gap: 16,
+  },
+  modalTitle: {
+    ...bcctTypography.h3,
+    textAlign: "center",
+  },
+  modalMessage: {
+    ...bcctTypography.body,
+    textAlign: "center",
+  },
+});
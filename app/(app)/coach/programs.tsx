@@ -0,0 +1,441 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+} from "react-native";
+import Modal from "react-native-modal";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useFocusEffect, useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { authenticatedGet, authenticatedPost } from "@/utils/api";
+import { CoachProgramSummary } from "@/utils/programs";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+import { LinearGradient } from "expo-linear-gradient";
+
+export default function CoachProgramsScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [programs, setPrograms] = useState<CoachProgramSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+  const [createModalVisible, setCreateModalVisible] = useState(false);
+  const [newTitle, setNewTitle] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  const fetchPrograms = useCallback(async () => {
+    console.log("[Coach Programs] Fetching programs", { showArchived });
+    try {
+      const data = await authenticatedGet<CoachProgramSummary[]>(
+        `/api/coach/programs${showArchived ? "?includeArchived=true" : ""}`
+      );
+      console.log("[Coach Programs] Programs loaded", data.length);
+      setPrograms(data);
+    } catch (error: any) {
+      console.error("[Coach Programs] Error fetching programs", error);
+      showModal("Fout", "Kon programma's niet laden");
+    } finally {
+      setLoading(false);
+    }
+  }, [showArchived]);
+
+  // The builder changes versions and counts, so the list reloads when it comes back into view
+  useFocusEffect(
+    useCallback(() => {
+      fetchPrograms();
+    }, [fetchPrograms])
+  );
+
+  const createProgram = async () => {
+    if (!newTitle.trim()) {
+      showModal("Fout", "Vul een titel in voor het programma");
+      return;
+    }
+
+    console.log("[Coach Programs] Creating program", newTitle);
+    setCreating(true);
+    try {
+      const data = await authenticatedPost<{ id: string }>("/api/coach/programs", {
+        title: newTitle.trim(),
+        description: newDescription.trim() || null,
+      });
+      console.log("[Coach Programs] Program created", data);
+      setCreateModalVisible(false);
+      setNewTitle("");
+      setNewDescription("");
+      router.push(`/(app)/coach/program-builder?id=${data.id}`);
+    } catch (error: any) {
+      console.error("[Coach Programs] Error creating program", error);
+      showModal("Fout", "Kon programma niet aanmaken");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const describeVersion = (program: CoachProgramSummary) => {
+    if (program.latestVersion === null) {
+      return "Concept, nog niet gepubliceerd";
+    }
+    return program.draftVersion !== null
+      ? `Versie ${program.latestVersion} · concept versie ${program.draftVersion}`
+      : `Versie ${program.latestVersion}`;
+  };
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="arrow-back"
+              size={24}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Programma&apos;s</Text>
+          <TouchableOpacity style={styles.addButton} onPress={() => setCreateModalVisible(true)}>
+            <IconSymbol
+              ios_icon_name="plus"
+              android_material_icon_name="add"
+              size={24}
+              color={bcctColors.primaryOrange}
+            />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[
+                styles.chip,
+                { borderColor: showArchived ? bcctColors.primaryOrange : colors.border },
+                showArchived && { backgroundColor: bcctColors.primaryOrange + "20" },
+              ]}
+              onPress={() => setShowArchived(!showArchived)}
+            >
+              <Text style={[styles.chipText, { color: colors.text }]}>Gearchiveerd tonen</Text>
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+            </View>
+          ) : programs.length === 0 ? (
+            <View style={styles.emptyState}>
+              <IconSymbol
+                ios_icon_name="book"
+                android_material_icon_name="school"
+                size={64}
+                color={bcctColors.textSecondary}
+              />
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>Nog geen programma's</Text>
+              <Text style={[styles.emptyDescription, { color: bcctColors.textSecondary }]}>
+                Bouw een programma van weken met opdrachten en wijs het toe aan je cliënten.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.programList}>
+              {programs.map((program) => (
+                <TouchableOpacity
+                  key={program.id}
+                  style={[
+                    styles.programCard,
+                    { backgroundColor: colors.card, borderColor: colors.border },
+                    program.archivedAt && styles.programArchived,
+                  ]}
+                  onPress={() => router.push(`/(app)/coach/program-builder?id=${program.id}`)}
+                >
+                  <View style={styles.programContent}>
+                    <Text style={[styles.programTitle, { color: colors.text }]}>{program.title}</Text>
+                    {program.description ? (
+                      <Text style={[styles.programDescription, { color: bcctColors.textSecondary }]} numberOfLines={2}>
+                        {program.description}
+                      </Text>
+                    ) : null}
+                    <Text style={[styles.programMeta, { color: bcctColors.textSecondary }]}>
+                      {`${describeVersion(program)} · ${program.assigneeCount} ${
+                        program.assigneeCount === 1 ? "cliënt" : "cliënten"
+                      }`}
+                    </Text>
+                    {program.archivedAt ? (
+                      <View style={[styles.badge, { backgroundColor: colors.border }]}>
+                        <Text style={[styles.badgeText, { color: colors.text }]}>Gearchiveerd</Text>
+                      </View>
+                    ) : program.outdatedAssigneeCount > 0 ? (
+                      <View style={[styles.badge, { backgroundColor: bcctColors.primaryBlue + "20" }]}>
+                        <Text style={[styles.badgeText, { color: bcctColors.primaryBlue }]}>
+                          {`${program.outdatedAssigneeCount} op een oudere versie`}
+                        </Text>
+                      </View>
+                    ) : null}
+                  </View>
+                  <IconSymbol
+                    ios_icon_name="chevron.right"
+                    android_material_icon_name="chevron-right"
+                    size={20}
+                    color={colors.text}
+                    style={{ opacity: 0.4 }}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {/* Bottom padding for tab bar */}
+          <View style={{ height: 100 }} />
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={createModalVisible}
+        onBackdropPress={() => setCreateModalVisible(false)}
+        onBackButtonPress={() => setCreateModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>Nieuw Programma</Text>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+            placeholder="Titel"
+            placeholderTextColor={bcctColors.textSecondary}
+            value={newTitle}
+            onChangeText={setNewTitle}
+          />
+          <TextInput
+            style={[styles.input, styles.textArea, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+            placeholder="Beschrijving (optioneel)"
+            placeholderTextColor={bcctColors.textSecondary}
+            value={newDescription}
+            onChangeText={setNewDescription}
+            multiline
+          />
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton, { borderColor: colors.border }]}
+              onPress={() => setCreateModalVisible(false)}
+            >
+              <Text style={[styles.cancelButtonText, { color: colors.text }]}>Annuleren</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.modalButtonContainer} onPress={createProgram} disabled={creating}>
+              <LinearGradient
+                colors={creating ? [bcctColors.primaryOrangeDisabled, bcctColors.primaryOrangeDisabled] : [bcctColors.primaryOrange, bcctColors.primaryOrangeDark]}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 0 }}
+                style={styles.createButton}
+              >
+                {creating ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.createButtonText}>Aanmaken</Text>
+                )}
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.modalButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    paddingVertical: 60,
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    ...bcctTypography.h2,
+    flex: 1,
+    textAlign: "center",
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 60,
+    gap: 16,
+  },
+  emptyTitle: {
+    ...bcctTypography.h3,
+  },
+  emptyDescription: {
+    ...bcctTypography.body,
+    textAlign: "center",
+  },
+  programList: {
+    gap: 12,
+  },
+  programCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  programArchived: {
+    opacity: 0.6,
+  },
+  programContent: {
+    flex: 1,
+    gap: 4,
+  },
+  programTitle: {
+    ...bcctTypography.h3,
+  },
+  programDescription: {
+    ...bcctTypography.body,
+  },
+  programMeta: {
+    ...bcctTypography.small,
+  },
+  badge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  badgeText: {
+    ...bcctTypography.smallMedium,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    gap: 16,
+  },
+  modalTitle: {
+    ...bcctTypography.h3,
+    textAlign: "center",
+  },
+  modalMessage: {
+    ...bcctTypography.body,
+    textAlign: "center",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    ...bcctTypography.body,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  cancelButton: {
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    ...bcctTypography.button,
+  },
+  modalButtonContainer: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+  createButton: {
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  createButtonText: {
+    color: "#FFFFFF",
+    ...bcctTypography.button,
+  },
+  modalButtonText: {
+    color: "#fff",
+    ...bcctTypography.button,
+  },
+});
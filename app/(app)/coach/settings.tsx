@@ -61,7 +61,7 @@ export default function CoachSettingsScreen() {
       id: "notifications",
       title: "Notificaties",
       icon: "notifications" as const,
-      onPress: () => showModal("Binnenkort", "Notificatie-instellingen komen binnenkort beschikbaar."),
+      onPress: () => router.push("/(app)/coach/notifications" as any),
     },
     {
       id: "privacy",
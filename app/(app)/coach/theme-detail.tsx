@@ -15,21 +15,19 @@ import { useTheme } from "@react-navigation/native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { IconSymbol } from "@/components/IconSymbol";
 import { useRouter, useLocalSearchParams } from "expo-router";
-import { supabase } from "@/lib/supabase";
+import { authenticatedDelete, authenticatedGet, authenticatedPost, authenticatedPut } from "@/utils/api";
 import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
 import { LinearGradient } from "expo-linear-gradient";
-
-interface ThemeItem {
-  id: string;
-  label: string;
-  sort_order: number;
-  is_active: boolean;
-}
+import { describeThemeItem, ThemeItem, ThemeItemType, THEME_ITEM_TYPES, THEME_ITEM_TYPE_LABELS } from "@/utils/themes";
 
 interface Theme {
   id: string;
   name: string;
-  description: string;
+  description: string | null;
+  sourceVersion: number | null;
+  items: ThemeItem[];
+  // Library theme this theme was cloned from, if it still exists
+  source: { id: string; name: string; version: number } | null;
 }
 
 export default function ThemeDetailScreen() {
@@ -44,6 +42,13 @@ export default function ThemeDetailScreen() {
   const [modalMessage, setModalMessage] = useState("");
   const [createModalVisible, setCreateModalVisible] = useState(false);
   const [newItemLabel, setNewItemLabel] = useState("");
+  const [newItemType, setNewItemType] = useState<ThemeItemType>("slider");
+  const [newItemOptions, setNewItemOptions] = useState("");
+  const [newItemMinLabel, setNewItemMinLabel] = useState("");
+  const [newItemMaxLabel, setNewItemMaxLabel] = useState("");
+  const [newItemUnit, setNewItemUnit] = useState("");
+  const [newItemMin, setNewItemMin] = useState("");
+  const [newItemMax, setNewItemMax] = useState("");
   const [creating, setCreating] = useState(false);
 
   const showModal = (title: string, message: string) => {
@@ -61,34 +66,10 @@ export default function ThemeDetailScreen() {
   const fetchThemeDetails = async () => {
     console.log("[Theme Detail] Fetching theme details for", id);
     try {
-      const { data: themeData, error: themeError } = await supabase
-        .from("themes")
-        .select("*")
-        .eq("id", id)
-        .single();
-
-      if (themeError) {
-        console.error("[Theme Detail] Error fetching theme", themeError);
-        showModal("Fout", "Kon thema niet laden");
-        return;
-      }
-
-      setTheme(themeData);
-
-      const { data: itemsData, error: itemsError } = await supabase
-        .from("theme_items")
-        .select("*")
-        .eq("theme_id", id)
-        .order("sort_order", { ascending: true });
-
-      if (itemsError) {
-        console.error("[Theme Detail] Error fetching items", itemsError);
-        showModal("Fout", "Kon vragen niet laden");
-        return;
-      }
-
-      console.log("[Theme Detail] Theme and items loaded", themeData, itemsData);
-      setItems(itemsData || []);
+      const data = await authenticatedGet<Theme>(`/api/coach/themes/${id}`);
+      console.log("[Theme Detail] Theme and items loaded", data);
+      setTheme(data);
+      setItems(data.items);
     } catch (error: any) {
       console.error("[Theme Detail] Error fetching theme details", error);
       showModal("Fout", "Kon thema niet laden");
@@ -97,41 +78,71 @@ export default function ThemeDetailScreen() {
     }
   };
 
+  const resetNewItem = () => {
+    setNewItemLabel("");
+    setNewItemType("slider");
+    setNewItemOptions("");
+    setNewItemMinLabel("");
+    setNewItemMaxLabel("");
+    setNewItemUnit("");
+    setNewItemMin("");
+    setNewItemMax("");
+  };
+
+  // Only the settings of the selected type are sent; the server fixes the range of the other types
+  const newItemSettings = () => {
+    if (newItemType === "choice") {
+      return {
+        config: {
+          options: newItemOptions
+            .split("\n")
+            .map((option) => option.trim())
+            .filter((option) => option.length > 0),
+        },
+      };
+    }
+    if (newItemType === "likert") {
+      return { config: { minLabel: newItemMinLabel.trim(), maxLabel: newItemMaxLabel.trim() } };
+    }
+    if (newItemType === "number") {
+      return {
+        config: { unit: newItemUnit.trim() },
+        minValue: newItemMin.trim() ? parseInt(newItemMin, 10) : null,
+        maxValue: newItemMax.trim() ? parseInt(newItemMax, 10) : null,
+      };
+    }
+    return {};
+  };
+
   const createItem = async () => {
     if (!newItemLabel.trim()) {
       showModal("Fout", "Vul een label in voor de vraag");
       return;
     }
 
-    console.log("[Theme Detail] Creating item", newItemLabel);
+    const settings = newItemSettings();
+    if (newItemType === "choice" && (settings.config?.options?.length || 0) < 2) {
+      showModal("Fout", "Vul minimaal twee opties in, één per regel");
+      return;
+    }
+    if ("minValue" in settings && (Number.isNaN(settings.minValue) || Number.isNaN(settings.maxValue))) {
+      showModal("Fout", "Minimum en maximum moeten hele getallen zijn");
+      return;
+    }
+
+    console.log("[Theme Detail] Creating item", newItemLabel, newItemType);
     setCreating(true);
     try {
-      const maxSortOrder = items.length > 0 ? Math.max(...items.map(i => i.sort_order)) : 0;
-
-      const { data, error } = await supabase
-        .from("theme_items")
-        .insert({
-          theme_id: id,
-          label: newItemLabel.trim(),
-          type: "slider",
-          min_value: 0,
-          max_value: 100,
-          sort_order: maxSortOrder + 1,
-          is_active: true,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error("[Theme Detail] Error creating item", error);
-        showModal("Fout", "Kon vraag niet aanmaken");
-        return;
-      }
+      const data = await authenticatedPost<ThemeItem>(`/api/coach/themes/${id}/items`, {
+        label: newItemLabel.trim(),
+        type: newItemType,
+        ...settings,
+      });
 
       console.log("[Theme Detail] Item created", data);
       setCreateModalVisible(false);
-      setNewItemLabel("");
-      fetchThemeDetails();
+      resetNewItem();
+      setItems([...items, data]);
       showModal("Succes", "Vraag succesvol aangemaakt");
     } catch (error: any) {
       console.error("[Theme Detail] Error creating item", error);
@@ -144,19 +155,10 @@ export default function ThemeDetailScreen() {
   const toggleItemActive = async (itemId: string, currentActive: boolean) => {
     console.log("[Theme Detail] Toggling item active", itemId, !currentActive);
     try {
-      const { error } = await supabase
-        .from("theme_items")
-        .update({ is_active: !currentActive })
-        .eq("id", itemId);
-
-      if (error) {
-        console.error("[Theme Detail] Error toggling item", error);
-        showModal("Fout", "Kon status niet wijzigen");
-        return;
-      }
+      await authenticatedPut(`/api/coach/themes/${id}/items/${itemId}`, { isActive: !currentActive });
 
       setItems(items.map(item =>
-        item.id === itemId ? { ...item, is_active: !currentActive } : item
+        item.id === itemId ? { ...item, isActive: !currentActive } : item
       ));
     } catch (error: any) {
       console.error("[Theme Detail] Error toggling item", error);
@@ -164,22 +166,41 @@ export default function ThemeDetailScreen() {
     }
   };
 
+  const moveItem = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    console.log("[Theme Detail] Moving item", items[index].id, direction);
+    setItems(reordered);
+    try {
+      const data = await authenticatedPut<ThemeItem[]>(`/api/coach/themes/${id}/items/order`, {
+        itemIds: reordered.map((item) => item.id),
+      });
+      setItems(data);
+    } catch (error: any) {
+      console.error("[Theme Detail] Error reordering items", error);
+      setItems(items);
+      showModal("Fout", "Kon volgorde niet wijzigen");
+    }
+  };
+
   const deleteItem = async (itemId: string) => {
     console.log("[Theme Detail] Deleting item", itemId);
     try {
-      const { error } = await supabase
-        .from("theme_items")
-        .delete()
-        .eq("id", itemId);
-
-      if (error) {
-        console.error("[Theme Detail] Error deleting item", error);
-        showModal("Fout", "Kon vraag niet verwijderen");
-        return;
+      const result = await authenticatedDelete<{ archived: boolean }>(`/api/coach/themes/${id}/items/${itemId}`);
+
+      // Questions that clients already answered are deactivated so their answers are kept
+      if (result.archived) {
+        setItems(items.map(item =>
+          item.id === itemId ? { ...item, isActive: false } : item
+        ));
+        showModal("Gedeactiveerd", "Deze vraag is al beantwoord en is daarom gedeactiveerd in plaats van verwijderd");
+      } else {
+        setItems(items.filter(item => item.id !== itemId));
+        showModal("Succes", "Vraag verwijderd");
       }
-
-      setItems(items.filter(item => item.id !== itemId));
-      showModal("Succes", "Vraag verwijderd");
     } catch (error: any) {
       console.error("[Theme Detail] Error deleting item", error);
       showModal("Fout", "Kon vraag niet verwijderen");
@@ -236,6 +257,21 @@ export default function ThemeDetailScreen() {
         </View>
 
         <ScrollView contentContainerStyle={styles.scrollContent}>
+          {theme.source ? (
+            <View style={[styles.sourceBanner, { backgroundColor: bcctColors.primaryBlue + "15" }]}>
+              <IconSymbol
+                ios_icon_name="books.vertical"
+                android_material_icon_name="library-books"
+                size={20}
+                color={bcctColors.primaryBlue}
+              />
+              <Text style={[styles.sourceText, { color: colors.text }]}>
+                {theme.sourceVersion !== null && theme.source.version > theme.sourceVersion
+                  ? `Gekopieerd uit "${theme.source.name}" (versie ${theme.sourceVersion}). Versie ${theme.source.version} is beschikbaar in de bibliotheek.`
+                  : `Gekopieerd uit "${theme.source.name}" (versie ${theme.sourceVersion}).`}
+              </Text>
+            </View>
+          ) : null}
           {theme.description ? (
             <View style={[styles.descriptionCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
               <Text style={[styles.descriptionText, { color: bcctColors.textSecondary }]}>
@@ -274,16 +310,47 @@ export default function ThemeDetailScreen() {
                       <Text style={[styles.itemOrder, { color: bcctColors.textSecondary }]}>
                         {orderText}
                       </Text>
-                      <Text style={[styles.itemLabel, { color: colors.text }]}>{item.label}</Text>
+                      <View style={styles.itemContent}>
+                        <Text style={[styles.itemLabel, { color: colors.text }]}>{item.label}</Text>
+                        <Text style={[styles.itemType, { color: bcctColors.textSecondary }]}>
+                          {describeThemeItem(item)}
+                        </Text>
+                      </View>
                     </View>
                     <View style={styles.itemActions}>
+                      <View style={styles.orderButtons}>
+                        <TouchableOpacity
+                          style={styles.orderButton}
+                          onPress={() => moveItem(index, -1)}
+                          disabled={index === 0}
+                        >
+                          <IconSymbol
+                            ios_icon_name="chevron.up"
+                            android_material_icon_name="keyboard-arrow-up"
+                            size={22}
+                            color={index === 0 ? colors.border : colors.text}
+                          />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.orderButton}
+                          onPress={() => moveItem(index, 1)}
+                          disabled={index === items.length - 1}
+                        >
+                          <IconSymbol
+                            ios_icon_name="chevron.down"
+                            android_material_icon_name="keyboard-arrow-down"
+                            size={22}
+                            color={index === items.length - 1 ? colors.border : colors.text}
+                          />
+                        </TouchableOpacity>
+                      </View>
                       <View style={styles.activeToggle}>
                         <Text style={[styles.activeLabel, { color: bcctColors.textSecondary }]}>
                           Actief
                         </Text>
                         <Switch
-                          value={item.is_active}
-                          onValueChange={() => toggleItemActive(item.id, item.is_active)}
+                          value={item.isActive}
+                          onValueChange={() => toggleItemActive(item.id, item.isActive)}
                           trackColor={{ false: colors.border, true: bcctColors.primaryOrange }}
                           thumbColor="#fff"
                         />
@@ -328,6 +395,81 @@ export default function ThemeDetailScreen() {
             value={newItemLabel}
             onChangeText={setNewItemLabel}
           />
+          <View style={styles.typeChips}>
+            {THEME_ITEM_TYPES.map((type) => {
+              const selected = type === newItemType;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[
+                    styles.typeChip,
+                    { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+                    selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+                  ]}
+                  onPress={() => setNewItemType(type)}
+                >
+                  <Text style={[styles.typeChipText, { color: colors.text }]}>{THEME_ITEM_TYPE_LABELS[type]}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {newItemType === "choice" ? (
+            <TextInput
+              style={[styles.input, styles.optionsInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+              placeholder="Opties, één per regel"
+              placeholderTextColor={bcctColors.textSecondary}
+              value={newItemOptions}
+              onChangeText={setNewItemOptions}
+              multiline
+            />
+          ) : null}
+          {newItemType === "likert" ? (
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, styles.inputHalf, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                placeholder="Label bij 1 (optioneel)"
+                placeholderTextColor={bcctColors.textSecondary}
+                value={newItemMinLabel}
+                onChangeText={setNewItemMinLabel}
+              />
+              <TextInput
+                style={[styles.input, styles.inputHalf, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                placeholder="Label bij 5 (optioneel)"
+                placeholderTextColor={bcctColors.textSecondary}
+                value={newItemMaxLabel}
+                onChangeText={setNewItemMaxLabel}
+              />
+            </View>
+          ) : null}
+          {newItemType === "number" ? (
+            <>
+              <TextInput
+                style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                placeholder="Eenheid (bijv. uur, kg, stappen)"
+                placeholderTextColor={bcctColors.textSecondary}
+                value={newItemUnit}
+                onChangeText={setNewItemUnit}
+              />
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.inputHalf, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                  placeholder="Minimum (optioneel)"
+                  placeholderTextColor={bcctColors.textSecondary}
+                  keyboardType="number-pad"
+                  value={newItemMin}
+                  onChangeText={setNewItemMin}
+                />
+                <TextInput
+                  style={[styles.input, styles.inputHalf, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                  placeholder="Maximum (optioneel)"
+                  placeholderTextColor={bcctColors.textSecondary}
+                  keyboardType="number-pad"
+                  value={newItemMax}
+                  onChangeText={setNewItemMax}
+                />
+              </View>
+            </>
+          ) : null}
           <View style={styles.modalButtons}>
             <TouchableOpacity
               style={[styles.modalButton, styles.cancelButton, { borderColor: colors.border }]}
@@ -424,6 +566,18 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: 20,
   },
+  sourceBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sourceText: {
+    ...bcctTypography.small,
+    flex: 1,
+  },
   descriptionCard: {
     padding: 16,
     borderRadius: 12,
@@ -468,9 +622,15 @@ const styles = StyleSheet.create({
     ...bcctTypography.bodyMedium,
     minWidth: 30,
   },
+  itemContent: {
+    flex: 1,
+    gap: 2,
+  },
   itemLabel: {
     ...bcctTypography.bodyMedium,
-    flex: 1,
+  },
+  itemType: {
+    ...bcctTypography.small,
   },
   itemActions: {
     flexDirection: "row",
@@ -478,6 +638,13 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     paddingLeft: 42,
   },
+  orderButtons: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  orderButton: {
+    padding: 4,
+  },
   activeToggle: {
     flexDirection: "row",
     alignItems: "center",
@@ -508,6 +675,31 @@ const styles = StyleSheet.create({
     padding: 12,
     ...bcctTypography.body,
   },
+  optionsInput: {
+    minHeight: 100,
+    textAlignVertical: "top",
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  typeChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  typeChip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  typeChipText: {
+    ...bcctTypography.small,
+  },
   modalButtons: {
     flexDirection: "row",
     gap: 12,
@@ -6,6 +6,7 @@ export default function OrgLayout() {
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="index" />
+      <Stack.Screen name="themes" />
     </Stack>
   );
 }
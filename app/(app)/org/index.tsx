@@ -101,18 +101,28 @@ export default function OrgAdminDashboardScreen() {
       title: "Organisaties",
       description: "Beheer organisaties",
       icon: "business" as const,
+      route: null,
     },
     {
       id: "members",
       title: "Leden",
       description: "Bekijk en beheer leden",
       icon: "group" as const,
+      route: null,
     },
     {
       id: "stats",
       title: "Statistieken",
       description: "Bekijk geaggregeerde gegevens",
       icon: "bar-chart" as const,
+      route: null,
+    },
+    {
+      id: "themes",
+      title: "Thema Bibliotheek",
+      description: "Publiceer thema's voor je coaches",
+      icon: "library-books" as const,
+      route: "/(app)/org/themes" as const,
     },
   ];
 
@@ -178,7 +188,13 @@ export default function OrgAdminDashboardScreen() {
               <TouchableOpacity
                 key={action.id}
                 style={[styles.actionCard, { backgroundColor: colors.card }]}
-                onPress={() => console.log("Action pressed:", action.id)}
+                onPress={() => {
+                  if (action.route) {
+                    router.push(action.route);
+                  } else {
+                    console.log("Action pressed:", action.id);
+                  }
+                }}
               >
                 <IconSymbol
                   ios_icon_name="star"
@@ -0,0 +1,543 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+} from "react-native";
+import Modal from "react-native-modal";
+import { useTheme } from "@react-navigation/native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { IconSymbol } from "@/components/IconSymbol";
+import { useRouter } from "expo-router";
+import { authenticatedGet, authenticatedPost, authenticatedPut, authenticatedDelete } from "@/utils/api";
+
+interface Organization {
+  id: string;
+  name: string;
+}
+
+interface LibraryThemeItem {
+  id: string;
+  label: string;
+  sortOrder: number;
+}
+
+interface LibraryTheme {
+  id: string;
+  name: string;
+  description: string | null;
+  isPublished: boolean;
+  version: number;
+  cloneCount: number;
+  items: LibraryThemeItem[];
+}
+
+export default function OrgThemeLibraryScreen() {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [selectedOrgId, setSelectedOrgId] = useState<string | null>(null);
+  const [themes, setThemes] = useState<LibraryTheme[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingTheme, setEditingTheme] = useState<LibraryTheme | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [itemsText, setItemsText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  useEffect(() => {
+    const fetchOrganizations = async () => {
+      console.log("[OrgThemes] Fetching organizations");
+      try {
+        const data = await authenticatedGet<Organization[]>("/api/org/organizations");
+        console.log("[OrgThemes] Organizations loaded", data);
+        setOrganizations(data);
+        if (data.length > 0) {
+          setSelectedOrgId(data[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (error: any) {
+        console.error("[OrgThemes] Error fetching organizations", error);
+        showModal("Fout", "Kon organisaties niet laden");
+        setLoading(false);
+      }
+    };
+
+    fetchOrganizations();
+  }, []);
+
+  const fetchThemes = useCallback(async () => {
+    if (!selectedOrgId) return;
+    console.log("[OrgThemes] Fetching library themes", selectedOrgId);
+    try {
+      const data = await authenticatedGet<LibraryTheme[]>(`/api/org/organizations/${selectedOrgId}/themes`);
+      console.log("[OrgThemes] Library themes loaded", data.length);
+      setThemes(data);
+    } catch (error: any) {
+      console.error("[OrgThemes] Error fetching library themes", error);
+      showModal("Fout", "Kon thema bibliotheek niet laden");
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedOrgId]);
+
+  useEffect(() => {
+    fetchThemes();
+  }, [fetchThemes]);
+
+  const openEditor = (theme: LibraryTheme | null) => {
+    setEditingTheme(theme);
+    setName(theme?.name || "");
+    setDescription(theme?.description || "");
+    setItemsText(theme ? theme.items.map((item) => item.label).join("\n") : "");
+    setEditorVisible(true);
+  };
+
+  const saveTheme = async () => {
+    if (!selectedOrgId) return;
+    if (!name.trim()) {
+      showModal("Fout", "Vul een naam in voor het thema");
+      return;
+    }
+
+    const labels = itemsText
+      .split("\n")
+      .map((label) => label.trim())
+      .filter((label) => label.length > 0);
+
+    console.log("[OrgThemes] Saving library theme", editingTheme?.id, labels.length);
+    setSaving(true);
+    try {
+      if (editingTheme) {
+        // Keep the ids of unchanged labels so their rows are updated instead of replaced
+        const remaining = [...editingTheme.items];
+        const items = labels.map((label) => {
+          const index = remaining.findIndex((item) => item.label === label);
+          const existing = index >= 0 ? remaining.splice(index, 1)[0] : null;
+          return existing ? { id: existing.id, label } : { label };
+        });
+
+        await authenticatedPut(`/api/org/organizations/${selectedOrgId}/themes/${editingTheme.id}`, {
+          name: name.trim(),
+          description: description.trim() || null,
+          items,
+        });
+      } else {
+        await authenticatedPost(`/api/org/organizations/${selectedOrgId}/themes`, {
+          name: name.trim(),
+          description: description.trim() || null,
+          items: labels,
+        });
+      }
+
+      console.log("[OrgThemes] Library theme saved");
+      setEditorVisible(false);
+      fetchThemes();
+    } catch (error: any) {
+      console.error("[OrgThemes] Error saving library theme", error);
+      showModal("Fout", "Kon thema niet opslaan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePublished = async (theme: LibraryTheme) => {
+    if (!selectedOrgId) return;
+
+    console.log("[OrgThemes] Toggling publication", theme.id, !theme.isPublished);
+    setThemes((current) =>
+      current.map((t) => (t.id === theme.id ? { ...t, isPublished: !theme.isPublished } : t))
+    );
+    try {
+      await authenticatedPut(`/api/org/organizations/${selectedOrgId}/themes/${theme.id}`, {
+        isPublished: !theme.isPublished,
+      });
+    } catch (error: any) {
+      console.error("[OrgThemes] Error toggling publication", error);
+      showModal("Fout", "Kon publicatie niet wijzigen");
+      fetchThemes();
+    }
+  };
+
+  const deleteTheme = async () => {
+    if (!selectedOrgId || !editingTheme) return;
+
+    console.log("[OrgThemes] Deleting library theme", editingTheme.id);
+    setSaving(true);
+    try {
+      await authenticatedDelete(`/api/org/organizations/${selectedOrgId}/themes/${editingTheme.id}`);
+      console.log("[OrgThemes] Library theme deleted");
+      setEditorVisible(false);
+      fetchThemes();
+    } catch (error: any) {
+      console.error("[OrgThemes] Error deleting library theme", error);
+      showModal("Fout", "Kon thema niet verwijderen");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="arrow-back"
+              size={24}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Thema Bibliotheek</Text>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => openEditor(null)}
+            disabled={!selectedOrgId}
+          >
+            <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={24} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {organizations.length > 1 ? (
+            <View style={styles.orgChips}>
+              {organizations.map((org) => {
+                const selected = org.id === selectedOrgId;
+                return (
+                  <TouchableOpacity
+                    key={org.id}
+                    style={[
+                      styles.orgChip,
+                      { borderColor: colors.border, backgroundColor: selected ? colors.primary : colors.card },
+                    ]}
+                    onPress={() => setSelectedOrgId(org.id)}
+                  >
+                    <Text style={[styles.orgChipText, { color: selected ? "#fff" : colors.text }]}>{org.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ) : null}
+
+          <Text style={[styles.infoText, { color: colors.text, opacity: 0.6 }]}>
+            Gepubliceerde thema's zijn zichtbaar voor alle coaches in je organisatie. Coaches maken een
+            eigen kopie en zien wanneer je het origineel bijwerkt.
+          </Text>
+
+          {organizations.length === 0 ? (
+            <Text style={[styles.emptyText, { color: colors.text, opacity: 0.6 }]}>
+              Je bent nog geen beheerder van een organisatie
+            </Text>
+          ) : themes.length === 0 ? (
+            <Text style={[styles.emptyText, { color: colors.text, opacity: 0.6 }]}>
+              Nog geen thema's in de bibliotheek
+            </Text>
+          ) : (
+            <View style={styles.themesList}>
+              {themes.map((theme) => (
+                <TouchableOpacity
+                  key={theme.id}
+                  style={[styles.themeCard, { backgroundColor: colors.card }]}
+                  onPress={() => openEditor(theme)}
+                >
+                  <View style={styles.themeContent}>
+                    <Text style={[styles.themeName, { color: colors.text }]}>{theme.name}</Text>
+                    {theme.description ? (
+                      <Text style={[styles.themeDescription, { color: colors.text, opacity: 0.6 }]}>
+                        {theme.description}
+                      </Text>
+                    ) : null}
+                    <Text style={[styles.themeMeta, { color: colors.text, opacity: 0.6 }]}>
+                      {`${theme.items.length} vragen · versie ${theme.version} · ${theme.cloneCount} keer gekopieerd`}
+                    </Text>
+                  </View>
+                  <View style={styles.publishToggle}>
+                    <Text style={[styles.publishLabel, { color: colors.text, opacity: 0.6 }]}>
+                      {theme.isPublished ? "Gepubliceerd" : "Concept"}
+                    </Text>
+                    <Switch
+                      value={theme.isPublished}
+                      onValueChange={() => togglePublished(theme)}
+                      trackColor={{ true: colors.primary, false: colors.border }}
+                    />
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={editorVisible}
+        onBackdropPress={() => setEditorVisible(false)}
+        onBackButtonPress={() => setEditorVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+        avoidKeyboard
+      >
+        <View style={[styles.editorContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.editorTitle, { color: colors.text }]}>
+            {editingTheme ? "Thema Bewerken" : "Nieuw Thema"}
+          </Text>
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+            placeholder="Naam"
+            placeholderTextColor="#9CA3AF"
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+            placeholder="Beschrijving (optioneel)"
+            placeholderTextColor="#9CA3AF"
+            value={description}
+            onChangeText={setDescription}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              styles.itemsInput,
+              { color: colors.text, borderColor: colors.border, backgroundColor: colors.background },
+            ]}
+            placeholder="Vragen, één per regel"
+            placeholderTextColor="#9CA3AF"
+            value={itemsText}
+            onChangeText={setItemsText}
+            multiline
+          />
+          <View style={styles.editorButtons}>
+            {editingTheme ? (
+              <TouchableOpacity
+                style={[styles.editorButton, { borderColor: "#ef4444" }]}
+                onPress={deleteTheme}
+                disabled={saving}
+              >
+                <Text style={[styles.editorButtonText, { color: "#ef4444" }]}>Verwijderen</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity
+              style={[styles.editorButton, { borderColor: colors.border }]}
+              onPress={() => setEditorVisible(false)}
+            >
+              <Text style={[styles.editorButtonText, { color: colors.text }]}>Annuleren</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.editorButton, { borderColor: colors.primary, backgroundColor: colors.primary }]}
+              onPress={saveTheme}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={[styles.editorButtonText, { color: "#fff" }]}>Opslaan</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{modalTitle}</Text>
+          <Text style={styles.modalMessage}>{modalMessage}</Text>
+          <TouchableOpacity style={styles.modalButton} onPress={() => setModalVisible(false)}>
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  scrollContent: {
+    padding: 20,
+    gap: 16,
+  },
+  orgChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  orgChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  orgChipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  infoText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingVertical: 40,
+  },
+  themesList: {
+    gap: 12,
+  },
+  themeCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 16,
+    gap: 16,
+  },
+  themeContent: {
+    flex: 1,
+    gap: 4,
+  },
+  themeName: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  themeDescription: {
+    fontSize: 14,
+  },
+  themeMeta: {
+    fontSize: 12,
+  },
+  publishToggle: {
+    alignItems: "center",
+    gap: 4,
+  },
+  publishLabel: {
+    fontSize: 12,
+  },
+  editorContent: {
+    borderRadius: 16,
+    padding: 24,
+    gap: 12,
+  },
+  editorTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    textAlign: "center",
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+  },
+  itemsInput: {
+    minHeight: 140,
+    textAlignVertical: "top",
+  },
+  editorButtons: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 8,
+  },
+  editorButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  editorButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  modalContent: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 24,
+    alignItems: "center",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 12,
+    color: "#ef4444",
+  },
+  modalMessage: {
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: 24,
+    color: "#666",
+  },
+  modalButton: {
+    backgroundColor: "#ef4444",
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 8,
+    minWidth: 100,
+  },
+  modalButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+});
@@ -4,6 +4,7 @@ import { View, ActivityIndicator, StyleSheet, Text } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@react-navigation/native';
 import { supabase } from '@/lib/supabase';
+import { authenticatedPost } from '@/utils/api';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { bcctColors } from '@/styles/bcctTheme';
 
@@ -67,26 +68,10 @@ export default function AuthCallbackScreen() {
               console.log('[AuthCallback] Claiming invite code:', pendingInviteCode);
               
               try {
-                const { data: claimData, error: claimError } = await supabase.rpc('claim_client_invite', {
-                  p_code: pendingInviteCode,
+                const claimData = await authenticatedPost('/api/client/invites/claim', {
+                  code: pendingInviteCode,
                 });
-
-                if (claimError) {
-                  console.error('[AuthCallback] Claim invite error:', claimError);
-                  
-                  // If this was a signup and invite claim failed, sign out the user
-                  if (pendingMode === 'signup') {
-                    console.error('[AuthCallback] Signup with invalid invite code - signing out user');
-                    await supabase.auth.signOut();
-                    await AsyncStorage.removeItem('pendingRole');
-                    await AsyncStorage.removeItem('pendingMode');
-                    await AsyncStorage.removeItem('pendingInviteCode');
-                    router.replace('/auth');
-                    return;
-                  }
-                } else {
-                  console.log('[AuthCallback] Invite claimed successfully:', claimData);
-                }
+                console.log('[AuthCallback] Invite claimed successfully:', claimData);
               } catch (claimErr) {
                 console.error('[AuthCallback] Invite claim failed:', claimErr);
                 
@@ -20,6 +20,8 @@ import { bcctColors, bcctTypography } from '@/styles/bcctTheme';
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import AntDesign from '@expo/vector-icons/AntDesign';
 import { supabase } from '@/lib/supabase';
+import { authenticatedPost, parseApiError } from '@/utils/api';
+import { describeInviteRejection } from '@/utils/invites';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 type Mode = 'signin' | 'signup';
@@ -139,25 +141,24 @@ export default function AuthScreen() {
           console.log('[Auth] Claiming invite code during signup:', signupInviteCode.trim());
           
           try {
-            const { data: claimData, error: claimError } = await supabase.rpc('claim_client_invite', {
-              p_code: signupInviteCode.trim().toUpperCase(),
+            const claimData = await authenticatedPost('/api/client/invites/claim', {
+              code: signupInviteCode.trim().toUpperCase(),
             });
 
-            if (claimError) {
-              console.error('[Auth] Claim invite error:', claimError);
-              
-              // Delete the user account since invite claim failed
-              await supabase.auth.signOut();
-              
-              throw new Error('Coachcode ongeldig of verlopen. Controleer de code en probeer opnieuw.');
-            }
-
             console.log('[Auth] Invite claimed successfully during signup:', claimData);
             setSignupInviteCode(''); // Clear after successful claim
           } catch (claimErr: any) {
             console.error('[Auth] Invite claim failed:', claimErr);
+
+            // Sign out again since the account is not linked to a coach
+            await supabase.auth.signOut();
+
             setLoading(false);
-            showModal('Fout', claimErr.message || 'Coachcode ongeldig of verlopen');
+            showModal(
+              'Fout',
+              describeInviteRejection(parseApiError(claimErr).body) ||
+                'Coachcode ongeldig of verlopen. Controleer de code en probeer opnieuw.'
+            );
             return;
           }
         }
@@ -228,27 +229,20 @@ export default function AuthScreen() {
           console.log('[Auth] Claiming invite code on login:', loginInviteCode.trim());
           
           try {
-            const { data: claimData, error: claimError } = await supabase.rpc('claim_client_invite', {
-              p_code: loginInviteCode.trim().toUpperCase(),
+            const claimData = await authenticatedPost('/api/client/invites/claim', {
+              code: loginInviteCode.trim().toUpperCase(),
             });
 
-            if (claimError) {
-              console.error('[Auth] Claim invite error:', claimError);
-              
-              // Check for specific error messages
-              if (claimError.message.includes('Invalid invite code') || claimError.message.includes('not found')) {
-                throw new Error('Code ongeldig. Controleer de code van je coach.');
-              }
-              
-              throw claimError;
-            }
-
             console.log('[Auth] Invite claimed successfully on login:', claimData);
           } catch (claimErr: any) {
             console.error('[Auth] Invite claim failed:', claimErr);
             
             // Show user-friendly error but don't block login
-            showModal('Fout', claimErr.message || 'Code kon niet worden gekoppeld. Neem contact op met je coach.');
+            showModal(
+              'Fout',
+              describeInviteRejection(parseApiError(claimErr).body) ||
+                'Code kon niet worden gekoppeld. Neem contact op met je coach.'
+            );
             setLoading(false);
             return;
           }
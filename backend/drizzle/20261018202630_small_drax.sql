@@ -0,0 +1,25 @@
+CREATE TABLE "coach_availability" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coach_id" text NOT NULL,
+	"weekday" integer NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "availability_weekday_range" CHECK (weekday >= 0 AND weekday <= 6),
+	CONSTRAINT "availability_time_range" CHECK (start_time < end_time)
+);
+--> statement-breakpoint
+CREATE TABLE "coach_availability_exceptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coach_id" text NOT NULL,
+	"starts_at" timestamp with time zone NOT NULL,
+	"ends_at" timestamp with time zone NOT NULL,
+	"reason" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "availability_exception_range" CHECK (ends_at > starts_at)
+);
+--> statement-breakpoint
+ALTER TABLE "coach_availability" ADD CONSTRAINT "coach_availability_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_availability_exceptions" ADD CONSTRAINT "coach_availability_exceptions_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "coach_availability_coach_weekday_idx" ON "coach_availability" USING btree ("coach_id","weekday");--> statement-breakpoint
+CREATE INDEX "coach_availability_exceptions_coach_starts_idx" ON "coach_availability_exceptions" USING btree ("coach_id","starts_at");
\ No newline at end of file
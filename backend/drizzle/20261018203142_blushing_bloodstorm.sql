@@ -0,0 +1,2 @@
+ALTER TABLE "appointments" DROP CONSTRAINT "appointment_status_enum";--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointment_status_enum" CHECK (status IN ('requested', 'scheduled', 'completed', 'cancelled'));
\ No newline at end of file
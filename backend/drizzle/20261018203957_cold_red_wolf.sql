@@ -0,0 +1,21 @@
+CREATE TABLE "appointment_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coach_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"frequency" text NOT NULL,
+	"count" integer,
+	"until" timestamp with time zone,
+	"starts_at" timestamp with time zone NOT NULL,
+	"duration_minutes" integer,
+	"notes" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "appointment_series_frequency_enum" CHECK (frequency IN ('weekly', 'biweekly', 'monthly'))
+);
+--> statement-breakpoint
+ALTER TABLE "appointments" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_client_id_profiles_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "appointment_series_coach_idx" ON "appointment_series" USING btree ("coach_id");--> statement-breakpoint
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_series_id_appointment_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."appointment_series"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "appointments_series_scheduled_idx" ON "appointments" USING btree ("series_id","scheduled_at");
\ No newline at end of file
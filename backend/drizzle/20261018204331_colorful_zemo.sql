@@ -0,0 +1,3 @@
+ALTER TABLE "notification_prefs" ADD COLUMN "appointment_reminder_offsets" integer[];--> statement-breakpoint
+ALTER TABLE "notifications_outbox" ADD COLUMN "dedupe_key" text;--> statement-breakpoint
+ALTER TABLE "notifications_outbox" ADD CONSTRAINT "notifications_outbox_dedupe_key_unique" UNIQUE("dedupe_key");
\ No newline at end of file
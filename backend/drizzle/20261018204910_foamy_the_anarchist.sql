@@ -0,0 +1,6 @@
+ALTER TABLE "notification_prefs" ADD COLUMN "chat_messages_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_prefs" ADD COLUMN "appointment_reminders_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_prefs" ADD COLUMN "checkin_reminders_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_prefs" ADD COLUMN "program_updates_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_prefs" ADD COLUMN "coach_alerts_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "notification_prefs" ADD COLUMN "quiet_hours" jsonb;
\ No newline at end of file
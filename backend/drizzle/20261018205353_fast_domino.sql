@@ -0,0 +1,49 @@
+CREATE TABLE "alert_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coach_id" text NOT NULL,
+	"client_id" text,
+	"name" text NOT NULL,
+	"kind" text NOT NULL,
+	"metric" text,
+	"theme_item_id" text,
+	"comparator" text,
+	"threshold" integer,
+	"min_occurrences" integer DEFAULT 1 NOT NULL,
+	"window_days" integer DEFAULT 7 NOT NULL,
+	"severity" text DEFAULT 'medium' NOT NULL,
+	"push_enabled" boolean DEFAULT true NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "alert_rule_kind_enum" CHECK (kind IN ('threshold', 'trend', 'missing_checkin')),
+	CONSTRAINT "alert_rule_metric_enum" CHECK (metric IS NULL OR metric IN ('stress', 'energy', 'sleep', 'mood', 'theme_item')),
+	CONSTRAINT "alert_rule_comparator_enum" CHECK (comparator IS NULL OR comparator IN ('gte', 'lte')),
+	CONSTRAINT "alert_rule_severity_enum" CHECK (severity IN ('low', 'medium', 'high'))
+);
+--> statement-breakpoint
+CREATE TABLE "coach_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_id" uuid NOT NULL,
+	"coach_id" text NOT NULL,
+	"client_id" text NOT NULL,
+	"checkin_id" uuid,
+	"status" text DEFAULT 'open' NOT NULL,
+	"severity" text NOT NULL,
+	"title" text NOT NULL,
+	"detail_json" jsonb,
+	"triggered_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"acknowledged_at" timestamp with time zone,
+	"resolved_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "coach_alert_status_enum" CHECK (status IN ('open', 'acknowledged', 'resolved'))
+);
+--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_client_id_profiles_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_alerts" ADD CONSTRAINT "coach_alerts_rule_id_alert_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."alert_rules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_alerts" ADD CONSTRAINT "coach_alerts_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_alerts" ADD CONSTRAINT "coach_alerts_client_id_profiles_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "coach_alerts" ADD CONSTRAINT "coach_alerts_checkin_id_checkins_id_fk" FOREIGN KEY ("checkin_id") REFERENCES "public"."checkins"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_rules_coach_idx" ON "alert_rules" USING btree ("coach_id");--> statement-breakpoint
+CREATE INDEX "coach_alerts_coach_status_idx" ON "coach_alerts" USING btree ("coach_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "coach_alerts_unresolved_idx" ON "coach_alerts" USING btree ("rule_id","client_id") WHERE status <> 'resolved';
\ No newline at end of file
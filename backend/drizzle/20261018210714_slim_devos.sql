@@ -0,0 +1,17 @@
+CREATE TABLE "checkin_responses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"checkin_id" uuid NOT NULL,
+	"theme_item_id" text NOT NULL,
+	"value" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "checkin_response_value_range" CHECK (value >= 0 AND value <= 10)
+);
+--> statement-breakpoint
+ALTER TABLE "checkins" ADD COLUMN "locked_energy" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "checkins" ADD COLUMN "locked_stress" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "checkins" ADD COLUMN "locked_sleep" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "checkins" ADD COLUMN "updated_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "checkin_responses" ADD CONSTRAINT "checkin_responses_checkin_id_checkins_id_fk" FOREIGN KEY ("checkin_id") REFERENCES "public"."checkins"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "checkin_responses_checkin_item_idx" ON "checkin_responses" USING btree ("checkin_id","theme_item_id");--> statement-breakpoint
+CREATE INDEX "checkin_responses_theme_item_idx" ON "checkin_responses" USING btree ("theme_item_id");
\ No newline at end of file
@@ -0,0 +1,45 @@
+CREATE TABLE "client_theme_assignments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_id" text NOT NULL,
+	"theme_id" uuid NOT NULL,
+	"assigned_by" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "theme_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"theme_id" uuid NOT NULL,
+	"label" text NOT NULL,
+	"type" text DEFAULT 'slider' NOT NULL,
+	"min_value" integer DEFAULT 0 NOT NULL,
+	"max_value" integer DEFAULT 10 NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "theme_item_type_enum" CHECK (type IN ('slider'))
+);
+--> statement-breakpoint
+CREATE TABLE "themes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coach_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "checkin_responses" ALTER COLUMN "theme_item_id" SET DATA TYPE uuid USING "theme_item_id"::uuid;--> statement-breakpoint
+ALTER TABLE "client_theme_assignments" ADD CONSTRAINT "client_theme_assignments_client_id_profiles_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_theme_assignments" ADD CONSTRAINT "client_theme_assignments_theme_id_themes_id_fk" FOREIGN KEY ("theme_id") REFERENCES "public"."themes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_theme_assignments" ADD CONSTRAINT "client_theme_assignments_assigned_by_profiles_id_fk" FOREIGN KEY ("assigned_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "theme_items" ADD CONSTRAINT "theme_items_theme_id_themes_id_fk" FOREIGN KEY ("theme_id") REFERENCES "public"."themes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "themes" ADD CONSTRAINT "themes_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "client_theme_assignments_active_client_idx" ON "client_theme_assignments" USING btree ("client_id") WHERE active;--> statement-breakpoint
+CREATE INDEX "client_theme_assignments_theme_idx" ON "client_theme_assignments" USING btree ("theme_id");--> statement-breakpoint
+CREATE INDEX "theme_items_theme_order_idx" ON "theme_items" USING btree ("theme_id","sort_order");--> statement-breakpoint
+CREATE INDEX "themes_coach_idx" ON "themes" USING btree ("coach_id");--> statement-breakpoint
+ALTER TABLE "checkin_responses" ADD CONSTRAINT "checkin_responses_theme_item_id_theme_items_id_fk" FOREIGN KEY ("theme_item_id") REFERENCES "public"."theme_items"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "themes" ADD COLUMN "org_id" uuid;--> statement-breakpoint
+ALTER TABLE "themes" ADD COLUMN "is_published" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "themes" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "themes" ADD COLUMN "source_theme_id" uuid;--> statement-breakpoint
+ALTER TABLE "themes" ADD COLUMN "source_version" integer;--> statement-breakpoint
+ALTER TABLE "themes" ADD CONSTRAINT "themes_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "themes" ADD CONSTRAINT "themes_source_theme_id_themes_id_fk" FOREIGN KEY ("source_theme_id") REFERENCES "public"."themes"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "themes_org_idx" ON "themes" USING btree ("org_id");--> statement-breakpoint
+CREATE INDEX "themes_source_idx" ON "themes" USING btree ("source_theme_id");
\ No newline at end of file
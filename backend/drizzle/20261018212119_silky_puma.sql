@@ -0,0 +1,10 @@
+ALTER TABLE "checkin_responses" DROP CONSTRAINT "checkin_response_value_range";--> statement-breakpoint
+ALTER TABLE "theme_items" DROP CONSTRAINT "theme_item_type_enum";--> statement-breakpoint
+ALTER TABLE "checkin_responses" ALTER COLUMN "value" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "checkin_responses" ALTER COLUMN "value" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "theme_items" ALTER COLUMN "min_value" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "theme_items" ALTER COLUMN "max_value" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "checkin_responses" ADD COLUMN "text_value" text;--> statement-breakpoint
+ALTER TABLE "theme_items" ADD COLUMN "config" jsonb;--> statement-breakpoint
+ALTER TABLE "checkin_responses" ADD CONSTRAINT "checkin_response_value_present" CHECK (value IS NOT NULL OR text_value IS NOT NULL);--> statement-breakpoint
+ALTER TABLE "theme_items" ADD CONSTRAINT "theme_item_type_enum" CHECK (type IN ('slider', 'yes_no', 'choice', 'likert', 'number', 'text'));
\ No newline at end of file
@@ -0,0 +1,5 @@
+DROP INDEX "client_theme_assignments_active_client_idx";--> statement-breakpoint
+ALTER TABLE "client_theme_assignments" ADD COLUMN "frequency" text DEFAULT 'daily' NOT NULL;--> statement-breakpoint
+CREATE INDEX "client_theme_assignments_client_idx" ON "client_theme_assignments" USING btree ("client_id","start_date");--> statement-breakpoint
+ALTER TABLE "client_theme_assignments" ADD CONSTRAINT "client_theme_assignment_frequency_enum" CHECK (frequency IN ('daily', 'three_per_week', 'weekly'));--> statement-breakpoint
+ALTER TABLE "client_theme_assignments" ADD CONSTRAINT "client_theme_assignment_date_range" CHECK (end_date IS NULL OR end_date >= start_date);
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "client_invite_claims" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invite_id" uuid NOT NULL,
+	"client_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "client_invites" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"coach_id" text NOT NULL,
+	"code" text NOT NULL,
+	"email" text,
+	"max_uses" integer DEFAULT 1 NOT NULL,
+	"use_count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"last_sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "client_invites_code_unique" UNIQUE("code"),
+	CONSTRAINT "client_invite_max_uses" CHECK (max_uses >= 1),
+	CONSTRAINT "client_invite_use_count" CHECK (use_count >= 0 AND use_count <= max_uses)
+);
+--> statement-breakpoint
+ALTER TABLE "client_invite_claims" ADD CONSTRAINT "client_invite_claims_invite_id_client_invites_id_fk" FOREIGN KEY ("invite_id") REFERENCES "public"."client_invites"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_invite_claims" ADD CONSTRAINT "client_invite_claims_client_id_profiles_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_invites" ADD CONSTRAINT "client_invites_coach_id_profiles_id_fk" FOREIGN KEY ("coach_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "client_invite_claims_invite_client_idx" ON "client_invite_claims" USING btree ("invite_id","client_id");--> statement-breakpoint
+CREATE INDEX "client_invites_coach_idx" ON "client_invites" USING btree ("coach_id","created_at");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "task_completion_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"completion_id" uuid NOT NULL,
+	"author_id" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "task_completions" ADD COLUMN "review_status" text DEFAULT 'unread' NOT NULL;--> statement-breakpoint
+ALTER TABLE "task_completions" ADD COLUMN "reviewed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "task_completions" ADD COLUMN "reviewed_by" text;--> statement-breakpoint
+ALTER TABLE "task_completion_comments" ADD CONSTRAINT "task_completion_comments_completion_id_task_completions_id_fk" FOREIGN KEY ("completion_id") REFERENCES "public"."task_completions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_completion_comments" ADD CONSTRAINT "task_completion_comments_author_id_profiles_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_completion_comments_completion_created_idx" ON "task_completion_comments" USING btree ("completion_id","created_at");--> statement-breakpoint
+ALTER TABLE "task_completions" ADD CONSTRAINT "task_completions_reviewed_by_profiles_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."profiles"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_completions_review_status_idx" ON "task_completions" USING btree ("review_status");--> statement-breakpoint
+ALTER TABLE "task_completions" ADD CONSTRAINT "task_completion_review_status_enum" CHECK (review_status IN ('unread', 'reviewed'));
\ No newline at end of file
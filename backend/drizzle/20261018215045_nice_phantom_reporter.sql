@@ -0,0 +1,23 @@
+CREATE TABLE "program_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"program_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"published_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "program_version_status_enum" CHECK (status IN ('draft', 'published'))
+);
+--> statement-breakpoint
+ALTER TABLE "client_programs" DROP CONSTRAINT "client_programs_program_id_program_templates_id_fk";
+--> statement-breakpoint
+ALTER TABLE "client_programs" ADD COLUMN "version_id" uuid;--> statement-breakpoint
+ALTER TABLE "program_tasks" ADD COLUMN "task_key" uuid DEFAULT gen_random_uuid() NOT NULL;--> statement-breakpoint
+ALTER TABLE "program_templates" ADD COLUMN "archived_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "program_weeks" ADD COLUMN "version_id" uuid;--> statement-breakpoint
+ALTER TABLE "program_versions" ADD CONSTRAINT "program_versions_program_id_program_templates_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."program_templates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "program_versions_program_version_idx" ON "program_versions" USING btree ("program_id","version");--> statement-breakpoint
+ALTER TABLE "client_programs" ADD CONSTRAINT "client_programs_version_id_program_versions_id_fk" FOREIGN KEY ("version_id") REFERENCES "public"."program_versions"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "client_programs" ADD CONSTRAINT "client_programs_program_id_program_templates_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."program_templates"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "program_weeks" ADD CONSTRAINT "program_weeks_version_id_program_versions_id_fk" FOREIGN KEY ("version_id") REFERENCES "public"."program_versions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
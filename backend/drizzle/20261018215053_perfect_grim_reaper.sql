@@ -0,0 +1,14 @@
+-- Existing programs become version 1 and keep their weeks and assignees. Programs that
+-- clients follow are published, so later edits go to a draft instead of changing them.
+UPDATE "program_templates" SET "published" = true
+WHERE EXISTS (SELECT 1 FROM "client_programs" WHERE "client_programs"."program_id" = "program_templates"."id");--> statement-breakpoint
+INSERT INTO "program_versions" ("program_id", "version", "status", "title", "description", "published_at", "created_at")
+SELECT "id", 1, CASE WHEN "published" THEN 'published' ELSE 'draft' END, "title", "description",
+  CASE WHEN "published" THEN now() END, "created_at"
+FROM "program_templates";--> statement-breakpoint
+UPDATE "program_weeks" SET "version_id" = "program_versions"."id"
+FROM "program_versions" WHERE "program_versions"."program_id" = "program_weeks"."program_id";--> statement-breakpoint
+UPDATE "client_programs" SET "version_id" = "program_versions"."id"
+FROM "program_versions" WHERE "program_versions"."program_id" = "client_programs"."program_id";--> statement-breakpoint
+ALTER TABLE "client_programs" ALTER COLUMN "version_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "program_weeks" ALTER COLUMN "version_id" SET NOT NULL;
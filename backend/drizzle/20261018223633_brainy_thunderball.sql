@@ -0,0 +1,9 @@
+-- Rules pointing at a missing or another coach's theme item never matched a valid item; drop them before the cast
+DELETE FROM "alert_rules"
+WHERE "theme_item_id" IS NOT NULL AND "theme_item_id" NOT IN (
+  SELECT "theme_items"."id"::text FROM "theme_items"
+  INNER JOIN "themes" ON "themes"."id" = "theme_items"."theme_id"
+  WHERE "themes"."coach_id" = "alert_rules"."coach_id"
+);--> statement-breakpoint
+ALTER TABLE "alert_rules" ALTER COLUMN "theme_item_id" SET DATA TYPE uuid USING "theme_item_id"::uuid;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_theme_item_id_theme_items_id_fk" FOREIGN KEY ("theme_item_id") REFERENCES "public"."theme_items"("id") ON DELETE cascade ON UPDATE no action;
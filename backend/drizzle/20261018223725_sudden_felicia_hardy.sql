@@ -0,0 +1,4 @@
+ALTER TABLE "profiles" ADD COLUMN "alert_rules_seeded_at" timestamp with time zone;--> statement-breakpoint
+-- Coaches with rules already got the defaults
+UPDATE "profiles" SET "alert_rules_seeded_at" = now()
+WHERE "id" IN (SELECT DISTINCT "coach_id" FROM "alert_rules");
@@ -0,0 +1 @@
+ALTER TABLE "themes" ADD COLUMN "archived_at" timestamp with time zone;
\ No newline at end of file
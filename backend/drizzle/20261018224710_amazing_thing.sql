@@ -0,0 +1,15 @@
+-- Merge duplicate conversations into the oldest one per coach and client
+UPDATE "messages" SET "conversation_id" = keep."id"
+FROM "conversations" dup
+JOIN LATERAL (
+  SELECT c."id" FROM "conversations" c
+  WHERE c."coach_id" = dup."coach_id" AND c."client_id" = dup."client_id"
+  ORDER BY c."created_at", c."id"
+  LIMIT 1
+) keep ON true
+WHERE "messages"."conversation_id" = dup."id" AND dup."id" <> keep."id";--> statement-breakpoint
+DELETE FROM "conversations" dup
+USING "conversations" keep
+WHERE keep."coach_id" = dup."coach_id" AND keep."client_id" = dup."client_id"
+  AND (keep."created_at", keep."id") < (dup."created_at", dup."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "conversations_coach_client_idx" ON "conversations" USING btree ("coach_id","client_id");
@@ -4,6 +4,7 @@ import {
   timestamp,
   uuid,
   integer,
+  doublePrecision,
   boolean,
   date,
   jsonb,
@@ -11,6 +12,7 @@ import {
   index,
   time,
   check as pgCheck,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
@@ -24,6 +26,8 @@ export const profiles = pgTable(
     phone: text('phone'),
     role: text('role').notNull(),
     goals: text('goals'),
+    // Set once a coach got the default alert rules, so deleting them doesn't bring them back
+    alertRulesSeededAt: timestamp('alert_rules_seeded_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
@@ -74,20 +78,80 @@ export const coachClients = pgTable(
   })
 );
 
+// Invite codes a coach hands out; claiming one links the client to the coach
+export const clientInvites = pgTable(
+  'client_invites',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    code: text('code').notNull().unique(),
+    // Set for email invites; the code is sent to this address
+    email: text('email'),
+    maxUses: integer('max_uses').default(1).notNull(),
+    useCount: integer('use_count').default(0).notNull(),
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    lastSentAt: timestamp('last_sent_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachIdx: index('client_invites_coach_idx').on(table.coachId, table.createdAt),
+    maxUsesCheck: pgCheck('client_invite_max_uses', sql`max_uses >= 1`),
+    useCountCheck: pgCheck('client_invite_use_count', sql`use_count >= 0 AND use_count <= max_uses`),
+  })
+);
+
+// One row per client that claimed an invite
+export const clientInviteClaims = pgTable(
+  'client_invite_claims',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    inviteId: uuid('invite_id').notNull().references(() => clientInvites.id, { onDelete: 'cascade' }),
+    clientId: text('client_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    inviteClientIdx: uniqueIndex('client_invite_claims_invite_client_idx').on(table.inviteId, table.clientId),
+  })
+);
+
 // Program templates
 export const programTemplates = pgTable('program_templates', {
   id: uuid('id').primaryKey().defaultRandom(),
   coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   description: text('description'),
+  // Whether a version has been published; title and description follow the latest published version
   published: boolean('published').default(false).notNull(),
+  // Set instead of deleting a program that clients are or were enrolled in
+  archivedAt: timestamp('archived_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Program versions: published versions are frozen, edits go to the single draft
+export const programVersions = pgTable(
+  'program_versions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    programId: uuid('program_id').notNull().references(() => programTemplates.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    status: text('status').default('draft').notNull(),
+    title: text('title').notNull(),
+    description: text('description'),
+    publishedAt: timestamp('published_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    programVersionIdx: uniqueIndex('program_versions_program_version_idx').on(table.programId, table.version),
+    statusCheck: pgCheck('program_version_status_enum', sql`status IN ('draft', 'published')`),
+  })
+);
+
 // Program weeks
 export const programWeeks = pgTable('program_weeks', {
   id: uuid('id').primaryKey().defaultRandom(),
   programId: uuid('program_id').notNull().references(() => programTemplates.id, { onDelete: 'cascade' }),
+  versionId: uuid('version_id').notNull().references(() => programVersions.id, { onDelete: 'cascade' }),
   weekNumber: integer('week_number').notNull(),
   title: text('title'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -99,6 +163,8 @@ export const programTasks = pgTable(
   {
     id: uuid('id').primaryKey().defaultRandom(),
     weekId: uuid('week_id').notNull().references(() => programWeeks.id, { onDelete: 'cascade' }),
+    // Shared by the copies of a task across versions, so completions can follow a migration
+    taskKey: uuid('task_key').defaultRandom().notNull(),
     type: text('type').notNull(),
     title: text('title').notNull(),
     contentJson: jsonb('content_json'),
@@ -114,7 +180,9 @@ export const programTasks = pgTable(
 export const clientPrograms = pgTable('client_programs', {
   id: uuid('id').primaryKey().defaultRandom(),
   clientId: text('client_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
-  programId: uuid('program_id').notNull().references(() => programTemplates.id, { onDelete: 'cascade' }),
+  programId: uuid('program_id').notNull().references(() => programTemplates.id, { onDelete: 'restrict' }),
+  // The published version the client follows
+  versionId: uuid('version_id').notNull().references(() => programVersions.id, { onDelete: 'restrict' }),
   assignedBy: text('assigned_by').notNull().references(() => profiles.id, { onDelete: 'restrict' }),
   assignedAt: timestamp('assigned_at', { withTimezone: true }).defaultNow().notNull(),
   completedAt: timestamp('completed_at', { withTimezone: true }),
@@ -127,11 +195,32 @@ export const taskCompletions = pgTable('task_completions', {
   taskId: uuid('task_id').notNull().references(() => programTasks.id, { onDelete: 'cascade' }),
   completedAt: timestamp('completed_at', { withTimezone: true }).defaultNow().notNull(),
   responseJson: jsonb('response_json'),
+  // Coach review: 'unread' until a coach marks it reviewed or replies; reset when the client answers again
+  reviewStatus: text('review_status').default('unread').notNull(),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  reviewedBy: text('reviewed_by').references(() => profiles.id, { onDelete: 'set null' }),
 }, (table) => ({
   clientProgramTaskIdx: uniqueIndex('task_completions_client_program_task_idx')
     .on(table.clientProgramId, table.taskId),
+  reviewStatusIdx: index('task_completions_review_status_idx').on(table.reviewStatus),
+  reviewStatusCheck: pgCheck('task_completion_review_status_enum', sql`review_status IN ('unread', 'reviewed')`),
 }));
 
+// Feedback thread on a task completion, written by the coach and the client
+export const taskCompletionComments = pgTable(
+  'task_completion_comments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    completionId: uuid('completion_id').notNull().references(() => taskCompletions.id, { onDelete: 'cascade' }),
+    authorId: text('author_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    completionCreatedIdx: index('task_completion_comments_completion_created_idx').on(table.completionId, table.createdAt),
+  })
+);
+
 // Checkins
 export const checkins = pgTable(
   'checkins',
@@ -144,7 +233,12 @@ export const checkins = pgTable(
     sleep: integer('sleep'),
     mood: integer('mood'),
     note: text('note'),
+    // Sliders the client locked on the home screen so the value is not changed by accident
+    lockedEnergy: boolean('locked_energy').default(false).notNull(),
+    lockedStress: boolean('locked_stress').default(false).notNull(),
+    lockedSleep: boolean('locked_sleep').default(false).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => ({
     userDateIdx: uniqueIndex('checkins_user_date_idx').on(table.userId, table.date),
@@ -155,6 +249,131 @@ export const checkins = pgTable(
   })
 );
 
+// Check-in themes (modules) built from theme items. Themes with an orgId form the
+// organization library; their coachId is the org admin who created them.
+export const themes = pgTable(
+  'themes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    orgId: uuid('org_id').references(() => organizations.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    description: text('description'),
+    // Library themes are visible to org members once published
+    isPublished: boolean('is_published').default(false).notNull(),
+    // Bumped on every change to the theme or its items
+    version: integer('version').default(1).notNull(),
+    // Library theme this theme was cloned from, and its version at the time
+    sourceThemeId: uuid('source_theme_id').references((): AnyPgColumn => themes.id, { onDelete: 'set null' }),
+    sourceVersion: integer('source_version'),
+    // Set instead of deleting a theme that clients have answered check-ins on
+    archivedAt: timestamp('archived_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachIdx: index('themes_coach_idx').on(table.coachId),
+    orgIdx: index('themes_org_idx').on(table.orgId),
+    sourceIdx: index('themes_source_idx').on(table.sourceThemeId),
+  })
+);
+
+// Questions within a theme. Sliders use the 0-10 check-in scale; see THEME_ITEM_TYPES for the other types.
+// minValue/maxValue bound numeric answers (null leaves a number item unbounded); config holds
+// choice options, likert anchor labels or the unit of a number item.
+export const themeItems = pgTable(
+  'theme_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    themeId: uuid('theme_id').notNull().references(() => themes.id, { onDelete: 'cascade' }),
+    label: text('label').notNull(),
+    type: text('type').default('slider').notNull(),
+    config: jsonb('config'),
+    minValue: integer('min_value').default(0),
+    maxValue: integer('max_value').default(10),
+    sortOrder: integer('sort_order').default(0).notNull(),
+    isActive: boolean('is_active').default(true).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    themeOrderIdx: index('theme_items_theme_order_idx').on(table.themeId, table.sortOrder),
+    typeCheck: pgCheck(
+      'theme_item_type_enum',
+      sql`type IN ('slider', 'yes_no', 'choice', 'likert', 'number', 'text')`
+    ),
+  })
+);
+
+// Theme a client checks in on. A client can have several assignments at once; each one is current
+// from startDate through endDate (open ended when null) until the coach removes it (active = false).
+// frequency is how often the client is asked to answer the theme.
+export const clientThemeAssignments = pgTable(
+  'client_theme_assignments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    clientId: text('client_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    themeId: uuid('theme_id').notNull().references(() => themes.id, { onDelete: 'cascade' }),
+    assignedBy: text('assigned_by').references(() => profiles.id, { onDelete: 'set null' }),
+    active: boolean('active').default(true).notNull(),
+    startDate: date('start_date').notNull(),
+    endDate: date('end_date'),
+    frequency: text('frequency').default('daily').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    clientIdx: index('client_theme_assignments_client_idx').on(table.clientId, table.startDate),
+    themeIdx: index('client_theme_assignments_theme_idx').on(table.themeId),
+    frequencyCheck: pgCheck(
+      'client_theme_assignment_frequency_enum',
+      sql`frequency IN ('daily', 'three_per_week', 'weekly')`
+    ),
+    dateRangeCheck: pgCheck('client_theme_assignment_date_range', sql`end_date IS NULL OR end_date >= start_date`),
+  })
+);
+
+// Theme item answers belonging to a day's check-in. Text and choice answers are stored in
+// textValue, all other types in value (yes/no as 1/0).
+export const checkinResponses = pgTable(
+  'checkin_responses',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    checkinId: uuid('checkin_id').notNull().references(() => checkins.id, { onDelete: 'cascade' }),
+    themeItemId: uuid('theme_item_id').notNull().references(() => themeItems.id, { onDelete: 'cascade' }),
+    value: doublePrecision('value'),
+    textValue: text('text_value'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    checkinItemIdx: uniqueIndex('checkin_responses_checkin_item_idx').on(table.checkinId, table.themeItemId),
+    themeItemIdx: index('checkin_responses_theme_item_idx').on(table.themeItemId),
+    valueCheck: pgCheck('checkin_response_value_present', sql`value IS NOT NULL OR text_value IS NOT NULL`),
+  })
+);
+
+// Appointment series (recurrence rule; occurrences are materialized as appointments)
+export const appointmentSeries = pgTable(
+  'appointment_series',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    clientId: text('client_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    frequency: text('frequency').notNull(),
+    count: integer('count'),
+    until: timestamp('until', { withTimezone: true }),
+    startsAt: timestamp('starts_at', { withTimezone: true }).notNull(),
+    durationMinutes: integer('duration_minutes'),
+    notes: text('notes'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachIdx: index('appointment_series_coach_idx').on(table.coachId),
+    frequencyCheck: pgCheck('appointment_series_frequency_enum', sql`frequency IN ('weekly', 'biweekly', 'monthly')`),
+  })
+);
+
 // Appointments
 export const appointments = pgTable(
   'appointments',
@@ -166,12 +385,52 @@ export const appointments = pgTable(
     durationMinutes: integer('duration_minutes'),
     notes: text('notes'),
     status: text('status').notNull(),
+    seriesId: uuid('series_id').references(() => appointmentSeries.id, { onDelete: 'set null' }),
+    // iCalendar SEQUENCE, bumped whenever the event changes so subscribed calendars pick it up
+    sequence: integer('sequence').default(0).notNull(),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   },
   (table) => ({
     coachScheduledIdx: index('appointments_coach_scheduled_idx').on(table.coachId, table.scheduledAt),
     clientScheduledIdx: index('appointments_client_scheduled_idx').on(table.clientId, table.scheduledAt),
-    statusCheck: pgCheck('appointment_status_enum', sql`status IN ('scheduled', 'completed', 'cancelled')`),
+    seriesScheduledIdx: index('appointments_series_scheduled_idx').on(table.seriesId, table.scheduledAt),
+    statusCheck: pgCheck('appointment_status_enum', sql`status IN ('requested', 'scheduled', 'completed', 'cancelled')`),
+  })
+);
+
+// Coach availability (weekly working hours, wall-clock times in the coach's timezone)
+export const coachAvailability = pgTable(
+  'coach_availability',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    weekday: integer('weekday').notNull(),
+    startTime: time('start_time').notNull(),
+    endTime: time('end_time').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachWeekdayIdx: index('coach_availability_coach_weekday_idx').on(table.coachId, table.weekday),
+    weekdayCheck: pgCheck('availability_weekday_range', sql`weekday >= 0 AND weekday <= 6`),
+    timeRangeCheck: pgCheck('availability_time_range', sql`start_time < end_time`),
+  })
+);
+
+// Coach availability exceptions (blocked periods such as holidays)
+export const coachAvailabilityExceptions = pgTable(
+  'coach_availability_exceptions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    startsAt: timestamp('starts_at', { withTimezone: true }).notNull(),
+    endsAt: timestamp('ends_at', { withTimezone: true }).notNull(),
+    reason: text('reason'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachStartsIdx: index('coach_availability_exceptions_coach_starts_idx').on(table.coachId, table.startsAt),
+    rangeCheck: pgCheck('availability_exception_range', sql`ends_at > starts_at`),
   })
 );
 
@@ -181,7 +440,10 @@ export const conversations = pgTable('conversations', {
   coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
   clientId: text('client_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => ({
+  // One conversation per coach and client
+  coachClientIdx: uniqueIndex('conversations_coach_client_idx').on(table.coachId, table.clientId),
+}));
 
 // Messages
 export const messages = pgTable('messages', {
@@ -222,9 +484,26 @@ export const notificationPrefs = pgTable('notification_prefs', {
   pushEnabled: boolean('push_enabled').default(true).notNull(),
   dailyCheckinTime: time('daily_checkin_time'),
   timezone: text('timezone'),
+  // Minutes before an appointment to send reminders; null means the defaults
+  appointmentReminderOffsets: integer('appointment_reminder_offsets').array(),
+  // Per-category push opt-in
+  chatMessagesEnabled: boolean('chat_messages_enabled').default(true).notNull(),
+  appointmentRemindersEnabled: boolean('appointment_reminders_enabled').default(true).notNull(),
+  checkinRemindersEnabled: boolean('checkin_reminders_enabled').default(true).notNull(),
+  programUpdatesEnabled: boolean('program_updates_enabled').default(true).notNull(),
+  coachAlertsEnabled: boolean('coach_alerts_enabled').default(true).notNull(),
+  // Quiet-hours windows as [{ start: 'HH:MM', end: 'HH:MM' }] in the user's timezone; pushes are deferred
+  quietHours: jsonb('quiet_hours'),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Calendar feed tokens (secret URL for subscribing to appointments from a calendar app)
+export const calendarFeeds = pgTable('calendar_feeds', {
+  userId: text('user_id').primaryKey().references(() => profiles.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
 // Notifications outbox
 export const notificationsOutbox = pgTable('notifications_outbox', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -235,6 +514,13 @@ export const notificationsOutbox = pgTable('notifications_outbox', {
   dataJson: jsonb('data_json'),
   sendAfter: timestamp('send_after', { withTimezone: true }),
   sentAt: timestamp('sent_at', { withTimezone: true }),
+  // Set for scheduler-generated rows so repeated runs don't queue duplicates
+  dedupeKey: text('dedupe_key').unique(),
+  // Push dispatcher state: attempts so far, when to retry (also a lease while in flight), when finished
+  attempts: integer('attempts').default(0).notNull(),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+  dispatchedAt: timestamp('dispatched_at', { withTimezone: true }),
+  lastError: text('last_error'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
@@ -253,6 +539,87 @@ export const deviceTokens = pgTable(
   })
 );
 
+// Push delivery attempts (one row per device token per dispatcher attempt)
+export const notificationDeliveries = pgTable(
+  'notification_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    notificationId: uuid('notification_id').notNull().references(() => notificationsOutbox.id, { onDelete: 'cascade' }),
+    deviceTokenId: uuid('device_token_id').references(() => deviceTokens.id, { onDelete: 'set null' }),
+    provider: text('provider').notNull(),
+    attempt: integer('attempt').notNull(),
+    status: text('status').notNull(),
+    error: text('error'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    notificationIdx: index('notification_deliveries_notification_idx').on(table.notificationId),
+    statusCheck: pgCheck('notification_delivery_status_enum', sql`status IN ('sent', 'failed', 'invalid_token')`),
+  })
+);
+
+// Coach alert rules (clientId null means the rule applies to all of the coach's clients)
+export const alertRules = pgTable(
+  'alert_rules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    clientId: text('client_id').references(() => profiles.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    kind: text('kind').notNull(),
+    // Check-in metric, or 'theme_item' together with themeItemId; unused for missing_checkin
+    metric: text('metric'),
+    themeItemId: uuid('theme_item_id').references(() => themeItems.id, { onDelete: 'cascade' }),
+    // threshold: compare each value; trend: compare the change in average between windows
+    comparator: text('comparator'),
+    threshold: integer('threshold'),
+    minOccurrences: integer('min_occurrences').default(1).notNull(),
+    windowDays: integer('window_days').default(7).notNull(),
+    severity: text('severity').default('medium').notNull(),
+    pushEnabled: boolean('push_enabled').default(true).notNull(),
+    isActive: boolean('is_active').default(true).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachIdx: index('alert_rules_coach_idx').on(table.coachId),
+    kindCheck: pgCheck('alert_rule_kind_enum', sql`kind IN ('threshold', 'trend', 'missing_checkin')`),
+    metricCheck: pgCheck(
+      'alert_rule_metric_enum',
+      sql`metric IS NULL OR metric IN ('stress', 'energy', 'sleep', 'mood', 'theme_item')`
+    ),
+    comparatorCheck: pgCheck('alert_rule_comparator_enum', sql`comparator IS NULL OR comparator IN ('gte', 'lte')`),
+    severityCheck: pgCheck('alert_rule_severity_enum', sql`severity IN ('low', 'medium', 'high')`),
+  })
+);
+
+// Alerts raised by alert rules; at most one unresolved alert per rule and client
+export const coachAlerts = pgTable(
+  'coach_alerts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ruleId: uuid('rule_id').notNull().references(() => alertRules.id, { onDelete: 'cascade' }),
+    coachId: text('coach_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    clientId: text('client_id').notNull().references(() => profiles.id, { onDelete: 'cascade' }),
+    checkinId: uuid('checkin_id').references(() => checkins.id, { onDelete: 'set null' }),
+    status: text('status').default('open').notNull(),
+    severity: text('severity').notNull(),
+    title: text('title').notNull(),
+    detailJson: jsonb('detail_json'),
+    triggeredAt: timestamp('triggered_at', { withTimezone: true }).defaultNow().notNull(),
+    acknowledgedAt: timestamp('acknowledged_at', { withTimezone: true }),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    coachStatusIdx: index('coach_alerts_coach_status_idx').on(table.coachId, table.status),
+    unresolvedIdx: uniqueIndex('coach_alerts_unresolved_idx')
+      .on(table.ruleId, table.clientId)
+      .where(sql`status <> 'resolved'`),
+    statusCheck: pgCheck('coach_alert_status_enum', sql`status IN ('open', 'acknowledged', 'resolved')`),
+  })
+);
+
 // Audit logs
 export const auditLogs = pgTable('audit_logs', {
   id: uuid('id').primaryKey().defaultRandom(),
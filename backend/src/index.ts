@@ -40,6 +40,14 @@ import { registerOrgRoutes } from './routes/org.js';
 import { registerChatRoutes } from './routes/chat.js';
 import { registerFileRoutes } from './routes/files.js';
 import { registerNotificationRoutes } from './routes/notifications.js';
+import { registerAvailabilityRoutes } from './routes/availability.js';
+import { registerCalendarRoutes } from './routes/calendar.js';
+import { registerAlertRoutes, startMissingCheckinWorker } from './routes/alerts.js';
+import { registerThemeRoutes } from './routes/themes.js';
+import { registerInviteRoutes } from './routes/invites.js';
+import { registerReviewRoutes } from './routes/reviews.js';
+import { registerProgramRoutes } from './routes/programs.js';
+import { startPushWorker } from './routes/push.js';
 
 // Register all route modules
 registerProfileRoutes(app);
@@ -49,6 +57,19 @@ registerOrgRoutes(app);
 registerChatRoutes(app);
 registerFileRoutes(app);
 registerNotificationRoutes(app);
+registerAvailabilityRoutes(app);
+registerCalendarRoutes(app);
+registerAlertRoutes(app);
+registerThemeRoutes(app);
+registerInviteRoutes(app);
+registerReviewRoutes(app);
+registerProgramRoutes(app);
+
+// Start background delivery of queued push notifications
+startPushWorker(app);
+
+// Raise alerts for clients who stopped checking in
+startMissingCheckinWorker(app);
 
 await app.run();
 app.logger.info('Application running');
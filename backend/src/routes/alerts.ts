@@ -0,0 +1,942 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, or, gte, ne, desc, inArray, isNull, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { enqueueNotification } from './notifications.js';
+
+export const ALERT_RULE_KINDS = ['threshold', 'trend', 'missing_checkin'];
+export const ALERT_METRICS = ['stress', 'energy', 'sleep', 'mood', 'theme_item'];
+export const ALERT_SEVERITIES = ['low', 'medium', 'high'];
+export const ALERT_STATUSES = ['open', 'acknowledged', 'resolved'];
+
+// Only clients in these coaching phases are expected to check in
+const MONITORED_CLIENT_STATUSES = ['intake', 'active'];
+
+const MAX_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Missed check-ins are counted in days, so a coarse interval is enough
+const MISSING_CHECKIN_INTERVAL_MS = 15 * 60 * 1000;
+
+type AlertRuleRow = typeof schema.alertRules.$inferSelect;
+type CheckinRow = typeof schema.checkins.$inferSelect;
+
+// Rules created for coaches who have not configured any, matching the former fixed dashboard flags
+const DEFAULT_ALERT_RULES = [
+  {
+    name: 'High stress',
+    kind: 'threshold',
+    metric: 'stress',
+    comparator: 'gte',
+    threshold: 8,
+    minOccurrences: 3,
+    windowDays: 7,
+    severity: 'high',
+  },
+  {
+    name: 'No recent check-in',
+    kind: 'missing_checkin',
+    windowDays: 3,
+    severity: 'medium',
+  },
+];
+
+const METRIC_LABELS: Record<string, string> = {
+  stress: 'Stress',
+  energy: 'Energy',
+  sleep: 'Sleep',
+  mood: 'Mood',
+  theme_item: 'Theme item',
+};
+
+interface RuleEvaluation {
+  triggered: boolean;
+  title: string;
+  detail: Record<string, unknown>;
+}
+
+interface MetricValue {
+  checkinId: string;
+  createdAt: Date;
+  value: number;
+}
+
+const compare = (comparator: string | null, value: number, threshold: number) =>
+  comparator === 'lte' ? value <= threshold : value >= threshold;
+
+const average = (values: MetricValue[]) => values.reduce((sum, v) => sum + v.value, 0) / values.length;
+
+/**
+ * Checks that a rule has the fields its kind needs. Returns an error message, or null when valid.
+ */
+export const validateAlertRule = (rule: {
+  kind: string;
+  metric?: string | null;
+  themeItemId?: string | null;
+  comparator?: string | null;
+  threshold?: number | null;
+}) => {
+  if (rule.kind === 'missing_checkin') {
+    return null;
+  }
+  if (!rule.metric) {
+    return 'metric is required for threshold and trend rules';
+  }
+  if (rule.metric === 'theme_item' && !rule.themeItemId) {
+    return 'themeItemId is required for theme item rules';
+  }
+  if (!rule.comparator || rule.threshold === undefined || rule.threshold === null) {
+    return 'comparator and threshold are required for threshold and trend rules';
+  }
+  return null;
+};
+
+/**
+ * Creates the default rules the first time a coach's rules are used, so every coach gets
+ * the baseline stress and missed check-in alerts. Claiming the seeded flag and inserting
+ * happen in one transaction: concurrent callers seed once, and deleted defaults stay deleted.
+ */
+export async function ensureDefaultAlertRules(app: App, coachId: string) {
+  const seeded = await app.db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(schema.profiles)
+      .set({ alertRulesSeededAt: new Date() })
+      .where(and(eq(schema.profiles.id, coachId), isNull(schema.profiles.alertRulesSeededAt)))
+      .returning({ id: schema.profiles.id });
+    if (!claimed) {
+      return false;
+    }
+
+    await tx.insert(schema.alertRules).values(DEFAULT_ALERT_RULES.map((rule) => ({ ...rule, coachId })));
+    return true;
+  });
+
+  if (seeded) {
+    app.logger.info({ coachId }, 'Default alert rules created');
+  }
+}
+
+// Active rules of a coach that apply to the given client
+async function getClientRules(app: App, coachId: string, clientId: string) {
+  await ensureDefaultAlertRules(app, coachId);
+  return app.db
+    .select()
+    .from(schema.alertRules)
+    .where(
+      and(
+        eq(schema.alertRules.coachId, coachId),
+        eq(schema.alertRules.isActive, true),
+        or(isNull(schema.alertRules.clientId), eq(schema.alertRules.clientId, clientId))
+      )
+    );
+}
+
+// Values of the rule's metric from the client's check-ins since the given time, oldest first
+async function loadMetricValues(app: App, clientId: string, rule: AlertRuleRow, since: Date): Promise<MetricValue[]> {
+  if (!rule.metric) {
+    return [];
+  }
+
+  if (rule.metric === 'theme_item') {
+    if (!rule.themeItemId) return [];
+    // Text and choice answers have no value and never trigger rules
+    const responses = await app.db
+      .select({
+        checkinId: schema.checkins.id,
+        createdAt: schema.checkins.createdAt,
+        value: schema.checkinResponses.value,
+      })
+      .from(schema.checkinResponses)
+      .innerJoin(schema.checkins, eq(schema.checkinResponses.checkinId, schema.checkins.id))
+      .where(
+        and(
+          eq(schema.checkins.userId, clientId),
+          eq(schema.checkinResponses.themeItemId, rule.themeItemId),
+          gte(schema.checkins.createdAt, since)
+        )
+      )
+      .orderBy(schema.checkins.createdAt);
+    return responses.filter((row): row is MetricValue => row.value !== null);
+  }
+
+  const column = schema.checkins[rule.metric as 'stress' | 'energy' | 'sleep' | 'mood'];
+  const rows = await app.db
+    .select({ checkinId: schema.checkins.id, createdAt: schema.checkins.createdAt, value: column })
+    .from(schema.checkins)
+    .where(and(eq(schema.checkins.userId, clientId), gte(schema.checkins.createdAt, since)))
+    .orderBy(schema.checkins.createdAt);
+
+  return rows.filter((row): row is MetricValue => row.value !== null);
+}
+
+// Threshold rules trigger when enough check-ins in the window cross the threshold
+async function evaluateThresholdRule(app: App, clientId: string, rule: AlertRuleRow, now: Date): Promise<RuleEvaluation> {
+  const values = await loadMetricValues(app, clientId, rule, new Date(now.getTime() - rule.windowDays * DAY_MS));
+  const matches = values.filter((v) => compare(rule.comparator, v.value, rule.threshold!));
+  const label = METRIC_LABELS[rule.metric!];
+
+  return {
+    triggered: matches.length >= rule.minOccurrences,
+    title: `${label} ${rule.comparator === 'lte' ? 'at or below' : 'at or above'} ${rule.threshold} on ${matches.length} check-ins in ${rule.windowDays} days`,
+    detail: {
+      metric: rule.metric,
+      themeItemId: rule.themeItemId,
+      matches: matches.length,
+      values: matches.map((v) => v.value),
+      threshold: rule.threshold,
+      windowDays: rule.windowDays,
+    },
+  };
+}
+
+// Trend rules compare the average of the last window with the window before it
+async function evaluateTrendRule(app: App, clientId: string, rule: AlertRuleRow, now: Date): Promise<RuleEvaluation> {
+  const windowStart = new Date(now.getTime() - rule.windowDays * DAY_MS);
+  const values = await loadMetricValues(app, clientId, rule, new Date(now.getTime() - 2 * rule.windowDays * DAY_MS));
+  const recent = values.filter((v) => v.createdAt >= windowStart);
+  const previous = values.filter((v) => v.createdAt < windowStart);
+  const label = METRIC_LABELS[rule.metric!];
+
+  if (recent.length < rule.minOccurrences || previous.length < rule.minOccurrences) {
+    return { triggered: false, title: `${label} trend`, detail: { recent: recent.length, previous: previous.length } };
+  }
+
+  const recentAverage = average(recent);
+  const previousAverage = average(previous);
+  const change = Math.round((recentAverage - previousAverage) * 10) / 10;
+
+  return {
+    triggered: compare(rule.comparator, change, rule.threshold!),
+    title: `${label} ${change < 0 ? 'dropped' : 'rose'} by ${Math.abs(change)} compared to the previous ${rule.windowDays} days`,
+    detail: {
+      metric: rule.metric,
+      themeItemId: rule.themeItemId,
+      recentAverage: Math.round(recentAverage * 10) / 10,
+      previousAverage: Math.round(previousAverage * 10) / 10,
+      change,
+      threshold: rule.threshold,
+      windowDays: rule.windowDays,
+    },
+  };
+}
+
+// Missed check-in rules trigger when the latest check-in (or the coaching start) is older than the window
+const evaluateMissingCheckinRule = (
+  rule: AlertRuleRow,
+  lastCheckinAt: Date | null,
+  linkedAt: Date,
+  now: Date
+): RuleEvaluation => {
+  const since = lastCheckinAt ?? linkedAt;
+  const days = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+
+  return {
+    triggered: days >= rule.windowDays,
+    title: lastCheckinAt ? `No check-in for ${days} days` : `No check-ins since coaching started ${days} days ago`,
+    detail: { lastCheckinAt: lastCheckinAt?.toISOString() ?? null, days, windowDays: rule.windowDays },
+  };
+};
+
+// Stores a triggered alert unless one is already unresolved for this rule and client, and pushes it to the coach
+async function raiseAlert(
+  app: App,
+  rule: AlertRuleRow,
+  clientId: string,
+  evaluation: RuleEvaluation,
+  checkinId?: string
+) {
+  const inserted = await app.db
+    .insert(schema.coachAlerts)
+    .values({
+      ruleId: rule.id,
+      coachId: rule.coachId,
+      clientId,
+      checkinId,
+      severity: rule.severity,
+      title: evaluation.title,
+      detailJson: evaluation.detail,
+      triggeredAt: new Date(),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (inserted.length === 0) {
+    return;
+  }
+
+  app.logger.info({ alertId: inserted[0].id, ruleId: rule.id, clientId }, 'Coach alert raised');
+
+  if (rule.pushEnabled) {
+    const client = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, clientId),
+    });
+    await enqueueNotification(app, {
+      userId: rule.coachId,
+      type: 'coach_alert',
+      title: `${rule.name}: ${client?.name || client?.email || 'client'}`,
+      body: evaluation.title,
+      data: { alertId: inserted[0].id, clientId, severity: rule.severity },
+    });
+  }
+}
+
+// Resolves unresolved alerts of a rule for a client once the condition no longer holds
+async function resolveRuleAlerts(app: App, ruleId: string, clientId: string) {
+  const resolved = await app.db
+    .update(schema.coachAlerts)
+    .set({ status: 'resolved', resolvedAt: new Date() })
+    .where(
+      and(
+        eq(schema.coachAlerts.ruleId, ruleId),
+        eq(schema.coachAlerts.clientId, clientId),
+        ne(schema.coachAlerts.status, 'resolved')
+      )
+    )
+    .returning({ id: schema.coachAlerts.id });
+
+  if (resolved.length > 0) {
+    app.logger.info({ ruleId, clientId, count: resolved.length }, 'Coach alerts resolved automatically');
+  }
+}
+
+/**
+ * Evaluates every coach's rules for the client who wrote a check-in. A new
+ * check-in resolves missed check-in alerts; other alerts stay until the coach
+ * resolves them. Errors are logged so they never fail the check-in itself.
+ */
+export async function evaluateCheckinAlerts(app: App, checkin: CheckinRow) {
+  try {
+    const links = await app.db
+      .select({ coachId: schema.coachClients.coachId })
+      .from(schema.coachClients)
+      .where(
+        and(
+          eq(schema.coachClients.clientId, checkin.userId),
+          inArray(schema.coachClients.status, MONITORED_CLIENT_STATUSES)
+        )
+      );
+
+    const now = new Date();
+    for (const link of links) {
+      const rules = await getClientRules(app, link.coachId, checkin.userId);
+      for (const rule of rules) {
+        // One broken rule must not keep the other rules from running
+        try {
+          if (rule.kind === 'missing_checkin') {
+            await resolveRuleAlerts(app, rule.id, checkin.userId);
+            continue;
+          }
+
+          const evaluation =
+            rule.kind === 'trend'
+              ? await evaluateTrendRule(app, checkin.userId, rule, now)
+              : await evaluateThresholdRule(app, checkin.userId, rule, now);
+          if (evaluation.triggered) {
+            await raiseAlert(app, rule, checkin.userId, evaluation, checkin.id);
+          }
+        } catch (error) {
+          app.logger.error({ err: error, ruleId: rule.id, checkinId: checkin.id }, 'Failed to evaluate alert rule');
+        }
+      }
+    }
+  } catch (error) {
+    app.logger.error({ err: error, userId: checkin.userId, checkinId: checkin.id }, 'Failed to evaluate checkin alerts');
+  }
+}
+
+// Raises missed check-in alerts; runs on the interval started by startMissingCheckinWorker
+export async function evaluateMissingCheckinAlerts(app: App) {
+  app.logger.info('Evaluating missed check-in alerts');
+
+  try {
+    const links = await app.db
+      .select()
+      .from(schema.coachClients)
+      .where(inArray(schema.coachClients.status, MONITORED_CLIENT_STATUSES));
+    if (links.length === 0) {
+      return;
+    }
+
+    const lastCheckins = await app.db
+      .select({ userId: schema.checkins.userId, lastCheckinAt: sql<string>`max(${schema.checkins.createdAt})` })
+      .from(schema.checkins)
+      .where(inArray(schema.checkins.userId, [...new Set(links.map((link) => link.clientId))]))
+      .groupBy(schema.checkins.userId);
+    const lastCheckinByClient = new Map(lastCheckins.map((row) => [row.userId, new Date(row.lastCheckinAt)]));
+
+    const now = new Date();
+    let evaluated = 0;
+    for (const link of links) {
+      const rules = await getClientRules(app, link.coachId, link.clientId);
+      for (const rule of rules.filter((r) => r.kind === 'missing_checkin')) {
+        const evaluation = evaluateMissingCheckinRule(
+          rule,
+          lastCheckinByClient.get(link.clientId) ?? null,
+          link.createdAt,
+          now
+        );
+        if (evaluation.triggered) {
+          await raiseAlert(app, rule, link.clientId, evaluation);
+        }
+        evaluated++;
+      }
+    }
+
+    app.logger.info({ clients: links.length, evaluated }, 'Missed check-in alerts evaluated');
+  } catch (error) {
+    app.logger.error({ err: error }, 'Failed to evaluate missed check-in alerts');
+  }
+}
+
+// Evaluates missed check-ins on an interval, since no write triggers them
+export function startMissingCheckinWorker(app: App) {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow run
+    if (running) return;
+    running = true;
+    try {
+      await evaluateMissingCheckinAlerts(app);
+    } finally {
+      running = false;
+    }
+  }, MISSING_CHECKIN_INTERVAL_MS);
+  timer.unref();
+
+  app.logger.info({ interval: MISSING_CHECKIN_INTERVAL_MS }, 'Missed check-in worker started');
+}
+
+const serializeRule = (rule: AlertRuleRow) => ({
+  id: rule.id,
+  clientId: rule.clientId,
+  name: rule.name,
+  kind: rule.kind,
+  metric: rule.metric,
+  themeItemId: rule.themeItemId,
+  comparator: rule.comparator,
+  threshold: rule.threshold,
+  minOccurrences: rule.minOccurrences,
+  windowDays: rule.windowDays,
+  severity: rule.severity,
+  pushEnabled: rule.pushEnabled,
+  isActive: rule.isActive,
+  createdAt: rule.createdAt.toISOString(),
+  updatedAt: rule.updatedAt.toISOString(),
+});
+
+const ruleBodyProperties = {
+  clientId: { type: ['string', 'null'] },
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  kind: { type: 'string', enum: ALERT_RULE_KINDS },
+  metric: { type: ['string', 'null'], enum: [...ALERT_METRICS, null] },
+  themeItemId: { type: ['string', 'null'], format: 'uuid' },
+  comparator: { type: ['string', 'null'], enum: ['gte', 'lte', null] },
+  threshold: { type: ['integer', 'null'], minimum: -10, maximum: 10 },
+  minOccurrences: { type: 'integer', minimum: 1, maximum: 31 },
+  windowDays: { type: 'integer', minimum: 1, maximum: MAX_WINDOW_DAYS },
+  severity: { type: 'string', enum: ALERT_SEVERITIES },
+  pushEnabled: { type: 'boolean' },
+  isActive: { type: 'boolean' },
+};
+
+interface RuleBody {
+  clientId?: string | null;
+  name?: string;
+  kind?: string;
+  metric?: string | null;
+  themeItemId?: string | null;
+  comparator?: string | null;
+  threshold?: number | null;
+  minOccurrences?: number;
+  windowDays?: number;
+  severity?: string;
+  pushEnabled?: boolean;
+  isActive?: boolean;
+}
+
+export function registerAlertRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // Helper to check if user is a coach
+  const requireCoach = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'coach') {
+      reply.status(403).send({ error: 'Forbidden: coach role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to verify the coach coaches the client a rule targets
+  const isCoachOfClient = async (coachId: string, clientId: string) => {
+    const link = await app.db.query.coachClients.findFirst({
+      where: and(eq(schema.coachClients.coachId, coachId), eq(schema.coachClients.clientId, clientId)),
+    });
+    return !!link;
+  };
+
+  // Helper to verify a theme item belongs to one of the coach's themes
+  const isCoachThemeItem = async (coachId: string, themeItemId: string) => {
+    const [item] = await app.db
+      .select({ id: schema.themeItems.id })
+      .from(schema.themeItems)
+      .innerJoin(schema.themes, eq(schema.themeItems.themeId, schema.themes.id))
+      .where(and(eq(schema.themeItems.id, themeItemId), eq(schema.themes.coachId, coachId)));
+    return !!item;
+  };
+
+  // GET /api/coach/alert-rules - Returns the coach's alert rules, optionally for one client
+  fastify.get(
+    '/api/coach/alert-rules',
+    {
+      schema: {
+        description: 'Get coach alert rules',
+        tags: ['coach'],
+        querystring: {
+          type: 'object',
+          properties: {
+            clientId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: { type: 'object', additionalProperties: true },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { clientId } = request.query as { clientId?: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId }, 'Fetching alert rules');
+
+      try {
+        await ensureDefaultAlertRules(app, coachId);
+
+        // For a client, show the global rules together with the client's own
+        const rules = await app.db
+          .select()
+          .from(schema.alertRules)
+          .where(
+            and(
+              eq(schema.alertRules.coachId, coachId),
+              clientId
+                ? or(isNull(schema.alertRules.clientId), eq(schema.alertRules.clientId, clientId))
+                : undefined
+            )
+          )
+          .orderBy(schema.alertRules.createdAt);
+
+        app.logger.info({ coachId, count: rules.length }, 'Alert rules fetched');
+        return rules.map(serializeRule);
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch alert rules');
+        return reply.status(500).send({ error: 'Failed to fetch alert rules' });
+      }
+    }
+  );
+
+  // POST /api/coach/alert-rules - Creates an alert rule for all clients or one client
+  fastify.post(
+    '/api/coach/alert-rules',
+    {
+      schema: {
+        description: 'Create alert rule',
+        tags: ['coach'],
+        body: {
+          type: 'object',
+          properties: ruleBodyProperties,
+          required: ['name', 'kind'],
+        },
+        response: {
+          200: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const body = request.body as RuleBody & { name: string; kind: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, kind: body.kind, clientId: body.clientId }, 'Creating alert rule');
+
+      const invalid = validateAlertRule(body);
+      if (invalid) {
+        return reply.status(400).send({ error: invalid });
+      }
+
+      try {
+        if (body.clientId && !(await isCoachOfClient(coachId, body.clientId))) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        if (body.metric === 'theme_item' && !(await isCoachThemeItem(coachId, body.themeItemId!))) {
+          return reply.status(404).send({ error: 'Theme item not found' });
+        }
+
+        // Make sure the defaults exist first, so creating a rule doesn't suppress them
+        await ensureDefaultAlertRules(app, coachId);
+
+        const isMissingCheckin = body.kind === 'missing_checkin';
+        const created = await app.db
+          .insert(schema.alertRules)
+          .values({
+            coachId,
+            clientId: body.clientId ?? null,
+            name: body.name,
+            kind: body.kind,
+            metric: isMissingCheckin ? null : body.metric,
+            themeItemId: body.metric === 'theme_item' ? body.themeItemId : null,
+            comparator: isMissingCheckin ? null : body.comparator,
+            threshold: isMissingCheckin ? null : body.threshold,
+            minOccurrences: body.minOccurrences,
+            windowDays: body.windowDays,
+            severity: body.severity,
+            pushEnabled: body.pushEnabled,
+            isActive: body.isActive,
+          })
+          .returning();
+
+        app.logger.info({ coachId, ruleId: created[0].id }, 'Alert rule created');
+        return serializeRule(created[0]);
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to create alert rule');
+        return reply.status(500).send({ error: 'Failed to create alert rule' });
+      }
+    }
+  );
+
+  // PUT /api/coach/alert-rules/:id - Updates an alert rule
+  fastify.put(
+    '/api/coach/alert-rules/:id',
+    {
+      schema: {
+        description: 'Update alert rule',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: ruleBodyProperties,
+        },
+        response: {
+          200: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const body = request.body as RuleBody;
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, ruleId: id }, 'Updating alert rule');
+
+      try {
+        const rule = await app.db.query.alertRules.findFirst({
+          where: and(eq(schema.alertRules.id, id as any), eq(schema.alertRules.coachId, coachId)),
+        });
+
+        if (!rule) {
+          return reply.status(404).send({ error: 'Alert rule not found' });
+        }
+
+        if (body.clientId && !(await isCoachOfClient(coachId, body.clientId))) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const merged = { ...rule, ...body };
+        const invalid = validateAlertRule(merged);
+        if (invalid) {
+          return reply.status(400).send({ error: invalid });
+        }
+
+        if (merged.metric === 'theme_item' && !(await isCoachThemeItem(coachId, merged.themeItemId!))) {
+          return reply.status(404).send({ error: 'Theme item not found' });
+        }
+
+        const isMissingCheckin = merged.kind === 'missing_checkin';
+        const updated = await app.db
+          .update(schema.alertRules)
+          .set({
+            clientId: body.clientId !== undefined ? body.clientId : undefined,
+            name: body.name,
+            kind: body.kind,
+            metric: isMissingCheckin ? null : merged.metric,
+            themeItemId: merged.metric === 'theme_item' ? merged.themeItemId : null,
+            comparator: isMissingCheckin ? null : merged.comparator,
+            threshold: isMissingCheckin ? null : merged.threshold,
+            minOccurrences: body.minOccurrences,
+            windowDays: body.windowDays,
+            severity: body.severity,
+            pushEnabled: body.pushEnabled,
+            isActive: body.isActive,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.alertRules.id, id as any))
+          .returning();
+
+        app.logger.info({ coachId, ruleId: id }, 'Alert rule updated');
+        return serializeRule(updated[0]);
+      } catch (error) {
+        app.logger.error({ err: error, coachId, ruleId: id }, 'Failed to update alert rule');
+        return reply.status(500).send({ error: 'Failed to update alert rule' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/alert-rules/:id - Deletes an alert rule and its alerts
+  fastify.delete(
+    '/api/coach/alert-rules/:id',
+    {
+      schema: {
+        description: 'Delete alert rule',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, ruleId: id }, 'Deleting alert rule');
+
+      try {
+        const deleted = await app.db
+          .delete(schema.alertRules)
+          .where(and(eq(schema.alertRules.id, id as any), eq(schema.alertRules.coachId, coachId)))
+          .returning({ id: schema.alertRules.id });
+
+        if (deleted.length === 0) {
+          return reply.status(404).send({ error: 'Alert rule not found' });
+        }
+
+        app.logger.info({ coachId, ruleId: id }, 'Alert rule deleted');
+        return { message: 'Alert rule deleted' };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, ruleId: id }, 'Failed to delete alert rule');
+        return reply.status(500).send({ error: 'Failed to delete alert rule' });
+      }
+    }
+  );
+
+  // GET /api/coach/alerts - Returns the coach's alerts, unresolved ones by default
+  fastify.get(
+    '/api/coach/alerts',
+    {
+      schema: {
+        description: 'Get coach alerts',
+        tags: ['coach'],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ALERT_STATUSES },
+            clientId: { type: 'string' },
+            limit: { type: 'integer', minimum: 1, maximum: 200 },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: { type: 'object', additionalProperties: true },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { status, clientId, limit } = request.query as { status?: string; clientId?: string; limit?: number };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, status, clientId }, 'Fetching alerts');
+
+      try {
+        const alerts = await app.db
+          .select({
+            alert: schema.coachAlerts,
+            ruleName: schema.alertRules.name,
+            clientName: schema.profiles.name,
+            clientEmail: schema.profiles.email,
+          })
+          .from(schema.coachAlerts)
+          .innerJoin(schema.alertRules, eq(schema.coachAlerts.ruleId, schema.alertRules.id))
+          .innerJoin(schema.profiles, eq(schema.coachAlerts.clientId, schema.profiles.id))
+          .where(
+            and(
+              eq(schema.coachAlerts.coachId, coachId),
+              status ? eq(schema.coachAlerts.status, status) : ne(schema.coachAlerts.status, 'resolved'),
+              clientId ? eq(schema.coachAlerts.clientId, clientId) : undefined
+            )
+          )
+          .orderBy(desc(schema.coachAlerts.triggeredAt))
+          .limit(limit || 50);
+
+        app.logger.info({ coachId, count: alerts.length }, 'Alerts fetched');
+        return alerts.map(({ alert, ruleName, clientName, clientEmail }) => ({
+          id: alert.id,
+          ruleId: alert.ruleId,
+          ruleName,
+          clientId: alert.clientId,
+          clientName: clientName || clientEmail,
+          checkinId: alert.checkinId,
+          status: alert.status,
+          severity: alert.severity,
+          title: alert.title,
+          detail: alert.detailJson,
+          triggeredAt: alert.triggeredAt.toISOString(),
+          acknowledgedAt: alert.acknowledgedAt?.toISOString() ?? null,
+          resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+        }));
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch alerts');
+        return reply.status(500).send({ error: 'Failed to fetch alerts' });
+      }
+    }
+  );
+
+  // PUT /api/coach/alerts/:id/acknowledge - Marks an open alert as seen
+  fastify.put(
+    '/api/coach/alerts/:id/acknowledge',
+    {
+      schema: {
+        description: 'Acknowledge alert',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' }, status: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, alertId: id }, 'Acknowledging alert');
+
+      try {
+        const updated = await app.db
+          .update(schema.coachAlerts)
+          .set({ status: 'acknowledged', acknowledgedAt: new Date() })
+          .where(
+            and(
+              eq(schema.coachAlerts.id, id as any),
+              eq(schema.coachAlerts.coachId, coachId),
+              eq(schema.coachAlerts.status, 'open')
+            )
+          )
+          .returning();
+
+        if (updated.length === 0) {
+          return reply.status(404).send({ error: 'Open alert not found' });
+        }
+
+        app.logger.info({ coachId, alertId: id }, 'Alert acknowledged');
+        return { id: updated[0].id, status: updated[0].status };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, alertId: id }, 'Failed to acknowledge alert');
+        return reply.status(500).send({ error: 'Failed to acknowledge alert' });
+      }
+    }
+  );
+
+  // PUT /api/coach/alerts/:id/resolve - Closes an alert; the rule can raise a new one afterwards
+  fastify.put(
+    '/api/coach/alerts/:id/resolve',
+    {
+      schema: {
+        description: 'Resolve alert',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' }, status: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, alertId: id }, 'Resolving alert');
+
+      try {
+        const updated = await app.db
+          .update(schema.coachAlerts)
+          .set({ status: 'resolved', resolvedAt: new Date() })
+          .where(
+            and(
+              eq(schema.coachAlerts.id, id as any),
+              eq(schema.coachAlerts.coachId, coachId),
+              ne(schema.coachAlerts.status, 'resolved')
+            )
+          )
+          .returning();
+
+        if (updated.length === 0) {
+          return reply.status(404).send({ error: 'Unresolved alert not found' });
+        }
+
+        app.logger.info({ coachId, alertId: id }, 'Alert resolved');
+        return { id: updated[0].id, status: updated[0].status };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, alertId: id }, 'Failed to resolve alert');
+        return reply.status(500).send({ error: 'Failed to resolve alert' });
+      }
+    }
+  );
+}
@@ -0,0 +1,491 @@
+import { eq, and, asc, inArray, gte, lt, lte, sql, getTableColumns } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { addDaysToDateKey, getUserTimezone, getZonedDateParts } from './availability.js';
+import { getCurrentClientThemes } from './themes.js';
+import type { ThemeItemConfig } from './themes.js';
+
+export const CHECKIN_METRICS = ['stress', 'energy', 'sleep', 'mood'] as const;
+
+export type CheckinMetric = (typeof CHECKIN_METRICS)[number];
+
+// Selectable chart ranges in days; 'all' starts at the client's first check-in
+export const ANALYTICS_RANGES: Record<string, number | null> = {
+  '14d': 14,
+  '90d': 90,
+  all: null,
+};
+
+type CheckinRow = typeof schema.checkins.$inferSelect;
+
+interface DailyValue {
+  date: string;
+  value: number | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const averageOf = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? round(present.reduce((sum, v) => sum + v, 0) / present.length) : null;
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+// Every date key from `from` through `to`, inclusive
+const dateRange = (from: string, to: string) => {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDaysToDateKey(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+// Trailing average over the last `days` calendar days for each point; days without a check-in are skipped
+const rollingAverage = (series: DailyValue[], valuesByDate: Map<string, number | null>, days: number) =>
+  series.map(({ date }) => ({
+    date,
+    value: averageOf(dateRange(addDaysToDateKey(date, 1 - days), date).map((d) => valuesByDate.get(d) ?? null)),
+  }));
+
+/**
+ * Counts consecutive check-in days. The current streak still counts when today's
+ * check-in is missing, as long as yesterday has one.
+ */
+export function computeCheckinStreaks(dates: string[], today: string) {
+  const unique = [...new Set(dates)].sort();
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < unique.length; i++) {
+    run = i > 0 && daysBetween(unique[i - 1], unique[i]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const last = unique[unique.length - 1];
+  const current = last && daysBetween(last, today) <= 1 ? run : 0;
+  return { current, longest, lastCheckinDate: last ?? null };
+}
+
+/**
+ * Builds daily series and summary statistics per metric for the given date range.
+ * Rolling averages and week-over-week deltas look back before `from` when earlier
+ * check-ins exist, so the first days of a range are not skewed.
+ */
+export function buildCheckinAnalytics(checkins: CheckinRow[], options: { from: string; to: string }) {
+  const dates = dateRange(options.from, options.to);
+  const lastWeekStart = addDaysToDateKey(options.to, -6);
+  const previousWeekStart = addDaysToDateKey(options.to, -13);
+
+  const metrics = Object.fromEntries(
+    CHECKIN_METRICS.map((metric) => {
+      const valuesByDate = new Map(checkins.map((checkin) => [String(checkin.date), checkin[metric]]));
+      const series = dates.map((date) => ({ date, value: valuesByDate.get(date) ?? null }));
+
+      let min: DailyValue | null = null;
+      let max: DailyValue | null = null;
+      for (const point of series) {
+        if (point.value === null) continue;
+        if (!min || point.value < min.value!) min = point;
+        if (!max || point.value > max.value!) max = point;
+      }
+
+      const current = averageOf(dateRange(lastWeekStart, options.to).map((d) => valuesByDate.get(d) ?? null));
+      const previous = averageOf(
+        dateRange(previousWeekStart, addDaysToDateKey(lastWeekStart, -1)).map((d) => valuesByDate.get(d) ?? null)
+      );
+
+      return [
+        metric,
+        {
+          series,
+          rolling7: rollingAverage(series, valuesByDate, 7),
+          rolling30: rollingAverage(series, valuesByDate, 30),
+          average: averageOf(series.map((point) => point.value)),
+          min,
+          max,
+          weekOverWeek: {
+            current,
+            previous,
+            delta: current !== null && previous !== null ? round(current - previous) : null,
+          },
+        },
+      ];
+    })
+  );
+
+  return {
+    from: options.from,
+    to: options.to,
+    checkinCount: checkins.filter((checkin) => checkin.date >= options.from && checkin.date <= options.to).length,
+    metrics,
+  };
+}
+
+/**
+ * Loads a client's check-ins and computes analytics for a range ending today in
+ * the client's time zone.
+ */
+export async function fetchCheckinAnalytics(app: App, clientId: string, range: string) {
+  const timeZone = await getUserTimezone(app, clientId);
+  const today = getZonedDateParts(new Date(), timeZone).dateKey;
+
+  const checkins = await app.db
+    .select()
+    .from(schema.checkins)
+    .where(eq(schema.checkins.userId, clientId))
+    .orderBy(asc(schema.checkins.date));
+
+  const days = ANALYTICS_RANGES[range];
+  const firstDate = checkins.length > 0 ? String(checkins[0].date) : today;
+  const from = days ? addDaysToDateKey(today, 1 - days) : firstDate < today ? firstDate : today;
+
+  return {
+    timezone: timeZone,
+    range,
+    ...buildCheckinAnalytics(checkins, { from, to: today }),
+    streaks: computeCheckinStreaks(
+      checkins.map((checkin) => String(checkin.date)),
+      today
+    ),
+  };
+}
+
+/**
+ * Appointments and program week starts within a date range, for marking them on charts.
+ * With a coachId only that coach's appointments and assigned programs are included.
+ */
+export async function fetchAnalyticsMarkers(
+  app: App,
+  clientId: string,
+  options: { from: string; to: string; timezone: string; coachId?: string }
+) {
+  const rangeStart = new Date(`${addDaysToDateKey(options.from, -1)}T00:00:00Z`);
+  const rangeEnd = new Date(`${addDaysToDateKey(options.to, 2)}T00:00:00Z`);
+
+  const appointments = await app.db
+    .select({
+      id: schema.appointments.id,
+      scheduledAt: schema.appointments.scheduledAt,
+      status: schema.appointments.status,
+    })
+    .from(schema.appointments)
+    .where(
+      and(
+        eq(schema.appointments.clientId, clientId),
+        options.coachId ? eq(schema.appointments.coachId, options.coachId) : undefined,
+        inArray(schema.appointments.status, ['scheduled', 'completed']),
+        gte(schema.appointments.scheduledAt, rangeStart),
+        lt(schema.appointments.scheduledAt, rangeEnd)
+      )
+    )
+    .orderBy(asc(schema.appointments.scheduledAt));
+
+  const programs = await app.db
+    .select({
+      id: schema.clientPrograms.id,
+      programId: schema.clientPrograms.programId,
+      title: schema.programVersions.title,
+      assignedAt: schema.clientPrograms.assignedAt,
+      completedAt: schema.clientPrograms.completedAt,
+      weekCount: sql<number>`(
+        select count(*) from ${schema.programWeeks}
+        where ${schema.programWeeks.versionId} = ${schema.clientPrograms.versionId}
+      )`,
+    })
+    .from(schema.clientPrograms)
+    .innerJoin(schema.programVersions, eq(schema.clientPrograms.versionId, schema.programVersions.id))
+    .where(
+      and(
+        eq(schema.clientPrograms.clientId, clientId),
+        options.coachId ? eq(schema.clientPrograms.assignedBy, options.coachId) : undefined
+      )
+    );
+
+  // Program weeks run in 7-day blocks from the day the program was assigned
+  const programWeeks: { date: string; weekNumber: number; clientProgramId: string; title: string }[] = [];
+  for (const program of programs) {
+    const start = getZonedDateParts(program.assignedAt, options.timezone).dateKey;
+    for (let week = 1; week <= Number(program.weekCount); week++) {
+      const date = addDaysToDateKey(start, (week - 1) * 7);
+      if (date >= options.from && date <= options.to) {
+        programWeeks.push({ date, weekNumber: week, clientProgramId: program.id, title: program.title });
+      }
+    }
+  }
+
+  return {
+    appointments: appointments
+      .map((appointment) => ({
+        id: appointment.id,
+        date: getZonedDateParts(appointment.scheduledAt, options.timezone).dateKey,
+        scheduledAt: appointment.scheduledAt.toISOString(),
+        status: appointment.status,
+      }))
+      .filter((appointment) => appointment.date >= options.from && appointment.date <= options.to),
+    programWeeks,
+  };
+}
+
+// Number of recent text answers returned per text item
+const TEXT_ANSWER_SAMPLE = 5;
+
+interface ThemeItemAnswer {
+  date: string;
+  value: number | null;
+  text: string | null;
+}
+
+/**
+ * Summarizes a theme item's answers the way its type calls for: numeric types
+ * get a daily series with average and extremes, yes/no items a yes rate, choice
+ * items a count per option and text items their most recent answers.
+ */
+export function summarizeThemeItemAnswers(
+  item: { type: string; config: unknown },
+  answers: ThemeItemAnswer[],
+  options: { from: string; to: string }
+) {
+  if (item.type === 'text') {
+    return {
+      entries: answers
+        .filter((answer) => answer.text)
+        .slice(-TEXT_ANSWER_SAMPLE)
+        .reverse()
+        .map((answer) => ({ date: answer.date, text: answer.text! })),
+    };
+  }
+
+  if (item.type === 'choice') {
+    const choices = (item.config as ThemeItemConfig | null)?.options || [];
+    const counts = new Map<string, number>(choices.map((option) => [option, 0]));
+    // Answers for options that were removed later are still counted
+    for (const answer of answers) {
+      if (answer.text) counts.set(answer.text, (counts.get(answer.text) || 0) + 1);
+    }
+    return { counts: [...counts].map(([option, count]) => ({ option, count })) };
+  }
+
+  const values = answers.map((answer) => answer.value).filter((value): value is number => value !== null);
+
+  if (item.type === 'yes_no') {
+    const yesCount = values.filter((value) => value === 1).length;
+    return {
+      yesCount,
+      noCount: values.length - yesCount,
+      yesRate: values.length > 0 ? Math.round((yesCount / values.length) * 100) : null,
+    };
+  }
+
+  const valuesByDate = new Map(answers.map((answer) => [answer.date, answer.value]));
+  return {
+    series: dateRange(options.from, options.to).map((date) => ({ date, value: valuesByDate.get(date) ?? null })),
+    average: averageOf(values),
+    min: values.length > 0 ? Math.min(...values) : null,
+    max: values.length > 0 ? Math.max(...values) : null,
+    latest: values.length > 0 ? values[values.length - 1] : null,
+  };
+}
+
+/**
+ * Per theme item aggregates of the client's answers within a date range, for
+ * every item that was answered in the range or belongs to the active theme.
+ * With a coachId only items of that coach's themes are included; a client can
+ * have several coaches, and answers to another coach's themes are not theirs to see.
+ */
+export async function fetchThemeItemAnalytics(
+  app: App,
+  clientId: string,
+  options: { from: string; to: string; coachId?: string }
+) {
+  const answers = await app.db
+    .select({
+      themeItemId: schema.checkinResponses.themeItemId,
+      date: schema.checkins.date,
+      value: schema.checkinResponses.value,
+      text: schema.checkinResponses.textValue,
+    })
+    .from(schema.checkinResponses)
+    .innerJoin(schema.checkins, eq(schema.checkinResponses.checkinId, schema.checkins.id))
+    .innerJoin(schema.themeItems, eq(schema.checkinResponses.themeItemId, schema.themeItems.id))
+    .innerJoin(schema.themes, eq(schema.themeItems.themeId, schema.themes.id))
+    .where(
+      and(
+        eq(schema.checkins.userId, clientId),
+        options.coachId ? eq(schema.themes.coachId, options.coachId) : undefined,
+        gte(schema.checkins.date, options.from),
+        lte(schema.checkins.date, options.to)
+      )
+    )
+    .orderBy(asc(schema.checkins.date));
+
+  const { themes } = await getCurrentClientThemes(app, clientId);
+  const itemIds = [
+    ...new Set([
+      ...themes.flatMap((theme) => theme.items.map((item) => item.id)),
+      ...answers.map((answer) => answer.themeItemId),
+    ]),
+  ];
+  if (itemIds.length === 0) {
+    return [];
+  }
+
+  const items = await app.db
+    .select(getTableColumns(schema.themeItems))
+    .from(schema.themeItems)
+    .innerJoin(schema.themes, eq(schema.themeItems.themeId, schema.themes.id))
+    .where(
+      and(
+        inArray(schema.themeItems.id, itemIds),
+        options.coachId ? eq(schema.themes.coachId, options.coachId) : undefined
+      )
+    )
+    .orderBy(asc(schema.themeItems.themeId), asc(schema.themeItems.sortOrder));
+
+  return items.map((item) => {
+    const itemAnswers = answers
+      .filter((answer) => answer.themeItemId === item.id)
+      .map((answer) => ({ date: String(answer.date), value: answer.value, text: answer.text }));
+    return {
+      id: item.id,
+      themeId: item.themeId,
+      label: item.label,
+      type: item.type,
+      config: item.config,
+      minValue: item.minValue,
+      maxValue: item.maxValue,
+      responseCount: itemAnswers.length,
+      summary: summarizeThemeItemAnswers(item, itemAnswers, options),
+    };
+  });
+}
+
+// Insights look at recent check-ins only, so they follow how the client is doing now
+export const INSIGHT_WINDOW_DAYS = 90;
+
+// Minimum check-in days on each side of a comparison before an insight is reported
+const MIN_INSIGHT_SAMPLE = 3;
+const MIN_INSIGHT_DIFFERENCE = 0.5;
+const MAX_INSIGHTS = 5;
+
+// Day splits checked against every other metric, e.g. "stress on days with sleep > 7"
+const INSIGHT_CONDITIONS: { metric: CheckinMetric; threshold: number }[] = [
+  { metric: 'sleep', threshold: 7 },
+  { metric: 'energy', threshold: 7 },
+  { metric: 'stress', threshold: 7 },
+];
+
+export type CheckinInsight =
+  | {
+      kind: 'condition';
+      metric: CheckinMetric;
+      condition: { metric: CheckinMetric; comparator: 'gt'; threshold: number };
+      average: number;
+      otherAverage: number;
+      difference: number;
+      sampleSize: number;
+    }
+  | {
+      kind: 'weekday';
+      metric: CheckinMetric;
+      // 0 = Sunday, matching Date#getUTCDay
+      highestWeekday: number;
+      highestAverage: number;
+      lowestWeekday: number;
+      lowestAverage: number;
+      difference: number;
+      sampleSize: number;
+    };
+
+/**
+ * Derives simple personal patterns from check-ins: how a metric differs on days
+ * where another metric was high, and which weekdays stand out. Results are
+ * ordered by effect size and only include differences backed by enough days.
+ */
+export function computeCheckinInsights(checkins: CheckinRow[]): CheckinInsight[] {
+  const insights: CheckinInsight[] = [];
+
+  for (const condition of INSIGHT_CONDITIONS) {
+    const matching = checkins.filter((c) => c[condition.metric] !== null && c[condition.metric]! > condition.threshold);
+    const others = checkins.filter((c) => c[condition.metric] !== null && c[condition.metric]! <= condition.threshold);
+
+    for (const metric of CHECKIN_METRICS) {
+      if (metric === condition.metric) continue;
+
+      const withValues = matching.filter((c) => c[metric] !== null);
+      const withoutValues = others.filter((c) => c[metric] !== null);
+      if (withValues.length < MIN_INSIGHT_SAMPLE || withoutValues.length < MIN_INSIGHT_SAMPLE) continue;
+
+      const average = averageOf(withValues.map((c) => c[metric]))!;
+      const otherAverage = averageOf(withoutValues.map((c) => c[metric]))!;
+      const difference = round(average - otherAverage);
+      if (Math.abs(difference) < MIN_INSIGHT_DIFFERENCE) continue;
+
+      insights.push({
+        kind: 'condition',
+        metric,
+        condition: { metric: condition.metric, comparator: 'gt', threshold: condition.threshold },
+        average,
+        otherAverage,
+        difference,
+        sampleSize: withValues.length + withoutValues.length,
+      });
+    }
+  }
+
+  for (const metric of CHECKIN_METRICS) {
+    const valuesByWeekday = new Map<number, number[]>();
+    for (const checkin of checkins) {
+      if (checkin[metric] === null) continue;
+      const weekday = new Date(`${checkin.date}T00:00:00Z`).getUTCDay();
+      valuesByWeekday.set(weekday, [...(valuesByWeekday.get(weekday) || []), checkin[metric]!]);
+    }
+
+    const averages = [...valuesByWeekday.entries()]
+      .filter(([, values]) => values.length >= MIN_INSIGHT_SAMPLE)
+      .map(([weekday, values]) => ({ weekday, average: averageOf(values)!, count: values.length }))
+      .sort((a, b) => b.average - a.average);
+    if (averages.length < 2) continue;
+
+    const highest = averages[0];
+    const lowest = averages[averages.length - 1];
+    const difference = round(highest.average - lowest.average);
+    // Weekday swings are noisier than condition splits, so require a full point
+    if (difference < MIN_INSIGHT_DIFFERENCE * 2) continue;
+
+    insights.push({
+      kind: 'weekday',
+      metric,
+      highestWeekday: highest.weekday,
+      highestAverage: highest.average,
+      lowestWeekday: lowest.weekday,
+      lowestAverage: lowest.average,
+      difference,
+      sampleSize: highest.count + lowest.count,
+    });
+  }
+
+  return insights.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference)).slice(0, MAX_INSIGHTS);
+}
+
+/**
+ * Loads the client's recent check-ins and computes their personal insights
+ */
+export async function fetchCheckinInsights(app: App, clientId: string) {
+  const timeZone = await getUserTimezone(app, clientId);
+  const today = getZonedDateParts(new Date(), timeZone).dateKey;
+  const from = addDaysToDateKey(today, 1 - INSIGHT_WINDOW_DAYS);
+
+  const checkins = await app.db
+    .select()
+    .from(schema.checkins)
+    .where(and(eq(schema.checkins.userId, clientId), gte(schema.checkins.date, from)))
+    .orderBy(asc(schema.checkins.date));
+
+  return {
+    from,
+    to: today,
+    checkinCount: checkins.length,
+    insights: computeCheckinInsights(checkins),
+  };
+}
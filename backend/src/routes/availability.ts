@@ -0,0 +1,692 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, gte, lt, gt, inArray, notInArray, asc, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+export const DEFAULT_TIMEZONE = 'Europe/Amsterdam';
+export const DEFAULT_APPOINTMENT_DURATION_MINUTES = 60;
+
+// Appointment statuses that occupy a slot in the coach's agenda
+export const BLOCKING_APPOINTMENT_STATUSES = ['requested', 'scheduled'];
+
+export const MAX_FREE_SLOT_RANGE_DAYS = 31;
+
+// Grid of the slots clients are offered and may request
+export const CLIENT_SLOT_STEP_MINUTES = 30;
+
+const TIME_PATTERN = '^([01]\\d|2[0-3]):[0-5]\\d$';
+export const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+
+export interface SlotRejection {
+  status: number;
+  body: { error: string; code: string; [key: string]: unknown };
+}
+
+// Convert 'HH:MM' or 'HH:MM:SS' to minutes since midnight
+const timeToMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (value: number) =>
+  `${String(Math.floor(value / 60)).padStart(2, '0')}:${String(value % 60).padStart(2, '0')}`;
+
+export const addDaysToDateKey = (dateKey: string, days: number) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset in minutes between the given time zone and UTC at the given instant
+const getTimeZoneOffsetMinutes = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+/**
+ * Returns the local calendar date (YYYY-MM-DD), weekday (0 = Sunday) and minutes
+ * since midnight of an instant in the given time zone.
+ */
+export const getZonedDateParts = (date: Date, timeZone: string) => {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMinutes(date, timeZone) * 60000);
+  return {
+    dateKey: local.toISOString().slice(0, 10),
+    weekday: local.getUTCDay(),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+  };
+};
+
+/**
+ * Converts a wall-clock date and time in the given time zone to a UTC instant.
+ * Re-checks the offset after the first guess so DST transitions resolve correctly.
+ */
+export const zonedTimeToUtc = (dateKey: string, time: string, timeZone: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(guess), timeZone);
+  const result = guess - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(result), timeZone);
+
+  return new Date(secondOffset === firstOffset ? result : guess - secondOffset * 60000);
+};
+
+/**
+ * Returns the given IANA time zone when valid, otherwise the default
+ */
+export const resolveTimezone = (timeZone: string | null | undefined) =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+
+/**
+ * Returns the IANA time zone configured in the user's notification preferences
+ */
+export async function getUserTimezone(app: App, userId: string) {
+  const prefs = await app.db.query.notificationPrefs.findFirst({
+    where: eq(schema.notificationPrefs.userId, userId),
+  });
+  return resolveTimezone(prefs?.timezone);
+}
+
+/**
+ * Returns blocking appointments of a coach that overlap [start, end)
+ */
+export async function findConflictingAppointments(
+  app: App,
+  coachId: string,
+  start: Date,
+  end: Date,
+  excludeAppointmentIds: string[] = []
+) {
+  const conditions = [
+    eq(schema.appointments.coachId, coachId),
+    inArray(schema.appointments.status, BLOCKING_APPOINTMENT_STATUSES),
+    lt(schema.appointments.scheduledAt, end),
+    sql`${schema.appointments.scheduledAt} + coalesce(${schema.appointments.durationMinutes}, ${DEFAULT_APPOINTMENT_DURATION_MINUTES}) * interval '1 minute' > ${start}`,
+  ];
+  if (excludeAppointmentIds.length > 0) {
+    conditions.push(notInArray(schema.appointments.id, excludeAppointmentIds as any));
+  }
+
+  return app.db
+    .select({
+      id: schema.appointments.id,
+      clientId: schema.appointments.clientId,
+      clientName: schema.profiles.name,
+      scheduledAt: schema.appointments.scheduledAt,
+      durationMinutes: schema.appointments.durationMinutes,
+      status: schema.appointments.status,
+    })
+    .from(schema.appointments)
+    .innerJoin(schema.profiles, eq(schema.appointments.clientId, schema.profiles.id))
+    .where(and(...conditions))
+    .orderBy(asc(schema.appointments.scheduledAt));
+}
+
+/**
+ * Checks that a proposed appointment is in the future, inside the coach's working
+ * hours (when configured), outside blocked exceptions and free of overlaps.
+ * Returns null when the slot is bookable, otherwise the response to send.
+ */
+export async function validateAppointmentSlot(
+  app: App,
+  options: { coachId: string; scheduledAt: Date; durationMinutes?: number | null; excludeAppointmentIds?: string[] }
+): Promise<SlotRejection | null> {
+  const { coachId, scheduledAt, excludeAppointmentIds } = options;
+  const durationMinutes = options.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES;
+  const end = new Date(scheduledAt.getTime() + durationMinutes * 60000);
+
+  if (scheduledAt.getTime() < Date.now()) {
+    return { status: 400, body: { error: 'Appointment cannot be scheduled in the past', code: 'in_past' } };
+  }
+
+  // Working hours only apply once the coach has configured any
+  const hours = await app.db
+    .select()
+    .from(schema.coachAvailability)
+    .where(eq(schema.coachAvailability.coachId, coachId));
+
+  if (hours.length > 0) {
+    const timeZone = await getUserTimezone(app, coachId);
+    const startParts = getZonedDateParts(scheduledAt, timeZone);
+    const endMinutes = startParts.minutes + durationMinutes;
+
+    const fitsWindow = hours.some(
+      (window) =>
+        window.weekday === startParts.weekday &&
+        timeToMinutes(window.startTime) <= startParts.minutes &&
+        timeToMinutes(window.endTime) >= endMinutes
+    );
+
+    if (!fitsWindow) {
+      return {
+        status: 409,
+        body: { error: 'Appointment is outside working hours', code: 'outside_working_hours' },
+      };
+    }
+  }
+
+  const blocked = await app.db.query.coachAvailabilityExceptions.findFirst({
+    where: and(
+      eq(schema.coachAvailabilityExceptions.coachId, coachId),
+      lt(schema.coachAvailabilityExceptions.startsAt, end),
+      gt(schema.coachAvailabilityExceptions.endsAt, scheduledAt)
+    ),
+  });
+
+  if (blocked) {
+    return {
+      status: 409,
+      body: {
+        error: 'Coach is unavailable at this time',
+        code: 'blocked',
+        exception: {
+          id: blocked.id,
+          startsAt: blocked.startsAt,
+          endsAt: blocked.endsAt,
+          reason: blocked.reason,
+        },
+      },
+    };
+  }
+
+  const conflicts = await findConflictingAppointments(app, coachId, scheduledAt, end, excludeAppointmentIds);
+  if (conflicts.length > 0) {
+    return {
+      status: 409,
+      body: {
+        error: 'Appointment conflicts with an existing appointment',
+        code: 'conflict',
+        conflicts,
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Computes bookable slots for a coach between two local dates (inclusive), based on
+ * working hours minus blocked exceptions and existing appointments.
+ */
+export async function computeFreeSlots(
+  app: App,
+  coachId: string,
+  options: { fromDate: string; toDate: string; durationMinutes: number; stepMinutes: number }
+) {
+  const { fromDate, toDate, durationMinutes, stepMinutes } = options;
+  const timeZone = await getUserTimezone(app, coachId);
+
+  const hours = await app.db
+    .select()
+    .from(schema.coachAvailability)
+    .where(eq(schema.coachAvailability.coachId, coachId))
+    .orderBy(asc(schema.coachAvailability.startTime));
+
+  const rangeStart = zonedTimeToUtc(fromDate, '00:00', timeZone);
+  const rangeEnd = zonedTimeToUtc(addDaysToDateKey(toDate, 1), '00:00', timeZone);
+
+  const exceptions = await app.db
+    .select()
+    .from(schema.coachAvailabilityExceptions)
+    .where(
+      and(
+        eq(schema.coachAvailabilityExceptions.coachId, coachId),
+        lt(schema.coachAvailabilityExceptions.startsAt, rangeEnd),
+        gt(schema.coachAvailabilityExceptions.endsAt, rangeStart)
+      )
+    );
+
+  // Fetch a day earlier so sessions running past midnight are taken into account
+  const busy = await app.db
+    .select({
+      scheduledAt: schema.appointments.scheduledAt,
+      durationMinutes: schema.appointments.durationMinutes,
+    })
+    .from(schema.appointments)
+    .where(
+      and(
+        eq(schema.appointments.coachId, coachId),
+        inArray(schema.appointments.status, BLOCKING_APPOINTMENT_STATUSES),
+        gte(schema.appointments.scheduledAt, new Date(rangeStart.getTime() - 24 * 60 * 60000)),
+        lt(schema.appointments.scheduledAt, rangeEnd)
+      )
+    );
+
+  const busyRanges = [
+    ...exceptions.map((e) => ({ start: e.startsAt.getTime(), end: e.endsAt.getTime() })),
+    ...busy.map((a) => ({
+      start: a.scheduledAt.getTime(),
+      end: a.scheduledAt.getTime() + (a.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES) * 60000,
+    })),
+  ];
+
+  const now = Date.now();
+  const days: { date: string; slots: { startsAt: Date; endsAt: Date }[] }[] = [];
+
+  for (let dateKey = fromDate; dateKey <= toDate; dateKey = addDaysToDateKey(dateKey, 1)) {
+    const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+    const slots: { startsAt: Date; endsAt: Date }[] = [];
+
+    for (const window of hours.filter((h) => h.weekday === weekday)) {
+      const windowEnd = timeToMinutes(window.endTime);
+      for (let minutes = timeToMinutes(window.startTime); minutes + durationMinutes <= windowEnd; minutes += stepMinutes) {
+        const startsAt = zonedTimeToUtc(dateKey, minutesToTime(minutes), timeZone);
+        const endsAt = new Date(startsAt.getTime() + durationMinutes * 60000);
+
+        if (startsAt.getTime() < now) continue;
+        const overlaps = busyRanges.some((range) => range.start < endsAt.getTime() && range.end > startsAt.getTime());
+        if (!overlaps) {
+          slots.push({ startsAt, endsAt });
+        }
+      }
+    }
+
+    days.push({ date: dateKey, slots });
+  }
+
+  return { timezone: timeZone, days };
+}
+
+/**
+ * Whether a start time is one of the free slots offered to clients. Unlike
+ * validateAppointmentSlot, this rejects everything when no working hours are
+ * configured, and times off the slot grid.
+ */
+export async function isOfferedSlot(app: App, coachId: string, scheduledAt: Date, durationMinutes: number) {
+  const timeZone = await getUserTimezone(app, coachId);
+  const dateKey = getZonedDateParts(scheduledAt, timeZone).dateKey;
+  const { days } = await computeFreeSlots(app, coachId, {
+    fromDate: dateKey,
+    toDate: dateKey,
+    durationMinutes,
+    stepMinutes: CLIENT_SLOT_STEP_MINUTES,
+  });
+  return days.some((day) => day.slots.some((slot) => slot.startsAt.getTime() === scheduledAt.getTime()));
+}
+
+export function registerAvailabilityRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // Helper to check if user is a coach
+  const requireCoach = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'coach') {
+      reply.status(403).send({ error: 'Forbidden: coach role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // GET /api/coach/availability - Returns weekly working hours and upcoming blocked periods
+  fastify.get(
+    '/api/coach/availability',
+    {
+      schema: {
+        description: 'Get coach working hours and availability exceptions',
+        tags: ['coach'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timezone: { type: 'string' },
+              hours: { type: 'array', items: { type: 'object' } },
+              exceptions: { type: 'array', items: { type: 'object' } },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const coachId = session.user.id;
+      app.logger.info({ coachId }, 'Fetching availability');
+
+      try {
+        const timezone = await getUserTimezone(app, coachId);
+
+        const hours = await app.db
+          .select()
+          .from(schema.coachAvailability)
+          .where(eq(schema.coachAvailability.coachId, coachId))
+          .orderBy(asc(schema.coachAvailability.weekday), asc(schema.coachAvailability.startTime));
+
+        const exceptions = await app.db
+          .select()
+          .from(schema.coachAvailabilityExceptions)
+          .where(
+            and(
+              eq(schema.coachAvailabilityExceptions.coachId, coachId),
+              gt(schema.coachAvailabilityExceptions.endsAt, new Date())
+            )
+          )
+          .orderBy(asc(schema.coachAvailabilityExceptions.startsAt));
+
+        app.logger.info({ coachId, hours: hours.length, exceptions: exceptions.length }, 'Availability fetched');
+        return { timezone, hours, exceptions };
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch availability');
+        return reply.status(500).send({ error: 'Failed to fetch availability' });
+      }
+    }
+  );
+
+  // PUT /api/coach/availability - Replaces the weekly working hours
+  fastify.put(
+    '/api/coach/availability',
+    {
+      schema: {
+        description: 'Replace coach weekly working hours',
+        tags: ['coach'],
+        body: {
+          type: 'object',
+          properties: {
+            hours: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  weekday: { type: 'integer', minimum: 0, maximum: 6 },
+                  startTime: { type: 'string', pattern: TIME_PATTERN },
+                  endTime: { type: 'string', pattern: TIME_PATTERN },
+                },
+                required: ['weekday', 'startTime', 'endTime'],
+              },
+            },
+          },
+          required: ['hours'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { count: { type: 'number' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { hours } = request.body as {
+        hours: { weekday: number; startTime: string; endTime: string }[];
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, count: hours.length }, 'Updating availability');
+
+      // Windows must be non-empty and must not overlap on the same weekday
+      const sorted = [...hours].sort(
+        (a, b) => a.weekday - b.weekday || timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+      );
+      for (let i = 0; i < sorted.length; i++) {
+        const window = sorted[i];
+        if (timeToMinutes(window.startTime) >= timeToMinutes(window.endTime)) {
+          return reply.status(400).send({ error: 'startTime must be before endTime', window });
+        }
+        const previous = sorted[i - 1];
+        if (previous && previous.weekday === window.weekday && timeToMinutes(previous.endTime) > timeToMinutes(window.startTime)) {
+          return reply.status(400).send({ error: 'Working hours overlap', windows: [previous, window] });
+        }
+      }
+
+      try {
+        // A failed insert must not leave the coach without working hours
+        await app.db.transaction(async (tx) => {
+          await tx.delete(schema.coachAvailability).where(eq(schema.coachAvailability.coachId, coachId));
+
+          if (sorted.length > 0) {
+            await tx.insert(schema.coachAvailability).values(
+              sorted.map((window) => ({
+                coachId,
+                weekday: window.weekday,
+                startTime: window.startTime,
+                endTime: window.endTime,
+              }))
+            );
+          }
+        });
+
+        app.logger.info({ coachId, count: sorted.length }, 'Availability updated');
+        return { count: sorted.length };
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to update availability');
+        return reply.status(500).send({ error: 'Failed to update availability' });
+      }
+    }
+  );
+
+  // POST /api/coach/availability/exceptions - Blocks a period (holiday, training, ...)
+  fastify.post(
+    '/api/coach/availability/exceptions',
+    {
+      schema: {
+        description: 'Create availability exception',
+        tags: ['coach'],
+        body: {
+          type: 'object',
+          properties: {
+            startsAt: { type: 'string' },
+            endsAt: { type: 'string' },
+            reason: { type: ['string', 'null'] },
+          },
+          required: ['startsAt', 'endsAt'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { startsAt, endsAt, reason } = request.body as {
+        startsAt: string;
+        endsAt: string;
+        reason?: string;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, startsAt, endsAt }, 'Creating availability exception');
+
+      const start = new Date(startsAt);
+      const end = new Date(endsAt);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        return reply.status(400).send({ error: 'Invalid exception period' });
+      }
+
+      try {
+        const exception = await app.db
+          .insert(schema.coachAvailabilityExceptions)
+          .values({
+            coachId,
+            startsAt: start,
+            endsAt: end,
+            reason,
+          })
+          .returning();
+
+        app.logger.info({ coachId, exceptionId: exception[0].id }, 'Availability exception created');
+        return { id: exception[0].id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to create availability exception');
+        return reply.status(500).send({ error: 'Failed to create availability exception' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/availability/exceptions/:id - Removes a blocked period
+  fastify.delete(
+    '/api/coach/availability/exceptions/:id',
+    {
+      schema: {
+        description: 'Delete availability exception',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { success: { type: 'boolean' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, exceptionId: id }, 'Deleting availability exception');
+
+      try {
+        const deleted = await app.db
+          .delete(schema.coachAvailabilityExceptions)
+          .where(
+            and(
+              eq(schema.coachAvailabilityExceptions.id, id as any),
+              eq(schema.coachAvailabilityExceptions.coachId, coachId)
+            )
+          )
+          .returning();
+
+        if (deleted.length === 0) {
+          return reply.status(404).send({ error: 'Exception not found' });
+        }
+
+        app.logger.info({ coachId, exceptionId: id }, 'Availability exception deleted');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, exceptionId: id }, 'Failed to delete availability exception');
+        return reply.status(500).send({ error: 'Failed to delete availability exception' });
+      }
+    }
+  );
+
+  // GET /api/coach/availability/free-slots - Returns bookable slots for a range of days
+  fastify.get(
+    '/api/coach/availability/free-slots',
+    {
+      schema: {
+        description: 'Get free appointment slots for coach',
+        tags: ['coach'],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', pattern: DATE_PATTERN },
+            to: { type: 'string', pattern: DATE_PATTERN },
+            durationMinutes: { type: 'integer', minimum: 5, maximum: 480 },
+            stepMinutes: { type: 'integer', minimum: 5, maximum: 240 },
+          },
+          required: ['from', 'to'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timezone: { type: 'string' },
+              days: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    date: { type: 'string' },
+                    slots: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          startsAt: { type: 'string' },
+                          endsAt: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { from, to, durationMinutes, stepMinutes } = request.query as {
+        from: string;
+        to: string;
+        durationMinutes?: number;
+        stepMinutes?: number;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, from, to }, 'Fetching free slots');
+
+      const rangeDays = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60000);
+      if (!(rangeDays >= 0) || rangeDays > MAX_FREE_SLOT_RANGE_DAYS) {
+        return reply.status(400).send({ error: `Range must be between 0 and ${MAX_FREE_SLOT_RANGE_DAYS} days` });
+      }
+
+      try {
+        const duration = durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES;
+        const result = await computeFreeSlots(app, coachId, {
+          fromDate: from,
+          toDate: to,
+          durationMinutes: duration,
+          stepMinutes: stepMinutes || 30,
+        });
+
+        app.logger.info({ coachId, days: result.days.length }, 'Free slots fetched');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch free slots');
+        return reply.status(500).send({ error: 'Failed to fetch free slots' });
+      }
+    }
+  );
+}
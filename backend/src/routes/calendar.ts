@@ -0,0 +1,322 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { randomBytes } from 'node:crypto';
+import { eq, and, or, gte, asc, inArray } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES } from './availability.js';
+
+// How far back the subscription feed reaches; older sessions are dropped from calendars
+const FEED_HISTORY_DAYS = 90;
+
+const PRODUCT_ID = '-//BCCT//Appointments//EN';
+
+type AppointmentRow = typeof schema.appointments.$inferSelect;
+
+const generateFeedToken = () => randomBytes(32).toString('hex');
+
+const feedPath = (token: string) => `/api/calendar/${token}/appointments.ics`;
+
+// iCalendar UTC date-time, e.g. 20261018T093000Z
+const formatIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Escape TEXT values per RFC 5545 section 3.3.11
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Fold content lines longer than 75 octets per RFC 5545 section 3.1
+const foldIcsLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const ICS_STATUS: Record<string, string> = {
+  requested: 'TENTATIVE',
+  scheduled: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+};
+
+/**
+ * Renders appointments as an iCalendar document. UIDs are derived from the
+ * appointment id so reschedules and cancellations update the existing event
+ * instead of creating a new one.
+ */
+export function buildAppointmentsCalendar(
+  appointments: AppointmentRow[],
+  options: { viewerId: string; names: Map<string, string | null>; calendarName?: string }
+) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`);
+  }
+
+  for (const appointment of appointments) {
+    const start = appointment.scheduledAt;
+    const end = new Date(
+      start.getTime() + (appointment.durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES) * 60000
+    );
+    const otherPartyId = appointment.coachId === options.viewerId ? appointment.clientId : appointment.coachId;
+    const otherPartyName = options.names.get(otherPartyId);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${appointment.id}@bcct`,
+      `DTSTAMP:${formatIcsDate(appointment.updatedAt)}`,
+      `LAST-MODIFIED:${formatIcsDate(appointment.updatedAt)}`,
+      `CREATED:${formatIcsDate(appointment.createdAt)}`,
+      `SEQUENCE:${appointment.sequence}`,
+      `DTSTART:${formatIcsDate(start)}`,
+      `DTEND:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(otherPartyName ? `Session with ${otherPartyName}` : 'Coaching session')}`,
+      `STATUS:${ICS_STATUS[appointment.status] || 'CONFIRMED'}`
+    );
+    if (appointment.notes) {
+      lines.push(`DESCRIPTION:${escapeIcsText(appointment.notes)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// Look up display names for everyone taking part in the given appointments
+const fetchParticipantNames = async (app: App, appointments: AppointmentRow[]) => {
+  const ids = [...new Set(appointments.flatMap((a) => [a.coachId, a.clientId]))];
+  const names = new Map<string, string | null>();
+  if (ids.length === 0) {
+    return names;
+  }
+
+  const profiles = await app.db
+    .select({ id: schema.profiles.id, name: schema.profiles.name, email: schema.profiles.email })
+    .from(schema.profiles)
+    .where(inArray(schema.profiles.id, ids));
+  for (const profile of profiles) {
+    names.set(profile.id, profile.name || profile.email);
+  }
+  return names;
+};
+
+export function registerCalendarRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // GET /api/calendar/feed - Returns the user's calendar subscription path, creating it on first use
+  fastify.get(
+    '/api/calendar/feed',
+    {
+      schema: {
+        description: 'Get calendar subscription feed',
+        tags: ['calendar'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              token: { type: 'string' },
+              path: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Fetching calendar feed');
+
+      try {
+        let feed = await app.db.query.calendarFeeds.findFirst({
+          where: eq(schema.calendarFeeds.userId, userId),
+        });
+
+        if (!feed) {
+          const inserted = await app.db
+            .insert(schema.calendarFeeds)
+            .values({ userId, token: generateFeedToken() })
+            .onConflictDoNothing()
+            .returning();
+
+          // A parallel request may have created the feed first
+          feed =
+            inserted[0] ||
+            (await app.db.query.calendarFeeds.findFirst({
+              where: eq(schema.calendarFeeds.userId, userId),
+            }));
+          app.logger.info({ userId }, 'Calendar feed created');
+        }
+
+        return { token: feed!.token, path: feedPath(feed!.token) };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch calendar feed');
+        return reply.status(500).send({ error: 'Failed to fetch calendar feed' });
+      }
+    }
+  );
+
+  // POST /api/calendar/feed/rotate - Replaces the feed token, invalidating the old subscription URL
+  fastify.post(
+    '/api/calendar/feed/rotate',
+    {
+      schema: {
+        description: 'Rotate calendar feed token',
+        tags: ['calendar'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              token: { type: 'string' },
+              path: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Rotating calendar feed token');
+
+      try {
+        const token = generateFeedToken();
+        await app.db
+          .insert(schema.calendarFeeds)
+          .values({ userId, token })
+          .onConflictDoUpdate({
+            target: schema.calendarFeeds.userId,
+            set: { token, createdAt: new Date() },
+          });
+
+        app.logger.info({ userId }, 'Calendar feed token rotated');
+        return { token, path: feedPath(token) };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to rotate calendar feed token');
+        return reply.status(500).send({ error: 'Failed to rotate calendar feed token' });
+      }
+    }
+  );
+
+  // GET /api/calendar/:token/appointments.ics - Public subscription feed, authorized by the secret token
+  fastify.get(
+    '/api/calendar/:token/appointments.ics',
+    {
+      schema: {
+        description: 'iCalendar subscription feed of appointments',
+        tags: ['calendar'],
+        params: { type: 'object', properties: { token: { type: 'string' } } },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { token } = request.params as { token: string };
+
+      try {
+        const feed = await app.db.query.calendarFeeds.findFirst({
+          where: eq(schema.calendarFeeds.token, token),
+        });
+
+        if (!feed) {
+          return reply.status(404).send({ error: 'Calendar feed not found' });
+        }
+
+        app.logger.info({ userId: feed.userId }, 'Serving calendar feed');
+
+        // Cancelled sessions stay in the feed so subscribed calendars remove them
+        const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+        const appointments = await app.db
+          .select()
+          .from(schema.appointments)
+          .where(
+            and(
+              or(
+                eq(schema.appointments.coachId, feed.userId),
+                eq(schema.appointments.clientId, feed.userId)
+              ),
+              gte(schema.appointments.scheduledAt, since)
+            )
+          )
+          .orderBy(asc(schema.appointments.scheduledAt));
+
+        const names = await fetchParticipantNames(app, appointments);
+        const calendar = buildAppointmentsCalendar(appointments, {
+          viewerId: feed.userId,
+          names,
+          calendarName: 'BCCT sessions',
+        });
+
+        return reply
+          .header('Content-Type', 'text/calendar; charset=utf-8')
+          .header('Cache-Control', 'no-cache')
+          .send(calendar);
+      } catch (error) {
+        app.logger.error({ err: error }, 'Failed to serve calendar feed');
+        return reply.status(500).send({ error: 'Failed to serve calendar feed' });
+      }
+    }
+  );
+
+  // GET /api/appointments/:id/ics - Downloads a single appointment as an .ics file
+  fastify.get(
+    '/api/appointments/:id/ics',
+    {
+      schema: {
+        description: 'Download appointment as iCalendar file',
+        tags: ['calendar'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, appointmentId: id }, 'Exporting appointment');
+
+      try {
+        const appointment = await app.db.query.appointments.findFirst({
+          where: eq(schema.appointments.id, id as any),
+        });
+
+        // Only the coach and client of the appointment may export it
+        if (!appointment || (appointment.coachId !== userId && appointment.clientId !== userId)) {
+          return reply.status(404).send({ error: 'Appointment not found' });
+        }
+
+        const names = await fetchParticipantNames(app, [appointment]);
+        const calendar = buildAppointmentsCalendar([appointment], { viewerId: userId, names });
+
+        return reply
+          .header('Content-Type', 'text/calendar; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="appointment-${appointment.id}.ics"`)
+          .send(calendar);
+      } catch (error) {
+        app.logger.error({ err: error, userId, appointmentId: id }, 'Failed to export appointment');
+        return reply.status(500).send({ error: 'Failed to export appointment' });
+      }
+    }
+  );
+}
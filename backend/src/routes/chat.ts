@@ -1,12 +1,93 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, or } from 'drizzle-orm';
+import { randomBytes } from 'node:crypto';
+import { eq, and, or, ne, lt, desc, isNull, inArray, sql } from 'drizzle-orm';
 import type { WebSocket } from 'ws';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
+import { enqueueNotification } from './notifications.js';
 
 // Track active WebSocket connections per conversation
 const activeConnections = new Map<string, Set<WebSocket>>();
 
+// Send a payload to every open socket in a conversation
+const broadcastToConversation = (conversationId: string, payload: Record<string, unknown>) => {
+  const clients = activeConnections.get(conversationId);
+  if (!clients) return;
+
+  const serialized = JSON.stringify(payload);
+  for (const client of clients) {
+    if (client.readyState === 1) {
+      client.send(serialized);
+    }
+  }
+};
+
+// How long a socket ticket can be redeemed after it was issued
+const SOCKET_TICKET_TTL_MS = 30 * 1000;
+
+// Single-use tickets that authenticate a WebSocket handshake. Browsers cannot set headers on the
+// handshake, and putting the bearer token in the URL would write it to the request logs.
+const socketTickets = new Map<string, { userId: string; conversationId: string; expiresAt: number }>();
+
+const issueSocketTicket = (userId: string, conversationId: string) => {
+  const now = Date.now();
+  for (const [ticket, entry] of socketTickets) {
+    if (entry.expiresAt <= now) socketTickets.delete(ticket);
+  }
+
+  const ticket = randomBytes(32).toString('hex');
+  const expiresAt = now + SOCKET_TICKET_TTL_MS;
+  socketTickets.set(ticket, { userId, conversationId, expiresAt });
+  return { ticket, expiresAt: new Date(expiresAt) };
+};
+
+// Returns the ticket's user when it is valid for the conversation; a ticket works only once
+const redeemSocketTicket = (ticket: string, conversationId: string): string | null => {
+  const entry = socketTickets.get(ticket);
+  if (!entry) return null;
+
+  socketTickets.delete(ticket);
+  if (entry.expiresAt <= Date.now() || entry.conversationId !== conversationId) return null;
+  return entry.userId;
+};
+
+// Longest message preview shown in a chat push
+const CHAT_PREVIEW_LENGTH = 120;
+
+// Queue a push for the other participant of the conversation; failures never block sending
+const queueChatMessageNotification = async (
+  app: App,
+  conversationId: string,
+  senderId: string,
+  message: { id: string; content: string }
+) => {
+  try {
+    const conversation = await app.db.query.conversations.findFirst({
+      where: eq(schema.conversations.id, conversationId as any),
+    });
+    if (!conversation) return;
+
+    const recipientId = conversation.coachId === senderId ? conversation.clientId : conversation.coachId;
+    const sender = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, senderId),
+    });
+    const preview =
+      message.content.length > CHAT_PREVIEW_LENGTH
+        ? `${message.content.slice(0, CHAT_PREVIEW_LENGTH - 1)}…`
+        : message.content;
+
+    await enqueueNotification(app, {
+      userId: recipientId,
+      type: 'chat_message',
+      title: sender?.name || 'New message',
+      body: preview,
+      data: { conversationId, messageId: message.id },
+    });
+  } catch (error) {
+    app.logger.error({ err: error, conversationId, messageId: message.id }, 'Failed to queue chat notification');
+  }
+};
+
 export function registerChatRoutes(app: App) {
   const requireAuth = app.requireAuth();
   const fastify = app.fastify;
@@ -45,7 +126,8 @@ export function registerChatRoutes(app: App) {
           type: 'object',
           properties: {
             conversationId: { type: 'string' },
-            content: { type: 'string' },
+            content: { type: 'string', minLength: 1 },
+            clientMessageId: { type: ['string', 'null'] },
           },
           required: ['conversationId', 'content'],
         },
@@ -57,7 +139,9 @@ export function registerChatRoutes(app: App) {
               conversationId: { type: 'string' },
               senderId: { type: 'string' },
               content: { type: 'string' },
+              readAt: { type: ['string', 'null'] },
               createdAt: { type: 'string' },
+              clientMessageId: { type: ['string', 'null'] },
             },
           },
         },
@@ -67,9 +151,10 @@ export function registerChatRoutes(app: App) {
       const session = await requireAuth(request, reply);
       if (!session) return;
 
-      const { conversationId, content } = request.body as {
+      const { conversationId, content, clientMessageId } = request.body as {
         conversationId: string;
         content: string;
+        clientMessageId?: string | null;
       };
       const userId = session.user.id;
 
@@ -91,36 +176,23 @@ export function registerChatRoutes(app: App) {
           })
           .returning();
 
-        // Broadcast to connected clients via WebSocket
-        const conversationConnections = activeConnections.get(conversationId);
-        if (conversationConnections) {
-          const payload = JSON.stringify({
-            type: 'message',
-            data: {
-              id: message[0].id,
-              conversationId: message[0].conversationId,
-              senderId: message[0].senderId,
-              content: message[0].content,
-              createdAt: message[0].createdAt?.toISOString(),
-            },
-          });
-
-          for (const socket of conversationConnections) {
-            if (socket.readyState === 1) {
-              socket.send(payload);
-            }
-          }
-        }
-
-        app.logger.info({ userId, messageId: message[0].id }, 'Message sent');
-
-        return {
+        const data = {
           id: message[0].id,
           conversationId: message[0].conversationId,
           senderId: message[0].senderId,
           content: message[0].content,
+          readAt: null,
           createdAt: message[0].createdAt?.toISOString(),
+          clientMessageId: clientMessageId ?? null,
         };
+
+        // Broadcast to connected clients via WebSocket
+        broadcastToConversation(conversationId, { type: 'message', data });
+        await queueChatMessageNotification(app, conversationId, userId, message[0]);
+
+        app.logger.info({ userId, messageId: message[0].id }, 'Message sent');
+
+        return data;
       } catch (error) {
         app.logger.error({ err: error, userId, conversationId }, 'Failed to send message');
         return reply.status(500).send({ error: 'Failed to send message' });
@@ -167,6 +239,11 @@ export function registerChatRoutes(app: App) {
         const hasAccess = await verifyConversationAccess(userId, message.conversationId, reply);
         if (!hasAccess) return;
 
+        // Only the recipient can mark a message as read
+        if (message.senderId === userId || message.readAt) {
+          return { id: message.id };
+        }
+
         const updated = await app.db
           .update(schema.messages)
           .set({
@@ -175,6 +252,13 @@ export function registerChatRoutes(app: App) {
           .where(eq(schema.messages.id, id as any))
           .returning();
 
+        broadcastToConversation(message.conversationId, {
+          type: 'read',
+          messageIds: [updated[0].id],
+          userId,
+          readAt: updated[0].readAt?.toISOString(),
+        });
+
         app.logger.info({ userId, messageId: id }, 'Message marked as read');
         return { id: updated[0].id };
       } catch (error) {
@@ -184,6 +268,113 @@ export function registerChatRoutes(app: App) {
     }
   );
 
+  // PUT /api/conversations/:id/read - Marks all incoming messages in conversation as read
+  fastify.put(
+    '/api/conversations/:id/read',
+    {
+      schema: {
+        description: 'Mark all incoming messages in conversation as read',
+        tags: ['chat'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              count: { type: 'number' },
+              messageIds: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, conversationId: id }, 'Marking conversation as read');
+
+      try {
+        const hasAccess = await verifyConversationAccess(userId, id, reply);
+        if (!hasAccess) return;
+
+        const readAt = new Date();
+        const updated = await app.db
+          .update(schema.messages)
+          .set({ readAt })
+          .where(
+            and(
+              eq(schema.messages.conversationId, id as any),
+              ne(schema.messages.senderId, userId),
+              isNull(schema.messages.readAt)
+            )
+          )
+          .returning({ id: schema.messages.id });
+
+        const messageIds = updated.map((m) => m.id);
+        if (messageIds.length > 0) {
+          broadcastToConversation(id, {
+            type: 'read',
+            messageIds,
+            userId,
+            readAt: readAt.toISOString(),
+          });
+        }
+
+        app.logger.info({ userId, conversationId: id, count: messageIds.length }, 'Conversation marked as read');
+        return { count: messageIds.length, messageIds };
+      } catch (error) {
+        app.logger.error({ err: error, userId, conversationId: id }, 'Failed to mark conversation as read');
+        return reply.status(500).send({ error: 'Failed to mark conversation as read' });
+      }
+    }
+  );
+
+  // POST /api/conversations/:id/socket-ticket - Issues a short-lived ticket for the conversation's WebSocket
+  fastify.post(
+    '/api/conversations/:id/socket-ticket',
+    {
+      schema: {
+        description: 'Issue a single-use ticket to open the conversation WebSocket',
+        tags: ['chat'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              ticket: { type: 'string' },
+              expiresAt: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const { id } = request.params as { id: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, conversationId: id }, 'Issuing socket ticket');
+
+      try {
+        const hasAccess = await verifyConversationAccess(userId, id, reply);
+        if (!hasAccess) return;
+
+        const { ticket, expiresAt } = issueSocketTicket(userId, id);
+
+        app.logger.info({ userId, conversationId: id }, 'Socket ticket issued');
+        return { ticket, expiresAt: expiresAt.toISOString() };
+      } catch (error) {
+        app.logger.error({ err: error, userId, conversationId: id }, 'Failed to issue socket ticket');
+        return reply.status(500).send({ error: 'Failed to issue socket ticket' });
+      }
+    }
+  );
+
   // WebSocket endpoint for realtime chat
   fastify.route({
     method: 'GET',
@@ -195,10 +386,16 @@ export function registerChatRoutes(app: App) {
         type: 'object',
         properties: { conversationId: { type: 'string' } },
       },
+      querystring: {
+        type: 'object',
+        properties: { ticket: { type: 'string' } },
+      },
     },
     wsHandler: async (socket: WebSocket, request: FastifyRequest) => {
       const { conversationId } = request.params as { conversationId: string };
-      const token = request.headers.authorization?.replace('Bearer ', '');
+      // Browsers cannot set headers on a WebSocket handshake, so they authenticate with a socket ticket
+      const { ticket } = (request.query || {}) as { ticket?: string };
+      const authorization = request.headers.authorization;
 
       app.logger.info({ conversationId }, 'WebSocket client connected');
 
@@ -206,21 +403,24 @@ export function registerChatRoutes(app: App) {
       let userId: string | null = null;
 
       try {
-        // Create a temporary request with auth header for verification
-        const authRequest = {
-          headers: { authorization: `Bearer ${token}` },
-        } as any;
-
-        const session = await requireAuth(authRequest, {} as any);
+        if (authorization) {
+          // Create a temporary request with auth header for verification
+          const authRequest = {
+            headers: { authorization },
+          } as any;
+
+          const session = await requireAuth(authRequest, {} as any);
+          userId = session?.user.id ?? null;
+        } else if (ticket) {
+          userId = redeemSocketTicket(ticket, conversationId);
+        }
 
-        if (!session) {
+        if (!userId) {
           socket.send(JSON.stringify({ error: 'Unauthorized' }));
           socket.close();
           return;
         }
 
-        userId = session.user.id;
-
         // Verify conversation access
         const conversation = await app.db.query.conversations.findFirst({
           where: and(
@@ -273,51 +473,51 @@ export function registerChatRoutes(app: App) {
                 .returning();
 
               // Broadcast to all connected clients
-              const payload = JSON.stringify({
+              broadcastToConversation(conversationId, {
                 type: 'message',
                 data: {
                   id: message[0].id,
                   conversationId: message[0].conversationId,
                   senderId: message[0].senderId,
                   content: message[0].content,
+                  readAt: null,
                   createdAt: message[0].createdAt?.toISOString(),
+                  clientMessageId: data.clientMessageId ?? null,
                 },
               });
 
-              const clients = activeConnections.get(conversationId);
-              if (clients) {
-                for (const client of clients) {
-                  if (client.readyState === 1) {
-                    client.send(payload);
-                  }
-                }
-              }
+              await queueChatMessageNotification(app, conversationId, userId!, message[0]);
 
               app.logger.info({ userId, messageId: message[0].id }, 'Message broadcast');
             } else if (data.type === 'read' && data.messageId) {
-              // Mark message as read
-              await app.db
+              // Mark message as read (only incoming messages in this conversation)
+              const readAt = new Date();
+              const updated = await app.db
                 .update(schema.messages)
-                .set({ readAt: new Date() })
-                .where(eq(schema.messages.id, data.messageId));
-
-              // Broadcast read receipt
-              const payload = JSON.stringify({
-                type: 'read',
-                messageId: data.messageId,
-                userId,
-              });
-
-              const clients = activeConnections.get(conversationId);
-              if (clients) {
-                for (const client of clients) {
-                  if (client.readyState === 1) {
-                    client.send(payload);
-                  }
-                }
+                .set({ readAt })
+                .where(
+                  and(
+                    eq(schema.messages.id, data.messageId),
+                    eq(schema.messages.conversationId, conversationId as any),
+                    ne(schema.messages.senderId, userId!),
+                    isNull(schema.messages.readAt)
+                  )
+                )
+                .returning({ id: schema.messages.id });
+
+              if (updated.length > 0) {
+                // Broadcast read receipt
+                broadcastToConversation(conversationId, {
+                  type: 'read',
+                  messageIds: [updated[0].id],
+                  userId,
+                  readAt: readAt.toISOString(),
+                });
               }
 
               app.logger.info({ userId, messageId: data.messageId }, 'Read receipt broadcast');
+            } else if (data.type === 'ping') {
+              socket.send(JSON.stringify({ type: 'pong' }));
             }
           } catch (error) {
             app.logger.error(
@@ -352,3 +552,143 @@ export function registerChatRoutes(app: App) {
     },
   });
 }
+
+// Server function to list conversations with participant, last message and unread count
+export async function listConversationSummaries(
+  app: App,
+  userId: string,
+  role: 'client' | 'coach'
+) {
+  const ownColumn = role === 'client' ? schema.conversations.clientId : schema.conversations.coachId;
+  const otherColumn = role === 'client' ? schema.conversations.coachId : schema.conversations.clientId;
+
+  const rows = await app.db
+    .select({
+      id: schema.conversations.id,
+      coachId: schema.conversations.coachId,
+      clientId: schema.conversations.clientId,
+      createdAt: schema.conversations.createdAt,
+      participantId: schema.profiles.id,
+      participantName: schema.profiles.name,
+      participantEmail: schema.profiles.email,
+    })
+    .from(schema.conversations)
+    .innerJoin(schema.profiles, eq(schema.profiles.id, otherColumn))
+    .where(eq(ownColumn, userId));
+
+  const conversationIds = rows.map((r) => r.id);
+  if (conversationIds.length === 0) return [];
+
+  const unreadRows = await app.db
+    .select({
+      conversationId: schema.messages.conversationId,
+      count: sql<number>`count(*)`,
+    })
+    .from(schema.messages)
+    .where(
+      and(
+        inArray(schema.messages.conversationId, conversationIds),
+        ne(schema.messages.senderId, userId),
+        isNull(schema.messages.readAt)
+      )
+    )
+    .groupBy(schema.messages.conversationId);
+
+  const lastMessages = await app.db
+    .selectDistinctOn([schema.messages.conversationId])
+    .from(schema.messages)
+    .where(inArray(schema.messages.conversationId, conversationIds))
+    .orderBy(schema.messages.conversationId, desc(schema.messages.createdAt));
+
+  const unreadByConversation = new Map(
+    unreadRows.map((r) => [r.conversationId, parseInt(r.count as any) || 0])
+  );
+  const lastByConversation = new Map(lastMessages.map((m) => [m.conversationId, m]));
+
+  return rows
+    .map((r) => {
+      const last = lastByConversation.get(r.id);
+      return {
+        id: r.id,
+        coachId: r.coachId,
+        clientId: r.clientId,
+        createdAt: r.createdAt,
+        participant: {
+          id: r.participantId,
+          name: r.participantName,
+          email: r.participantEmail,
+        },
+        lastMessage: last
+          ? {
+              id: last.id,
+              senderId: last.senderId,
+              content: last.content,
+              readAt: last.readAt,
+              createdAt: last.createdAt,
+            }
+          : null,
+        unreadCount: unreadByConversation.get(r.id) || 0,
+      };
+    })
+    .sort((a, b) => {
+      const aTime = (a.lastMessage?.createdAt ?? a.createdAt).getTime();
+      const bTime = (b.lastMessage?.createdAt ?? b.createdAt).getTime();
+      return bTime - aTime;
+    });
+}
+
+// Server function to fetch a page of messages in chronological order
+export async function fetchConversationMessages(
+  app: App,
+  conversationId: string,
+  options: { before?: string; limit?: number } = {}
+) {
+  const limit = Math.min(Math.max(options.limit ?? 100, 1), 200);
+
+  const page = await app.db
+    .select()
+    .from(schema.messages)
+    .where(
+      and(
+        eq(schema.messages.conversationId, conversationId as any),
+        options.before ? lt(schema.messages.createdAt, new Date(options.before)) : undefined
+      )
+    )
+    .orderBy(desc(schema.messages.createdAt))
+    .limit(limit);
+
+  return page.reverse();
+}
+
+// Server function to find or create the conversation between a coach and client
+export async function getOrCreateConversation(app: App, coachId: string, clientId: string) {
+  const existing = await app.db.query.conversations.findFirst({
+    where: and(
+      eq(schema.conversations.coachId, coachId),
+      eq(schema.conversations.clientId, clientId)
+    ),
+  });
+
+  if (existing) return existing;
+
+  const created = await app.db
+    .insert(schema.conversations)
+    .values({
+      coachId,
+      clientId,
+      createdAt: new Date(),
+    })
+    .onConflictDoNothing({ target: [schema.conversations.coachId, schema.conversations.clientId] })
+    .returning();
+
+  if (created[0]) return created[0];
+
+  // A concurrent request created the conversation first
+  const winner = await app.db.query.conversations.findFirst({
+    where: and(
+      eq(schema.conversations.coachId, coachId),
+      eq(schema.conversations.clientId, clientId)
+    ),
+  });
+  return winner!;
+}
@@ -0,0 +1,153 @@
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { DATE_PATTERN } from './availability.js';
+
+type CheckinRow = typeof schema.checkins.$inferSelect;
+
+// Text and choice answers use `text`, all other item types `value`
+export interface CheckinResponseInput {
+  themeItemId: string;
+  value?: number | null;
+  text?: string | null;
+}
+
+/**
+ * One day's check-in. Every field besides the date is optional so the home screen
+ * metrics and the theme check-in can each save their own part of the same row.
+ */
+export interface CheckinInput {
+  date: string;
+  stress?: number | null;
+  energy?: number | null;
+  sleep?: number | null;
+  mood?: number | null;
+  note?: string | null;
+  locked?: { energy?: boolean; stress?: boolean; sleep?: boolean };
+  responses?: CheckinResponseInput[];
+}
+
+// JSON schema for CheckinInput; core metrics use the 0-10 scale, responses are checked per item type
+export const checkinBodySchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', pattern: DATE_PATTERN },
+    stress: { type: ['integer', 'null'], minimum: 0, maximum: 10 },
+    energy: { type: ['integer', 'null'], minimum: 0, maximum: 10 },
+    sleep: { type: ['integer', 'null'], minimum: 0, maximum: 10 },
+    mood: { type: ['integer', 'null'], minimum: 0, maximum: 10 },
+    note: { type: ['string', 'null'] },
+    locked: {
+      type: 'object',
+      properties: {
+        energy: { type: 'boolean' },
+        stress: { type: 'boolean' },
+        sleep: { type: 'boolean' },
+      },
+    },
+    responses: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          themeItemId: { type: 'string' },
+          value: { type: ['number', 'null'] },
+          text: { type: ['string', 'null'] },
+        },
+        required: ['themeItemId'],
+      },
+    },
+  },
+  required: ['date'],
+};
+
+/**
+ * Creates or updates the client's check-in for a date. Only fields present in the
+ * input are written, so saving theme responses never resets the core metrics and
+ * vice versa. Responses are upserted per theme item.
+ */
+export async function saveCheckin(app: App, userId: string, input: CheckinInput): Promise<CheckinRow> {
+  const fields: Partial<typeof schema.checkins.$inferInsert> = {};
+  for (const key of ['stress', 'energy', 'sleep', 'mood', 'note'] as const) {
+    if (input[key] !== undefined) {
+      (fields as any)[key] = input[key];
+    }
+  }
+  if (input.locked?.energy !== undefined) fields.lockedEnergy = input.locked.energy;
+  if (input.locked?.stress !== undefined) fields.lockedStress = input.locked.stress;
+  if (input.locked?.sleep !== undefined) fields.lockedSleep = input.locked.sleep;
+
+  const now = new Date();
+  const [checkin] = await app.db
+    .insert(schema.checkins)
+    .values({ userId, date: input.date as any, ...fields, createdAt: now, updatedAt: now })
+    .onConflictDoUpdate({
+      target: [schema.checkins.userId, schema.checkins.date],
+      set: { ...fields, updatedAt: now },
+    })
+    .returning();
+
+  if (input.responses && input.responses.length > 0) {
+    await app.db
+      .insert(schema.checkinResponses)
+      .values(
+        input.responses.map((response) => ({
+          checkinId: checkin.id,
+          themeItemId: response.themeItemId,
+          value: response.value ?? null,
+          textValue: response.text?.trim() ?? null,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [schema.checkinResponses.checkinId, schema.checkinResponses.themeItemId],
+        set: { value: sql`excluded.value`, textValue: sql`excluded.text_value`, updatedAt: now },
+      });
+  }
+
+  return checkin;
+}
+
+/**
+ * Adds each check-in's theme item responses as `responses: [{ themeItemId, value, text }]`
+ */
+export async function withCheckinResponses(app: App, checkins: CheckinRow[]) {
+  const ids = checkins.map((checkin) => checkin.id);
+  const responses =
+    ids.length > 0
+      ? await app.db
+          .select({
+            checkinId: schema.checkinResponses.checkinId,
+            themeItemId: schema.checkinResponses.themeItemId,
+            value: schema.checkinResponses.value,
+            text: schema.checkinResponses.textValue,
+          })
+          .from(schema.checkinResponses)
+          .where(inArray(schema.checkinResponses.checkinId, ids))
+          .orderBy(asc(schema.checkinResponses.createdAt))
+      : [];
+
+  const responsesByCheckin = new Map<string, { themeItemId: string; value: number | null; text: string | null }[]>();
+  for (const { checkinId, ...response } of responses) {
+    responsesByCheckin.set(checkinId, [...(responsesByCheckin.get(checkinId) || []), response]);
+  }
+
+  return checkins.map((checkin) => ({ ...checkin, responses: responsesByCheckin.get(checkin.id) || [] }));
+}
+
+/**
+ * A user's check-ins, oldest first, optionally limited to a single date
+ */
+export async function listCheckins(app: App, userId: string, options: { date?: string } = {}) {
+  const checkins = await app.db
+    .select()
+    .from(schema.checkins)
+    .where(
+      and(
+        eq(schema.checkins.userId, userId),
+        options.date ? eq(schema.checkins.date, options.date) : undefined
+      )
+    )
+    .orderBy(asc(schema.checkins.date));
+
+  return withCheckinResponses(app, checkins);
+}
@@ -1,7 +1,43 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, gte, lt, inArray } from 'drizzle-orm';
+import { eq, and, gte, lt, ne, asc, isNull, inArray, sql } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
+import {
+  listConversationSummaries,
+  fetchConversationMessages,
+  getOrCreateConversation,
+} from './chat.js';
+import {
+  computeFreeSlots,
+  isOfferedSlot,
+  validateAppointmentSlot,
+  CLIENT_SLOT_STEP_MINUTES,
+  DATE_PATTERN,
+  DEFAULT_APPOINTMENT_DURATION_MINUTES,
+  getUserTimezone,
+  MAX_FREE_SLOT_RANGE_DAYS,
+} from './availability.js';
+import { enqueueNotification, withdrawAppointmentReminders } from './notifications.js';
+import { evaluateCheckinAlerts } from './alerts.js';
+import {
+  ANALYTICS_RANGES,
+  fetchAnalyticsMarkers,
+  fetchCheckinAnalytics,
+  fetchCheckinInsights,
+} from './analytics.js';
+import { checkinBodySchema, listCheckins, saveCheckin } from './checkins.js';
+import type { CheckinInput } from './checkins.js';
+import { isValidThemeItemResponse, loadClientThemeItems } from './themes.js';
+import {
+  completeProgramIfDone,
+  getClientProgramProgress,
+  resolveTaskAudioUrls,
+  validateTaskResponse,
+} from './programs.js';
+import { initialReviewStatus } from './reviews.js';
+
+// Coaching relationships that take new appointment requests and messages
+const ACTIVE_COACH_STATUSES = ['intake', 'active'];
 
 export function registerClientRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -19,6 +55,18 @@ export function registerClientRoutes(app: App) {
     return profile;
   };
 
+  // Helper to find the coach a request is for: the given coach, otherwise the client's longest-linked coach.
+  // Only intake and active relationships count, so paused or finished coaching gets no new requests.
+  const findActiveCoachLink = (clientId: string, coachId?: string) =>
+    app.db.query.coachClients.findFirst({
+      where: and(
+        eq(schema.coachClients.clientId, clientId),
+        coachId ? eq(schema.coachClients.coachId, coachId) : undefined,
+        inArray(schema.coachClients.status, ACTIVE_COACH_STATUSES)
+      ),
+      orderBy: asc(schema.coachClients.createdAt),
+    });
+
   // GET /api/client/home - Returns home data for current client
   fastify.get(
     '/api/client/home',
@@ -60,44 +108,40 @@ export function registerClientRoutes(app: App) {
           ),
         });
 
-        // Get current assigned program with weeks
+        // Progress through the oldest program the client has not finished yet
         const assignedProgram = await app.db.query.clientPrograms.findFirst({
           where: and(
             eq(schema.clientPrograms.clientId, userId),
-            eq(schema.clientPrograms.completedAt, null as any)
+            isNull(schema.clientPrograms.completedAt)
           ),
+          orderBy: asc(schema.clientPrograms.assignedAt),
         });
 
         let currentWeek = null;
         let nextTask = null;
 
         if (assignedProgram) {
-          const weeks = await app.db.query.programWeeks.findMany({
-            where: eq(schema.programWeeks.programId, assignedProgram.programId),
-          });
-          currentWeek = weeks.length > 0 ? weeks[0] : null;
-
-          if (currentWeek) {
-            const tasks = await app.db.query.programTasks.findMany({
-              where: eq(schema.programTasks.weekId, currentWeek.id),
-            });
-            if (tasks.length > 0) {
-              nextTask = tasks[0];
-            }
+          const progress = await getClientProgramProgress(app, assignedProgram);
+          if (progress.currentWeek) {
+            const { tasks, ...week } = progress.currentWeek;
+            currentWeek = { ...week, clientProgramId: assignedProgram.id };
           }
+          nextTask = progress.nextTask;
         }
 
         // Get next appointment
         const nextAppointment = await app.db.query.appointments.findFirst({
           where: and(
             eq(schema.appointments.clientId, userId),
+            eq(schema.appointments.status, 'scheduled'),
             gte(schema.appointments.scheduledAt, new Date())
           ),
+          orderBy: asc(schema.appointments.scheduledAt),
         });
 
-        // Get unread message count
+        // Get unread message count (incoming messages only)
         const unreadMessages = await app.db
-          .select({ count: schema.messages.id })
+          .select({ count: sql<number>`count(*)` })
           .from(schema.messages)
           .innerJoin(
             schema.conversations,
@@ -106,11 +150,12 @@ export function registerClientRoutes(app: App) {
           .where(
             and(
               eq(schema.conversations.clientId, userId),
-              eq(schema.messages.readAt, null as any)
+              ne(schema.messages.senderId, userId),
+              isNull(schema.messages.readAt)
             )
           );
 
-        const unreadChatCount = unreadMessages.length > 0 ? unreadMessages[0].count : 0;
+        const unreadChatCount = parseInt(unreadMessages[0].count as any) || 0;
 
         app.logger.info(
           { userId, hasCheckin: !!todayCheckin, unreadCount: unreadChatCount },
@@ -122,7 +167,7 @@ export function registerClientRoutes(app: App) {
           currentWeek,
           nextTask,
           nextAppointment: nextAppointment || null,
-          unreadChatCount: unreadChatCount as any,
+          unreadChatCount,
         };
       } catch (error) {
         app.logger.error({ err: error, userId }, 'Failed to fetch home data');
@@ -157,21 +202,37 @@ export function registerClientRoutes(app: App) {
       app.logger.info({ userId }, 'Fetching client programs');
 
       try {
-        const programs = await app.db
+        const rows = await app.db
           .select({
-            id: schema.clientPrograms.id,
-            programId: schema.clientPrograms.programId,
-            title: schema.programTemplates.title,
-            description: schema.programTemplates.description,
-            assignedAt: schema.clientPrograms.assignedAt,
-            completedAt: schema.clientPrograms.completedAt,
+            assignment: schema.clientPrograms,
+            title: schema.programVersions.title,
+            description: schema.programVersions.description,
           })
           .from(schema.clientPrograms)
           .innerJoin(
-            schema.programTemplates,
-            eq(schema.clientPrograms.programId, schema.programTemplates.id)
+            schema.programVersions,
+            eq(schema.clientPrograms.versionId, schema.programVersions.id)
           )
-          .where(eq(schema.clientPrograms.clientId, userId));
+          .where(eq(schema.clientPrograms.clientId, userId))
+          .orderBy(asc(schema.clientPrograms.assignedAt));
+
+        const timezone = await getUserTimezone(app, userId);
+        const programs = [];
+        for (const { assignment, title, description } of rows) {
+          const progress = await getClientProgramProgress(app, assignment, timezone);
+          programs.push({
+            id: assignment.id,
+            programId: assignment.programId,
+            title,
+            description,
+            assignedAt: assignment.assignedAt,
+            completedAt: assignment.completedAt,
+            weekCount: progress.weeks.length,
+            currentWeekNumber: progress.currentWeek?.weekNumber ?? null,
+            taskCount: progress.taskCount,
+            completedTaskCount: progress.completedTaskCount,
+          });
+        }
 
         app.logger.info({ userId, count: programs.length }, 'Programs fetched');
         return programs;
@@ -182,6 +243,80 @@ export function registerClientRoutes(app: App) {
     }
   );
 
+  // GET /api/client/programs/:id - Returns an assigned program with its weeks, tasks and the client's progress
+  fastify.get(
+    '/api/client/programs/:id',
+    {
+      schema: {
+        description: 'Get program progress for client',
+        tags: ['client'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { id } = request.params as { id: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, clientProgramId: id }, 'Fetching program progress');
+
+      try {
+        const clientProgram = await app.db.query.clientPrograms.findFirst({
+          where: and(
+            eq(schema.clientPrograms.id, id as any),
+            eq(schema.clientPrograms.clientId, userId)
+          ),
+        });
+
+        if (!clientProgram) {
+          return reply.status(404).send({ error: 'Program not found' });
+        }
+
+        // The client sees the version they were assigned, not later edits
+        const version = await app.db.query.programVersions.findFirst({
+          where: eq(schema.programVersions.id, clientProgram.versionId),
+        });
+        const progress = await getClientProgramProgress(app, clientProgram);
+
+        // Audio is only streamable once its week is open
+        const audioUrls = await resolveTaskAudioUrls(
+          app,
+          progress.weeks.filter((week) => week.unlocked).flatMap((week) => week.tasks)
+        );
+        const weeks = progress.weeks.map((week) => ({
+          ...week,
+          tasks: week.tasks.map((task) => ({ ...task, audioUrl: audioUrls.get(task.id) ?? null })),
+        }));
+
+        app.logger.info(
+          { userId, clientProgramId: id, currentWeek: progress.currentWeek?.weekNumber ?? null },
+          'Program progress fetched'
+        );
+        return {
+          id: clientProgram.id,
+          programId: clientProgram.programId,
+          title: version?.title ?? '',
+          description: version?.description ?? null,
+          assignedAt: clientProgram.assignedAt,
+          completedAt: clientProgram.completedAt,
+          ...progress,
+          weeks,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId, clientProgramId: id }, 'Failed to fetch program progress');
+        return reply.status(500).send({ error: 'Failed to fetch program progress' });
+      }
+    }
+  );
+
   // GET /api/client/programs/:id/weeks - Returns weeks for a program
   fastify.get(
     '/api/client/programs/:id/weeks',
@@ -226,7 +361,7 @@ export function registerClientRoutes(app: App) {
         const weeks = await app.db
           .select()
           .from(schema.programWeeks)
-          .where(eq(schema.programWeeks.programId, clientProgram.programId));
+          .where(eq(schema.programWeeks.versionId, clientProgram.versionId));
 
         app.logger.info({ userId, weeksCount: weeks.length }, 'Weeks fetched');
         return weeks;
@@ -280,7 +415,7 @@ export function registerClientRoutes(app: App) {
 
         // Get all weeks and tasks
         const weeks = await app.db.query.programWeeks.findMany({
-          where: eq(schema.programWeeks.programId, clientProgram.programId),
+          where: eq(schema.programWeeks.versionId, clientProgram.versionId),
         });
 
         const weekIds = weeks.map((w) => w.id);
@@ -313,14 +448,17 @@ export function registerClientRoutes(app: App) {
           type: 'object',
           properties: {
             clientProgramId: { type: 'string' },
-            responseJson: { type: 'object' },
+            responseJson: { type: ['object', 'null'], additionalProperties: true },
           },
           required: ['clientProgramId'],
         },
         response: {
           200: {
             type: 'object',
-            properties: { id: { type: 'string' } },
+            properties: {
+              id: { type: 'string' },
+              programCompleted: { type: 'boolean' },
+            },
           },
         },
       },
@@ -354,19 +492,43 @@ export function registerClientRoutes(app: App) {
           return reply.status(404).send({ error: 'Program not found' });
         }
 
-        // Create task completion
+        // Only tasks of the program's open weeks can be completed
+        const progress = await getClientProgramProgress(app, clientProgram);
+        const week = progress.weeks.find((candidate) => candidate.tasks.some((task) => task.id === id));
+        if (!week) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+        if (!week.unlocked) {
+          return reply.status(400).send({ error: 'Week is not unlocked yet', unlocksOn: week.unlocksOn });
+        }
+
+        const task = week.tasks.find((candidate) => candidate.id === id)!;
+        const responseError = validateTaskResponse(task, responseJson);
+        if (responseError) {
+          return reply.status(400).send({ error: responseError });
+        }
+
+        // Completing a task again replaces the earlier response and asks for a new review
+        const reviewStatus = initialReviewStatus(task.type);
         const completion = await app.db
           .insert(schema.taskCompletions)
           .values({
-            clientProgramId: clientProgramId as any,
+            clientProgramId: clientProgram.id,
             taskId: id as any,
             completedAt: new Date(),
             responseJson,
+            reviewStatus,
+          })
+          .onConflictDoUpdate({
+            target: [schema.taskCompletions.clientProgramId, schema.taskCompletions.taskId],
+            set: { responseJson, completedAt: new Date(), reviewStatus, reviewedAt: null, reviewedBy: null },
           })
           .returning();
 
-        app.logger.info({ userId, completionId: completion[0].id }, 'Task completed');
-        return { id: completion[0].id };
+        const programCompleted = await completeProgramIfDone(app, clientProgram.id);
+
+        app.logger.info({ userId, completionId: completion[0].id, programCompleted }, 'Task completed');
+        return { id: completion[0].id, programCompleted };
       } catch (error) {
         app.logger.error({ err: error, userId, taskId: id }, 'Failed to complete task');
         return reply.status(500).send({ error: 'Failed to complete task' });
@@ -374,17 +536,23 @@ export function registerClientRoutes(app: App) {
     }
   );
 
-  // GET /api/client/checkins - Returns checkin history for current client
+  // GET /api/client/checkins - Returns checkin history with theme item responses for current client
   fastify.get(
     '/api/client/checkins',
     {
       schema: {
         description: 'Get checkin history for client',
         tags: ['client'],
+        querystring: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', pattern: DATE_PATTERN },
+          },
+        },
         response: {
           200: {
             type: 'array',
-            items: { type: 'object' },
+            items: { type: 'object', additionalProperties: true },
           },
         },
       },
@@ -396,14 +564,12 @@ export function registerClientRoutes(app: App) {
       const client = await requireClient(session, reply);
       if (!client) return;
 
+      const { date } = request.query as { date?: string };
       const userId = session.user.id;
-      app.logger.info({ userId }, 'Fetching checins');
+      app.logger.info({ userId, date }, 'Fetching checins');
 
       try {
-        const checkins = await app.db
-          .select()
-          .from(schema.checkins)
-          .where(eq(schema.checkins.userId, userId));
+        const checkins = await listCheckins(app, userId, { date });
 
         app.logger.info({ userId, count: checkins.length }, 'Checkins fetched');
         return checkins;
@@ -414,25 +580,103 @@ export function registerClientRoutes(app: App) {
     }
   );
 
-  // POST /api/client/checkins - Creates a new checkin
-  fastify.post(
-    '/api/client/checkins',
+  // GET /api/client/checkins/analytics - Returns the client's own check-in trends and streaks
+  fastify.get(
+    '/api/client/checkins/analytics',
     {
       schema: {
-        description: 'Create a checkin',
+        description: 'Get checkin trend analytics for current client',
         tags: ['client'],
-        body: {
+        querystring: {
           type: 'object',
           properties: {
-            date: { type: 'string' },
-            stress: { type: 'number', minimum: 0, maximum: 10 },
-            energy: { type: 'number', minimum: 0, maximum: 10 },
-            sleep: { type: 'number', minimum: 0, maximum: 10 },
-            mood: { type: 'number', minimum: 0, maximum: 10 },
-            note: { type: ['string', 'null'] },
+            range: { type: 'string', enum: Object.keys(ANALYTICS_RANGES) },
           },
-          required: ['date', 'stress', 'energy', 'sleep', 'mood'],
         },
+        response: {
+          200: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { range = '14d' } = request.query as { range?: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, range }, 'Fetching checkin analytics');
+
+      try {
+        const analytics = await fetchCheckinAnalytics(app, userId, range);
+        const markers = await fetchAnalyticsMarkers(app, userId, {
+          from: analytics.from,
+          to: analytics.to,
+          timezone: analytics.timezone,
+        });
+
+        app.logger.info({ userId, range, checkins: analytics.checkinCount }, 'Checkin analytics fetched');
+        return { ...analytics, markers };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch checkin analytics');
+        return reply.status(500).send({ error: 'Failed to fetch checkin analytics' });
+      }
+    }
+  );
+
+  // GET /api/client/checkins/insights - Returns personal patterns found in recent check-ins
+  fastify.get(
+    '/api/client/checkins/insights',
+    {
+      schema: {
+        description: 'Get personal checkin insights for current client',
+        tags: ['client'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              from: { type: 'string' },
+              to: { type: 'string' },
+              checkinCount: { type: 'number' },
+              insights: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId }, 'Fetching checkin insights');
+
+      try {
+        const result = await fetchCheckinInsights(app, userId);
+
+        app.logger.info({ userId, insights: result.insights.length }, 'Checkin insights fetched');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch checkin insights');
+        return reply.status(500).send({ error: 'Failed to fetch checkin insights' });
+      }
+    }
+  );
+
+  // POST /api/client/checkins - Creates or updates the checkin for a date
+  fastify.post(
+    '/api/client/checkins',
+    {
+      schema: {
+        description: 'Save a checkin; only the provided metrics and theme item responses are updated',
+        tags: ['client'],
+        body: checkinBodySchema,
         response: {
           200: {
             type: 'object',
@@ -448,38 +692,48 @@ export function registerClientRoutes(app: App) {
       const client = await requireClient(session, reply);
       if (!client) return;
 
-      const { date, stress, energy, sleep, mood, note } = request.body as {
-        date: string;
-        stress: number;
-        energy: number;
-        sleep: number;
-        mood: number;
-        note?: string;
-      };
+      const body = request.body as CheckinInput;
       const userId = session.user.id;
 
-      app.logger.info({ userId, date, stress, energy, sleep, mood }, 'Creating checkin');
+      app.logger.info(
+        {
+          userId,
+          date: body.date,
+          stress: body.stress,
+          energy: body.energy,
+          sleep: body.sleep,
+          mood: body.mood,
+          responses: body.responses?.length ?? 0,
+        },
+        'Saving checkin'
+      );
 
       try {
-        const checkin = await app.db
-          .insert(schema.checkins)
-          .values({
-            userId,
-            date: date as any,
-            stress,
-            energy,
-            sleep,
-            mood,
-            note,
-            createdAt: new Date(),
-          })
-          .returning();
+        // Answers are only accepted for items of themes the client has been assigned
+        const itemIds = (body.responses || []).map((response) => response.themeItemId);
+        if (new Set(itemIds).size !== itemIds.length) {
+          return reply.status(400).send({ error: 'Each theme item can only be answered once per checkin' });
+        }
+        const items = new Map((await loadClientThemeItems(app, userId, itemIds)).map((item) => [item.id, item]));
+        for (const response of body.responses || []) {
+          const item = items.get(response.themeItemId);
+          if (!item) {
+            return reply.status(400).send({ error: 'Unknown theme item' });
+          }
+          if (!isValidThemeItemResponse(item, response)) {
+            return reply.status(400).send({ error: `Invalid answer for theme item "${item.label}"` });
+          }
+        }
+
+        const checkin = await saveCheckin(app, userId, body);
+
+        await evaluateCheckinAlerts(app, checkin);
 
-        app.logger.info({ userId, checkinId: checkin[0].id }, 'Checkin created');
-        return { id: checkin[0].id };
+        app.logger.info({ userId, checkinId: checkin.id }, 'Checkin saved');
+        return { id: checkin.id };
       } catch (error) {
-        app.logger.error({ err: error, userId, date }, 'Failed to create checkin');
-        return reply.status(500).send({ error: 'Failed to create checkin' });
+        app.logger.error({ err: error, userId, date: body.date }, 'Failed to save checkin');
+        return reply.status(500).send({ error: 'Failed to save checkin' });
       }
     }
   );
@@ -511,9 +765,22 @@ export function registerClientRoutes(app: App) {
 
       try {
         const appointments = await app.db
-          .select()
+          .select({
+            id: schema.appointments.id,
+            coachId: schema.appointments.coachId,
+            coachName: schema.profiles.name,
+            clientId: schema.appointments.clientId,
+            scheduledAt: schema.appointments.scheduledAt,
+            durationMinutes: schema.appointments.durationMinutes,
+            notes: schema.appointments.notes,
+            status: schema.appointments.status,
+            seriesId: schema.appointments.seriesId,
+            createdAt: schema.appointments.createdAt,
+          })
           .from(schema.appointments)
-          .where(eq(schema.appointments.clientId, userId));
+          .innerJoin(schema.profiles, eq(schema.appointments.coachId, schema.profiles.id))
+          .where(eq(schema.appointments.clientId, userId))
+          .orderBy(asc(schema.appointments.scheduledAt));
 
         app.logger.info({ userId, count: appointments.length }, 'Appointments fetched');
         return appointments;
@@ -524,6 +791,282 @@ export function registerClientRoutes(app: App) {
     }
   );
 
+  // GET /api/client/appointments/free-slots - Returns open slots of the client's coach
+  fastify.get(
+    '/api/client/appointments/free-slots',
+    {
+      schema: {
+        description: 'Get free appointment slots of linked coach',
+        tags: ['client'],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', pattern: DATE_PATTERN },
+            to: { type: 'string', pattern: DATE_PATTERN },
+            durationMinutes: { type: 'integer', minimum: 5, maximum: 480 },
+            coachId: { type: 'string' },
+          },
+          required: ['from', 'to'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              timezone: { type: 'string' },
+              days: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    date: { type: 'string' },
+                    slots: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          startsAt: { type: 'string' },
+                          endsAt: { type: 'string' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { from, to, durationMinutes, coachId } = request.query as {
+        from: string;
+        to: string;
+        durationMinutes?: number;
+        coachId?: string;
+      };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, from, to }, 'Fetching coach free slots');
+
+      const rangeDays = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60000);
+      if (!(rangeDays >= 0) || rangeDays > MAX_FREE_SLOT_RANGE_DAYS) {
+        return reply.status(400).send({ error: `Range must be between 0 and ${MAX_FREE_SLOT_RANGE_DAYS} days` });
+      }
+
+      try {
+        const coachLink = await findActiveCoachLink(userId, coachId);
+
+        if (!coachLink) {
+          return reply.status(404).send({ error: 'No coach linked' });
+        }
+
+        const result = await computeFreeSlots(app, coachLink.coachId, {
+          fromDate: from,
+          toDate: to,
+          durationMinutes: durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES,
+          stepMinutes: CLIENT_SLOT_STEP_MINUTES,
+        });
+
+        app.logger.info({ userId, coachId: coachLink.coachId }, 'Coach free slots fetched');
+        return result;
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch coach free slots');
+        return reply.status(500).send({ error: 'Failed to fetch free slots' });
+      }
+    }
+  );
+
+  // POST /api/client/appointments/requests - Requests a session in one of the coach's open slots
+  fastify.post(
+    '/api/client/appointments/requests',
+    {
+      schema: {
+        description: 'Request appointment with linked coach',
+        tags: ['client'],
+        body: {
+          type: 'object',
+          properties: {
+            scheduledAt: { type: 'string' },
+            durationMinutes: { type: ['number', 'null'], minimum: 5, maximum: 480 },
+            notes: { type: ['string', 'null'] },
+            coachId: { type: 'string' },
+          },
+          required: ['scheduledAt'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              status: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { scheduledAt, durationMinutes, notes, coachId } = request.body as {
+        scheduledAt: string;
+        durationMinutes?: number;
+        notes?: string;
+        coachId?: string;
+      };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, scheduledAt }, 'Requesting appointment');
+
+      if (isNaN(new Date(scheduledAt).getTime())) {
+        return reply.status(400).send({ error: 'Invalid scheduledAt' });
+      }
+
+      try {
+        const coachLink = await findActiveCoachLink(userId, coachId);
+
+        if (!coachLink) {
+          return reply.status(404).send({ error: 'No coach linked' });
+        }
+
+        const rejection = await validateAppointmentSlot(app, {
+          coachId: coachLink.coachId,
+          scheduledAt: new Date(scheduledAt),
+          durationMinutes,
+        });
+        if (rejection) {
+          app.logger.info({ userId, reason: rejection.body.code }, 'Appointment request rejected');
+          // Don't expose other clients' sessions or the coach's private block reasons
+          return reply.status(rejection.status).send({ error: rejection.body.error, code: rejection.body.code });
+        }
+
+        // Clients pick from the offered slots; the coach's own bookings may be anywhere
+        const offered = await isOfferedSlot(
+          app,
+          coachLink.coachId,
+          new Date(scheduledAt),
+          durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES
+        );
+        if (!offered) {
+          app.logger.info({ userId, reason: 'not_offered' }, 'Appointment request rejected');
+          return reply.status(409).send({ error: 'Time is not one of the open slots', code: 'not_offered' });
+        }
+
+        const appointment = await app.db
+          .insert(schema.appointments)
+          .values({
+            coachId: coachLink.coachId,
+            clientId: userId,
+            scheduledAt: new Date(scheduledAt),
+            durationMinutes: durationMinutes || DEFAULT_APPOINTMENT_DURATION_MINUTES,
+            notes,
+            status: 'requested',
+            createdAt: new Date(),
+          })
+          .returning();
+
+        await enqueueNotification(app, {
+          userId: coachLink.coachId,
+          type: 'appointment_requested',
+          title: 'New session request',
+          body: `${client.name || client.email} requested a session.`,
+          data: { appointmentId: appointment[0].id, clientId: userId, scheduledAt },
+        });
+
+        app.logger.info({ userId, appointmentId: appointment[0].id }, 'Appointment requested');
+        return { id: appointment[0].id, status: appointment[0].status };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to request appointment');
+        return reply.status(500).send({ error: 'Failed to request appointment' });
+      }
+    }
+  );
+
+  // PUT /api/client/appointments/:id/cancel - Withdraws a pending request or cancels a session
+  fastify.put(
+    '/api/client/appointments/:id/cancel',
+    {
+      schema: {
+        description: 'Cancel own appointment or appointment request',
+        tags: ['client'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              status: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { id } = request.params as { id: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, appointmentId: id }, 'Cancelling appointment');
+
+      try {
+        const appointment = await app.db.query.appointments.findFirst({
+          where: and(
+            eq(schema.appointments.id, id as any),
+            eq(schema.appointments.clientId, userId)
+          ),
+        });
+
+        if (!appointment) {
+          return reply.status(404).send({ error: 'Appointment not found' });
+        }
+
+        if (appointment.status !== 'requested' && appointment.status !== 'scheduled') {
+          return reply.status(409).send({ error: `Appointment is already ${appointment.status}` });
+        }
+
+        const updated = await app.db
+          .update(schema.appointments)
+          .set({
+            status: 'cancelled',
+            sequence: sql`${schema.appointments.sequence} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.appointments.id, id as any))
+          .returning();
+
+        await withdrawAppointmentReminders(app, appointment.id);
+
+        await enqueueNotification(app, {
+          userId: appointment.coachId,
+          type: 'appointment_cancelled',
+          title: appointment.status === 'requested' ? 'Session request withdrawn' : 'Session cancelled',
+          body: `${client.name || client.email} cancelled a session.`,
+          data: { appointmentId: appointment.id, clientId: userId },
+        });
+
+        app.logger.info({ userId, appointmentId: id }, 'Appointment cancelled');
+        return { id: updated[0].id, status: updated[0].status };
+      } catch (error) {
+        app.logger.error({ err: error, userId, appointmentId: id }, 'Failed to cancel appointment');
+        return reply.status(500).send({ error: 'Failed to cancel appointment' });
+      }
+    }
+  );
+
   // GET /api/client/conversations - Returns conversations for current client
   fastify.get(
     '/api/client/conversations',
@@ -550,10 +1093,7 @@ export function registerClientRoutes(app: App) {
       app.logger.info({ userId }, 'Fetching conversations');
 
       try {
-        const conversations = await app.db
-          .select()
-          .from(schema.conversations)
-          .where(eq(schema.conversations.clientId, userId));
+        const conversations = await listConversationSummaries(app, userId, 'client');
 
         app.logger.info({ userId, count: conversations.length }, 'Conversations fetched');
         return conversations;
@@ -564,6 +1104,64 @@ export function registerClientRoutes(app: App) {
     }
   );
 
+  // POST /api/client/conversations - Returns (or starts) the conversation with the client's coach
+  fastify.post(
+    '/api/client/conversations',
+    {
+      schema: {
+        description: 'Get or create conversation with coach',
+        tags: ['client'],
+        body: {
+          type: ['object', 'null'],
+          properties: {
+            coachId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              coachId: { type: 'string' },
+              clientId: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { coachId } = (request.body ?? {}) as { coachId?: string };
+      const userId = session.user.id;
+      app.logger.info({ userId, coachId }, 'Opening conversation with coach');
+
+      try {
+        const coachLink = await findActiveCoachLink(userId, coachId);
+
+        if (!coachLink) {
+          return reply.status(404).send({ error: 'No coach linked' });
+        }
+
+        const conversation = await getOrCreateConversation(app, coachLink.coachId, userId);
+
+        app.logger.info({ userId, conversationId: conversation.id }, 'Conversation opened');
+        return {
+          id: conversation.id,
+          coachId: conversation.coachId,
+          clientId: conversation.clientId,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to open conversation');
+        return reply.status(500).send({ error: 'Failed to open conversation' });
+      }
+    }
+  );
+
   // GET /api/client/conversations/:id/messages - Returns messages in conversation
   fastify.get(
     '/api/client/conversations/:id/messages',
@@ -572,6 +1170,13 @@ export function registerClientRoutes(app: App) {
         description: 'Get messages in conversation',
         tags: ['client'],
         params: { type: 'object', properties: { id: { type: 'string' } } },
+        querystring: {
+          type: 'object',
+          properties: {
+            before: { type: 'string', format: 'date-time' },
+            limit: { type: 'number' },
+          },
+        },
         response: {
           200: {
             type: 'array',
@@ -588,6 +1193,7 @@ export function registerClientRoutes(app: App) {
       if (!client) return;
 
       const { id } = request.params as { id: string };
+      const { before, limit } = request.query as { before?: string; limit?: number };
       const userId = session.user.id;
 
       app.logger.info({ userId, conversationId: id }, 'Fetching messages');
@@ -605,10 +1211,7 @@ export function registerClientRoutes(app: App) {
           return reply.status(404).send({ error: 'Conversation not found' });
         }
 
-        const messages = await app.db
-          .select()
-          .from(schema.messages)
-          .where(eq(schema.messages.conversationId, id as any));
+        const messages = await fetchConversationMessages(app, id, { before, limit });
 
         app.logger.info({ userId, messageCount: messages.length }, 'Messages fetched');
         return messages;
@@ -1,7 +1,37 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, gte, lt, desc, sql } from 'drizzle-orm';
+import { eq, and, ne, gte, lt, asc, desc, inArray, sql } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
+import {
+  listConversationSummaries,
+  fetchConversationMessages,
+  getOrCreateConversation,
+} from './chat.js';
+import { validateAppointmentSlot, getUserTimezone, BLOCKING_APPOINTMENT_STATUSES } from './availability.js';
+import {
+  RECURRENCE_FREQUENCIES,
+  MAX_SERIES_OCCURRENCES,
+  expandRecurrence,
+  formatRRule,
+  validateOccurrences,
+  updateFollowingOccurrences,
+  seriesRejectionBody,
+} from './recurrence.js';
+import { enqueueNotification, withdrawAppointmentReminders } from './notifications.js';
+import {
+  ANALYTICS_RANGES,
+  fetchCheckinAnalytics,
+  fetchAnalyticsMarkers,
+  fetchThemeItemAnalytics,
+} from './analytics.js';
+import { listCheckins } from './checkins.js';
+
+export const COACH_CLIENT_STATUSES = ['intake', 'active', 'paused', 'completed'];
+
+const CLIENT_SORT_KEYS = ['severity', 'lastCheckin', 'name'];
+
+const DEFAULT_CLIENTS_PAGE_SIZE = 50;
+const MAX_CLIENTS_PAGE_SIZE = 200;
 
 export function registerCoachRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -19,17 +49,32 @@ export function registerCoachRoutes(app: App) {
     return profile;
   };
 
-  // GET /api/coach/clients - Returns all clients linked to coach with status and alerts
+  // GET /api/coach/clients - Returns a page of the coach's clients with last check-in and open alerts
   fastify.get(
     '/api/coach/clients',
     {
       schema: {
-        description: 'Get all clients for coach with status and alerts',
+        description: 'Get clients for coach with status and alerts',
         tags: ['coach'],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: COACH_CLIENT_STATUSES },
+            sort: { type: 'string', enum: CLIENT_SORT_KEYS },
+            order: { type: 'string', enum: ['asc', 'desc'] },
+            limit: { type: 'integer', minimum: 1, maximum: MAX_CLIENTS_PAGE_SIZE },
+            offset: { type: 'integer', minimum: 0 },
+          },
+        },
         response: {
           200: {
-            type: 'array',
-            items: { type: 'object' },
+            type: 'object',
+            properties: {
+              clients: { type: 'array', items: { type: 'object', additionalProperties: true } },
+              total: { type: 'number' },
+              limit: { type: 'number' },
+              offset: { type: 'number' },
+            },
           },
         },
       },
@@ -41,69 +86,109 @@ export function registerCoachRoutes(app: App) {
       const coach = await requireCoach(session, reply);
       if (!coach) return;
 
+      const {
+        status,
+        sort = 'severity',
+        order,
+        limit = DEFAULT_CLIENTS_PAGE_SIZE,
+        offset = 0,
+      } = request.query as { status?: string; sort?: string; order?: 'asc' | 'desc'; limit?: number; offset?: number };
       const coachId = session.user.id;
-      app.logger.info({ coachId }, 'Fetching clients');
+      app.logger.info({ coachId, status, sort, order, limit, offset }, 'Fetching clients');
 
       try {
-        // Get all coach-client relationships
-        const clientLinks = await app.db
-          .select()
-          .from(schema.coachClients)
-          .where(eq(schema.coachClients.coachId, coachId));
-
-        const clientsWithAlerts = await Promise.all(
-          clientLinks.map(async (link) => {
-            const client = await app.db.query.profiles.findFirst({
-              where: eq(schema.profiles.id, link.clientId),
-            });
-
-            // Check for stress alert (3+ times stress >= 8 in last 7 days)
-            const sevenDaysAgo = new Date();
-            sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-            const stressAlerts = await app.db
-              .select({ count: sql<number>`count(*)` })
-              .from(schema.checkins)
-              .where(
-                and(
-                  eq(schema.checkins.userId, link.clientId),
-                  gte(schema.checkins.createdAt, sevenDaysAgo),
-                  gte(schema.checkins.stress, 8)
-                )
-              );
-
-            const stressCount = parseInt(stressAlerts[0].count as any) || 0;
-
-            // Check for no checkin in last 3 days
-            const threeDaysAgo = new Date();
-            threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
-
-            const recentCheckins = await app.db
-              .select()
-              .from(schema.checkins)
-              .where(
-                and(
-                  eq(schema.checkins.userId, link.clientId),
-                  gte(schema.checkins.createdAt, threeDaysAgo)
-                )
-              );
-
-            return {
-              id: link.id,
-              clientId: link.clientId,
-              clientName: client?.name,
-              clientEmail: client?.email,
-              status: link.status,
-              alerts: {
-                highStress: stressCount >= 3,
-                noCheckin: recentCheckins.length === 0,
-              },
-            };
-          })
+        const where = and(
+          eq(schema.coachClients.coachId, coachId),
+          status ? eq(schema.coachClients.status, status) : undefined
         );
 
-        app.logger.info({ coachId, count: clientsWithAlerts.length }, 'Clients fetched');
-        return clientsWithAlerts;
+        // Per-client aggregates are correlated subqueries, so one query returns the whole page
+        const lastCheckinAt = sql<Date | null>`(
+          select max(${schema.checkins.createdAt}) from ${schema.checkins}
+          where ${schema.checkins.userId} = ${schema.coachClients.clientId}
+        )`;
+        const severityRank = sql<number>`coalesce((
+          select max(case ${schema.coachAlerts.severity} when 'high' then 3 when 'medium' then 2 else 1 end)
+          from ${schema.coachAlerts}
+          where ${schema.coachAlerts.coachId} = ${coachId}
+            and ${schema.coachAlerts.clientId} = ${schema.coachClients.clientId}
+            and ${schema.coachAlerts.status} <> 'resolved'
+        ), 0)`;
+        const displayName = sql`lower(coalesce(${schema.profiles.name}, ${schema.profiles.email}))`;
+
+        // Each sort key has a natural direction: most severe first, longest without check-in first, A-Z
+        const direction = (natural: 'asc' | 'desc') => (order || natural) === 'asc' ? sql`asc` : sql`desc`;
+        const orderBy =
+          sort === 'name'
+            ? [sql`${displayName} ${direction('asc')}`]
+            : sort === 'lastCheckin'
+              ? [sql`${lastCheckinAt} ${direction('asc')} nulls first`, sql`${displayName} asc`]
+              : [
+                  sql`${severityRank} ${direction('desc')}`,
+                  sql`${lastCheckinAt} asc nulls first`,
+                  sql`${displayName} asc`,
+                ];
+
+        const rows = await app.db
+          .select({
+            id: schema.coachClients.id,
+            clientId: schema.coachClients.clientId,
+            status: schema.coachClients.status,
+            linkedAt: schema.coachClients.createdAt,
+            clientName: schema.profiles.name,
+            clientEmail: schema.profiles.email,
+            lastCheckinAt,
+          })
+          .from(schema.coachClients)
+          .innerJoin(schema.profiles, eq(schema.profiles.id, schema.coachClients.clientId))
+          .where(where)
+          .orderBy(...orderBy)
+          .limit(limit)
+          .offset(offset);
+
+        const [{ count }] = await app.db
+          .select({ count: sql<number>`count(*)` })
+          .from(schema.coachClients)
+          .where(where);
+
+        // Unresolved alerts for the clients on this page
+        const clientIds = rows.map((row) => row.clientId);
+        const openAlerts =
+          clientIds.length > 0
+            ? await app.db
+                .select({
+                  id: schema.coachAlerts.id,
+                  clientId: schema.coachAlerts.clientId,
+                  title: schema.coachAlerts.title,
+                  severity: schema.coachAlerts.severity,
+                  status: schema.coachAlerts.status,
+                })
+                .from(schema.coachAlerts)
+                .where(
+                  and(
+                    eq(schema.coachAlerts.coachId, coachId),
+                    inArray(schema.coachAlerts.clientId, clientIds),
+                    ne(schema.coachAlerts.status, 'resolved')
+                  )
+                )
+                .orderBy(desc(schema.coachAlerts.triggeredAt))
+            : [];
+
+        const clients = rows.map((row) => ({
+          id: row.id,
+          clientId: row.clientId,
+          clientName: row.clientName,
+          clientEmail: row.clientEmail,
+          status: row.status,
+          linkedAt: row.linkedAt.toISOString(),
+          lastCheckinAt: row.lastCheckinAt ? new Date(row.lastCheckinAt).toISOString() : null,
+          alerts: openAlerts
+            .filter((alert) => alert.clientId === row.clientId)
+            .map(({ clientId: _clientId, ...alert }) => alert),
+        }));
+
+        app.logger.info({ coachId, count: clients.length, total: Number(count) }, 'Clients fetched');
+        return { clients, total: Number(count), limit, offset };
       } catch (error) {
         app.logger.error({ err: error, coachId }, 'Failed to fetch clients');
         return reply.status(500).send({ error: 'Failed to fetch clients' });
@@ -171,7 +256,7 @@ export function registerCoachRoutes(app: App) {
     }
   );
 
-  // GET /api/coach/clients/:id/checkins - Returns checkin history for specific client
+  // GET /api/coach/clients/:id/checkins - Returns checkin history with theme item responses for specific client
   fastify.get(
     '/api/coach/clients/:id/checkins',
     {
@@ -212,10 +297,7 @@ export function registerCoachRoutes(app: App) {
           return reply.status(404).send({ error: 'Client not found' });
         }
 
-        const checkins = await app.db
-          .select()
-          .from(schema.checkins)
-          .where(eq(schema.checkins.userId, id as any));
+        const checkins = await listCheckins(app, id);
 
         app.logger.info({ coachId, clientId: id, count: checkins.length }, 'Checkins fetched');
         return checkins;
@@ -229,6 +311,77 @@ export function registerCoachRoutes(app: App) {
     }
   );
 
+  // GET /api/coach/clients/:id/checkins/analytics - Returns check-in trends with appointment and program markers
+  // and per theme item aggregates
+  fastify.get(
+    '/api/coach/clients/:id/checkins/analytics',
+    {
+      schema: {
+        description: 'Get checkin trend analytics for client',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        querystring: {
+          type: 'object',
+          properties: {
+            range: { type: 'string', enum: Object.keys(ANALYTICS_RANGES) },
+          },
+        },
+        response: {
+          200: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { range = '14d' } = request.query as { range?: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId: id, range }, 'Fetching client checkin analytics');
+
+      try {
+        // Verify coach-client relationship
+        const clientLink = await app.db.query.coachClients.findFirst({
+          where: and(
+            eq(schema.coachClients.coachId, coachId),
+            eq(schema.coachClients.clientId, id as any)
+          ),
+        });
+
+        if (!clientLink) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const analytics = await fetchCheckinAnalytics(app, id, range);
+        const markers = await fetchAnalyticsMarkers(app, id, {
+          from: analytics.from,
+          to: analytics.to,
+          timezone: analytics.timezone,
+          coachId,
+        });
+        const themeItems = await fetchThemeItemAnalytics(app, id, {
+          from: analytics.from,
+          to: analytics.to,
+          coachId,
+        });
+
+        app.logger.info(
+          { coachId, clientId: id, range, checkins: analytics.checkinCount },
+          'Client checkin analytics fetched'
+        );
+        return { ...analytics, markers, themeItems };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId: id }, 'Failed to fetch client checkin analytics');
+        return reply.status(500).send({ error: 'Failed to fetch checkin analytics' });
+      }
+    }
+  );
+
   // GET /api/coach/clients/:id/notes - Returns coach notes for client
   fastify.get(
     '/api/coach/clients/:id/notes',
@@ -473,13 +626,21 @@ export function registerCoachRoutes(app: App) {
     }
   );
 
-  // GET /api/coach/programs - Returns program templates created by coach
+  // GET /api/coach/appointments - Returns appointments for coach, optionally within a date range
   fastify.get(
-    '/api/coach/programs',
+    '/api/coach/appointments',
     {
       schema: {
-        description: 'Get program templates for coach',
+        description: 'Get appointments for coach',
         tags: ['coach'],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string' },
+            to: { type: 'string' },
+            clientId: { type: 'string' },
+          },
+        },
         response: {
           200: {
             type: 'array',
@@ -495,43 +656,84 @@ export function registerCoachRoutes(app: App) {
       const coach = await requireCoach(session, reply);
       if (!coach) return;
 
+      const { from, to, clientId } = request.query as { from?: string; to?: string; clientId?: string };
       const coachId = session.user.id;
-      app.logger.info({ coachId }, 'Fetching programs');
+      app.logger.info({ coachId, from, to, clientId }, 'Fetching appointments');
 
       try {
-        const programs = await app.db
-          .select()
-          .from(schema.programTemplates)
-          .where(eq(schema.programTemplates.coachId, coachId));
+        const conditions = [eq(schema.appointments.coachId, coachId)];
+        if (from) {
+          conditions.push(gte(schema.appointments.scheduledAt, new Date(from)));
+        }
+        if (to) {
+          conditions.push(lt(schema.appointments.scheduledAt, new Date(to)));
+        }
+        if (clientId) {
+          conditions.push(eq(schema.appointments.clientId, clientId as any));
+        }
 
-        app.logger.info({ coachId, count: programs.length }, 'Programs fetched');
-        return programs;
+        const appointments = await app.db
+          .select({
+            id: schema.appointments.id,
+            coachId: schema.appointments.coachId,
+            clientId: schema.appointments.clientId,
+            clientName: schema.profiles.name,
+            clientEmail: schema.profiles.email,
+            scheduledAt: schema.appointments.scheduledAt,
+            durationMinutes: schema.appointments.durationMinutes,
+            notes: schema.appointments.notes,
+            status: schema.appointments.status,
+            seriesId: schema.appointments.seriesId,
+            createdAt: schema.appointments.createdAt,
+          })
+          .from(schema.appointments)
+          .innerJoin(schema.profiles, eq(schema.appointments.clientId, schema.profiles.id))
+          .where(and(...conditions))
+          .orderBy(asc(schema.appointments.scheduledAt));
+
+        app.logger.info({ coachId, count: appointments.length }, 'Appointments fetched');
+        return appointments;
       } catch (error) {
-        app.logger.error({ err: error, coachId }, 'Failed to fetch programs');
-        return reply.status(500).send({ error: 'Failed to fetch programs' });
+        app.logger.error({ err: error, coachId }, 'Failed to fetch appointments');
+        return reply.status(500).send({ error: 'Failed to fetch appointments' });
       }
     }
   );
 
-  // POST /api/coach/programs - Creates program template
+  // POST /api/coach/appointments - Creates appointment
   fastify.post(
-    '/api/coach/programs',
+    '/api/coach/appointments',
     {
       schema: {
-        description: 'Create program template',
+        description: 'Create appointment',
         tags: ['coach'],
         body: {
           type: 'object',
           properties: {
-            title: { type: 'string' },
-            description: { type: ['string', 'null'] },
+            clientId: { type: 'string' },
+            scheduledAt: { type: 'string' },
+            durationMinutes: { type: ['number', 'null'], minimum: 5, maximum: 480 },
+            notes: { type: ['string', 'null'] },
+            recurrence: {
+              type: ['object', 'null'],
+              properties: {
+                frequency: { type: 'string', enum: RECURRENCE_FREQUENCIES },
+                count: { type: ['number', 'null'], minimum: 2, maximum: MAX_SERIES_OCCURRENCES },
+                until: { type: ['string', 'null'] },
+              },
+              required: ['frequency'],
+            },
           },
-          required: ['title'],
+          required: ['clientId', 'scheduledAt'],
         },
         response: {
           200: {
             type: 'object',
-            properties: { id: { type: 'string' } },
+            properties: {
+              id: { type: 'string' },
+              seriesId: { type: ['string', 'null'] },
+              occurrences: { type: 'number' },
+            },
           },
         },
       },
@@ -543,49 +745,153 @@ export function registerCoachRoutes(app: App) {
       const coach = await requireCoach(session, reply);
       if (!coach) return;
 
-      const { title, description } = request.body as {
-        title: string;
-        description?: string;
+      const { clientId, scheduledAt, durationMinutes, notes, recurrence } = request.body as {
+        clientId: string;
+        scheduledAt: string;
+        durationMinutes?: number;
+        notes?: string;
+        recurrence?: { frequency: string; count?: number | null; until?: string | null } | null;
       };
       const coachId = session.user.id;
 
-      app.logger.info({ coachId, title }, 'Creating program');
+      app.logger.info({ coachId, clientId, recurring: !!recurrence }, 'Creating appointment');
+
+      if (isNaN(new Date(scheduledAt).getTime())) {
+        return reply.status(400).send({ error: 'Invalid scheduledAt' });
+      }
+
+      if (recurrence) {
+        if (!recurrence.count && !recurrence.until) {
+          return reply.status(400).send({ error: 'Recurrence requires a count or an until date' });
+        }
+        if (recurrence.until && isNaN(new Date(recurrence.until).getTime())) {
+          return reply.status(400).send({ error: 'Invalid recurrence until' });
+        }
+      }
 
       try {
-        const program = await app.db
-          .insert(schema.programTemplates)
+        // Verify coach-client relationship
+        const clientLink = await app.db.query.coachClients.findFirst({
+          where: and(
+            eq(schema.coachClients.coachId, coachId),
+            eq(schema.coachClients.clientId, clientId as any)
+          ),
+        });
+
+        if (!clientLink) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        if (recurrence) {
+          const rule = {
+            frequency: recurrence.frequency,
+            count: recurrence.count,
+            until: recurrence.until ? new Date(recurrence.until) : null,
+          };
+          const timeZone = await getUserTimezone(app, coachId);
+          const starts = expandRecurrence(new Date(scheduledAt), rule, timeZone);
+
+          // Every occurrence has to fit; a partially booked series is worse than none
+          const rejections = await validateOccurrences(app, { coachId, starts, durationMinutes });
+          if (rejections.length > 0) {
+            app.logger.info({ coachId, clientId, rejected: rejections.length }, 'Appointment series rejected');
+            return reply.status(409).send(seriesRejectionBody(rejections));
+          }
+
+          // The series and its occurrences are stored together or not at all
+          const { series, occurrences } = await app.db.transaction(async (tx) => {
+            const [series] = await tx
+              .insert(schema.appointmentSeries)
+              .values({
+                coachId,
+                clientId: clientId as any,
+                frequency: rule.frequency,
+                count: rule.count || null,
+                until: rule.until,
+                startsAt: starts[0],
+                durationMinutes,
+                notes,
+              })
+              .returning();
+
+            const occurrences = await tx
+              .insert(schema.appointments)
+              .values(
+                starts.map((start) => ({
+                  coachId,
+                  clientId: clientId as any,
+                  scheduledAt: start,
+                  durationMinutes,
+                  notes,
+                  status: 'scheduled',
+                  seriesId: series.id,
+                  createdAt: new Date(),
+                }))
+              )
+              .returning();
+
+            return { series, occurrences };
+          });
+
+          app.logger.info(
+            { coachId, seriesId: series.id, occurrences: occurrences.length, rrule: formatRRule(series) },
+            'Appointment series created'
+          );
+          return { id: occurrences[0].id, seriesId: series.id, occurrences: occurrences.length };
+        }
+
+        // Reject past times, slots outside availability and double bookings
+        const rejection = await validateAppointmentSlot(app, {
+          coachId,
+          scheduledAt: new Date(scheduledAt),
+          durationMinutes,
+        });
+        if (rejection) {
+          app.logger.info({ coachId, clientId, reason: rejection.body.code }, 'Appointment slot rejected');
+          return reply.status(rejection.status).send(rejection.body);
+        }
+
+        const appointment = await app.db
+          .insert(schema.appointments)
           .values({
             coachId,
-            title,
-            description,
-            published: false,
+            clientId: clientId as any,
+            scheduledAt: new Date(scheduledAt),
+            durationMinutes,
+            notes,
+            status: 'scheduled',
             createdAt: new Date(),
           })
           .returning();
 
-        app.logger.info({ coachId, programId: program[0].id }, 'Program created');
-        return { id: program[0].id };
+        app.logger.info({ coachId, appointmentId: appointment[0].id }, 'Appointment created');
+        return { id: appointment[0].id, seriesId: null, occurrences: 1 };
       } catch (error) {
-        app.logger.error({ err: error, coachId, title }, 'Failed to create program');
-        return reply.status(500).send({ error: 'Failed to create program' });
+        app.logger.error({ err: error, coachId, clientId }, 'Failed to create appointment');
+        return reply.status(500).send({ error: 'Failed to create appointment' });
       }
     }
   );
 
-  // PUT /api/coach/programs/:id - Updates program
+  // PUT /api/coach/appointments/:id - Updates appointment
   fastify.put(
-    '/api/coach/programs/:id',
+    '/api/coach/appointments/:id',
     {
       schema: {
-        description: 'Update program template',
+        description: 'Update appointment',
         tags: ['coach'],
         params: { type: 'object', properties: { id: { type: 'string' } } },
         body: {
           type: 'object',
           properties: {
-            title: { type: ['string', 'null'] },
-            description: { type: ['string', 'null'] },
-            published: { type: ['boolean', 'null'] },
+            scheduledAt: { type: ['string', 'null'] },
+            durationMinutes: { type: ['number', 'null'], minimum: 5, maximum: 480 },
+            notes: { type: ['string', 'null'] },
+            status: {
+              type: ['string', 'null'],
+              enum: ['scheduled', 'completed', 'cancelled'],
+            },
+            scope: { type: 'string', enum: ['this', 'following'] },
           },
         },
         response: {
@@ -604,59 +910,121 @@ export function registerCoachRoutes(app: App) {
       if (!coach) return;
 
       const { id } = request.params as { id: string };
-      const { title, description, published } = request.body as {
-        title?: string;
-        description?: string;
-        published?: boolean;
+      const { scheduledAt, durationMinutes, notes, status, scope } = request.body as {
+        scheduledAt?: string;
+        durationMinutes?: number;
+        notes?: string;
+        status?: string;
+        scope?: 'this' | 'following';
       };
       const coachId = session.user.id;
 
-      app.logger.info({ coachId, programId: id }, 'Updating program');
+      app.logger.info({ coachId, appointmentId: id }, 'Updating appointment');
+
+      if (scheduledAt && isNaN(new Date(scheduledAt).getTime())) {
+        return reply.status(400).send({ error: 'Invalid scheduledAt' });
+      }
 
       try {
-        // Verify coach owns this program
-        const program = await app.db.query.programTemplates.findFirst({
+        // Verify coach owns this appointment
+        const appointment = await app.db.query.appointments.findFirst({
           where: and(
-            eq(schema.programTemplates.id, id as any),
-            eq(schema.programTemplates.coachId, coachId)
+            eq(schema.appointments.id, id as any),
+            eq(schema.appointments.coachId, coachId)
           ),
         });
 
-        if (!program) {
-          return reply.status(404).send({ error: 'Program not found' });
+        if (!appointment) {
+          return reply.status(404).send({ error: 'Appointment not found' });
+        }
+
+        // The editor sends every field; only values that differ count as a change
+        const movedTo =
+          scheduledAt && new Date(scheduledAt).getTime() !== appointment.scheduledAt.getTime()
+            ? new Date(scheduledAt)
+            : undefined;
+        const newDuration =
+          durationMinutes != null && durationMinutes !== appointment.durationMinutes ? durationMinutes : undefined;
+        const newStatus = status != null && status !== appointment.status ? status : undefined;
+
+        // "This and following" rewrites the rest of the series; "this" only touches this occurrence
+        if (scope === 'following' && appointment.seriesId) {
+          const rejection = await updateFollowingOccurrences(app, appointment, {
+            scheduledAt: movedTo,
+            durationMinutes: newDuration,
+            notes,
+            status: newStatus,
+          });
+          if (rejection) {
+            app.logger.info({ coachId, appointmentId: id, reason: rejection.body.code }, 'Series update rejected');
+            return reply.status(rejection.status).send(rejection.body);
+          }
+
+          app.logger.info({ coachId, appointmentId: id }, 'Appointment series updated');
+          return { id: appointment.id };
+        }
+
+        // Re-validate the slot when an active appointment moves, changes length or is reactivated
+        const moved = movedTo !== undefined || newDuration !== undefined;
+        const reactivated =
+          newStatus !== undefined && !BLOCKING_APPOINTMENT_STATUSES.includes(appointment.status);
+        const nextStatus = newStatus ?? appointment.status;
+        if ((moved || reactivated) && BLOCKING_APPOINTMENT_STATUSES.includes(nextStatus)) {
+          const rejection = await validateAppointmentSlot(app, {
+            coachId,
+            scheduledAt: movedTo ?? appointment.scheduledAt,
+            durationMinutes: newDuration ?? appointment.durationMinutes,
+            excludeAppointmentIds: [appointment.id],
+          });
+          if (rejection) {
+            app.logger.info({ coachId, appointmentId: id, reason: rejection.body.code }, 'Appointment slot rejected');
+            return reply.status(rejection.status).send(rejection.body);
+          }
         }
 
         const updated = await app.db
-          .update(schema.programTemplates)
+          .update(schema.appointments)
           .set({
-            title: title !== undefined ? title : undefined,
-            description: description !== undefined ? description : undefined,
-            published: published !== undefined ? published : undefined,
+            scheduledAt: movedTo,
+            durationMinutes: newDuration,
+            notes: notes !== undefined ? notes : undefined,
+            status: newStatus as any,
+            // Calendar clients only need a new sequence when the event itself changed
+            sequence: moved || newStatus !== undefined ? sql`${schema.appointments.sequence} + 1` : undefined,
+            updatedAt: new Date(),
           })
-          .where(eq(schema.programTemplates.id, id as any))
+          .where(eq(schema.appointments.id, id as any))
           .returning();
 
-        app.logger.info({ coachId, programId: id }, 'Program updated');
+        // Reminders are re-queued by the scheduler for the new time, if still scheduled
+        if (movedTo || newStatus !== undefined) {
+          await withdrawAppointmentReminders(app, appointment.id);
+        }
+
+        app.logger.info({ coachId, appointmentId: id }, 'Appointment updated');
         return { id: updated[0].id };
       } catch (error) {
-        app.logger.error({ err: error, coachId, programId: id }, 'Failed to update program');
-        return reply.status(500).send({ error: 'Failed to update program' });
+        app.logger.error({ err: error, coachId, appointmentId: id }, 'Failed to update appointment');
+        return reply.status(500).send({ error: 'Failed to update appointment' });
       }
     }
   );
 
-  // DELETE /api/coach/programs/:id - Deletes program template
-  fastify.delete(
-    '/api/coach/programs/:id',
+  // PUT /api/coach/appointments/:id/approve - Confirms a session requested by a client
+  fastify.put(
+    '/api/coach/appointments/:id/approve',
     {
       schema: {
-        description: 'Delete program template',
+        description: 'Approve appointment request',
         tags: ['coach'],
         params: { type: 'object', properties: { id: { type: 'string' } } },
         response: {
           200: {
             type: 'object',
-            properties: { message: { type: 'string' } },
+            properties: {
+              id: { type: 'string' },
+              status: { type: 'string' },
+            },
           },
         },
       },
@@ -671,132 +1039,84 @@ export function registerCoachRoutes(app: App) {
       const { id } = request.params as { id: string };
       const coachId = session.user.id;
 
-      app.logger.info({ coachId, programId: id }, 'Deleting program');
+      app.logger.info({ coachId, appointmentId: id }, 'Approving appointment request');
 
       try {
-        // Verify coach owns this program
-        const program = await app.db.query.programTemplates.findFirst({
+        const appointment = await app.db.query.appointments.findFirst({
           where: and(
-            eq(schema.programTemplates.id, id as any),
-            eq(schema.programTemplates.coachId, coachId)
+            eq(schema.appointments.id, id as any),
+            eq(schema.appointments.coachId, coachId)
           ),
         });
 
-        if (!program) {
-          return reply.status(404).send({ error: 'Program not found' });
+        if (!appointment) {
+          return reply.status(404).send({ error: 'Appointment not found' });
         }
 
-        await app.db
-          .delete(schema.programTemplates)
-          .where(eq(schema.programTemplates.id, id as any));
-
-        app.logger.info({ coachId, programId: id }, 'Program deleted');
-        return { message: 'Program deleted' };
-      } catch (error) {
-        app.logger.error({ err: error, coachId, programId: id }, 'Failed to delete program');
-        return reply.status(500).send({ error: 'Failed to delete program' });
-      }
-    }
-  );
-
-  // POST /api/coach/programs/:id/weeks - Adds week to program
-  fastify.post(
-    '/api/coach/programs/:id/weeks',
-    {
-      schema: {
-        description: 'Add week to program',
-        tags: ['coach'],
-        params: { type: 'object', properties: { id: { type: 'string' } } },
-        body: {
-          type: 'object',
-          properties: {
-            weekNumber: { type: 'number' },
-            title: { type: ['string', 'null'] },
-          },
-          required: ['weekNumber'],
-        },
-        response: {
-          200: {
-            type: 'object',
-            properties: { id: { type: 'string' } },
-          },
-        },
-      },
-    },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const session = await requireAuth(request, reply);
-      if (!session) return;
-
-      const coach = await requireCoach(session, reply);
-      if (!coach) return;
-
-      const { id } = request.params as { id: string };
-      const { weekNumber, title } = request.body as {
-        weekNumber: number;
-        title?: string;
-      };
-      const coachId = session.user.id;
-
-      app.logger.info({ coachId, programId: id, weekNumber }, 'Creating week');
+        if (appointment.status !== 'requested') {
+          return reply.status(409).send({ error: 'Appointment is not awaiting approval' });
+        }
 
-      try {
-        // Verify coach owns this program
-        const program = await app.db.query.programTemplates.findFirst({
-          where: and(
-            eq(schema.programTemplates.id, id as any),
-            eq(schema.programTemplates.coachId, coachId)
-          ),
+        // The slot may have been taken or blocked since the request was made
+        const rejection = await validateAppointmentSlot(app, {
+          coachId,
+          scheduledAt: appointment.scheduledAt,
+          durationMinutes: appointment.durationMinutes,
+          excludeAppointmentIds: [appointment.id],
         });
-
-        if (!program) {
-          return reply.status(404).send({ error: 'Program not found' });
+        if (rejection) {
+          app.logger.info({ coachId, appointmentId: id, reason: rejection.body.code }, 'Appointment approval rejected');
+          return reply.status(rejection.status).send(rejection.body);
         }
 
-        const week = await app.db
-          .insert(schema.programWeeks)
-          .values({
-            programId: id as any,
-            weekNumber,
-            title,
-            createdAt: new Date(),
+        const updated = await app.db
+          .update(schema.appointments)
+          .set({
+            status: 'scheduled',
+            sequence: sql`${schema.appointments.sequence} + 1`,
+            updatedAt: new Date(),
           })
+          .where(eq(schema.appointments.id, id as any))
           .returning();
 
-        app.logger.info({ coachId, weekId: week[0].id }, 'Week created');
-        return { id: week[0].id };
+        await enqueueNotification(app, {
+          userId: appointment.clientId,
+          type: 'appointment_approved',
+          title: 'Session confirmed',
+          body: `${coach.name || 'Your coach'} confirmed your session.`,
+          data: { appointmentId: appointment.id, scheduledAt: appointment.scheduledAt.toISOString() },
+        });
+
+        app.logger.info({ coachId, appointmentId: id }, 'Appointment request approved');
+        return { id: updated[0].id, status: updated[0].status };
       } catch (error) {
-        app.logger.error({ err: error, coachId, programId: id }, 'Failed to create week');
-        return reply.status(500).send({ error: 'Failed to create week' });
+        app.logger.error({ err: error, coachId, appointmentId: id }, 'Failed to approve appointment');
+        return reply.status(500).send({ error: 'Failed to approve appointment' });
       }
     }
   );
 
-  // POST /api/coach/programs/:id/tasks - Adds task to program
-  fastify.post(
-    '/api/coach/programs/:id/tasks',
+  // PUT /api/coach/appointments/:id/decline - Declines a session requested by a client
+  fastify.put(
+    '/api/coach/appointments/:id/decline',
     {
       schema: {
-        description: 'Add task to program',
+        description: 'Decline appointment request',
         tags: ['coach'],
         params: { type: 'object', properties: { id: { type: 'string' } } },
         body: {
           type: 'object',
           properties: {
-            weekId: { type: 'string' },
-            type: {
-              type: 'string',
-              enum: ['reflection', 'exercise', 'reading', 'audio'],
-            },
-            title: { type: 'string' },
-            contentJson: { type: 'object' },
-            orderIndex: { type: ['number', 'null'] },
+            reason: { type: ['string', 'null'] },
           },
-          required: ['weekId', 'type', 'title'],
         },
         response: {
           200: {
             type: 'object',
-            properties: { id: { type: 'string' } },
+            properties: {
+              id: { type: 'string' },
+              status: { type: 'string' },
+            },
           },
         },
       },
@@ -809,142 +1129,60 @@ export function registerCoachRoutes(app: App) {
       if (!coach) return;
 
       const { id } = request.params as { id: string };
-      const { weekId, type, title, contentJson, orderIndex } = request.body as {
-        weekId: string;
-        type: string;
-        title: string;
-        contentJson?: any;
-        orderIndex?: number;
-      };
+      const { reason } = (request.body || {}) as { reason?: string };
       const coachId = session.user.id;
 
-      app.logger.info({ coachId, programId: id, type, title }, 'Creating task');
+      app.logger.info({ coachId, appointmentId: id }, 'Declining appointment request');
 
       try {
-        // Verify coach owns this program
-        const week = await app.db.query.programWeeks.findFirst({
-          where: eq(schema.programWeeks.id, weekId as any),
-        });
-
-        if (!week) {
-          return reply.status(404).send({ error: 'Week not found' });
-        }
-
-        const program = await app.db.query.programTemplates.findFirst({
+        const appointment = await app.db.query.appointments.findFirst({
           where: and(
-            eq(schema.programTemplates.id, week.programId),
-            eq(schema.programTemplates.coachId, coachId)
+            eq(schema.appointments.id, id as any),
+            eq(schema.appointments.coachId, coachId)
           ),
         });
 
-        if (!program) {
-          return reply.status(404).send({ error: 'Program not found' });
+        if (!appointment) {
+          return reply.status(404).send({ error: 'Appointment not found' });
         }
 
-        const task = await app.db
-          .insert(schema.programTasks)
-          .values({
-            weekId: weekId as any,
-            type: type as any,
-            title,
-            contentJson,
-            orderIndex,
-            createdAt: new Date(),
-          })
-          .returning();
-
-        app.logger.info({ coachId, taskId: task[0].id }, 'Task created');
-        return { id: task[0].id };
-      } catch (error) {
-        app.logger.error({ err: error, coachId, programId: id }, 'Failed to create task');
-        return reply.status(500).send({ error: 'Failed to create task' });
-      }
-    }
-  );
-
-  // POST /api/coach/clients/:clientId/assign-program - Assigns program to client
-  fastify.post(
-    '/api/coach/clients/:clientId/assign-program',
-    {
-      schema: {
-        description: 'Assign program to client',
-        tags: ['coach'],
-        params: { type: 'object', properties: { clientId: { type: 'string' } } },
-        body: {
-          type: 'object',
-          properties: { programId: { type: 'string' } },
-          required: ['programId'],
-        },
-        response: {
-          200: {
-            type: 'object',
-            properties: { id: { type: 'string' } },
-          },
-        },
-      },
-    },
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      const session = await requireAuth(request, reply);
-      if (!session) return;
-
-      const coach = await requireCoach(session, reply);
-      if (!coach) return;
-
-      const { clientId } = request.params as { clientId: string };
-      const { programId } = request.body as { programId: string };
-      const coachId = session.user.id;
-
-      app.logger.info({ coachId, clientId, programId }, 'Assigning program');
-
-      try {
-        // Verify coach owns this program and has client link
-        const program = await app.db.query.programTemplates.findFirst({
-          where: and(
-            eq(schema.programTemplates.id, programId as any),
-            eq(schema.programTemplates.coachId, coachId)
-          ),
-        });
-
-        if (!program) {
-          return reply.status(404).send({ error: 'Program not found' });
+        if (appointment.status !== 'requested') {
+          return reply.status(409).send({ error: 'Appointment is not awaiting approval' });
         }
 
-        const clientLink = await app.db.query.coachClients.findFirst({
-          where: and(
-            eq(schema.coachClients.coachId, coachId),
-            eq(schema.coachClients.clientId, clientId as any)
-          ),
-        });
-
-        if (!clientLink) {
-          return reply.status(404).send({ error: 'Client not found' });
-        }
-
-        const assignment = await app.db
-          .insert(schema.clientPrograms)
-          .values({
-            clientId: clientId as any,
-            programId: programId as any,
-            assignedBy: coachId,
-            assignedAt: new Date(),
+        const updated = await app.db
+          .update(schema.appointments)
+          .set({
+            status: 'cancelled',
+            sequence: sql`${schema.appointments.sequence} + 1`,
+            updatedAt: new Date(),
           })
+          .where(eq(schema.appointments.id, id as any))
           .returning();
 
-        app.logger.info({ coachId, assignmentId: assignment[0].id }, 'Program assigned');
-        return { id: assignment[0].id };
+        await enqueueNotification(app, {
+          userId: appointment.clientId,
+          type: 'appointment_declined',
+          title: 'Session request declined',
+          body: reason || `${coach.name || 'Your coach'} could not accept your requested time.`,
+          data: { appointmentId: appointment.id, scheduledAt: appointment.scheduledAt.toISOString() },
+        });
+
+        app.logger.info({ coachId, appointmentId: id }, 'Appointment request declined');
+        return { id: updated[0].id, status: updated[0].status };
       } catch (error) {
-        app.logger.error({ err: error, coachId, clientId, programId }, 'Failed to assign program');
-        return reply.status(500).send({ error: 'Failed to assign program' });
+        app.logger.error({ err: error, coachId, appointmentId: id }, 'Failed to decline appointment');
+        return reply.status(500).send({ error: 'Failed to decline appointment' });
       }
     }
   );
 
-  // GET /api/coach/appointments - Returns all appointments for coach
+  // GET /api/coach/conversations - Returns coach inbox with unread counts
   fastify.get(
-    '/api/coach/appointments',
+    '/api/coach/conversations',
     {
       schema: {
-        description: 'Get appointments for coach',
+        description: 'Get conversations for coach',
         tags: ['coach'],
         response: {
           200: {
@@ -962,44 +1200,36 @@ export function registerCoachRoutes(app: App) {
       if (!coach) return;
 
       const coachId = session.user.id;
-      app.logger.info({ coachId }, 'Fetching appointments');
+      app.logger.info({ coachId }, 'Fetching conversations');
 
       try {
-        const appointments = await app.db
-          .select()
-          .from(schema.appointments)
-          .where(eq(schema.appointments.coachId, coachId));
+        const conversations = await listConversationSummaries(app, coachId, 'coach');
 
-        app.logger.info({ coachId, count: appointments.length }, 'Appointments fetched');
-        return appointments;
+        app.logger.info({ coachId, count: conversations.length }, 'Conversations fetched');
+        return conversations;
       } catch (error) {
-        app.logger.error({ err: error, coachId }, 'Failed to fetch appointments');
-        return reply.status(500).send({ error: 'Failed to fetch appointments' });
+        app.logger.error({ err: error, coachId }, 'Failed to fetch conversations');
+        return reply.status(500).send({ error: 'Failed to fetch conversations' });
       }
     }
   );
 
-  // POST /api/coach/appointments - Creates appointment
+  // POST /api/coach/clients/:id/conversation - Returns (or starts) the conversation with a client
   fastify.post(
-    '/api/coach/appointments',
+    '/api/coach/clients/:id/conversation',
     {
       schema: {
-        description: 'Create appointment',
+        description: 'Get or create conversation with client',
         tags: ['coach'],
-        body: {
-          type: 'object',
-          properties: {
-            clientId: { type: 'string' },
-            scheduledAt: { type: 'string' },
-            durationMinutes: { type: ['number', 'null'] },
-            notes: { type: ['string', 'null'] },
-          },
-          required: ['clientId', 'scheduledAt'],
-        },
+        params: { type: 'object', properties: { id: { type: 'string' } } },
         response: {
           200: {
             type: 'object',
-            properties: { id: { type: 'string' } },
+            properties: {
+              id: { type: 'string' },
+              coachId: { type: 'string' },
+              clientId: { type: 'string' },
+            },
           },
         },
       },
@@ -1011,22 +1241,17 @@ export function registerCoachRoutes(app: App) {
       const coach = await requireCoach(session, reply);
       if (!coach) return;
 
-      const { clientId, scheduledAt, durationMinutes, notes } = request.body as {
-        clientId: string;
-        scheduledAt: string;
-        durationMinutes?: number;
-        notes?: string;
-      };
+      const { id } = request.params as { id: string };
       const coachId = session.user.id;
 
-      app.logger.info({ coachId, clientId }, 'Creating appointment');
+      app.logger.info({ coachId, clientId: id }, 'Opening conversation with client');
 
       try {
         // Verify coach-client relationship
         const clientLink = await app.db.query.coachClients.findFirst({
           where: and(
             eq(schema.coachClients.coachId, coachId),
-            eq(schema.coachClients.clientId, clientId as any)
+            eq(schema.coachClients.clientId, id as any)
           ),
         });
 
@@ -1034,52 +1259,40 @@ export function registerCoachRoutes(app: App) {
           return reply.status(404).send({ error: 'Client not found' });
         }
 
-        const appointment = await app.db
-          .insert(schema.appointments)
-          .values({
-            coachId,
-            clientId: clientId as any,
-            scheduledAt: new Date(scheduledAt),
-            durationMinutes,
-            notes,
-            status: 'scheduled',
-            createdAt: new Date(),
-          })
-          .returning();
+        const conversation = await getOrCreateConversation(app, coachId, id);
 
-        app.logger.info({ coachId, appointmentId: appointment[0].id }, 'Appointment created');
-        return { id: appointment[0].id };
+        app.logger.info({ coachId, conversationId: conversation.id }, 'Conversation opened');
+        return {
+          id: conversation.id,
+          coachId: conversation.coachId,
+          clientId: conversation.clientId,
+        };
       } catch (error) {
-        app.logger.error({ err: error, coachId, clientId }, 'Failed to create appointment');
-        return reply.status(500).send({ error: 'Failed to create appointment' });
+        app.logger.error({ err: error, coachId, clientId: id }, 'Failed to open conversation');
+        return reply.status(500).send({ error: 'Failed to open conversation' });
       }
     }
   );
 
-  // PUT /api/coach/appointments/:id - Updates appointment
-  fastify.put(
-    '/api/coach/appointments/:id',
+  // GET /api/coach/conversations/:id/messages - Returns messages in conversation
+  fastify.get(
+    '/api/coach/conversations/:id/messages',
     {
       schema: {
-        description: 'Update appointment',
+        description: 'Get messages in conversation',
         tags: ['coach'],
         params: { type: 'object', properties: { id: { type: 'string' } } },
-        body: {
+        querystring: {
           type: 'object',
           properties: {
-            scheduledAt: { type: ['string', 'null'] },
-            durationMinutes: { type: ['number', 'null'] },
-            notes: { type: ['string', 'null'] },
-            status: {
-              type: ['string', 'null'],
-              enum: ['scheduled', 'completed', 'cancelled'],
-            },
+            before: { type: 'string', format: 'date-time' },
+            limit: { type: 'number' },
           },
         },
         response: {
           200: {
-            type: 'object',
-            properties: { id: { type: 'string' } },
+            type: 'array',
+            items: { type: 'object' },
           },
         },
       },
@@ -1092,45 +1305,31 @@ export function registerCoachRoutes(app: App) {
       if (!coach) return;
 
       const { id } = request.params as { id: string };
-      const { scheduledAt, durationMinutes, notes, status } = request.body as {
-        scheduledAt?: string;
-        durationMinutes?: number;
-        notes?: string;
-        status?: string;
-      };
+      const { before, limit } = request.query as { before?: string; limit?: number };
       const coachId = session.user.id;
 
-      app.logger.info({ coachId, appointmentId: id }, 'Updating appointment');
+      app.logger.info({ coachId, conversationId: id }, 'Fetching messages');
 
       try {
-        // Verify coach owns this appointment
-        const appointment = await app.db.query.appointments.findFirst({
+        // Verify coach is participant in conversation
+        const conversation = await app.db.query.conversations.findFirst({
           where: and(
-            eq(schema.appointments.id, id as any),
-            eq(schema.appointments.coachId, coachId)
+            eq(schema.conversations.id, id as any),
+            eq(schema.conversations.coachId, coachId)
           ),
         });
 
-        if (!appointment) {
-          return reply.status(404).send({ error: 'Appointment not found' });
+        if (!conversation) {
+          return reply.status(404).send({ error: 'Conversation not found' });
         }
 
-        const updated = await app.db
-          .update(schema.appointments)
-          .set({
-            scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
-            durationMinutes: durationMinutes !== undefined ? durationMinutes : undefined,
-            notes: notes !== undefined ? notes : undefined,
-            status: status !== undefined ? (status as any) : undefined,
-          })
-          .where(eq(schema.appointments.id, id as any))
-          .returning();
+        const messages = await fetchConversationMessages(app, id, { before, limit });
 
-        app.logger.info({ coachId, appointmentId: id }, 'Appointment updated');
-        return { id: updated[0].id };
+        app.logger.info({ coachId, messageCount: messages.length }, 'Messages fetched');
+        return messages;
       } catch (error) {
-        app.logger.error({ err: error, coachId, appointmentId: id }, 'Failed to update appointment');
-        return reply.status(500).send({ error: 'Failed to update appointment' });
+        app.logger.error({ err: error, coachId }, 'Failed to fetch messages');
+        return reply.status(500).send({ error: 'Failed to fetch messages' });
       }
     }
   );
@@ -0,0 +1,479 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { randomBytes } from 'node:crypto';
+import { resend } from '@specific-dev/framework';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+
+// Without 0/O and 1/I so codes can be read out and typed over
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const INVITE_CODE_LENGTH = 8;
+
+const MAX_INVITE_USES = 100;
+
+const MAX_INVITE_DAYS = 90;
+
+export type InviteStatus = 'active' | 'used' | 'expired' | 'revoked';
+
+type InviteRow = typeof schema.clientInvites.$inferSelect;
+
+const generateInviteCode = () =>
+  Array.from(randomBytes(INVITE_CODE_LENGTH), (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+
+// Codes are typed by hand, so case and surrounding spaces are ignored
+const normalizeInviteCode = (code: string) => code.trim().toUpperCase();
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Profile names are free text, so they are escaped before going into email HTML
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+/**
+ * Whether an invite can still be claimed. Revoking wins over the other states,
+ * so a revoked invite never shows up as expired or used.
+ */
+export const inviteStatus = (invite: InviteRow, now = new Date()): InviteStatus => {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.useCount >= invite.maxUses) return 'used';
+  if (invite.expiresAt && invite.expiresAt <= now) return 'expired';
+  return 'active';
+};
+
+const INVITE_REJECTIONS: Record<Exclude<InviteStatus, 'active'>, { status: number; error: string }> = {
+  revoked: { status: 410, error: 'Invite code has been revoked' },
+  used: { status: 410, error: 'Invite code has already been used' },
+  expired: { status: 410, error: 'Invite code has expired' },
+};
+
+const inviteSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    code: { type: 'string' },
+    email: { type: ['string', 'null'] },
+    maxUses: { type: 'number' },
+    useCount: { type: 'number' },
+    expiresAt: { type: ['string', 'null'] },
+    revokedAt: { type: ['string', 'null'] },
+    lastSentAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+    status: { type: 'string' },
+    emailSent: { type: 'boolean' },
+    claims: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          clientId: { type: 'string' },
+          name: { type: ['string', 'null'] },
+          email: { type: 'string' },
+          claimedAt: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+export function registerInviteRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // Helper to check if user is a coach
+  const requireCoach = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'coach') {
+      reply.status(403).send({ error: 'Forbidden: coach role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to check if user is a client
+  const requireClient = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'client') {
+      reply.status(403).send({ error: 'Forbidden: client role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to load an invite only when the coach created it
+  const findCoachInvite = (coachId: string, inviteId: string) =>
+    app.db.query.clientInvites.findFirst({
+      where: and(eq(schema.clientInvites.id, inviteId as any), eq(schema.clientInvites.coachId, coachId)),
+    });
+
+  // Sends the code to the invite's email address; failures are logged and reported to the caller
+  const sendInviteEmail = async (invite: InviteRow, coachName: string) => {
+    if (!invite.email) return false;
+    try {
+      const expiry = invite.expiresAt
+        ? `<p>The code is valid until ${invite.expiresAt.toISOString().slice(0, 10)}.</p>`
+        : '';
+      await resend.emails.send({
+        from: 'BCCT <noreply@example.com>',
+        to: invite.email,
+        // Line breaks would end the subject header early
+        subject: `${coachName.replace(/[\r\n]+/g, ' ')} invited you to BCCT`,
+        html: `<p>${escapeHtml(coachName)} invited you to join BCCT as their client.</p><p>Sign up in the app as a client and enter this code: <strong>${invite.code}</strong></p>${expiry}`,
+      });
+      await app.db
+        .update(schema.clientInvites)
+        .set({ lastSentAt: new Date() })
+        .where(eq(schema.clientInvites.id, invite.id));
+      return true;
+    } catch (error) {
+      app.logger.error({ err: error, inviteId: invite.id }, 'Failed to send invite email');
+      return false;
+    }
+  };
+
+  // GET /api/coach/invites - Returns the coach's invites, newest first, with status and who claimed them
+  fastify.get(
+    '/api/coach/invites',
+    {
+      schema: {
+        description: 'Get invites of coach',
+        tags: ['invites'],
+        response: {
+          200: { type: 'array', items: inviteSchema },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const coachId = session.user.id;
+      app.logger.info({ coachId }, 'Fetching invites');
+
+      try {
+        const invites = await app.db
+          .select()
+          .from(schema.clientInvites)
+          .where(eq(schema.clientInvites.coachId, coachId))
+          .orderBy(desc(schema.clientInvites.createdAt));
+
+        const claims =
+          invites.length === 0
+            ? []
+            : await app.db
+                .select({
+                  inviteId: schema.clientInviteClaims.inviteId,
+                  clientId: schema.clientInviteClaims.clientId,
+                  name: schema.profiles.name,
+                  email: schema.profiles.email,
+                  claimedAt: schema.clientInviteClaims.createdAt,
+                })
+                .from(schema.clientInviteClaims)
+                .innerJoin(schema.profiles, eq(schema.profiles.id, schema.clientInviteClaims.clientId))
+                .where(
+                  inArray(
+                    schema.clientInviteClaims.inviteId,
+                    invites.map((invite) => invite.id)
+                  )
+                );
+
+        const now = new Date();
+        app.logger.info({ coachId, count: invites.length }, 'Invites fetched');
+        return invites.map((invite) => ({
+          ...invite,
+          status: inviteStatus(invite, now),
+          claims: claims.filter((claim) => claim.inviteId === invite.id),
+        }));
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch invites');
+        return reply.status(500).send({ error: 'Failed to fetch invites' });
+      }
+    }
+  );
+
+  // POST /api/coach/invites - Creates an invite code, optionally emailed to the client
+  fastify.post(
+    '/api/coach/invites',
+    {
+      schema: {
+        description: 'Create invite',
+        tags: ['invites'],
+        body: {
+          type: 'object',
+          properties: {
+            email: { type: ['string', 'null'], format: 'email' },
+            maxUses: { type: 'integer', minimum: 1, maximum: MAX_INVITE_USES },
+            expiresInDays: { type: ['integer', 'null'], minimum: 1, maximum: MAX_INVITE_DAYS },
+          },
+        },
+        response: {
+          201: inviteSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const body = (request.body || {}) as { email?: string | null; maxUses?: number; expiresInDays?: number | null };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, email: body.email, maxUses: body.maxUses, expiresInDays: body.expiresInDays }, 'Creating invite');
+
+      try {
+        const expiresAt = body.expiresInDays ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+        // A fresh code collides only by chance, so retry a few times on the unique index
+        let invite: InviteRow | undefined;
+        for (let attempt = 0; attempt < 5 && !invite; attempt++) {
+          [invite] = await app.db
+            .insert(schema.clientInvites)
+            .values({
+              coachId,
+              code: generateInviteCode(),
+              email: body.email?.trim().toLowerCase() || null,
+              maxUses: body.maxUses ?? 1,
+              expiresAt,
+            })
+            .onConflictDoNothing({ target: schema.clientInvites.code })
+            .returning();
+        }
+        if (!invite) {
+          throw new Error('Could not generate a unique invite code');
+        }
+
+        const emailSent = await sendInviteEmail(invite, coach.name || coach.email);
+
+        app.logger.info({ coachId, inviteId: invite.id, emailSent }, 'Invite created');
+        return reply.status(201).send({ ...invite, status: inviteStatus(invite), emailSent, claims: [] });
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to create invite');
+        return reply.status(500).send({ error: 'Failed to create invite' });
+      }
+    }
+  );
+
+  // POST /api/coach/invites/:id/revoke - Revokes an invite so it can no longer be claimed
+  fastify.post(
+    '/api/coach/invites/:id/revoke',
+    {
+      schema: {
+        description: 'Revoke invite',
+        tags: ['invites'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: inviteSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, inviteId: id }, 'Revoking invite');
+
+      try {
+        const existing = await findCoachInvite(coachId, id);
+        if (!existing) {
+          return reply.status(404).send({ error: 'Invite not found' });
+        }
+
+        // Revoking twice keeps the original revoke time
+        const [invite] = existing.revokedAt
+          ? [existing]
+          : await app.db
+              .update(schema.clientInvites)
+              .set({ revokedAt: new Date() })
+              .where(eq(schema.clientInvites.id, existing.id))
+              .returning();
+
+        app.logger.info({ coachId, inviteId: id }, 'Invite revoked');
+        return { ...invite, status: inviteStatus(invite) };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, inviteId: id }, 'Failed to revoke invite');
+        return reply.status(500).send({ error: 'Failed to revoke invite' });
+      }
+    }
+  );
+
+  // POST /api/coach/invites/:id/resend - Emails the code again, optionally to another address
+  fastify.post(
+    '/api/coach/invites/:id/resend',
+    {
+      schema: {
+        description: 'Resend invite email',
+        tags: ['invites'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            email: { type: 'string', format: 'email' },
+          },
+        },
+        response: {
+          200: inviteSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { email } = (request.body || {}) as { email?: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, inviteId: id, email }, 'Resending invite');
+
+      try {
+        let invite = await findCoachInvite(coachId, id);
+        if (!invite) {
+          return reply.status(404).send({ error: 'Invite not found' });
+        }
+
+        const status = inviteStatus(invite);
+        if (status !== 'active') {
+          return reply.status(400).send({ error: INVITE_REJECTIONS[status].error, code: status });
+        }
+
+        if (email) {
+          [invite] = await app.db
+            .update(schema.clientInvites)
+            .set({ email: email.trim().toLowerCase() })
+            .where(eq(schema.clientInvites.id, invite.id))
+            .returning();
+        }
+        if (!invite.email) {
+          return reply.status(400).send({ error: 'Invite has no email address' });
+        }
+
+        const emailSent = await sendInviteEmail(invite, coach.name || coach.email);
+        if (!emailSent) {
+          return reply.status(502).send({ error: 'Failed to send invite email' });
+        }
+
+        app.logger.info({ coachId, inviteId: id }, 'Invite resent');
+        return { ...invite, lastSentAt: new Date(), status, emailSent };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, inviteId: id }, 'Failed to resend invite');
+        return reply.status(500).send({ error: 'Failed to resend invite' });
+      }
+    }
+  );
+
+  // POST /api/client/invites/claim - Links the client to the invite's coach in intake status
+  fastify.post(
+    '/api/client/invites/claim',
+    {
+      schema: {
+        description: 'Claim invite code',
+        tags: ['invites'],
+        body: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 1 },
+          },
+          required: ['code'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              coachId: { type: 'string' },
+              coachName: { type: ['string', 'null'] },
+              status: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { code } = request.body as { code: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId }, 'Claiming invite');
+
+      try {
+        // The invite row stays locked until the link is written, so concurrent claims cannot exceed max uses
+        const result = await app.db.transaction(async (tx) => {
+          const [invite] = await tx
+            .select()
+            .from(schema.clientInvites)
+            .where(eq(schema.clientInvites.code, normalizeInviteCode(code)))
+            .for('update');
+          if (!invite) {
+            return { rejection: { status: 404, error: 'Invalid invite code', code: 'invalid' } };
+          }
+
+          const status = inviteStatus(invite);
+          if (status !== 'active') {
+            return { rejection: { ...INVITE_REJECTIONS[status], code: status } };
+          }
+
+          const existing = await tx.query.coachClients.findFirst({
+            where: and(
+              eq(schema.coachClients.coachId, invite.coachId),
+              eq(schema.coachClients.clientId, userId)
+            ),
+          });
+          if (existing) {
+            return {
+              rejection: { status: 409, error: 'Already linked to this coach', code: 'already_linked' },
+            };
+          }
+
+          const [link] = await tx
+            .insert(schema.coachClients)
+            .values({ coachId: invite.coachId, clientId: userId, status: 'intake' })
+            .returning();
+          await tx.insert(schema.clientInviteClaims).values({ inviteId: invite.id, clientId: userId });
+          await tx
+            .update(schema.clientInvites)
+            .set({ useCount: sql`${schema.clientInvites.useCount} + 1` })
+            .where(eq(schema.clientInvites.id, invite.id));
+
+          return { link, inviteId: invite.id };
+        });
+
+        if ('rejection' in result && result.rejection) {
+          const { status, ...body } = result.rejection;
+          return reply.status(status).send(body);
+        }
+
+        const coach = await app.db.query.profiles.findFirst({
+          where: eq(schema.profiles.id, result.link.coachId),
+        });
+
+        app.logger.info({ userId, inviteId: result.inviteId, coachId: result.link.coachId }, 'Invite claimed');
+        return { coachId: result.link.coachId, coachName: coach?.name ?? null, status: result.link.status };
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to claim invite');
+        return reply.status(500).send({ error: 'Failed to claim invite' });
+      }
+    }
+  );
+}
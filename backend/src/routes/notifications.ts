@@ -1,7 +1,162 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, lte } from 'drizzle-orm';
+import { eq, and, or, gt, gte, lte, isNull, like } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getUserTimezone,
+  getZonedDateParts,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from './availability.js';
+
+// Minutes before an appointment that clients are reminded by default
+export const DEFAULT_APPOINTMENT_REMINDER_OFFSETS = [24 * 60, 60];
+
+// Longest supported reminder offset; also how far ahead the scheduler looks
+const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+const appointmentReminderKey = (appointmentId: string, scheduledAt: Date, offsetMinutes: number) =>
+  `appointment_reminder:${appointmentId}:${scheduledAt.toISOString()}:${offsetMinutes}`;
+
+// "24 hours", "1 hour", "2 days", "30 minutes"
+const describeReminderOffset = (minutes: number) => {
+  const [value, unit] =
+    minutes % 1440 === 0 && minutes > 1440
+      ? [minutes / 1440, 'day']
+      : minutes % 60 === 0
+        ? [minutes / 60, 'hour']
+        : [minutes, 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+};
+
+type NotificationPrefsRow = typeof schema.notificationPrefs.$inferSelect;
+
+export interface QuietHoursWindow {
+  start: string;
+  end: string;
+}
+
+// Notification categories users can opt out of, keyed as in the prefs API
+export const NOTIFICATION_CATEGORIES = {
+  chatMessage: 'chatMessagesEnabled',
+  appointmentReminder: 'appointmentRemindersEnabled',
+  checkinReminder: 'checkinRemindersEnabled',
+  programUpdate: 'programUpdatesEnabled',
+  coachAlert: 'coachAlertsEnabled',
+} as const;
+
+export type NotificationCategory = keyof typeof NOTIFICATION_CATEGORIES;
+
+// Outbox types per category; types not listed here are always delivered
+const NOTIFICATION_TYPE_CATEGORIES: Record<string, NotificationCategory> = {
+  chat_message: 'chatMessage',
+  appointment_reminder: 'appointmentReminder',
+  appointment_requested: 'appointmentReminder',
+  appointment_approved: 'appointmentReminder',
+  appointment_declined: 'appointmentReminder',
+  appointment_cancelled: 'appointmentReminder',
+  daily_checkin_reminder: 'checkinReminder',
+  program_update: 'programUpdate',
+  task_feedback: 'programUpdate',
+  coach_alert: 'coachAlert',
+};
+
+const TIME_OF_DAY_PATTERN = '^([01]\\d|2[0-3]):[0-5]\\d$';
+
+const MAX_QUIET_HOURS_WINDOWS = 3;
+
+const timeOfDayToMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether the user wants pushes of this outbox type. Missing prefs mean everything is on.
+ */
+export const isNotificationTypeEnabled = (prefs: NotificationPrefsRow | undefined, type: string) => {
+  if (!prefs) {
+    return true;
+  }
+  if (!prefs.pushEnabled) {
+    return false;
+  }
+  const category = NOTIFICATION_TYPE_CATEGORIES[type];
+  return category ? prefs[NOTIFICATION_CATEGORIES[category]] : true;
+};
+
+/**
+ * Returns when the quiet-hours window the user is currently in ends, or null when
+ * pushes may go out now. Windows may cross midnight (e.g. 22:00–07:00).
+ */
+export const getQuietHoursEnd = (prefs: NotificationPrefsRow | undefined, now: Date) => {
+  const windows = (prefs?.quietHours as QuietHoursWindow[] | null) ?? [];
+  if (windows.length === 0) {
+    return null;
+  }
+
+  const timeZone = resolveTimezone(prefs?.timezone);
+  const local = getZonedDateParts(now, timeZone);
+
+  let latestEnd: Date | null = null;
+  for (const window of windows) {
+    const start = timeOfDayToMinutes(window.start);
+    const end = timeOfDayToMinutes(window.end);
+    if (start === end) {
+      continue;
+    }
+
+    let endDateKey: string | null = null;
+    if (start < end) {
+      if (local.minutes >= start && local.minutes < end) endDateKey = local.dateKey;
+    } else if (local.minutes >= start) {
+      endDateKey = addDaysToDateKey(local.dateKey, 1);
+    } else if (local.minutes < end) {
+      endDateKey = local.dateKey;
+    }
+
+    if (endDateKey) {
+      const windowEnd = zonedTimeToUtc(endDateKey, window.end, timeZone);
+      if (!latestEnd || windowEnd > latestEnd) latestEnd = windowEnd;
+    }
+  }
+  return latestEnd;
+};
+
+const serializePrefs = (prefs: NotificationPrefsRow) => ({
+  userId: prefs.userId,
+  pushEnabled: prefs.pushEnabled,
+  dailyCheckinTime: prefs.dailyCheckinTime,
+  timezone: prefs.timezone,
+  appointmentReminderOffsets: prefs.appointmentReminderOffsets ?? DEFAULT_APPOINTMENT_REMINDER_OFFSETS,
+  categories: Object.fromEntries(
+    Object.entries(NOTIFICATION_CATEGORIES).map(([category, column]) => [category, prefs[column]])
+  ),
+  quietHours: (prefs.quietHours as QuietHoursWindow[] | null) ?? [],
+});
+
+const prefsResponseSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    pushEnabled: { type: 'boolean' },
+    dailyCheckinTime: { type: ['string', 'null'] },
+    timezone: { type: ['string', 'null'] },
+    appointmentReminderOffsets: { type: 'array', items: { type: 'integer' } },
+    categories: {
+      type: 'object',
+      properties: Object.fromEntries(Object.keys(NOTIFICATION_CATEGORIES).map((category) => [category, { type: 'boolean' }])),
+    },
+    quietHours: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { start: { type: 'string' }, end: { type: 'string' } },
+      },
+    },
+  },
+};
 
 export function registerNotificationRoutes(app: App) {
   const requireAuth = app.requireAuth();
@@ -15,15 +170,7 @@ export function registerNotificationRoutes(app: App) {
         description: 'Get notification preferences',
         tags: ['notifications'],
         response: {
-          200: {
-            type: 'object',
-            properties: {
-              userId: { type: 'string' },
-              pushEnabled: { type: 'boolean' },
-              dailyCheckinTime: { type: ['string', 'null'] },
-              timezone: { type: ['string', 'null'] },
-            },
-          },
+          200: prefsResponseSchema,
         },
       },
     },
@@ -46,7 +193,7 @@ export function registerNotificationRoutes(app: App) {
             .values({
               userId,
               pushEnabled: true,
-              timezone: 'UTC',
+              timezone: DEFAULT_TIMEZONE,
               updatedAt: new Date(),
             })
             .returning();
@@ -56,12 +203,7 @@ export function registerNotificationRoutes(app: App) {
 
         app.logger.info({ userId }, 'Notification preferences fetched');
 
-        return {
-          userId: prefs.userId,
-          pushEnabled: prefs.pushEnabled,
-          dailyCheckinTime: prefs.dailyCheckinTime,
-          timezone: prefs.timezone,
-        };
+        return serializePrefs(prefs);
       } catch (error) {
         app.logger.error({ err: error, userId }, 'Failed to fetch preferences');
         return reply.status(500).send({ error: 'Failed to fetch preferences' });
@@ -80,20 +222,36 @@ export function registerNotificationRoutes(app: App) {
           type: 'object',
           properties: {
             pushEnabled: { type: ['boolean', 'null'] },
-            dailyCheckinTime: { type: ['string', 'null'] },
+            dailyCheckinTime: { type: ['string', 'null'], pattern: '^([01]\\d|2[0-3]):[0-5]\\d(:[0-5]\\d)?$' },
             timezone: { type: ['string', 'null'] },
+            appointmentReminderOffsets: {
+              type: ['array', 'null'],
+              items: { type: 'integer', minimum: 5, maximum: MAX_REMINDER_OFFSET_MINUTES },
+              maxItems: 3,
+            },
+            categories: {
+              type: 'object',
+              properties: Object.fromEntries(
+                Object.keys(NOTIFICATION_CATEGORIES).map((category) => [category, { type: 'boolean' }])
+              ),
+              additionalProperties: false,
+            },
+            quietHours: {
+              type: ['array', 'null'],
+              maxItems: MAX_QUIET_HOURS_WINDOWS,
+              items: {
+                type: 'object',
+                properties: {
+                  start: { type: 'string', pattern: TIME_OF_DAY_PATTERN },
+                  end: { type: 'string', pattern: TIME_OF_DAY_PATTERN },
+                },
+                required: ['start', 'end'],
+              },
+            },
           },
         },
         response: {
-          200: {
-            type: 'object',
-            properties: {
-              userId: { type: 'string' },
-              pushEnabled: { type: 'boolean' },
-              dailyCheckinTime: { type: ['string', 'null'] },
-              timezone: { type: ['string', 'null'] },
-            },
-          },
+          200: prefsResponseSchema,
         },
       },
     },
@@ -102,14 +260,22 @@ export function registerNotificationRoutes(app: App) {
       if (!session) return;
 
       const userId = session.user.id;
-      const { pushEnabled, dailyCheckinTime, timezone } = request.body as {
-        pushEnabled?: boolean;
-        dailyCheckinTime?: string;
-        timezone?: string;
-      };
+      const { pushEnabled, dailyCheckinTime, timezone, appointmentReminderOffsets, categories, quietHours } =
+        request.body as {
+          pushEnabled?: boolean;
+          dailyCheckinTime?: string;
+          timezone?: string;
+          appointmentReminderOffsets?: number[] | null;
+          categories?: Partial<Record<NotificationCategory, boolean>>;
+          quietHours?: QuietHoursWindow[] | null;
+        };
 
       app.logger.info({ userId }, 'Updating notification preferences');
 
+      if (timezone && resolveTimezone(timezone) !== timezone) {
+        return reply.status(400).send({ error: 'Invalid timezone' });
+      }
+
       try {
         // Ensure prefs exist
         const existing = await app.db.query.notificationPrefs.findFirst({
@@ -120,7 +286,7 @@ export function registerNotificationRoutes(app: App) {
           await app.db.insert(schema.notificationPrefs).values({
             userId,
             pushEnabled: true,
-            timezone: 'UTC',
+            timezone: DEFAULT_TIMEZONE,
             updatedAt: new Date(),
           });
         }
@@ -131,19 +297,38 @@ export function registerNotificationRoutes(app: App) {
             pushEnabled: pushEnabled !== undefined ? pushEnabled : undefined,
             dailyCheckinTime: dailyCheckinTime !== undefined ? (dailyCheckinTime as any) : undefined,
             timezone: timezone !== undefined ? timezone : undefined,
+            appointmentReminderOffsets:
+              appointmentReminderOffsets !== undefined
+                ? appointmentReminderOffsets && [...new Set(appointmentReminderOffsets)].sort((a, b) => b - a)
+                : undefined,
+            ...Object.fromEntries(
+              Object.entries(categories || {}).map(([category, enabled]) => [
+                NOTIFICATION_CATEGORIES[category as NotificationCategory],
+                enabled,
+              ])
+            ),
+            quietHours: quietHours !== undefined ? (quietHours?.length ? quietHours : null) : undefined,
             updatedAt: new Date(),
           })
           .where(eq(schema.notificationPrefs.userId, userId))
           .returning();
 
+        // Queued reminders were timed with the old offsets; the scheduler re-creates them
+        if (appointmentReminderOffsets !== undefined) {
+          await app.db
+            .delete(schema.notificationsOutbox)
+            .where(
+              and(
+                eq(schema.notificationsOutbox.userId, userId),
+                eq(schema.notificationsOutbox.type, 'appointment_reminder'),
+                isNull(schema.notificationsOutbox.sentAt)
+              )
+            );
+        }
+
         app.logger.info({ userId }, 'Notification preferences updated');
 
-        return {
-          userId: updated[0].userId,
-          pushEnabled: updated[0].pushEnabled,
-          dailyCheckinTime: updated[0].dailyCheckinTime,
-          timezone: updated[0].timezone,
-        };
+        return serializePrefs(updated[0]);
       } catch (error) {
         app.logger.error({ err: error, userId }, 'Failed to update preferences');
         return reply.status(500).send({ error: 'Failed to update preferences' });
@@ -338,51 +523,204 @@ export function registerNotificationRoutes(app: App) {
   );
 }
 
-// Server function to schedule notifications (can be called by cron job)
-export async function scheduleNotifications(app: App) {
-  app.logger.info('Running notification scheduler');
+// Server function to queue a notification for delivery to a user
+export async function enqueueNotification(
+  app: App,
+  notification: {
+    userId: string;
+    type: string;
+    title: string;
+    body?: string;
+    data?: Record<string, unknown>;
+    sendAfter?: Date;
+  }
+) {
+  const inserted = await app.db
+    .insert(schema.notificationsOutbox)
+    .values({
+      userId: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      dataJson: notification.data,
+      sendAfter: notification.sendAfter || new Date(),
+      createdAt: new Date(),
+    })
+    .returning();
+
+  app.logger.info({ userId: notification.userId, type: notification.type, notificationId: inserted[0].id }, 'Notification queued');
+  return inserted[0];
+}
 
-  try {
-    // Get all users with notification prefs enabled
-    const usersWithPrefs = await app.db.query.notificationPrefs.findMany({
-      where: eq(schema.notificationPrefs.pushEnabled, true),
+// Server function to remove queued, unsent reminders for an appointment that was moved or cancelled
+export async function withdrawAppointmentReminders(
+  app: App,
+  appointmentId: string,
+  db: Pick<App['db'], 'delete'> = app.db
+) {
+  const withdrawn = await db
+    .delete(schema.notificationsOutbox)
+    .where(
+      and(
+        isNull(schema.notificationsOutbox.sentAt),
+        like(schema.notificationsOutbox.dedupeKey, `appointment_reminder:${appointmentId}:%`)
+      )
+    )
+    .returning({ id: schema.notificationsOutbox.id });
+
+  if (withdrawn.length > 0) {
+    app.logger.info({ appointmentId, count: withdrawn.length }, 'Appointment reminders withdrawn');
+  }
+}
+
+// Queue reminders for upcoming scheduled appointments at each client's offsets
+async function scheduleAppointmentReminders(app: App) {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60000);
+
+  const upcoming = await app.db
+    .select({
+      id: schema.appointments.id,
+      clientId: schema.appointments.clientId,
+      scheduledAt: schema.appointments.scheduledAt,
+      coachName: schema.profiles.name,
+      pushEnabled: schema.notificationPrefs.pushEnabled,
+      remindersEnabled: schema.notificationPrefs.appointmentRemindersEnabled,
+      offsets: schema.notificationPrefs.appointmentReminderOffsets,
+    })
+    .from(schema.appointments)
+    .innerJoin(schema.profiles, eq(schema.appointments.coachId, schema.profiles.id))
+    .leftJoin(schema.notificationPrefs, eq(schema.notificationPrefs.userId, schema.appointments.clientId))
+    .where(
+      and(
+        eq(schema.appointments.status, 'scheduled'),
+        gt(schema.appointments.scheduledAt, now),
+        lte(schema.appointments.scheduledAt, horizon)
+      )
+    );
+
+  let queued = 0;
+  for (const appointment of upcoming) {
+    if (appointment.pushEnabled === false || appointment.remindersEnabled === false) {
+      continue;
+    }
+
+    const offsets = appointment.offsets ?? DEFAULT_APPOINTMENT_REMINDER_OFFSETS;
+    const dueOffsets = offsets.filter(
+      (offsetMinutes) => appointment.scheduledAt.getTime() - offsetMinutes * 60000 > now.getTime()
+    );
+    if (dueOffsets.length === 0) {
+      continue;
+    }
+
+    const timeZone = await getUserTimezone(app, appointment.clientId);
+    const startTime = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' }).format(
+      appointment.scheduledAt
+    );
+
+    for (const offsetMinutes of dueOffsets) {
+      // The dedupe key makes repeated runs a no-op for reminders that are already queued
+      const inserted = await app.db
+        .insert(schema.notificationsOutbox)
+        .values({
+          userId: appointment.clientId,
+          type: 'appointment_reminder',
+          title: 'Upcoming session',
+          body: `Your session with ${appointment.coachName || 'your coach'} starts in ${describeReminderOffset(offsetMinutes)} (${startTime}).`,
+          dataJson: {
+            appointmentId: appointment.id,
+            scheduledAt: appointment.scheduledAt.toISOString(),
+            offsetMinutes,
+          },
+          sendAfter: new Date(appointment.scheduledAt.getTime() - offsetMinutes * 60000),
+          dedupeKey: appointmentReminderKey(appointment.id, appointment.scheduledAt, offsetMinutes),
+          createdAt: new Date(),
+        })
+        .onConflictDoNothing()
+        .returning({ id: schema.notificationsOutbox.id });
+      queued += inserted.length;
+    }
+  }
+
+  if (queued > 0) {
+    app.logger.info({ appointments: upcoming.length, queued }, 'Appointment reminders scheduled');
+  }
+}
+
+// Queue today's check-in reminder for users whose local reminder time has passed
+async function scheduleDailyCheckinReminders(app: App) {
+  const now = new Date();
+
+  // Get all users with notification prefs enabled
+  const usersWithPrefs = await app.db.query.notificationPrefs.findMany({
+    where: and(
+      eq(schema.notificationPrefs.pushEnabled, true),
+      eq(schema.notificationPrefs.checkinRemindersEnabled, true)
+    ),
+  });
+
+  let queued = 0;
+  for (const prefs of usersWithPrefs) {
+    if (!prefs.dailyCheckinTime) {
+      continue;
+    }
+
+    // "Today" and the reminder time are both taken in the user's own time zone
+    const timeZone = resolveTimezone(prefs.timezone);
+    const today = getZonedDateParts(now, timeZone).dateKey;
+    const sendTime = zonedTimeToUtc(today, prefs.dailyCheckinTime, timeZone);
+    if (sendTime > now) {
+      continue;
+    }
+
+    // Check-ins dated by the client in UTC can carry yesterday's date shortly after local midnight
+    const startOfToday = zonedTimeToUtc(today, '00:00', timeZone);
+    const todayCheckin = await app.db.query.checkins.findFirst({
+      where: and(
+        eq(schema.checkins.userId, prefs.userId),
+        or(eq(schema.checkins.date, today), gte(schema.checkins.createdAt, startOfToday))
+      ),
     });
+    if (todayCheckin) {
+      continue;
+    }
 
-    for (const prefs of usersWithPrefs) {
-      // Check if user has checked in today
-      const today = new Date().toISOString().split('T')[0];
-      const todayCheckin = await app.db.query.checkins.findFirst({
-        where: and(
-          eq(schema.checkins.userId, prefs.userId),
-          eq(schema.checkins.date, today as any)
-        ),
-      });
-
-      // If no checkin yet and it's past the scheduled time, create notification
-      if (!todayCheckin && prefs.dailyCheckinTime) {
-        const sendTime = new Date();
-        const [hours, minutes] = prefs.dailyCheckinTime.split(':');
-        sendTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-
-        // Only create if we're past the scheduled time
-        if (sendTime < new Date()) {
-          await app.db
-            .insert(schema.notificationsOutbox)
-            .values({
-              userId: prefs.userId,
-              type: 'daily_checkin_reminder',
-              title: 'Daily Check-in',
-              body: 'How are you doing today? Time for your daily check-in.',
-              sendAfter: new Date(),
-              createdAt: new Date(),
-            });
-
-          app.logger.info({ userId: prefs.userId }, 'Daily checkin reminder created');
-        }
-      }
+    // One reminder per local day, however often the scheduler runs
+    const inserted = await app.db
+      .insert(schema.notificationsOutbox)
+      .values({
+        userId: prefs.userId,
+        type: 'daily_checkin_reminder',
+        title: 'Daily Check-in',
+        body: 'How are you doing today? Time for your daily check-in.',
+        dataJson: { date: today },
+        sendAfter: sendTime,
+        dedupeKey: `daily_checkin_reminder:${prefs.userId}:${today}`,
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning({ id: schema.notificationsOutbox.id });
+
+    if (inserted.length > 0) {
+      queued++;
+      app.logger.info({ userId: prefs.userId, date: today, timeZone }, 'Daily checkin reminder created');
     }
+  }
+
+  if (queued > 0) {
+    app.logger.info({ users: usersWithPrefs.length, queued }, 'Daily checkin reminders scheduled');
+  }
+}
+
+// Queues due reminders; the push worker runs this before each dispatch
+export async function scheduleNotifications(app: App) {
+  app.logger.debug('Running notification scheduler');
+
+  try {
+    await scheduleDailyCheckinReminders(app);
+    await scheduleAppointmentReminders(app);
 
-    app.logger.info('Notification scheduler completed');
+    app.logger.debug('Notification scheduler completed');
   } catch (error) {
     app.logger.error({ err: error }, 'Notification scheduler failed');
   }
@@ -1,5 +1,5 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
 import * as schema from '../db/schema.js';
 import type { App } from '../index.js';
 
@@ -248,8 +248,21 @@ export function registerProfileRoutes(app: App) {
       app.logger.info({ userId }, 'Deleting user account');
 
       try {
-        // Delete profile (cascades will handle related data)
-        await app.db.delete(schema.profiles).where(eq(schema.profiles.id, userId));
+        await app.db.transaction(async (tx) => {
+          // Assignments block deleting a program on their own, so a coach's programs take them along here
+          await tx.delete(schema.clientPrograms).where(
+            inArray(
+              schema.clientPrograms.programId,
+              tx
+                .select({ id: schema.programTemplates.id })
+                .from(schema.programTemplates)
+                .where(eq(schema.programTemplates.coachId, userId))
+            )
+          );
+
+          // Delete profile (cascades will handle related data)
+          await tx.delete(schema.profiles).where(eq(schema.profiles.id, userId));
+        });
 
         app.logger.info({ userId }, 'User account deleted successfully');
 
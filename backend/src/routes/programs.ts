@@ -0,0 +1,2094 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, asc, desc, inArray, isNull, ne, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { addDaysToDateKey, getUserTimezone, getZonedDateParts } from './availability.js';
+import { loadCompletionComments } from './reviews.js';
+
+type ClientProgramRow = typeof schema.clientPrograms.$inferSelect;
+
+type ProgramTaskRow = typeof schema.programTasks.$inferSelect;
+
+type ProgramRow = typeof schema.programTemplates.$inferSelect;
+
+type ProgramVersionRow = typeof schema.programVersions.$inferSelect;
+
+type ProgramTx = Parameters<Parameters<App['db']['transaction']>[0]>[0];
+
+export const PROGRAM_TASK_TYPES = ['reflection', 'exercise', 'reading', 'audio'] as const;
+
+export type ProgramTaskType = (typeof PROGRAM_TASK_TYPES)[number];
+
+// Bump when a content or response shape changes; stored content keeps the version it was written with
+export const TASK_CONTENT_VERSION = 1;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_REFLECTION_PROMPTS = 20;
+
+const MAX_EXERCISE_STEPS = 30;
+
+const MAX_STEP_SECONDS = 60 * 60;
+
+const MAX_READING_LENGTH = 20000;
+
+const MAX_ANSWER_LENGTH = 2000;
+
+const MAX_CHOICE_OPTIONS = 10;
+
+export interface ReflectionPrompt {
+  id: string;
+  question: string;
+  // text: free answer, scale: 0-10, choice: one of `options`
+  answerType: 'text' | 'scale' | 'choice';
+  options?: string[];
+  required?: boolean;
+}
+
+export interface ExerciseStep {
+  id: string;
+  title: string;
+  instruction?: string;
+  durationSeconds?: number;
+}
+
+export type TaskContent =
+  | { version: number; intro?: string; prompts: ReflectionPrompt[] }
+  | { version: number; intro?: string; steps: ExerciseStep[] }
+  | { version: number; markdown: string; estimatedMinutes?: number }
+  | { version: number; fileId: string; description?: string; durationSeconds?: number };
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+const isOptionalText = (value: unknown, maxLength: number) =>
+  value === undefined || value === null || (typeof value === 'string' && value.length <= maxLength);
+
+const isPositiveInteger = (value: unknown, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= max;
+
+const hasUniqueIds = (entries: { id?: unknown }[]) => {
+  const ids = entries.map((entry) => entry.id).filter((id) => id !== undefined && id !== null && id !== '');
+  return new Set(ids).size === ids.length;
+};
+
+/**
+ * Checks that `contentJson` follows the schema of the task type. Returns an error
+ * message, or null when valid.
+ */
+export const validateTaskContent = (type: ProgramTaskType, content: any) => {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return 'contentJson is required';
+  }
+  if (content.version !== undefined && content.version !== TASK_CONTENT_VERSION) {
+    return `Unsupported content version, expected ${TASK_CONTENT_VERSION}`;
+  }
+
+  switch (type) {
+    case 'reflection': {
+      const prompts = content.prompts;
+      if (!Array.isArray(prompts) || prompts.length === 0 || prompts.length > MAX_REFLECTION_PROMPTS) {
+        return `Reflections need between 1 and ${MAX_REFLECTION_PROMPTS} prompts`;
+      }
+      if (!isOptionalText(content.intro, MAX_ANSWER_LENGTH)) {
+        return 'Intro is too long';
+      }
+      if (!hasUniqueIds(prompts)) {
+        return 'Reflection prompts must have unique ids';
+      }
+      for (const prompt of prompts) {
+        if (!prompt || !isText(prompt.question, 500)) {
+          return 'Every reflection prompt needs a question';
+        }
+        if (!['text', 'scale', 'choice'].includes(prompt.answerType ?? 'text')) {
+          return 'answerType must be text, scale or choice';
+        }
+        if (prompt.answerType === 'choice') {
+          const options = (Array.isArray(prompt.options) ? prompt.options : [])
+            .map((option: unknown) => (typeof option === 'string' ? option.trim() : ''))
+            .filter(Boolean);
+          if (options.length < 2 || options.length > MAX_CHOICE_OPTIONS || new Set(options).size !== options.length) {
+            return `Choice prompts need between 2 and ${MAX_CHOICE_OPTIONS} unique options`;
+          }
+        }
+      }
+      return null;
+    }
+    case 'exercise': {
+      const steps = content.steps;
+      if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_EXERCISE_STEPS) {
+        return `Exercises need between 1 and ${MAX_EXERCISE_STEPS} steps`;
+      }
+      if (!isOptionalText(content.intro, MAX_ANSWER_LENGTH)) {
+        return 'Intro is too long';
+      }
+      if (!hasUniqueIds(steps)) {
+        return 'Exercise steps must have unique ids';
+      }
+      for (const step of steps) {
+        if (!step || !isText(step.title, 200) || !isOptionalText(step.instruction, MAX_ANSWER_LENGTH)) {
+          return 'Every exercise step needs a title';
+        }
+        if (step.durationSeconds != null && !isPositiveInteger(step.durationSeconds, MAX_STEP_SECONDS)) {
+          return `Step durations must be between 1 and ${MAX_STEP_SECONDS} seconds`;
+        }
+      }
+      return null;
+    }
+    case 'reading':
+      if (!isText(content.markdown, MAX_READING_LENGTH)) {
+        return `Reading tasks need a markdown body of at most ${MAX_READING_LENGTH} characters`;
+      }
+      if (content.estimatedMinutes != null && !isPositiveInteger(content.estimatedMinutes, 240)) {
+        return 'estimatedMinutes must be a whole number of minutes';
+      }
+      return null;
+    case 'audio':
+      if (typeof content.fileId !== 'string' || !UUID_PATTERN.test(content.fileId)) {
+        return 'Audio tasks need the fileId of an uploaded audio file';
+      }
+      if (!isOptionalText(content.description, MAX_ANSWER_LENGTH)) {
+        return 'Audio description is too long';
+      }
+      if (content.durationSeconds != null && !isPositiveInteger(content.durationSeconds, 4 * MAX_STEP_SECONDS)) {
+        return 'durationSeconds must be a whole number of seconds';
+      }
+      return null;
+    default:
+      return 'Unknown task type';
+  }
+};
+
+/**
+ * The content stored for a validated task: trimmed strings, the current version and
+ * ids for prompts and steps that came without one.
+ */
+export const taskContent = (type: ProgramTaskType, content: any): TaskContent => {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  // Numbered ids for entries without one, skipping ids that edited content kept
+  const ids = (entries: any[], prefix: string) => {
+    const taken = new Set(entries.map((entry) => text(entry.id)).filter(Boolean));
+    let next = 1;
+    return entries.map((entry) => {
+      const id = text(entry.id);
+      if (id) return id;
+      while (taken.has(`${prefix}-${next}`)) next++;
+      taken.add(`${prefix}-${next}`);
+      return `${prefix}-${next}`;
+    });
+  };
+
+  switch (type) {
+    case 'reflection': {
+      const promptIds = ids(content.prompts, 'prompt');
+      const prompts: ReflectionPrompt[] = content.prompts.map((prompt: any, index: number) => ({
+        id: promptIds[index],
+        question: prompt.question.trim(),
+        answerType: prompt.answerType ?? 'text',
+        options:
+          prompt.answerType === 'choice'
+            ? prompt.options.map((option: string) => option.trim()).filter(Boolean)
+            : undefined,
+        required: prompt.required !== false,
+      }));
+      return { version: TASK_CONTENT_VERSION, intro: text(content.intro), prompts };
+    }
+    case 'exercise': {
+      const stepIds = ids(content.steps, 'step');
+      const steps: ExerciseStep[] = content.steps.map((step: any, index: number) => ({
+        id: stepIds[index],
+        title: step.title.trim(),
+        instruction: text(step.instruction),
+        durationSeconds: step.durationSeconds ?? undefined,
+      }));
+      return { version: TASK_CONTENT_VERSION, intro: text(content.intro), steps };
+    }
+    case 'reading':
+      return {
+        version: TASK_CONTENT_VERSION,
+        markdown: content.markdown.trim(),
+        estimatedMinutes: content.estimatedMinutes ?? undefined,
+      };
+    default:
+      return {
+        version: TASK_CONTENT_VERSION,
+        fileId: content.fileId,
+        description: text(content.description),
+        durationSeconds: content.durationSeconds ?? undefined,
+      };
+  }
+};
+
+/**
+ * Checks a client's `responseJson` against the task's content. Returns an error
+ * message, or null when valid. Tasks created before content had a version accept
+ * any response.
+ */
+export const validateTaskResponse = (task: ProgramTaskRow, response: any) => {
+  const content = task.contentJson as any;
+  if (!content || content.version === undefined) {
+    return null;
+  }
+  if (task.type === 'reading' || task.type === 'audio') {
+    if (response == null) {
+      return null;
+    }
+    if (response.listenedSeconds != null && (typeof response.listenedSeconds !== 'number' || response.listenedSeconds < 0)) {
+      return 'listenedSeconds must be a positive number';
+    }
+    return null;
+  }
+  if (!response || typeof response !== 'object') {
+    return 'responseJson is required for this task';
+  }
+  if (response.version !== content.version) {
+    return `Unsupported response version, expected ${content.version}`;
+  }
+
+  if (task.type === 'reflection') {
+    const answers = response.answers;
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return 'answers must be an object keyed by prompt id';
+    }
+    const prompts = content.prompts as ReflectionPrompt[];
+    const unknownId = Object.keys(answers).find((id) => !prompts.some((prompt) => prompt.id === id));
+    if (unknownId) {
+      return `Unknown prompt ${unknownId}`;
+    }
+    for (const prompt of prompts) {
+      const answer = answers[prompt.id];
+      if (answer === undefined || answer === null || answer === '') {
+        if (prompt.required) {
+          return `Prompt ${prompt.id} needs an answer`;
+        }
+        continue;
+      }
+      const valid =
+        prompt.answerType === 'scale'
+          ? Number.isInteger(answer) && answer >= 0 && answer <= 10
+          : prompt.answerType === 'choice'
+            ? (prompt.options || []).includes(answer)
+            : isText(answer, MAX_ANSWER_LENGTH);
+      if (!valid) {
+        return `Invalid answer for prompt ${prompt.id}`;
+      }
+    }
+    return null;
+  }
+
+  // Exercises record which steps were done and an optional note
+  const completedStepIds = response.completedStepIds;
+  const steps = content.steps as ExerciseStep[];
+  if (
+    !Array.isArray(completedStepIds) ||
+    completedStepIds.some((id: unknown) => !steps.some((step) => step.id === id))
+  ) {
+    return 'completedStepIds must list steps of the exercise';
+  }
+  if (!isOptionalText(response.note, MAX_ANSWER_LENGTH)) {
+    return 'Note is too long';
+  }
+  return null;
+};
+
+/**
+ * Signed URLs for the audio files of the given tasks, keyed by task id. Files that
+ * are gone are left out.
+ */
+export async function resolveTaskAudioUrls(app: App, tasks: ProgramTaskRow[]) {
+  const fileIdByTask = new Map<string, string>();
+  for (const task of tasks) {
+    const fileId = (task.contentJson as any)?.fileId;
+    if (task.type === 'audio' && typeof fileId === 'string' && UUID_PATTERN.test(fileId)) {
+      fileIdByTask.set(task.id, fileId);
+    }
+  }
+  if (fileIdByTask.size === 0) {
+    return new Map<string, string>();
+  }
+
+  const files = await app.db
+    .select({ id: schema.files.id, fileUrl: schema.files.fileUrl })
+    .from(schema.files)
+    .where(inArray(schema.files.id, [...new Set(fileIdByTask.values())]));
+  const urlByFile = new Map<string, string>();
+  for (const file of files) {
+    const { url } = await app.storage.getSignedUrl(file.fileUrl);
+    urlByFile.set(file.id, url);
+  }
+
+  const urls = new Map<string, string>();
+  for (const [taskId, fileId] of fileIdByTask) {
+    const url = urlByFile.get(fileId);
+    if (url) urls.set(taskId, url);
+  }
+  return urls;
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+/**
+ * Weeks and tasks of an assigned program with the client's progress. Clients follow
+ * the version they were assigned, or the one they were migrated to.
+ *
+ * Week N opens (N - 1) * 7 days after the program was assigned, in the client's
+ * time zone, or earlier once every task of the week before it is done. The current
+ * week is the first open week with tasks left; tasks follow `orderIndex`.
+ */
+export async function getClientProgramProgress(app: App, clientProgram: ClientProgramRow, timezone?: string) {
+  const zone = timezone ?? (await getUserTimezone(app, clientProgram.clientId));
+  const today = getZonedDateParts(new Date(), zone).dateKey;
+  const startDate = getZonedDateParts(clientProgram.assignedAt, zone).dateKey;
+
+  const weeks = await app.db
+    .select()
+    .from(schema.programWeeks)
+    .where(eq(schema.programWeeks.versionId, clientProgram.versionId))
+    .orderBy(asc(schema.programWeeks.weekNumber), asc(schema.programWeeks.createdAt));
+
+  const tasks =
+    weeks.length === 0
+      ? []
+      : await app.db
+          .select()
+          .from(schema.programTasks)
+          .where(
+            inArray(
+              schema.programTasks.weekId,
+              weeks.map((week) => week.id)
+            )
+          )
+          .orderBy(sql`${schema.programTasks.orderIndex} asc nulls last`, asc(schema.programTasks.createdAt));
+
+  const completions = await app.db
+    .select()
+    .from(schema.taskCompletions)
+    .where(eq(schema.taskCompletions.clientProgramId, clientProgram.id));
+  const completionByTask = new Map(completions.map((completion) => [completion.taskId, completion]));
+  const comments = await loadCompletionComments(
+    app,
+    completions.map((completion) => completion.id)
+  );
+
+  const weeksOpenByDate = Math.floor(daysBetween(startDate, today) / 7) + 1;
+
+  let previousDone = true;
+  const progressWeeks = weeks.map((week, index) => {
+    const weekTasks = tasks
+      .filter((task) => task.weekId === week.id)
+      .map((task) => {
+        const completion = completionByTask.get(task.id);
+        return {
+          ...task,
+          completed: !!completion,
+          completedAt: completion?.completedAt ?? null,
+          completionId: completion?.id ?? null,
+          response: completion?.responseJson ?? null,
+          reviewStatus: completion?.reviewStatus ?? null,
+          // Coach feedback and the client's replies on this task's response
+          comments: completion ? comments.filter((comment) => comment.completionId === completion.id) : [],
+        };
+      });
+    const completedCount = weekTasks.filter((task) => task.completed).length;
+    const unlocked = index < weeksOpenByDate || previousDone;
+    const completed = completedCount === weekTasks.length;
+    previousDone = unlocked && completed;
+
+    return {
+      ...week,
+      unlocked,
+      unlocksOn: unlocked ? null : addDaysToDateKey(startDate, index * 7),
+      completed: unlocked && completed,
+      completedCount,
+      taskCount: weekTasks.length,
+      tasks: weekTasks,
+    };
+  });
+
+  const currentWeek =
+    progressWeeks.find((week) => week.unlocked && !week.completed) ??
+    [...progressWeeks].reverse().find((week) => week.unlocked) ??
+    null;
+  const nextTask = currentWeek?.tasks.find((task) => !task.completed) ?? null;
+
+  return {
+    startDate,
+    currentWeek,
+    nextTask,
+    taskCount: tasks.length,
+    completedTaskCount: tasks.filter((task) => completionByTask.has(task.id)).length,
+    weeks: progressWeeks,
+  };
+}
+
+/**
+ * Stamps `completedAt` once every task of the program has been completed.
+ * Returns whether the program is complete.
+ */
+export async function completeProgramIfDone(app: App, clientProgramId: string) {
+  const [counts] = await app.db
+    .select({
+      taskCount: sql<number>`count(${schema.programTasks.id})`,
+      completedCount: sql<number>`count(${schema.taskCompletions.id})`,
+    })
+    .from(schema.clientPrograms)
+    .innerJoin(schema.programWeeks, eq(schema.programWeeks.versionId, schema.clientPrograms.versionId))
+    .innerJoin(schema.programTasks, eq(schema.programTasks.weekId, schema.programWeeks.id))
+    .leftJoin(
+      schema.taskCompletions,
+      and(
+        eq(schema.taskCompletions.taskId, schema.programTasks.id),
+        eq(schema.taskCompletions.clientProgramId, schema.clientPrograms.id)
+      )
+    )
+    .where(eq(schema.clientPrograms.id, clientProgramId));
+
+  const taskCount = Number(counts?.taskCount ?? 0);
+  if (taskCount === 0 || Number(counts.completedCount) < taskCount) {
+    return false;
+  }
+
+  await app.db
+    .update(schema.clientPrograms)
+    .set({ completedAt: new Date() })
+    .where(and(eq(schema.clientPrograms.id, clientProgramId), isNull(schema.clientPrograms.completedAt)));
+  return true;
+}
+
+/**
+ * The latest published version of a program, or null when it was never published
+ */
+export const findLatestPublishedVersion = async (app: App, programId: string) =>
+  (await app.db.query.programVersions.findFirst({
+    where: and(eq(schema.programVersions.programId, programId), eq(schema.programVersions.status, 'published')),
+    orderBy: desc(schema.programVersions.version),
+  })) ?? null;
+
+/**
+ * Weeks of a version with their tasks, in program order
+ */
+export async function loadVersionWeeks(app: App, versionId: string) {
+  const weeks = await app.db
+    .select()
+    .from(schema.programWeeks)
+    .where(eq(schema.programWeeks.versionId, versionId))
+    .orderBy(asc(schema.programWeeks.weekNumber), asc(schema.programWeeks.createdAt));
+  const tasks =
+    weeks.length === 0
+      ? []
+      : await app.db
+          .select()
+          .from(schema.programTasks)
+          .where(
+            inArray(
+              schema.programTasks.weekId,
+              weeks.map((week) => week.id)
+            )
+          )
+          .orderBy(sql`${schema.programTasks.orderIndex} asc nulls last`, asc(schema.programTasks.createdAt));
+
+  return weeks.map((week) => ({ ...week, tasks: tasks.filter((task) => task.weekId === week.id) }));
+}
+
+/**
+ * The program's draft, created on first edit as a copy of the latest published
+ * version. Copied tasks keep their `taskKey`, so completions can follow them when
+ * the draft is published.
+ */
+export async function getOrCreateDraftVersion(app: App, program: ProgramRow): Promise<ProgramVersionRow> {
+  return app.db.transaction(async (tx) => {
+    // Serializes concurrent first edits of the same program
+    await tx
+      .select({ id: schema.programTemplates.id })
+      .from(schema.programTemplates)
+      .where(eq(schema.programTemplates.id, program.id))
+      .for('update');
+
+    const [latest] = await tx
+      .select()
+      .from(schema.programVersions)
+      .where(eq(schema.programVersions.programId, program.id))
+      .orderBy(desc(schema.programVersions.version))
+      .limit(1);
+    if (latest?.status === 'draft') {
+      return latest;
+    }
+
+    const [draft] = await tx
+      .insert(schema.programVersions)
+      .values({
+        programId: program.id,
+        version: (latest?.version ?? 0) + 1,
+        status: 'draft',
+        title: latest?.title ?? program.title,
+        description: latest?.description ?? program.description,
+        createdAt: new Date(),
+      })
+      .returning();
+    if (!latest) {
+      return draft;
+    }
+
+    const weeks = await tx.select().from(schema.programWeeks).where(eq(schema.programWeeks.versionId, latest.id));
+    for (const week of weeks) {
+      const [copy] = await tx
+        .insert(schema.programWeeks)
+        .values({
+          programId: program.id,
+          versionId: draft.id,
+          weekNumber: week.weekNumber,
+          title: week.title,
+          createdAt: new Date(),
+        })
+        .returning();
+      const tasks = await tx.select().from(schema.programTasks).where(eq(schema.programTasks.weekId, week.id));
+      if (tasks.length > 0) {
+        await tx.insert(schema.programTasks).values(
+          tasks.map((task) => ({
+            weekId: copy.id,
+            taskKey: task.taskKey,
+            type: task.type,
+            title: task.title,
+            contentJson: task.contentJson,
+            orderIndex: task.orderIndex,
+            createdAt: task.createdAt,
+          }))
+        );
+      }
+    }
+    return draft;
+  });
+}
+
+/**
+ * Publishes the program's draft. With `migrateAssignees`, clients still working on
+ * an older version move to the new one: completions move to the copy of their task
+ * and completions of removed tasks stay behind as history.
+ */
+export async function publishDraftVersion(app: App, program: ProgramRow, options: { migrateAssignees: boolean }) {
+  const result = await app.db.transaction(async (tx) => {
+    const [draft] = await tx
+      .select()
+      .from(schema.programVersions)
+      .where(and(eq(schema.programVersions.programId, program.id), eq(schema.programVersions.status, 'draft')))
+      .for('update');
+    if (!draft) {
+      return null;
+    }
+
+    const [published] = await tx
+      .update(schema.programVersions)
+      .set({ status: 'published', publishedAt: new Date() })
+      .where(eq(schema.programVersions.id, draft.id))
+      .returning();
+    await tx
+      .update(schema.programTemplates)
+      .set({ title: published.title, description: published.description, published: true })
+      .where(eq(schema.programTemplates.id, program.id));
+
+    if (!options.migrateAssignees) {
+      return { version: published, migratedIds: [] as string[] };
+    }
+
+    const assignees = await tx
+      .select({ id: schema.clientPrograms.id })
+      .from(schema.clientPrograms)
+      .where(
+        and(
+          eq(schema.clientPrograms.programId, program.id),
+          ne(schema.clientPrograms.versionId, published.id),
+          isNull(schema.clientPrograms.completedAt)
+        )
+      );
+    const migratedIds = assignees.map((assignee) => assignee.id);
+    if (migratedIds.length === 0) {
+      return { version: published, migratedIds };
+    }
+
+    await tx
+      .update(schema.clientPrograms)
+      .set({ versionId: published.id })
+      .where(inArray(schema.clientPrograms.id, migratedIds));
+
+    // Point completions at the new copy of their task, matched by task key
+    await tx.execute(sql`
+      update ${schema.taskCompletions} as tc
+      set task_id = new_task.id
+      from ${schema.programTasks} as old_task, ${schema.programTasks} as new_task, ${schema.programWeeks} as new_week
+      where tc.client_program_id in (${sql.join(
+        migratedIds.map((id) => sql`${id}`),
+        sql`, `
+      )})
+        and old_task.id = tc.task_id
+        and new_task.task_key = old_task.task_key
+        and new_week.id = new_task.week_id
+        and new_week.version_id = ${published.id}
+    `);
+
+    return { version: published, migratedIds };
+  });
+
+  if (!result) {
+    return null;
+  }
+
+  // Removing the last open tasks can finish a migrated program
+  for (const clientProgramId of result.migratedIds) {
+    await completeProgramIfDone(app, clientProgramId);
+  }
+  return { version: result.version, migratedCount: result.migratedIds.length };
+}
+
+/**
+ * The program's draft version, or null when all versions are published
+ */
+export const findDraftVersion = async (app: App, programId: string) =>
+  (await app.db.query.programVersions.findFirst({
+    where: and(eq(schema.programVersions.programId, programId), eq(schema.programVersions.status, 'draft')),
+  })) ?? null;
+
+// Week ids of a version in program order
+const versionWeekIds = async (tx: ProgramTx, versionId: string) =>
+  (
+    await tx
+      .select({ id: schema.programWeeks.id })
+      .from(schema.programWeeks)
+      .where(eq(schema.programWeeks.versionId, versionId))
+      .orderBy(asc(schema.programWeeks.weekNumber), asc(schema.programWeeks.createdAt))
+  ).map((week) => week.id);
+
+// Task ids of a week in program order
+const weekTaskIds = async (tx: ProgramTx, weekId: string) =>
+  (
+    await tx
+      .select({ id: schema.programTasks.id })
+      .from(schema.programTasks)
+      .where(eq(schema.programTasks.weekId, weekId))
+      .orderBy(sql`${schema.programTasks.orderIndex} asc nulls last`, asc(schema.programTasks.createdAt))
+  ).map((task) => task.id);
+
+// Numbers weeks 1..n in the given order
+const numberWeeks = async (tx: ProgramTx, weekIds: string[]) => {
+  for (const [index, weekId] of weekIds.entries()) {
+    await tx.update(schema.programWeeks).set({ weekNumber: index + 1 }).where(eq(schema.programWeeks.id, weekId));
+  }
+};
+
+// Puts tasks in a week in the given order, numbered 1..n
+const orderWeekTasks = async (tx: ProgramTx, weekId: string, taskIds: string[]) => {
+  for (const [index, taskId] of taskIds.entries()) {
+    await tx
+      .update(schema.programTasks)
+      .set({ weekId, orderIndex: index + 1 })
+      .where(eq(schema.programTasks.id, taskId));
+  }
+};
+
+const programVersionSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    version: { type: 'number' },
+    status: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: ['string', 'null'] },
+    publishedAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+    assigneeCount: { type: 'number' },
+  },
+};
+
+const programVersionContentSchema = {
+  type: ['object', 'null'],
+  properties: {
+    ...programVersionSummarySchema.properties,
+    weeks: { type: 'array', items: { type: 'object', additionalProperties: true } },
+  },
+};
+
+const programSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: ['string', 'null'] },
+    published: { type: 'boolean' },
+    archivedAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+    latestVersion: { type: ['number', 'null'] },
+    draftVersion: { type: ['number', 'null'] },
+    assigneeCount: { type: 'number' },
+    outdatedAssigneeCount: { type: 'number' },
+  },
+};
+
+export function registerProgramRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // Helper to check if user is a coach
+  const requireCoach = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'coach') {
+      reply.status(403).send({ error: 'Forbidden: coach role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to load a program only when the coach created it
+  const findCoachProgram = (coachId: string, programId: string) =>
+    app.db.query.programTemplates.findFirst({
+      where: and(eq(schema.programTemplates.id, programId as any), eq(schema.programTemplates.coachId, coachId)),
+    });
+
+  // Helper to load a program whose draft may be edited; sends the error response otherwise
+  const findEditableProgram = async (coachId: string, programId: string, reply: FastifyReply) => {
+    const program = await findCoachProgram(coachId, programId);
+    if (!program) {
+      reply.status(404).send({ error: 'Program not found' });
+      return null;
+    }
+    if (program.archivedAt) {
+      reply.status(409).send({ error: 'Program is archived' });
+      return null;
+    }
+    return program;
+  };
+
+  // Helper to load a week of the program's draft; published versions are frozen
+  const findDraftWeek = async (program: ProgramRow, weekId: string, reply: FastifyReply) => {
+    const week = await app.db.query.programWeeks.findFirst({
+      where: and(eq(schema.programWeeks.id, weekId as any), eq(schema.programWeeks.programId, program.id)),
+    });
+    if (!week) {
+      reply.status(404).send({ error: 'Week not found' });
+      return null;
+    }
+    const version = await app.db.query.programVersions.findFirst({
+      where: eq(schema.programVersions.id, week.versionId),
+    });
+    if (version?.status !== 'draft') {
+      reply.status(409).send({ error: 'Week belongs to a published version; edit the draft instead' });
+      return null;
+    }
+    return week;
+  };
+
+  // Helper to load a task of the program's draft together with its week
+  const findDraftTask = async (program: ProgramRow, taskId: string, reply: FastifyReply) => {
+    const task = await app.db.query.programTasks.findFirst({
+      where: eq(schema.programTasks.id, taskId as any),
+    });
+    if (!task) {
+      reply.status(404).send({ error: 'Task not found' });
+      return null;
+    }
+    const week = await findDraftWeek(program, task.weekId, reply);
+    if (!week) return null;
+    return { task, week };
+  };
+
+  // Audio tasks play a file the coach uploaded
+  const isCoachAudioFile = async (coachId: string, fileId: string) => {
+    const file = await app.db.query.files.findFirst({
+      where: and(eq(schema.files.id, fileId as any), eq(schema.files.userId, coachId)),
+    });
+    return !!file && !!file.mimeType?.startsWith('audio/');
+  };
+
+  // Running (not completed) assignments per program version
+  const countAssignees = async (programIds: string[]) => {
+    if (programIds.length === 0) {
+      return [];
+    }
+    const rows = await app.db
+      .select({
+        programId: schema.clientPrograms.programId,
+        versionId: schema.clientPrograms.versionId,
+        count: sql<number>`count(*)`,
+      })
+      .from(schema.clientPrograms)
+      .where(and(inArray(schema.clientPrograms.programId, programIds), isNull(schema.clientPrograms.completedAt)))
+      .groupBy(schema.clientPrograms.programId, schema.clientPrograms.versionId);
+    return rows.map((row) => ({ ...row, count: Number(row.count) }));
+  };
+
+  // GET /api/coach/programs - Returns the coach's programs with version and assignee counts
+  fastify.get(
+    '/api/coach/programs',
+    {
+      schema: {
+        description: 'Get program templates for coach',
+        tags: ['coach'],
+        querystring: {
+          type: 'object',
+          properties: {
+            includeArchived: { type: 'boolean' },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: programSummarySchema,
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { includeArchived } = request.query as { includeArchived?: boolean };
+      const coachId = session.user.id;
+      app.logger.info({ coachId, includeArchived }, 'Fetching programs');
+
+      try {
+        const programs = await app.db
+          .select()
+          .from(schema.programTemplates)
+          .where(
+            and(
+              eq(schema.programTemplates.coachId, coachId),
+              includeArchived ? undefined : isNull(schema.programTemplates.archivedAt)
+            )
+          )
+          .orderBy(asc(schema.programTemplates.title));
+        const programIds = programs.map((program) => program.id);
+
+        const versions =
+          programIds.length === 0
+            ? []
+            : await app.db
+                .select()
+                .from(schema.programVersions)
+                .where(inArray(schema.programVersions.programId, programIds));
+        const assignees = await countAssignees(programIds);
+
+        app.logger.info({ coachId, count: programs.length }, 'Programs fetched');
+        return programs.map((program) => {
+          const programVersions = versions.filter((version) => version.programId === program.id);
+          const latest = programVersions
+            .filter((version) => version.status === 'published')
+            .sort((a, b) => b.version - a.version)[0];
+          const programAssignees = assignees.filter((row) => row.programId === program.id);
+          return {
+            ...program,
+            latestVersion: latest?.version ?? null,
+            draftVersion: programVersions.find((version) => version.status === 'draft')?.version ?? null,
+            assigneeCount: programAssignees.reduce((sum, row) => sum + row.count, 0),
+            outdatedAssigneeCount: programAssignees
+              .filter((row) => row.versionId !== latest?.id)
+              .reduce((sum, row) => sum + row.count, 0),
+          };
+        });
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch programs');
+        return reply.status(500).send({ error: 'Failed to fetch programs' });
+      }
+    }
+  );
+
+  // GET /api/coach/programs/:id - Returns a program with its versions, the draft and the latest published content
+  fastify.get(
+    '/api/coach/programs/:id',
+    {
+      schema: {
+        description: 'Get program template with versions',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              ...programSummarySchema.properties,
+              versions: { type: 'array', items: programVersionSummarySchema },
+              draft: programVersionContentSchema,
+              published: programVersionContentSchema,
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id }, 'Fetching program');
+
+      try {
+        const program = await findCoachProgram(coachId, id);
+        if (!program) {
+          return reply.status(404).send({ error: 'Program not found' });
+        }
+
+        const versions = await app.db
+          .select()
+          .from(schema.programVersions)
+          .where(eq(schema.programVersions.programId, program.id))
+          .orderBy(desc(schema.programVersions.version));
+        const assignees = await countAssignees([program.id]);
+        const withAssignees = versions.map((version) => ({
+          ...version,
+          assigneeCount: assignees.find((row) => row.versionId === version.id)?.count ?? 0,
+        }));
+
+        const draft = withAssignees.find((version) => version.status === 'draft');
+        const latest = withAssignees.find((version) => version.status === 'published');
+
+        app.logger.info({ coachId, programId: id, versionCount: versions.length }, 'Program fetched');
+        return {
+          ...program,
+          latestVersion: latest?.version ?? null,
+          draftVersion: draft?.version ?? null,
+          assigneeCount: assignees.reduce((sum, row) => sum + row.count, 0),
+          outdatedAssigneeCount: assignees
+            .filter((row) => row.versionId !== latest?.id)
+            .reduce((sum, row) => sum + row.count, 0),
+          versions: withAssignees,
+          draft: draft ? { ...draft, weeks: await loadVersionWeeks(app, draft.id) } : null,
+          published: latest ? { ...latest, weeks: await loadVersionWeeks(app, latest.id) } : null,
+        };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to fetch program');
+        return reply.status(500).send({ error: 'Failed to fetch program' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs - Creates program template with an empty draft
+  fastify.post(
+    '/api/coach/programs',
+    {
+      schema: {
+        description: 'Create program template',
+        tags: ['coach'],
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            description: { type: ['string', 'null'] },
+          },
+          required: ['title'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' }, draftVersionId: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { title, description } = request.body as {
+        title: string;
+        description?: string;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, title }, 'Creating program');
+
+      try {
+        const { program, draft } = await app.db.transaction(async (tx) => {
+          const [program] = await tx
+            .insert(schema.programTemplates)
+            .values({
+              coachId,
+              title,
+              description,
+              published: false,
+              createdAt: new Date(),
+            })
+            .returning();
+          const [draft] = await tx
+            .insert(schema.programVersions)
+            .values({ programId: program.id, version: 1, status: 'draft', title, description, createdAt: new Date() })
+            .returning();
+          return { program, draft };
+        });
+
+        app.logger.info({ coachId, programId: program.id }, 'Program created');
+        return { id: program.id, draftVersionId: draft.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, title }, 'Failed to create program');
+        return reply.status(500).send({ error: 'Failed to create program' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs/:id/draft - Returns the program's draft, copying the latest version if there is none
+  fastify.post(
+    '/api/coach/programs/:id/draft',
+    {
+      schema: {
+        description: 'Start or get the draft of a program',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: programVersionContentSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id }, 'Opening program draft');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const draft = await getOrCreateDraftVersion(app, program);
+
+        app.logger.info({ coachId, programId: id, version: draft.version }, 'Program draft opened');
+        return { ...draft, assigneeCount: 0, weeks: await loadVersionWeeks(app, draft.id) };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to open program draft');
+        return reply.status(500).send({ error: 'Failed to open draft' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/programs/:id/draft - Discards the draft; clients keep following the published version
+  fastify.delete(
+    '/api/coach/programs/:id/draft',
+    {
+      schema: {
+        description: 'Discard the draft of a program',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id }, 'Discarding program draft');
+
+      try {
+        const program = await findCoachProgram(coachId, id);
+        if (!program) {
+          return reply.status(404).send({ error: 'Program not found' });
+        }
+
+        // A program that was never published has nothing to fall back to
+        if (!(await findLatestPublishedVersion(app, program.id))) {
+          return reply.status(409).send({ error: 'Program has no published version to fall back to' });
+        }
+
+        const deleted = await app.db
+          .delete(schema.programVersions)
+          .where(and(eq(schema.programVersions.programId, program.id), eq(schema.programVersions.status, 'draft')))
+          .returning();
+        if (deleted.length === 0) {
+          return reply.status(404).send({ error: 'Draft not found' });
+        }
+
+        app.logger.info({ coachId, programId: id }, 'Program draft discarded');
+        return { message: 'Draft discarded' };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to discard program draft');
+        return reply.status(500).send({ error: 'Failed to discard draft' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs/:id/publish - Publishes the draft, optionally moving running assignments to it
+  fastify.post(
+    '/api/coach/programs/:id/publish',
+    {
+      schema: {
+        description: 'Publish the draft of a program',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: ['object', 'null'],
+          properties: {
+            migrateAssignees: { type: 'boolean' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              versionId: { type: 'string' },
+              version: { type: 'number' },
+              migratedCount: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { migrateAssignees = false } = (request.body as { migrateAssignees?: boolean } | null) ?? {};
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, migrateAssignees }, 'Publishing program');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const result = await publishDraftVersion(app, program, { migrateAssignees });
+        if (!result) {
+          return reply.status(409).send({ error: 'Program has no draft to publish' });
+        }
+
+        app.logger.info(
+          { coachId, programId: id, version: result.version.version, migratedCount: result.migratedCount },
+          'Program published'
+        );
+        return { versionId: result.version.id, version: result.version.version, migratedCount: result.migratedCount };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to publish program');
+        return reply.status(500).send({ error: 'Failed to publish program' });
+      }
+    }
+  );
+
+  // PUT /api/coach/programs/:id - Updates title and description of the program's draft
+  fastify.put(
+    '/api/coach/programs/:id',
+    {
+      schema: {
+        description: 'Update program template draft',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: ['string', 'null'], minLength: 1 },
+            description: { type: ['string', 'null'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' }, draftVersionId: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { title, description } = request.body as {
+        title?: string | null;
+        description?: string | null;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id }, 'Updating program');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const draft = await getOrCreateDraftVersion(app, program);
+        await app.db
+          .update(schema.programVersions)
+          .set({
+            title: title ?? undefined,
+            description: description !== undefined ? description : undefined,
+          })
+          .where(eq(schema.programVersions.id, draft.id));
+
+        // Until the first publish the program's own title follows the draft
+        if (!program.published) {
+          await app.db
+            .update(schema.programTemplates)
+            .set({
+              title: title ?? undefined,
+              description: description !== undefined ? description : undefined,
+            })
+            .where(eq(schema.programTemplates.id, program.id));
+        }
+
+        app.logger.info({ coachId, programId: id, version: draft.version }, 'Program updated');
+        return { id: program.id, draftVersionId: draft.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to update program');
+        return reply.status(500).send({ error: 'Failed to update program' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/programs/:id - Deletes a program, or archives it when clients have followed it
+  fastify.delete(
+    '/api/coach/programs/:id',
+    {
+      schema: {
+        description: 'Delete or archive program template',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' }, archived: { type: 'boolean' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id }, 'Deleting program');
+
+      try {
+        const program = await findCoachProgram(coachId, id);
+        if (!program) {
+          return reply.status(404).send({ error: 'Program not found' });
+        }
+
+        // Assignments keep the client's progress and answers, so those programs are only archived
+        const assignment = await app.db.query.clientPrograms.findFirst({
+          where: eq(schema.clientPrograms.programId, program.id),
+        });
+        if (assignment) {
+          await app.db
+            .update(schema.programTemplates)
+            .set({ archivedAt: program.archivedAt ?? new Date() })
+            .where(eq(schema.programTemplates.id, program.id));
+
+          app.logger.info({ coachId, programId: id }, 'Program archived');
+          return { message: 'Program archived', archived: true };
+        }
+
+        await app.db.delete(schema.programTemplates).where(eq(schema.programTemplates.id, program.id));
+
+        app.logger.info({ coachId, programId: id }, 'Program deleted');
+        return { message: 'Program deleted', archived: false };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to delete program');
+        return reply.status(500).send({ error: 'Failed to delete program' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs/:id/restore - Takes a program out of the archive
+  fastify.post(
+    '/api/coach/programs/:id/restore',
+    {
+      schema: {
+        description: 'Restore an archived program template',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id }, 'Restoring program');
+
+      try {
+        const program = await findCoachProgram(coachId, id);
+        if (!program) {
+          return reply.status(404).send({ error: 'Program not found' });
+        }
+
+        await app.db
+          .update(schema.programTemplates)
+          .set({ archivedAt: null })
+          .where(eq(schema.programTemplates.id, program.id));
+
+        app.logger.info({ coachId, programId: id }, 'Program restored');
+        return { id: program.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to restore program');
+        return reply.status(500).send({ error: 'Failed to restore program' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs/:id/weeks - Adds week to the program's draft, at the end unless a weekNumber is given
+  fastify.post(
+    '/api/coach/programs/:id/weeks',
+    {
+      schema: {
+        description: 'Add week to program draft',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            weekNumber: { type: ['number', 'null'], minimum: 1 },
+            title: { type: ['string', 'null'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' }, draftVersionId: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { weekNumber, title } = request.body as {
+        weekNumber?: number | null;
+        title?: string | null;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, weekNumber }, 'Creating week');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const draft = await getOrCreateDraftVersion(app, program);
+        const week = await app.db.transaction(async (tx) => {
+          const weekIds = await versionWeekIds(tx, draft.id);
+          const [week] = await tx
+            .insert(schema.programWeeks)
+            .values({
+              programId: program.id,
+              versionId: draft.id,
+              weekNumber: weekIds.length + 1,
+              title,
+              createdAt: new Date(),
+            })
+            .returning();
+
+          // Later weeks move up one to make room
+          const position = Math.min((weekNumber ?? weekIds.length + 1) - 1, weekIds.length);
+          weekIds.splice(position, 0, week.id);
+          await numberWeeks(tx, weekIds);
+          return week;
+        });
+
+        app.logger.info({ coachId, weekId: week.id, version: draft.version }, 'Week created');
+        return { id: week.id, draftVersionId: draft.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to create week');
+        return reply.status(500).send({ error: 'Failed to create week' });
+      }
+    }
+  );
+
+  // PUT /api/coach/programs/:id/weeks/order - Reorders all weeks of the program's draft
+  fastify.put(
+    '/api/coach/programs/:id/weeks/order',
+    {
+      schema: {
+        description: 'Reorder program draft weeks',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            weekIds: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+          },
+          required: ['weekIds'],
+        },
+        response: {
+          200: { type: 'array', items: { type: 'object', additionalProperties: true } },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { weekIds } = request.body as { weekIds: string[] };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, weeks: weekIds.length }, 'Reordering weeks');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const draft = await findDraftVersion(app, program.id);
+        if (!draft) {
+          return reply.status(409).send({ error: 'Program has no draft' });
+        }
+
+        const reordered = await app.db.transaction(async (tx) => {
+          // The new order must name every week of the draft exactly once
+          const known = new Set(await versionWeekIds(tx, draft.id));
+          if (weekIds.length !== known.size || weekIds.some((weekId) => !known.has(weekId))) {
+            return false;
+          }
+          await numberWeeks(tx, weekIds);
+          return true;
+        });
+        if (!reordered) {
+          return reply.status(400).send({ error: 'weekIds must list every week of the draft' });
+        }
+
+        app.logger.info({ coachId, programId: id }, 'Weeks reordered');
+        return loadVersionWeeks(app, draft.id);
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to reorder weeks');
+        return reply.status(500).send({ error: 'Failed to reorder weeks' });
+      }
+    }
+  );
+
+  // PUT /api/coach/programs/:id/weeks/:weekId - Updates a draft week's title
+  fastify.put(
+    '/api/coach/programs/:id/weeks/:weekId',
+    {
+      schema: {
+        description: 'Update program draft week',
+        tags: ['coach'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, weekId: { type: 'string' } },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: ['string', 'null'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              weekNumber: { type: 'number' },
+              title: { type: ['string', 'null'] },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, weekId } = request.params as { id: string; weekId: string };
+      const { title } = request.body as { title?: string | null };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, weekId }, 'Updating week');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const week = await findDraftWeek(program, weekId, reply);
+        if (!week) return;
+
+        const [updated] = await app.db
+          .update(schema.programWeeks)
+          .set({ title: title !== undefined ? title?.trim() || null : undefined })
+          .where(eq(schema.programWeeks.id, week.id))
+          .returning();
+
+        app.logger.info({ coachId, programId: id, weekId }, 'Week updated');
+        return updated;
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id, weekId }, 'Failed to update week');
+        return reply.status(500).send({ error: 'Failed to update week' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/programs/:id/weeks/:weekId - Deletes a draft week and its tasks
+  fastify.delete(
+    '/api/coach/programs/:id/weeks/:weekId',
+    {
+      schema: {
+        description: 'Delete program draft week',
+        tags: ['coach'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, weekId: { type: 'string' } },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, weekId } = request.params as { id: string; weekId: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, weekId }, 'Deleting week');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const week = await findDraftWeek(program, weekId, reply);
+        if (!week) return;
+
+        await app.db.transaction(async (tx) => {
+          await tx.delete(schema.programWeeks).where(eq(schema.programWeeks.id, week.id));
+          // Later weeks move down to close the gap
+          await numberWeeks(tx, await versionWeekIds(tx, week.versionId));
+        });
+
+        app.logger.info({ coachId, programId: id, weekId }, 'Week deleted');
+        return { message: 'Week deleted' };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id, weekId }, 'Failed to delete week');
+        return reply.status(500).send({ error: 'Failed to delete week' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs/:id/weeks/:weekId/duplicate - Copies a draft week and its tasks to right after it
+  fastify.post(
+    '/api/coach/programs/:id/weeks/:weekId/duplicate',
+    {
+      schema: {
+        description: 'Duplicate program draft week',
+        tags: ['coach'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, weekId: { type: 'string' } },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, weekId } = request.params as { id: string; weekId: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, weekId }, 'Duplicating week');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const week = await findDraftWeek(program, weekId, reply);
+        if (!week) return;
+
+        const copy = await app.db.transaction(async (tx) => {
+          const weekIds = await versionWeekIds(tx, week.versionId);
+          const [copy] = await tx
+            .insert(schema.programWeeks)
+            .values({
+              programId: program.id,
+              versionId: week.versionId,
+              weekNumber: week.weekNumber + 1,
+              title: week.title,
+              createdAt: new Date(),
+            })
+            .returning();
+
+          // Copies get their own task keys: completions of the original never move to them
+          const taskIds = await weekTaskIds(tx, week.id);
+          const tasks = await tx.select().from(schema.programTasks).where(eq(schema.programTasks.weekId, week.id));
+          if (tasks.length > 0) {
+            await tx.insert(schema.programTasks).values(
+              tasks.map((task) => ({
+                weekId: copy.id,
+                type: task.type,
+                title: task.title,
+                contentJson: task.contentJson,
+                orderIndex: taskIds.indexOf(task.id) + 1,
+                createdAt: new Date(),
+              }))
+            );
+          }
+
+          weekIds.splice(weekIds.indexOf(week.id) + 1, 0, copy.id);
+          await numberWeeks(tx, weekIds);
+          return copy;
+        });
+
+        app.logger.info({ coachId, programId: id, weekId, copyId: copy.id }, 'Week duplicated');
+        return { id: copy.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id, weekId }, 'Failed to duplicate week');
+        return reply.status(500).send({ error: 'Failed to duplicate week' });
+      }
+    }
+  );
+
+  // POST /api/coach/programs/:id/tasks - Adds task to a week of the program's draft, at the end unless an orderIndex is given
+  fastify.post(
+    '/api/coach/programs/:id/tasks',
+    {
+      schema: {
+        description: 'Add task to program draft',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            weekId: { type: 'string' },
+            type: {
+              type: 'string',
+              enum: [...PROGRAM_TASK_TYPES],
+            },
+            title: { type: 'string', minLength: 1 },
+            contentJson: { type: 'object', additionalProperties: true },
+            orderIndex: { type: ['number', 'null'], minimum: 1 },
+          },
+          required: ['weekId', 'type', 'title', 'contentJson'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { weekId, type, title, contentJson, orderIndex } = request.body as {
+        weekId: string;
+        type: ProgramTaskType;
+        title: string;
+        contentJson: any;
+        orderIndex?: number | null;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, type, title }, 'Creating task');
+
+      const contentError = validateTaskContent(type, contentJson);
+      if (contentError) {
+        return reply.status(400).send({ error: contentError });
+      }
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const week = await findDraftWeek(program, weekId, reply);
+        if (!week) return;
+
+        if (type === 'audio' && !(await isCoachAudioFile(coachId, contentJson.fileId))) {
+          return reply.status(400).send({ error: 'fileId must reference an uploaded audio file' });
+        }
+
+        const task = await app.db.transaction(async (tx) => {
+          const taskIds = await weekTaskIds(tx, week.id);
+          const [task] = await tx
+            .insert(schema.programTasks)
+            .values({
+              weekId: week.id,
+              type,
+              title: title.trim(),
+              contentJson: taskContent(type, contentJson),
+              orderIndex: taskIds.length + 1,
+              createdAt: new Date(),
+            })
+            .returning();
+
+          const position = Math.min((orderIndex ?? taskIds.length + 1) - 1, taskIds.length);
+          taskIds.splice(position, 0, task.id);
+          await orderWeekTasks(tx, week.id, taskIds);
+          return task;
+        });
+
+        app.logger.info({ coachId, taskId: task.id }, 'Task created');
+        return { id: task.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to create task');
+        return reply.status(500).send({ error: 'Failed to create task' });
+      }
+    }
+  );
+
+  // PUT /api/coach/programs/:id/tasks/order - Reorders the tasks of the program's draft, also across weeks
+  fastify.put(
+    '/api/coach/programs/:id/tasks/order',
+    {
+      schema: {
+        description: 'Reorder program draft tasks',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            weeks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  weekId: { type: 'string' },
+                  taskIds: { type: 'array', items: { type: 'string' } },
+                },
+                required: ['weekId', 'taskIds'],
+              },
+            },
+          },
+          required: ['weeks'],
+        },
+        response: {
+          200: { type: 'array', items: { type: 'object', additionalProperties: true } },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { weeks } = request.body as { weeks: { weekId: string; taskIds: string[] }[] };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, weeks: weeks.length }, 'Reordering tasks');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const draft = await findDraftVersion(app, program.id);
+        if (!draft) {
+          return reply.status(409).send({ error: 'Program has no draft' });
+        }
+
+        const reordered = await app.db.transaction(async (tx) => {
+          // The new order must name every week and every task of the draft exactly once
+          const knownWeeks = new Set(await versionWeekIds(tx, draft.id));
+          const knownTasks = new Set<string>();
+          for (const weekId of knownWeeks) {
+            (await weekTaskIds(tx, weekId)).forEach((taskId) => knownTasks.add(taskId));
+          }
+          const weekIds = weeks.map((week) => week.weekId);
+          const taskIds = weeks.flatMap((week) => week.taskIds);
+          if (
+            new Set(weekIds).size !== weekIds.length ||
+            weekIds.length !== knownWeeks.size ||
+            weekIds.some((weekId) => !knownWeeks.has(weekId)) ||
+            new Set(taskIds).size !== taskIds.length ||
+            taskIds.length !== knownTasks.size ||
+            taskIds.some((taskId) => !knownTasks.has(taskId))
+          ) {
+            return false;
+          }
+
+          for (const week of weeks) {
+            await orderWeekTasks(tx, week.weekId, week.taskIds);
+          }
+          return true;
+        });
+        if (!reordered) {
+          return reply.status(400).send({ error: 'weeks must list every week and task of the draft' });
+        }
+
+        app.logger.info({ coachId, programId: id }, 'Tasks reordered');
+        return loadVersionWeeks(app, draft.id);
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id }, 'Failed to reorder tasks');
+        return reply.status(500).send({ error: 'Failed to reorder tasks' });
+      }
+    }
+  );
+
+  // PUT /api/coach/programs/:id/tasks/:taskId - Updates a draft task's title or content; the type is fixed
+  fastify.put(
+    '/api/coach/programs/:id/tasks/:taskId',
+    {
+      schema: {
+        description: 'Update program draft task',
+        tags: ['coach'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, taskId: { type: 'string' } },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            contentJson: { type: 'object', additionalProperties: true },
+          },
+        },
+        response: {
+          200: { type: 'object', additionalProperties: true },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, taskId } = request.params as { id: string; taskId: string };
+      const { title, contentJson } = request.body as { title?: string; contentJson?: any };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, taskId }, 'Updating task');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const found = await findDraftTask(program, taskId, reply);
+        if (!found) return;
+
+        const type = found.task.type as ProgramTaskType;
+        if (contentJson !== undefined) {
+          const contentError = validateTaskContent(type, contentJson);
+          if (contentError) {
+            return reply.status(400).send({ error: contentError });
+          }
+          if (type === 'audio' && !(await isCoachAudioFile(coachId, contentJson.fileId))) {
+            return reply.status(400).send({ error: 'fileId must reference an uploaded audio file' });
+          }
+        }
+
+        const [task] = await app.db
+          .update(schema.programTasks)
+          .set({
+            title: title?.trim(),
+            contentJson: contentJson !== undefined ? taskContent(type, contentJson) : undefined,
+          })
+          .where(eq(schema.programTasks.id, found.task.id))
+          .returning();
+
+        app.logger.info({ coachId, programId: id, taskId }, 'Task updated');
+        return task;
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id, taskId }, 'Failed to update task');
+        return reply.status(500).send({ error: 'Failed to update task' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/programs/:id/tasks/:taskId - Deletes a draft task
+  fastify.delete(
+    '/api/coach/programs/:id/tasks/:taskId',
+    {
+      schema: {
+        description: 'Delete program draft task',
+        tags: ['coach'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, taskId: { type: 'string' } },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, taskId } = request.params as { id: string; taskId: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, programId: id, taskId }, 'Deleting task');
+
+      try {
+        const program = await findEditableProgram(coachId, id, reply);
+        if (!program) return;
+
+        const found = await findDraftTask(program, taskId, reply);
+        if (!found) return;
+
+        await app.db.transaction(async (tx) => {
+          await tx.delete(schema.programTasks).where(eq(schema.programTasks.id, found.task.id));
+          await orderWeekTasks(tx, found.week.id, await weekTaskIds(tx, found.week.id));
+        });
+
+        app.logger.info({ coachId, programId: id, taskId }, 'Task deleted');
+        return { message: 'Task deleted' };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, programId: id, taskId }, 'Failed to delete task');
+        return reply.status(500).send({ error: 'Failed to delete task' });
+      }
+    }
+  );
+
+  // POST /api/coach/clients/:clientId/assign-program - Assigns the latest published version of a program to a client
+  fastify.post(
+    '/api/coach/clients/:clientId/assign-program',
+    {
+      schema: {
+        description: 'Assign program to client',
+        tags: ['coach'],
+        params: { type: 'object', properties: { clientId: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: { programId: { type: 'string' } },
+          required: ['programId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' }, version: { type: 'number' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { clientId } = request.params as { clientId: string };
+      const { programId } = request.body as { programId: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId, programId }, 'Assigning program');
+
+      try {
+        // Verify coach owns this program and has client link
+        const program = await findCoachProgram(coachId, programId);
+        if (!program) {
+          return reply.status(404).send({ error: 'Program not found' });
+        }
+        if (program.archivedAt) {
+          return reply.status(409).send({ error: 'Program is archived' });
+        }
+
+        const version = await findLatestPublishedVersion(app, program.id);
+        if (!version) {
+          return reply.status(409).send({ error: 'Program has no published version' });
+        }
+
+        const clientLink = await app.db.query.coachClients.findFirst({
+          where: and(
+            eq(schema.coachClients.coachId, coachId),
+            eq(schema.coachClients.clientId, clientId as any)
+          ),
+        });
+
+        if (!clientLink) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const assignment = await app.db
+          .insert(schema.clientPrograms)
+          .values({
+            clientId: clientId as any,
+            programId: program.id,
+            versionId: version.id,
+            assignedBy: coachId,
+            assignedAt: new Date(),
+          })
+          .returning();
+
+        app.logger.info({ coachId, assignmentId: assignment[0].id, version: version.version }, 'Program assigned');
+        return { id: assignment[0].id, version: version.version };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId, programId }, 'Failed to assign program');
+        return reply.status(500).send({ error: 'Failed to assign program' });
+      }
+    }
+  );
+}
@@ -0,0 +1,616 @@
+import { connect } from 'node:http2';
+import { createPrivateKey, sign, type KeyObject } from 'node:crypto';
+import { eq, and, or, lte, isNull, inArray, asc } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { getQuietHoursEnd, isNotificationTypeEnabled, scheduleNotifications } from './notifications.js';
+
+// Outbox rows handled per dispatcher run
+const DISPATCH_BATCH_SIZE = 50;
+
+// Give up on a notification after this many attempts with retryable failures
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Retry backoff: 30s, 1m, 2m, 4m, ... capped at an hour
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How long a claimed row is reserved for the worker processing it
+const DISPATCH_LEASE_MS = 5 * 60 * 1000;
+
+const DEFAULT_WORKER_INTERVAL_MS = 30 * 1000;
+
+// A hung provider would otherwise hold up the worker, which skips ticks while a run is busy
+const PROVIDER_TIMEOUT_MS = 10 * 1000;
+
+export interface PushMessage {
+  notificationId: string;
+  type: string;
+  title: string;
+  body: string | null;
+  data: Record<string, unknown> | null;
+}
+
+export interface PushResult {
+  status: 'sent' | 'failed' | 'invalid_token';
+  error?: string;
+  // Only for failures: whether trying again later may succeed
+  retryable?: boolean;
+}
+
+export interface PushProvider {
+  name: string;
+  send(token: string, message: PushMessage): Promise<PushResult>;
+}
+
+const sent = (): PushResult => ({ status: 'sent' });
+const invalidToken = (error: string): PushResult => ({ status: 'invalid_token', error });
+const failed = (error: string, retryable: boolean): PushResult => ({ status: 'failed', error, retryable });
+
+// Rate limits and server errors are worth retrying; other client errors are not
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const base64Url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+// Signs a compact JWT. ES256 signatures must be raw r||s, not DER.
+const signJwt = (header: Record<string, unknown>, payload: Record<string, unknown>, key: KeyObject | string) => {
+  const input = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  const privateKey = typeof key === 'string' ? createPrivateKey(key) : key;
+  const signature =
+    header.alg === 'ES256'
+      ? sign('sha256', Buffer.from(input), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+      : sign('sha256', Buffer.from(input), privateKey);
+  return `${input}.${base64Url(signature)}`;
+};
+
+// PEM keys from environment variables usually have escaped newlines
+const readPemKey = (value: string) => value.replace(/\\n/g, '\n');
+
+/**
+ * Expo push service. Handles tokens from expo-notifications (ExponentPushToken[...]).
+ * EXPO_ACCESS_TOKEN is only needed when enhanced push security is enabled.
+ */
+export const expoPushProvider: PushProvider = {
+  name: 'expo',
+  async send(token, message) {
+    const response = await fetch('https://exp.host/--/api/v2/push/send', {
+      method: 'POST',
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(process.env.EXPO_ACCESS_TOKEN ? { Authorization: `Bearer ${process.env.EXPO_ACCESS_TOKEN}` } : {}),
+      },
+      body: JSON.stringify({
+        to: token,
+        title: message.title,
+        body: message.body ?? undefined,
+        data: { ...message.data, notificationId: message.notificationId, type: message.type },
+        sound: 'default',
+      }),
+    });
+
+    if (!response.ok) {
+      return failed(`Expo responded with ${response.status}`, isRetryableStatus(response.status));
+    }
+
+    const result = (await response.json()) as { data?: { status: string; message?: string; details?: { error?: string } } };
+    if (result.data?.status === 'ok') {
+      return sent();
+    }
+
+    const error = result.data?.details?.error || result.data?.message || 'Unknown Expo error';
+    if (error === 'DeviceNotRegistered') {
+      return invalidToken(error);
+    }
+    return failed(error, error === 'MessageRateExceeded');
+  },
+};
+
+let apnsJwt: { token: string; issuedAt: number } | null = null;
+
+/**
+ * Apple Push Notification service over HTTP/2 with token-based auth.
+ * Needs APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY (.p8 contents) and APNS_BUNDLE_ID;
+ * APNS_PRODUCTION=true targets the production gateway instead of the sandbox.
+ */
+export const apnsPushProvider: PushProvider = {
+  name: 'apns',
+  async send(token, message) {
+    const { APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_BUNDLE_ID } = process.env;
+    if (!APNS_KEY_ID || !APNS_TEAM_ID || !APNS_PRIVATE_KEY || !APNS_BUNDLE_ID) {
+      return failed('APNs is not configured', false);
+    }
+
+    // Apple rejects provider tokens older than an hour; refresh well before that
+    const now = Math.floor(Date.now() / 1000);
+    if (!apnsJwt || now - apnsJwt.issuedAt > 50 * 60) {
+      apnsJwt = {
+        token: signJwt({ alg: 'ES256', kid: APNS_KEY_ID }, { iss: APNS_TEAM_ID, iat: now }, readPemKey(APNS_PRIVATE_KEY)),
+        issuedAt: now,
+      };
+    }
+
+    const host =
+      process.env.APNS_PRODUCTION === 'true' ? 'https://api.push.apple.com' : 'https://api.sandbox.push.apple.com';
+    const payload = JSON.stringify({
+      aps: { alert: { title: message.title, body: message.body ?? undefined }, sound: 'default' },
+      ...message.data,
+      notificationId: message.notificationId,
+      type: message.type,
+    });
+
+    const { status, body } = await new Promise<{ status: number; body: string }>((resolve, reject) => {
+      const session = connect(host);
+      // A stalled connection or stream rejects and closes the session
+      const timeOut = () => {
+        session.destroy();
+        reject(new Error(`APNs request timed out after ${PROVIDER_TIMEOUT_MS} ms`));
+      };
+      session.setTimeout(PROVIDER_TIMEOUT_MS, timeOut);
+      session.on('error', reject);
+      const request = session.request({
+        ':method': 'POST',
+        ':path': `/3/device/${token}`,
+        authorization: `bearer ${apnsJwt!.token}`,
+        'apns-topic': APNS_BUNDLE_ID,
+        'apns-push-type': 'alert',
+        'content-type': 'application/json',
+      });
+
+      request.setTimeout(PROVIDER_TIMEOUT_MS, timeOut);
+
+      let responseStatus = 0;
+      let responseBody = '';
+      request.on('response', (headers) => {
+        responseStatus = Number(headers[':status']);
+      });
+      request.on('data', (chunk) => {
+        responseBody += chunk;
+      });
+      request.on('end', () => {
+        session.close();
+        resolve({ status: responseStatus, body: responseBody });
+      });
+      request.on('error', (error) => {
+        session.close();
+        reject(error);
+      });
+      request.end(payload);
+    });
+
+    if (status === 200) {
+      return sent();
+    }
+
+    let reason = `APNs responded with ${status}`;
+    try {
+      reason = (JSON.parse(body) as { reason?: string }).reason || reason;
+    } catch {
+      // Empty or non-JSON error body
+    }
+    if (status === 410 || reason === 'BadDeviceToken' || reason === 'Unregistered') {
+      return invalidToken(reason);
+    }
+    return failed(reason, isRetryableStatus(status));
+  },
+};
+
+let fcmAccessToken: { token: string; expiresAt: number } | null = null;
+
+// Exchanges a service-account JWT for an OAuth access token for the FCM v1 API
+const getFcmAccessToken = async (clientEmail: string, privateKey: string) => {
+  if (fcmAccessToken && fcmAccessToken.expiresAt > Date.now() + 60 * 1000) {
+    return fcmAccessToken.token;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = signJwt(
+    { alg: 'RS256', typ: 'JWT' },
+    {
+      iss: clientEmail,
+      scope: 'https://www.googleapis.com/auth/firebase.messaging',
+      aud: 'https://oauth2.googleapis.com/token',
+      iat: now,
+      exp: now + 3600,
+    },
+    readPemKey(privateKey)
+  );
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }).toString(),
+  });
+  if (!response.ok) {
+    throw new Error(`FCM token exchange failed with ${response.status}`);
+  }
+
+  const result = (await response.json()) as { access_token: string; expires_in: number };
+  fcmAccessToken = { token: result.access_token, expiresAt: Date.now() + result.expires_in * 1000 };
+  return fcmAccessToken.token;
+};
+
+/**
+ * Firebase Cloud Messaging HTTP v1 API for Android tokens.
+ * Needs FCM_PROJECT_ID, FCM_CLIENT_EMAIL and FCM_PRIVATE_KEY from a service account.
+ */
+export const fcmPushProvider: PushProvider = {
+  name: 'fcm',
+  async send(token, message) {
+    const { FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY } = process.env;
+    if (!FCM_PROJECT_ID || !FCM_CLIENT_EMAIL || !FCM_PRIVATE_KEY) {
+      return failed('FCM is not configured', false);
+    }
+
+    const accessToken = await getFcmAccessToken(FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY);
+
+    // FCM data payloads only accept string values
+    const data = Object.fromEntries(
+      Object.entries({ ...message.data, notificationId: message.notificationId, type: message.type }).map(
+        ([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]
+      )
+    );
+
+    const response = await fetch(`https://fcm.googleapis.com/v1/projects/${FCM_PROJECT_ID}/messages:send`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({
+        message: {
+          token,
+          notification: { title: message.title, body: message.body ?? undefined },
+          data,
+        },
+      }),
+    });
+
+    if (response.ok) {
+      return sent();
+    }
+
+    const result = (await response.json().catch(() => null)) as {
+      error?: { message?: string; details?: { errorCode?: string }[] };
+    } | null;
+    const errorCode = result?.error?.details?.find((detail) => detail.errorCode)?.errorCode;
+    const error = errorCode || result?.error?.message || `FCM responded with ${response.status}`;
+    if (response.status === 404 || errorCode === 'UNREGISTERED') {
+      return invalidToken(error);
+    }
+    return failed(error, isRetryableStatus(response.status));
+  },
+};
+
+let vapidKey: KeyObject | null = null;
+
+// Builds a P-256 private key from the raw base64url VAPID key pair
+const getVapidKey = (publicKey: string, privateKey: string) => {
+  if (!vapidKey) {
+    const point = Buffer.from(publicKey, 'base64url');
+    vapidKey = createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        d: privateKey,
+        x: base64Url(point.subarray(1, 33)),
+        y: base64Url(point.subarray(33, 65)),
+      },
+      format: 'jwk',
+    });
+  }
+  return vapidKey;
+};
+
+/**
+ * Web Push with VAPID. The device token is the JSON PushSubscription from the browser.
+ * Pushes carry no payload (which would need per-subscription encryption): the service
+ * worker wakes up and fetches GET /api/notifications/outbox for the content.
+ * Needs VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY (raw, base64url) and VAPID_SUBJECT.
+ */
+export const webPushProvider: PushProvider = {
+  name: 'webpush',
+  async send(token) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY || !VAPID_SUBJECT) {
+      return failed('Web Push is not configured', false);
+    }
+
+    let endpoint: string;
+    try {
+      endpoint = (JSON.parse(token) as { endpoint: string }).endpoint;
+      new URL(endpoint);
+    } catch {
+      return invalidToken('Malformed push subscription');
+    }
+
+    const jwt = signJwt(
+      { typ: 'JWT', alg: 'ES256' },
+      { aud: new URL(endpoint).origin, exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60, sub: VAPID_SUBJECT },
+      getVapidKey(VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
+    );
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      headers: {
+        TTL: '86400',
+        Urgency: 'normal',
+        Authorization: `vapid t=${jwt}, k=${VAPID_PUBLIC_KEY}`,
+      },
+    });
+
+    if (response.ok) {
+      return sent();
+    }
+    if (response.status === 404 || response.status === 410) {
+      return invalidToken(`Subscription gone (${response.status})`);
+    }
+    return failed(`Push service responded with ${response.status}`, isRetryableStatus(response.status));
+  },
+};
+
+/**
+ * In-memory provider for local development. Tokens starting with "invalid" are
+ * reported as dead and tokens starting with "fail" fail with a retryable error;
+ * everything else is recorded in `deliveries`.
+ */
+export const fakePushProvider: PushProvider & { deliveries: { token: string; message: PushMessage }[] } = {
+  name: 'fake',
+  deliveries: [],
+  async send(token, message) {
+    if (token.startsWith('invalid')) {
+      return invalidToken('Fake provider: token marked invalid');
+    }
+    if (token.startsWith('fail')) {
+      return failed('Fake provider: simulated outage', true);
+    }
+    this.deliveries.push({ token, message });
+    return sent();
+  },
+};
+
+const pushProviders = new Map<string, PushProvider>(
+  [expoPushProvider, apnsPushProvider, fcmPushProvider, webPushProvider, fakePushProvider].map((provider) => [
+    provider.name,
+    provider,
+  ])
+);
+
+/**
+ * Adds or replaces a provider adapter, e.g. to plug in a different gateway
+ */
+export function registerPushProvider(provider: PushProvider) {
+  pushProviders.set(provider.name, provider);
+}
+
+/**
+ * Picks the provider for a device token. PUSH_PROVIDER forces a single provider
+ * for every token (PUSH_PROVIDER=fake for local testing).
+ */
+export const resolvePushProvider = (deviceToken: { token: string; platform: string }) => {
+  const forced = process.env.PUSH_PROVIDER;
+  if (forced) {
+    return pushProviders.get(forced);
+  }
+  if (deviceToken.token.startsWith('ExponentPushToken[') || deviceToken.token.startsWith('ExpoPushToken[')) {
+    return pushProviders.get('expo');
+  }
+  if (deviceToken.platform === 'ios') {
+    return pushProviders.get('apns');
+  }
+  if (deviceToken.platform === 'android') {
+    return pushProviders.get('fcm');
+  }
+  return pushProviders.get('webpush');
+};
+
+const retryDelayMs = (attempt: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+
+type OutboxRow = typeof schema.notificationsOutbox.$inferSelect;
+
+// Sends one notification to each of the user's devices that hasn't received it yet
+async function deliverNotification(app: App, notification: OutboxRow) {
+  const attempt = notification.attempts + 1;
+
+  const prefs = await app.db.query.notificationPrefs.findFirst({
+    where: eq(schema.notificationPrefs.userId, notification.userId),
+  });
+  const enabled = isNotificationTypeEnabled(prefs, notification.type);
+
+  // Quiet hours postpone the push until the window ends instead of dropping it
+  const quietUntil = enabled ? getQuietHoursEnd(prefs, new Date()) : null;
+  if (quietUntil) {
+    await app.db
+      .update(schema.notificationsOutbox)
+      .set({ nextAttemptAt: quietUntil })
+      .where(eq(schema.notificationsOutbox.id, notification.id));
+    app.logger.info({ notificationId: notification.id, until: quietUntil }, 'Push deferred for quiet hours');
+    return;
+  }
+
+  const devices = enabled
+    ? await app.db.select().from(schema.deviceTokens).where(eq(schema.deviceTokens.userId, notification.userId))
+    : [];
+
+  // Devices that already got this notification on an earlier attempt are skipped
+  const delivered = await app.db
+    .select({ deviceTokenId: schema.notificationDeliveries.deviceTokenId })
+    .from(schema.notificationDeliveries)
+    .where(
+      and(
+        eq(schema.notificationDeliveries.notificationId, notification.id),
+        eq(schema.notificationDeliveries.status, 'sent')
+      )
+    );
+  const deliveredIds = new Set(delivered.map((row) => row.deviceTokenId));
+  const pending = devices.filter((device) => !deliveredIds.has(device.id));
+
+  const message: PushMessage = {
+    notificationId: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    data: (notification.dataJson as Record<string, unknown> | null) ?? null,
+  };
+
+  let sentCount = deliveredIds.size;
+  const retryErrors: string[] = [];
+  const deadTokenIds: string[] = [];
+
+  for (const device of pending) {
+    const provider = resolvePushProvider(device);
+    let result: PushResult;
+    if (!provider) {
+      result = failed(`Unknown push provider ${process.env.PUSH_PROVIDER}`, false);
+    } else {
+      try {
+        result = await provider.send(device.token, message);
+      } catch (error) {
+        // Network errors and timeouts
+        result = failed(error instanceof Error ? error.message : String(error), true);
+      }
+    }
+
+    await app.db.insert(schema.notificationDeliveries).values({
+      notificationId: notification.id,
+      deviceTokenId: device.id,
+      provider: provider?.name || 'unknown',
+      attempt,
+      status: result.status,
+      error: result.error,
+    });
+
+    if (result.status === 'sent') {
+      sentCount++;
+    } else if (result.status === 'invalid_token') {
+      deadTokenIds.push(device.id);
+    } else if (result.retryable) {
+      retryErrors.push(result.error || 'Unknown error');
+    }
+  }
+
+  if (deadTokenIds.length > 0) {
+    await app.db.delete(schema.deviceTokens).where(inArray(schema.deviceTokens.id, deadTokenIds));
+    app.logger.info({ userId: notification.userId, count: deadTokenIds.length }, 'Removed invalid device tokens');
+  }
+
+  const now = new Date();
+  if (retryErrors.length > 0 && attempt < MAX_DELIVERY_ATTEMPTS) {
+    await app.db
+      .update(schema.notificationsOutbox)
+      .set({
+        attempts: attempt,
+        nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempt)),
+        lastError: retryErrors[0],
+      })
+      .where(eq(schema.notificationsOutbox.id, notification.id));
+    app.logger.warn({ notificationId: notification.id, attempt, error: retryErrors[0] }, 'Push delivery will be retried');
+    return;
+  }
+
+  // Without any push delivery the row stays unsent so in-app polling can still pick it up
+  await app.db
+    .update(schema.notificationsOutbox)
+    .set({
+      attempts: attempt,
+      nextAttemptAt: null,
+      dispatchedAt: now,
+      sentAt: sentCount > 0 ? now : undefined,
+      lastError: retryErrors[0] ?? null,
+    })
+    .where(eq(schema.notificationsOutbox.id, notification.id));
+
+  app.logger.info(
+    { notificationId: notification.id, devices: devices.length, sent: sentCount, attempt },
+    'Notification dispatched'
+  );
+}
+
+/**
+ * Drains due outbox rows and pushes them to the recipients' registered devices.
+ * Rows are claimed with a short lease so concurrent workers don't double-send.
+ */
+export async function dispatchDueNotifications(app: App) {
+  const now = new Date();
+
+  const due = await app.db
+    .select({ id: schema.notificationsOutbox.id, nextAttemptAt: schema.notificationsOutbox.nextAttemptAt })
+    .from(schema.notificationsOutbox)
+    .where(
+      and(
+        isNull(schema.notificationsOutbox.sentAt),
+        isNull(schema.notificationsOutbox.dispatchedAt),
+        lte(schema.notificationsOutbox.sendAfter, now),
+        or(isNull(schema.notificationsOutbox.nextAttemptAt), lte(schema.notificationsOutbox.nextAttemptAt, now))
+      )
+    )
+    .orderBy(asc(schema.notificationsOutbox.sendAfter))
+    .limit(DISPATCH_BATCH_SIZE);
+
+  let dispatched = 0;
+  for (const candidate of due) {
+    // Claim the row; another worker may have taken it since the select
+    const [claimed] = await app.db
+      .update(schema.notificationsOutbox)
+      .set({ nextAttemptAt: new Date(Date.now() + DISPATCH_LEASE_MS) })
+      .where(
+        and(
+          eq(schema.notificationsOutbox.id, candidate.id),
+          isNull(schema.notificationsOutbox.dispatchedAt),
+          candidate.nextAttemptAt
+            ? eq(schema.notificationsOutbox.nextAttemptAt, candidate.nextAttemptAt)
+            : isNull(schema.notificationsOutbox.nextAttemptAt)
+        )
+      )
+      .returning();
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      await deliverNotification(app, claimed);
+      dispatched++;
+    } catch (error) {
+      // The lease expires and the row is picked up again on a later run
+      app.logger.error({ err: error, notificationId: claimed.id }, 'Failed to dispatch notification');
+    }
+  }
+
+  if (due.length > 0) {
+    app.logger.info({ due: due.length, dispatched }, 'Push dispatcher run completed');
+  }
+  return dispatched;
+}
+
+/**
+ * Runs the scheduler and then the dispatcher on an interval, so reminders queued by the
+ * scheduler go out in the same tick. PUSH_WORKER_INTERVAL_MS sets the interval;
+ * 0 disables the worker (e.g. when a separate process or cron drains the outbox).
+ */
+export function startPushWorker(app: App) {
+  const interval = Number(process.env.PUSH_WORKER_INTERVAL_MS ?? DEFAULT_WORKER_INTERVAL_MS);
+  if (!interval) {
+    app.logger.info('Push worker disabled');
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow run
+    if (running) return;
+    running = true;
+    try {
+      await scheduleNotifications(app);
+      await dispatchDueNotifications(app);
+    } catch (error) {
+      app.logger.error({ err: error }, 'Push worker run failed');
+    } finally {
+      running = false;
+    }
+  }, interval);
+  timer.unref();
+
+  app.logger.info({ interval, provider: process.env.PUSH_PROVIDER || 'auto' }, 'Push worker started');
+}
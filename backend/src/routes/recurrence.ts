@@ -0,0 +1,286 @@
+import { eq, and, gte, lt, asc, inArray, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import {
+  addDaysToDateKey,
+  getUserTimezone,
+  getZonedDateParts,
+  minutesToTime,
+  validateAppointmentSlot,
+  zonedTimeToUtc,
+  BLOCKING_APPOINTMENT_STATUSES,
+  type SlotRejection,
+} from './availability.js';
+import { withdrawAppointmentReminders } from './notifications.js';
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'];
+
+// Upper bound on generated occurrences, roughly a year of weekly sessions
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export interface RecurrenceRule {
+  frequency: string;
+  count?: number | null;
+  until?: Date | null;
+}
+
+export interface OccurrenceRejection {
+  scheduledAt: Date;
+  code: string;
+  error: string;
+}
+
+type AppointmentSeriesRow = typeof schema.appointmentSeries.$inferSelect;
+type AppointmentRow = typeof schema.appointments.$inferSelect;
+
+const formatRRuleDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Formats a series as an RFC 5545 RRULE value, e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=10
+ */
+export const formatRRule = (series: Pick<AppointmentSeriesRow, 'frequency' | 'count' | 'until'>) => {
+  const parts = [series.frequency === 'monthly' ? 'FREQ=MONTHLY' : 'FREQ=WEEKLY'];
+  if (series.frequency === 'biweekly') {
+    parts.push('INTERVAL=2');
+  }
+  if (series.count) {
+    parts.push(`COUNT=${series.count}`);
+  } else if (series.until) {
+    parts.push(`UNTIL=${formatRRuleDate(series.until)}`);
+  }
+  return parts.join(';');
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Expands a recurrence rule into occurrence start times. Occurrences keep the
+ * wall-clock time of the first one in the given time zone, so sessions do not
+ * drift by an hour across DST changes. Monthly rules skip months that lack the
+ * start day, as RRULE does.
+ */
+export function expandRecurrence(firstStart: Date, rule: RecurrenceRule, timeZone: string) {
+  const start = getZonedDateParts(firstStart, timeZone);
+  const time = minutesToTime(start.minutes);
+  const [year, month, day] = start.dateKey.split('-').map(Number);
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const occurrences: Date[] = [];
+  for (let step = 0; occurrences.length < limit && step < MAX_SERIES_OCCURRENCES * 2; step++) {
+    let dateKey: string;
+    if (rule.frequency === 'monthly') {
+      const targetYear = year + Math.floor((month - 1 + step) / 12);
+      const targetMonth = ((month - 1 + step) % 12) + 1;
+      if (day > daysInMonth(targetYear, targetMonth)) {
+        continue;
+      }
+      dateKey = `${targetYear}-${String(targetMonth).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    } else {
+      dateKey = addDaysToDateKey(start.dateKey, step * (rule.frequency === 'biweekly' ? 14 : 7));
+    }
+
+    const occurrence = zonedTimeToUtc(dateKey, time, timeZone);
+    if (rule.until && occurrence > rule.until) {
+      break;
+    }
+    occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Moves an occurrence the way its reference occurrence was moved: the same number
+ * of local calendar days, landing on the reference's new wall-clock time.
+ */
+export function shiftOccurrence(occurrence: Date, reference: { from: Date; to: Date }, timeZone: string) {
+  const from = getZonedDateParts(reference.from, timeZone);
+  const to = getZonedDateParts(reference.to, timeZone);
+  const dayShift = Math.round(
+    (Date.parse(`${to.dateKey}T00:00:00Z`) - Date.parse(`${from.dateKey}T00:00:00Z`)) / 86400000
+  );
+
+  const current = getZonedDateParts(occurrence, timeZone);
+  return zonedTimeToUtc(addDaysToDateKey(current.dateKey, dayShift), minutesToTime(to.minutes), timeZone);
+}
+
+/**
+ * Validates every occurrence of a series against the coach's agenda and returns
+ * the ones that cannot be booked. Appointments in excludeAppointmentIds are the
+ * ones being moved and do not count as conflicts.
+ */
+export async function validateOccurrences(
+  app: App,
+  options: { coachId: string; starts: Date[]; durationMinutes?: number | null; excludeAppointmentIds?: string[] }
+) {
+  const rejections: OccurrenceRejection[] = [];
+  for (const scheduledAt of options.starts) {
+    const rejection = await validateAppointmentSlot(app, {
+      coachId: options.coachId,
+      scheduledAt,
+      durationMinutes: options.durationMinutes,
+      excludeAppointmentIds: options.excludeAppointmentIds,
+    });
+    if (rejection) {
+      rejections.push({ scheduledAt, code: rejection.body.code, error: rejection.body.error });
+    }
+  }
+  return rejections;
+}
+
+/**
+ * Builds the 409 response for a series where some occurrences are not bookable
+ */
+export const seriesRejectionBody = (rejections: OccurrenceRejection[]) => ({
+  error: 'Some occurrences of the series cannot be scheduled',
+  code: 'series_conflict',
+  occurrences: rejections,
+});
+
+/**
+ * Applies an edit to an occurrence and every later active occurrence of its series
+ * ("this and following"). Moves keep each occurrence's relative position, and the
+ * series is split at the edited occurrence so earlier sessions keep the old rule.
+ * Returns null on success, otherwise the response to send.
+ */
+export async function updateFollowingOccurrences(
+  app: App,
+  appointment: AppointmentRow,
+  changes: { scheduledAt?: Date; durationMinutes?: number; notes?: string; status?: string }
+): Promise<SlotRejection | null> {
+  const series = await app.db.query.appointmentSeries.findFirst({
+    where: eq(schema.appointmentSeries.id, appointment.seriesId!),
+  });
+  if (!series) {
+    return { status: 404, body: { error: 'Appointment series not found', code: 'series_not_found' } };
+  }
+
+  const following = await app.db
+    .select()
+    .from(schema.appointments)
+    .where(
+      and(
+        eq(schema.appointments.seriesId, series.id),
+        gte(schema.appointments.scheduledAt, appointment.scheduledAt),
+        inArray(schema.appointments.status, BLOCKING_APPOINTMENT_STATUSES)
+      )
+    )
+    .orderBy(asc(schema.appointments.scheduledAt));
+  const rows = following.some((row) => row.id === appointment.id) ? following : [appointment, ...following];
+
+  const timeZone = await getUserTimezone(app, appointment.coachId);
+  const planned = rows.map((row) => ({
+    row,
+    scheduledAt: changes.scheduledAt
+      ? shiftOccurrence(row.scheduledAt, { from: appointment.scheduledAt, to: changes.scheduledAt }, timeZone)
+      : row.scheduledAt,
+    durationMinutes: changes.durationMinutes !== undefined ? changes.durationMinutes : row.durationMinutes,
+    status: changes.status ?? row.status,
+  }));
+
+  // Re-validate occurrences that move, change length or are reactivated (like a single appointment edit)
+  const moved = changes.scheduledAt !== undefined || changes.durationMinutes !== undefined;
+  const toValidate = planned.filter(
+    (occurrence) =>
+      BLOCKING_APPOINTMENT_STATUSES.includes(occurrence.status) &&
+      (moved || !BLOCKING_APPOINTMENT_STATUSES.includes(occurrence.row.status))
+  );
+  if (toValidate.length > 0) {
+    const rejections: OccurrenceRejection[] = [];
+    for (const occurrence of toValidate) {
+      const rejection = await validateAppointmentSlot(app, {
+        coachId: appointment.coachId,
+        scheduledAt: occurrence.scheduledAt,
+        durationMinutes: occurrence.durationMinutes,
+        excludeAppointmentIds: rows.map((row) => row.id),
+      });
+      if (rejection) {
+        rejections.push({ scheduledAt: occurrence.scheduledAt, code: rejection.body.code, error: rejection.body.error });
+      }
+    }
+    if (rejections.length > 0) {
+      return { status: 409, body: seriesRejectionBody(rejections) };
+    }
+  }
+
+  const [earlier] = await app.db
+    .select({ count: sql<number>`count(*)` })
+    .from(schema.appointments)
+    .where(
+      and(
+        eq(schema.appointments.seriesId, series.id),
+        lt(schema.appointments.scheduledAt, appointment.scheduledAt)
+      )
+    );
+  const earlierCount = Number(earlier.count);
+
+  // Splitting the series and moving its occurrences happen together, so a failure leaves the series as it was
+  const seriesId = await app.db.transaction(async (tx) => {
+    let targetSeriesId = series.id;
+    const seriesChanges = {
+      startsAt: planned[0].scheduledAt,
+      durationMinutes: changes.durationMinutes !== undefined ? changes.durationMinutes : series.durationMinutes,
+      notes: changes.notes !== undefined ? changes.notes : series.notes,
+    };
+
+    if (earlierCount === 0) {
+      // Editing from the first occurrence changes the whole series in place
+      await tx
+        .update(schema.appointmentSeries)
+        .set({ ...seriesChanges, updatedAt: new Date() })
+        .where(eq(schema.appointmentSeries.id, series.id));
+    } else {
+      // End the original series just before the edited occurrence
+      await tx
+        .update(schema.appointmentSeries)
+        .set({
+          count: series.count ? earlierCount : null,
+          until: series.count ? null : new Date(appointment.scheduledAt.getTime() - 1000),
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.appointmentSeries.id, series.id));
+
+      // Cancelled occurrences stay attached to the series they were cancelled from
+      if (changes.status !== 'cancelled') {
+        const [created] = await tx
+          .insert(schema.appointmentSeries)
+          .values({
+            coachId: series.coachId,
+            clientId: series.clientId,
+            frequency: series.frequency,
+            count: planned.length,
+            until: null,
+            ...seriesChanges,
+          })
+          .returning();
+        targetSeriesId = created.id;
+      }
+    }
+
+    for (const occurrence of planned) {
+      await tx
+        .update(schema.appointments)
+        .set({
+          scheduledAt: occurrence.scheduledAt,
+          durationMinutes: changes.durationMinutes !== undefined ? changes.durationMinutes : undefined,
+          notes: changes.notes !== undefined ? changes.notes : undefined,
+          status: changes.status !== undefined ? changes.status : undefined,
+          seriesId: targetSeriesId,
+          sequence: sql`${schema.appointments.sequence} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(schema.appointments.id, occurrence.row.id));
+
+      if (changes.scheduledAt || changes.status !== undefined) {
+        await withdrawAppointmentReminders(app, occurrence.row.id, tx);
+      }
+    }
+    return targetSeriesId;
+  });
+
+  app.logger.info(
+    { seriesId: series.id, splitInto: seriesId !== series.id ? seriesId : undefined, updated: planned.length },
+    'Appointment series updated from occurrence'
+  );
+  return null;
+}
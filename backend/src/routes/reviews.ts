@@ -0,0 +1,497 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { enqueueNotification } from './notifications.js';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export const REVIEW_STATUSES = ['unread', 'reviewed'] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+// Only answers are worth a coach's review; reading and audio completions start out reviewed
+export const REVIEWABLE_TASK_TYPES = ['reflection', 'exercise'];
+
+export const initialReviewStatus = (taskType: string): ReviewStatus =>
+  REVIEWABLE_TASK_TYPES.includes(taskType) ? 'unread' : 'reviewed';
+
+const commentSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    completionId: { type: 'string' },
+    authorId: { type: 'string' },
+    authorName: { type: ['string', 'null'] },
+    authorRole: { type: 'string' },
+    content: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+};
+
+const commentBodySchema = {
+  type: 'object',
+  properties: {
+    content: { type: 'string', minLength: 1, maxLength: MAX_COMMENT_LENGTH },
+  },
+  required: ['content'],
+};
+
+/**
+ * Feedback comments of the given completions with their author, oldest first
+ */
+export async function loadCompletionComments(app: App, completionIds: string[]) {
+  if (completionIds.length === 0) {
+    return [];
+  }
+  return app.db
+    .select({
+      id: schema.taskCompletionComments.id,
+      completionId: schema.taskCompletionComments.completionId,
+      authorId: schema.taskCompletionComments.authorId,
+      authorName: schema.profiles.name,
+      authorRole: schema.profiles.role,
+      content: schema.taskCompletionComments.content,
+      createdAt: schema.taskCompletionComments.createdAt,
+    })
+    .from(schema.taskCompletionComments)
+    .innerJoin(schema.profiles, eq(schema.profiles.id, schema.taskCompletionComments.authorId))
+    .where(inArray(schema.taskCompletionComments.completionId, completionIds))
+    .orderBy(asc(schema.taskCompletionComments.createdAt));
+}
+
+export function registerReviewRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // Helper to check if user is a coach
+  const requireCoach = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'coach') {
+      reply.status(403).send({ error: 'Forbidden: coach role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to check if user is a client
+  const requireClient = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'client') {
+      reply.status(403).send({ error: 'Forbidden: client role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to load a completion with its program assignment
+  const findCompletion = async (completionId: string) => {
+    const [row] = await app.db
+      .select({
+        completion: schema.taskCompletions,
+        clientId: schema.clientPrograms.clientId,
+        assignedBy: schema.clientPrograms.assignedBy,
+        taskTitle: schema.programTasks.title,
+      })
+      .from(schema.taskCompletions)
+      .innerJoin(schema.clientPrograms, eq(schema.clientPrograms.id, schema.taskCompletions.clientProgramId))
+      .innerJoin(schema.programTasks, eq(schema.programTasks.id, schema.taskCompletions.taskId))
+      .where(eq(schema.taskCompletions.id, completionId as any));
+    return row ?? null;
+  };
+
+  // Helper to load a completion only when its client is linked to the coach
+  const findCoachCompletion = async (coachId: string, completionId: string) => {
+    const row = await findCompletion(completionId);
+    if (!row) return null;
+
+    const clientLink = await app.db.query.coachClients.findFirst({
+      where: and(eq(schema.coachClients.coachId, coachId), eq(schema.coachClients.clientId, row.clientId)),
+    });
+    return clientLink ? row : null;
+  };
+
+  // GET /api/coach/clients/:id/task-completions - Returns a client's task responses with task context and feedback
+  fastify.get(
+    '/api/coach/clients/:id/task-completions',
+    {
+      schema: {
+        description: 'List task completions of a client',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: [...REVIEW_STATUSES] },
+          },
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                clientProgramId: { type: 'string' },
+                programTitle: { type: 'string' },
+                weekNumber: { type: 'number' },
+                weekTitle: { type: ['string', 'null'] },
+                taskId: { type: 'string' },
+                taskTitle: { type: 'string' },
+                taskType: { type: 'string' },
+                contentJson: { type: ['object', 'null'], additionalProperties: true },
+                responseJson: { type: ['object', 'null'], additionalProperties: true },
+                completedAt: { type: 'string' },
+                reviewStatus: { type: 'string' },
+                reviewedAt: { type: ['string', 'null'] },
+                comments: { type: 'array', items: commentSchema },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { status } = request.query as { status?: ReviewStatus };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId: id, status }, 'Fetching task completions');
+
+      try {
+        // Verify coach-client relationship
+        const clientLink = await app.db.query.coachClients.findFirst({
+          where: and(eq(schema.coachClients.coachId, coachId), eq(schema.coachClients.clientId, id as any)),
+        });
+
+        if (!clientLink) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const completions = await app.db
+          .select({
+            id: schema.taskCompletions.id,
+            clientProgramId: schema.taskCompletions.clientProgramId,
+            programTitle: schema.programVersions.title,
+            weekNumber: schema.programWeeks.weekNumber,
+            weekTitle: schema.programWeeks.title,
+            taskId: schema.programTasks.id,
+            taskTitle: schema.programTasks.title,
+            taskType: schema.programTasks.type,
+            contentJson: schema.programTasks.contentJson,
+            responseJson: schema.taskCompletions.responseJson,
+            completedAt: schema.taskCompletions.completedAt,
+            reviewStatus: schema.taskCompletions.reviewStatus,
+            reviewedAt: schema.taskCompletions.reviewedAt,
+          })
+          .from(schema.taskCompletions)
+          .innerJoin(schema.clientPrograms, eq(schema.clientPrograms.id, schema.taskCompletions.clientProgramId))
+          .innerJoin(schema.programVersions, eq(schema.programVersions.id, schema.clientPrograms.versionId))
+          .innerJoin(schema.programTasks, eq(schema.programTasks.id, schema.taskCompletions.taskId))
+          .innerJoin(schema.programWeeks, eq(schema.programWeeks.id, schema.programTasks.weekId))
+          .where(
+            and(
+              eq(schema.clientPrograms.clientId, id),
+              status ? eq(schema.taskCompletions.reviewStatus, status) : undefined
+            )
+          )
+          .orderBy(desc(schema.taskCompletions.completedAt));
+
+        const comments = await loadCompletionComments(
+          app,
+          completions.map((completion) => completion.id)
+        );
+
+        app.logger.info({ coachId, clientId: id, count: completions.length }, 'Task completions fetched');
+        return completions.map((completion) => ({
+          ...completion,
+          comments: comments.filter((comment) => comment.completionId === completion.id),
+        }));
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId: id }, 'Failed to fetch task completions');
+        return reply.status(500).send({ error: 'Failed to fetch task completions' });
+      }
+    }
+  );
+
+  // GET /api/coach/task-completions/unread - Counts task responses waiting for review, per client
+  fastify.get(
+    '/api/coach/task-completions/unread',
+    {
+      schema: {
+        description: 'Count unread task completions',
+        tags: ['coach'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              count: { type: 'number' },
+              clients: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    clientId: { type: 'string' },
+                    name: { type: ['string', 'null'] },
+                    count: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId }, 'Counting unread task completions');
+
+      try {
+        const rows = await app.db
+          .select({
+            clientId: schema.clientPrograms.clientId,
+            name: schema.profiles.name,
+            count: sql<number>`count(*)`,
+          })
+          .from(schema.taskCompletions)
+          .innerJoin(schema.clientPrograms, eq(schema.clientPrograms.id, schema.taskCompletions.clientProgramId))
+          .innerJoin(
+            schema.coachClients,
+            and(
+              eq(schema.coachClients.clientId, schema.clientPrograms.clientId),
+              eq(schema.coachClients.coachId, coachId)
+            )
+          )
+          .innerJoin(schema.profiles, eq(schema.profiles.id, schema.clientPrograms.clientId))
+          .where(eq(schema.taskCompletions.reviewStatus, 'unread'))
+          .groupBy(schema.clientPrograms.clientId, schema.profiles.name)
+          .orderBy(desc(sql`count(*)`));
+
+        const clients = rows.map((row) => ({ ...row, count: Number(row.count) }));
+        const count = clients.reduce((sum, client) => sum + client.count, 0);
+
+        app.logger.info({ coachId, count }, 'Unread task completions counted');
+        return { count, clients };
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to count unread task completions');
+        return reply.status(500).send({ error: 'Failed to count unread task completions' });
+      }
+    }
+  );
+
+  // PUT /api/coach/task-completions/:id/review - Marks a task response reviewed or unread
+  fastify.put(
+    '/api/coach/task-completions/:id/review',
+    {
+      schema: {
+        description: 'Set review status of a task completion',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: [...REVIEW_STATUSES] },
+          },
+          required: ['status'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              reviewStatus: { type: 'string' },
+              reviewedAt: { type: ['string', 'null'] },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { status } = request.body as { status: ReviewStatus };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, completionId: id, status }, 'Updating task completion review');
+
+      try {
+        const row = await findCoachCompletion(coachId, id);
+        if (!row) {
+          return reply.status(404).send({ error: 'Task completion not found' });
+        }
+
+        const reviewed = status === 'reviewed';
+        const [updated] = await app.db
+          .update(schema.taskCompletions)
+          .set({
+            reviewStatus: status,
+            reviewedAt: reviewed ? new Date() : null,
+            reviewedBy: reviewed ? coachId : null,
+          })
+          .where(eq(schema.taskCompletions.id, row.completion.id))
+          .returning();
+
+        app.logger.info({ coachId, completionId: id, status }, 'Task completion review updated');
+        return { id: updated.id, reviewStatus: updated.reviewStatus, reviewedAt: updated.reviewedAt };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, completionId: id }, 'Failed to update task completion review');
+        return reply.status(500).send({ error: 'Failed to update review' });
+      }
+    }
+  );
+
+  // POST /api/coach/task-completions/:id/comments - Adds coach feedback and marks the response reviewed
+  fastify.post(
+    '/api/coach/task-completions/:id/comments',
+    {
+      schema: {
+        description: 'Add feedback to a task completion',
+        tags: ['coach'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: commentBodySchema,
+        response: {
+          201: commentSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const content = (request.body as { content: string }).content.trim();
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, completionId: id }, 'Adding task feedback');
+
+      if (!content) {
+        return reply.status(400).send({ error: 'Comment cannot be empty' });
+      }
+
+      try {
+        const row = await findCoachCompletion(coachId, id);
+        if (!row) {
+          return reply.status(404).send({ error: 'Task completion not found' });
+        }
+
+        const comment = await app.db.transaction(async (tx) => {
+          const [inserted] = await tx
+            .insert(schema.taskCompletionComments)
+            .values({ completionId: row.completion.id, authorId: coachId, content, createdAt: new Date() })
+            .returning();
+          await tx
+            .update(schema.taskCompletions)
+            .set({ reviewStatus: 'reviewed', reviewedAt: new Date(), reviewedBy: coachId })
+            .where(eq(schema.taskCompletions.id, row.completion.id));
+          return inserted;
+        });
+
+        await enqueueNotification(app, {
+          userId: row.clientId,
+          type: 'task_feedback',
+          title: coach.name || 'Feedback from your coach',
+          body: `Feedback on "${row.taskTitle}"`,
+          data: { clientProgramId: row.completion.clientProgramId, completionId: row.completion.id },
+        });
+
+        app.logger.info({ coachId, completionId: id, commentId: comment.id }, 'Task feedback added');
+        return reply.status(201).send({ ...comment, authorName: coach.name, authorRole: coach.role });
+      } catch (error) {
+        app.logger.error({ err: error, coachId, completionId: id }, 'Failed to add task feedback');
+        return reply.status(500).send({ error: 'Failed to add feedback' });
+      }
+    }
+  );
+
+  // POST /api/client/task-completions/:id/comments - Replies to coach feedback on the client's own response
+  fastify.post(
+    '/api/client/task-completions/:id/comments',
+    {
+      schema: {
+        description: 'Reply to feedback on a task completion',
+        tags: ['client'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: commentBodySchema,
+        response: {
+          201: commentSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const { id } = request.params as { id: string };
+      const content = (request.body as { content: string }).content.trim();
+      const userId = session.user.id;
+
+      app.logger.info({ userId, completionId: id }, 'Replying to task feedback');
+
+      if (!content) {
+        return reply.status(400).send({ error: 'Comment cannot be empty' });
+      }
+
+      try {
+        const row = await findCompletion(id);
+        if (!row || row.clientId !== userId) {
+          return reply.status(404).send({ error: 'Task completion not found' });
+        }
+
+        // A reply puts the response back in the coach's review queue
+        const comment = await app.db.transaction(async (tx) => {
+          const [inserted] = await tx
+            .insert(schema.taskCompletionComments)
+            .values({ completionId: row.completion.id, authorId: userId, content, createdAt: new Date() })
+            .returning();
+          await tx
+            .update(schema.taskCompletions)
+            .set({ reviewStatus: 'unread', reviewedAt: null, reviewedBy: null })
+            .where(eq(schema.taskCompletions.id, row.completion.id));
+          return inserted;
+        });
+
+        await enqueueNotification(app, {
+          userId: row.assignedBy,
+          type: 'task_feedback',
+          title: client.name || 'Client reply',
+          body: `Reply on "${row.taskTitle}"`,
+          data: { clientId: userId, completionId: row.completion.id },
+        });
+
+        app.logger.info({ userId, completionId: id, commentId: comment.id }, 'Task feedback reply added');
+        return reply.status(201).send({ ...comment, authorName: client.name, authorRole: client.role });
+      } catch (error) {
+        app.logger.error({ err: error, userId, completionId: id }, 'Failed to reply to task feedback');
+        return reply.status(500).send({ error: 'Failed to add reply' });
+      }
+    }
+  );
+}
@@ -0,0 +1,1867 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, or, asc, desc, gte, lte, inArray, isNull, notInArray, sql } from 'drizzle-orm';
+import * as schema from '../db/schema.js';
+import type { App } from '../index.js';
+import { DATE_PATTERN, addDaysToDateKey, getUserTimezone, getZonedDateParts } from './availability.js';
+import type { CheckinResponseInput } from './checkins.js';
+
+const MAX_THEME_ITEMS = 50;
+
+const MAX_CHOICE_OPTIONS = 10;
+
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+
+export const THEME_ITEM_TYPES = ['slider', 'yes_no', 'choice', 'likert', 'number', 'text'] as const;
+
+export type ThemeItemType = (typeof THEME_ITEM_TYPES)[number];
+
+// Type specific settings of a theme item
+export interface ThemeItemConfig {
+  options?: string[];
+  minLabel?: string;
+  maxLabel?: string;
+  unit?: string;
+}
+
+interface ThemeItemSettingsInput {
+  config?: ThemeItemConfig | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+type ThemeItemRow = typeof schema.themeItems.$inferSelect;
+
+/**
+ * Checks that the settings fit the item type. Returns an error message, or null when valid.
+ */
+export const validateThemeItemSettings = (type: ThemeItemType, input: ThemeItemSettingsInput) => {
+  if (type === 'choice') {
+    const options = (input.config?.options || []).map((option) => option.trim()).filter(Boolean);
+    if (options.length < 2 || options.length > MAX_CHOICE_OPTIONS) {
+      return `Choice items need between 2 and ${MAX_CHOICE_OPTIONS} options`;
+    }
+    if (new Set(options).size !== options.length) {
+      return 'Choice options must be unique';
+    }
+  }
+  if (type === 'number' && input.minValue != null && input.maxValue != null && input.minValue > input.maxValue) {
+    return 'minValue cannot be greater than maxValue';
+  }
+  return null;
+};
+
+/**
+ * The config and value range stored for an item of the given type. Sliders, likert
+ * scales and yes/no items have a fixed range; only number items keep the bounds
+ * the coach set.
+ */
+export const themeItemSettings = (type: ThemeItemType, input: ThemeItemSettingsInput) => {
+  switch (type) {
+    case 'likert':
+      return {
+        config: {
+          minLabel: input.config?.minLabel?.trim() || undefined,
+          maxLabel: input.config?.maxLabel?.trim() || undefined,
+        },
+        minValue: 1,
+        maxValue: 5,
+      };
+    case 'yes_no':
+      return { config: null, minValue: 0, maxValue: 1 };
+    case 'choice':
+      return {
+        config: { options: (input.config?.options || []).map((option) => option.trim()).filter(Boolean) },
+        minValue: null,
+        maxValue: null,
+      };
+    case 'number':
+      return {
+        config: { unit: input.config?.unit?.trim() || undefined },
+        minValue: input.minValue ?? null,
+        maxValue: input.maxValue ?? null,
+      };
+    case 'text':
+      return { config: null, minValue: null, maxValue: null };
+    default:
+      return { config: null, minValue: 0, maxValue: 10 };
+  }
+};
+
+/**
+ * Whether a check-in answer is valid for the item. Text and choice answers use
+ * `text`, every other type a numeric `value` within the item's range.
+ */
+export function isValidThemeItemResponse(item: ThemeItemRow, response: CheckinResponseInput) {
+  const { value, text } = response;
+  const config = (item.config || {}) as ThemeItemConfig;
+
+  if (item.type === 'text') {
+    return typeof text === 'string' && text.trim().length > 0 && text.length <= MAX_TEXT_ANSWER_LENGTH;
+  }
+  if (item.type === 'choice') {
+    return typeof text === 'string' && (config.options || []).includes(text);
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return false;
+  }
+  if (item.type !== 'number' && !Number.isInteger(value)) {
+    return false;
+  }
+  return (item.minValue === null || value >= item.minValue) && (item.maxValue === null || value <= item.maxValue);
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Items of a theme in display order
+const loadThemeItems = (app: App, themeId: string, options: { activeOnly?: boolean } = {}) =>
+  app.db
+    .select()
+    .from(schema.themeItems)
+    .where(
+      and(
+        eq(schema.themeItems.themeId, themeId),
+        options.activeOnly ? eq(schema.themeItems.isActive, true) : undefined
+      )
+    )
+    .orderBy(asc(schema.themeItems.sortOrder), asc(schema.themeItems.createdAt));
+
+/**
+ * Marks a theme as changed. Clones compare their sourceVersion with this version
+ * to show that the library original has been updated.
+ */
+export const touchTheme = (app: App, themeId: string) =>
+  app.db
+    .update(schema.themes)
+    .set({ version: sql`${schema.themes.version} + 1`, updatedAt: new Date() })
+    .where(eq(schema.themes.id, themeId));
+
+/**
+ * Copies a theme and its items, in order, into a new private theme for the coach
+ */
+export async function cloneTheme(app: App, source: typeof schema.themes.$inferSelect, coachId: string) {
+  const [clone] = await app.db
+    .insert(schema.themes)
+    .values({
+      coachId,
+      name: source.name,
+      description: source.description,
+      sourceThemeId: source.id,
+      sourceVersion: source.version,
+    })
+    .returning();
+
+  const items = await loadThemeItems(app, source.id);
+  if (items.length > 0) {
+    await app.db.insert(schema.themeItems).values(
+      items.map((item) => ({
+        themeId: clone.id,
+        label: item.label,
+        type: item.type,
+        config: item.config,
+        minValue: item.minValue,
+        maxValue: item.maxValue,
+        sortOrder: item.sortOrder,
+        isActive: item.isActive,
+      }))
+    );
+  }
+
+  return clone;
+}
+
+// Check-ins per week each assignment frequency asks for
+export const THEME_FREQUENCIES: Record<string, number> = {
+  daily: 7,
+  three_per_week: 3,
+  weekly: 1,
+};
+
+type AssignmentRow = typeof schema.clientThemeAssignments.$inferSelect;
+
+/**
+ * Where an assignment stands on a date. Assignments switch between these on their
+ * own as the dates pass, so no job has to activate or deactivate them.
+ */
+export const assignmentStatus = (assignment: AssignmentRow, today: string) => {
+  if (!assignment.active || (assignment.endDate !== null && String(assignment.endDate) < today)) {
+    return 'ended' as const;
+  }
+  return String(assignment.startDate) > today ? ('scheduled' as const) : ('active' as const);
+};
+
+// Monday of the week the date falls in
+const weekStartOf = (dateKey: string) =>
+  addDaysToDateKey(dateKey, -((new Date(`${dateKey}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+/**
+ * The client's themes that are current today in their time zone, with active items
+ * and how far the client is with this week's check-ins for each of them
+ */
+export async function getCurrentClientThemes(app: App, clientId: string) {
+  const today = getZonedDateParts(new Date(), await getUserTimezone(app, clientId)).dateKey;
+
+  const assignments = await app.db
+    .select({ assignment: schema.clientThemeAssignments, theme: schema.themes })
+    .from(schema.clientThemeAssignments)
+    .innerJoin(schema.themes, eq(schema.clientThemeAssignments.themeId, schema.themes.id))
+    .where(
+      and(
+        eq(schema.clientThemeAssignments.clientId, clientId),
+        eq(schema.clientThemeAssignments.active, true),
+        lte(schema.clientThemeAssignments.startDate, today),
+        or(isNull(schema.clientThemeAssignments.endDate), gte(schema.clientThemeAssignments.endDate, today))
+      )
+    )
+    .orderBy(asc(schema.clientThemeAssignments.startDate), asc(schema.clientThemeAssignments.createdAt));
+
+  if (assignments.length === 0) {
+    return { today, themes: [] };
+  }
+
+  // Days this week on which the client answered at least one item of each theme
+  const weekStart = weekStartOf(today);
+  const answeredDays = await app.db
+    .selectDistinct({ themeId: schema.themeItems.themeId, date: schema.checkins.date })
+    .from(schema.checkinResponses)
+    .innerJoin(schema.checkins, eq(schema.checkinResponses.checkinId, schema.checkins.id))
+    .innerJoin(schema.themeItems, eq(schema.checkinResponses.themeItemId, schema.themeItems.id))
+    .where(
+      and(
+        eq(schema.checkins.userId, clientId),
+        gte(schema.checkins.date, weekStart),
+        lte(schema.checkins.date, today),
+        inArray(
+          schema.themeItems.themeId,
+          assignments.map(({ theme }) => theme.id)
+        )
+      )
+    );
+
+  const themes = [];
+  for (const { assignment, theme } of assignments) {
+    const days = answeredDays.filter((day) => day.themeId === theme.id).map((day) => String(day.date));
+    const answeredToday = days.includes(today);
+    const target = THEME_FREQUENCIES[assignment.frequency] ?? THEME_FREQUENCIES.daily;
+    themes.push({
+      assignmentId: assignment.id,
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      frequency: assignment.frequency,
+      ...theme,
+      items: await loadThemeItems(app, theme.id, { activeOnly: true }),
+      checkinsThisWeek: days.length,
+      checkinsPerWeek: target,
+      answeredToday,
+      due: !answeredToday && days.length < target,
+    });
+  }
+
+  return { today, themes };
+}
+
+/**
+ * Items from the list that belong to a theme the client has been assigned.
+ * Check-in answers are only accepted for these items.
+ */
+export async function loadClientThemeItems(app: App, clientId: string, itemIds: string[]) {
+  const candidates = itemIds.filter((itemId) => UUID_PATTERN.test(itemId));
+  if (candidates.length === 0) return [];
+
+  const rows = await app.db
+    .selectDistinct({ item: schema.themeItems })
+    .from(schema.themeItems)
+    .innerJoin(
+      schema.clientThemeAssignments,
+      eq(schema.clientThemeAssignments.themeId, schema.themeItems.themeId)
+    )
+    .where(and(eq(schema.clientThemeAssignments.clientId, clientId), inArray(schema.themeItems.id, candidates)));
+
+  return rows.map((row) => row.item);
+}
+
+const themeItemConfigSchema = {
+  type: ['object', 'null'],
+  properties: {
+    options: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: MAX_CHOICE_OPTIONS },
+    minLabel: { type: 'string' },
+    maxLabel: { type: 'string' },
+    unit: { type: 'string' },
+  },
+};
+
+const themeItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    themeId: { type: 'string' },
+    label: { type: 'string' },
+    type: { type: 'string' },
+    config: { type: ['object', 'null'], additionalProperties: true },
+    minValue: { type: ['number', 'null'] },
+    maxValue: { type: ['number', 'null'] },
+    sortOrder: { type: 'number' },
+    isActive: { type: 'boolean' },
+  },
+};
+
+const themeDetailSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: ['string', 'null'] },
+    version: { type: 'number' },
+    sourceThemeId: { type: ['string', 'null'] },
+    sourceVersion: { type: ['number', 'null'] },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+    items: { type: 'array', items: themeItemSchema },
+    source: {
+      type: ['object', 'null'],
+      properties: { id: { type: 'string' }, name: { type: 'string' }, version: { type: 'number' } },
+    },
+  },
+};
+
+export function registerThemeRoutes(app: App) {
+  const requireAuth = app.requireAuth();
+  const fastify = app.fastify;
+
+  // Helper to check if user is a coach
+  const requireCoach = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'coach') {
+      reply.status(403).send({ error: 'Forbidden: coach role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to check if user is a client
+  const requireClient = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'client') {
+      reply.status(403).send({ error: 'Forbidden: client role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to load a private theme only when the coach owns it
+  const findCoachTheme = (coachId: string, themeId: string) =>
+    app.db.query.themes.findFirst({
+      where: and(
+        eq(schema.themes.id, themeId as any),
+        eq(schema.themes.coachId, coachId),
+        isNull(schema.themes.orgId),
+        isNull(schema.themes.archivedAt)
+      ),
+    });
+
+  // Helper to verify the coach coaches the client
+  const isCoachOfClient = async (coachId: string, clientId: string) => {
+    const link = await app.db.query.coachClients.findFirst({
+      where: and(eq(schema.coachClients.coachId, coachId), eq(schema.coachClients.clientId, clientId as any)),
+    });
+    return !!link;
+  };
+
+  // GET /api/coach/themes - Returns the coach's themes with their item counts
+  fastify.get(
+    '/api/coach/themes',
+    {
+      schema: {
+        description: 'Get themes for coach',
+        tags: ['themes'],
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                description: { type: ['string', 'null'] },
+                itemCount: { type: 'number' },
+                createdAt: { type: 'string' },
+                version: { type: 'number' },
+                sourceThemeId: { type: ['string', 'null'] },
+                sourceVersion: { type: ['number', 'null'] },
+                sourceLatestVersion: { type: ['number', 'null'] },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const coachId = session.user.id;
+      app.logger.info({ coachId }, 'Fetching themes');
+
+      try {
+        const themes = await app.db
+          .select({
+            id: schema.themes.id,
+            name: schema.themes.name,
+            description: schema.themes.description,
+            createdAt: schema.themes.createdAt,
+            version: schema.themes.version,
+            sourceThemeId: schema.themes.sourceThemeId,
+            sourceVersion: schema.themes.sourceVersion,
+            itemCount: sql<number>`(
+              select count(*) from ${schema.themeItems}
+              where ${schema.themeItems.themeId} = ${schema.themes.id}
+            )`,
+            sourceLatestVersion: sql<number | null>`(
+              select source.version from ${schema.themes} source
+              where source.id = ${schema.themes.sourceThemeId}
+            )`,
+          })
+          .from(schema.themes)
+          .where(
+            and(
+              eq(schema.themes.coachId, coachId),
+              isNull(schema.themes.orgId),
+              isNull(schema.themes.archivedAt)
+            )
+          )
+          .orderBy(desc(schema.themes.createdAt));
+
+        app.logger.info({ coachId, count: themes.length }, 'Themes fetched');
+        return themes.map((theme) => ({
+          ...theme,
+          itemCount: Number(theme.itemCount),
+          sourceLatestVersion: theme.sourceLatestVersion === null ? null : Number(theme.sourceLatestVersion),
+        }));
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch themes');
+        return reply.status(500).send({ error: 'Failed to fetch themes' });
+      }
+    }
+  );
+
+  // POST /api/coach/themes - Creates a theme, optionally with its first items
+  fastify.post(
+    '/api/coach/themes',
+    {
+      schema: {
+        description: 'Create theme',
+        tags: ['themes'],
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: ['string', 'null'] },
+            items: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: MAX_THEME_ITEMS },
+          },
+          required: ['name'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { name, description, items = [] } = request.body as {
+        name: string;
+        description?: string | null;
+        items?: string[];
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, name, items: items.length }, 'Creating theme');
+
+      try {
+        const [theme] = await app.db
+          .insert(schema.themes)
+          .values({ coachId, name: name.trim(), description: description?.trim() || null })
+          .returning();
+
+        if (items.length > 0) {
+          await app.db.insert(schema.themeItems).values(
+            items.map((label, index) => ({
+              themeId: theme.id,
+              label: label.trim(),
+              sortOrder: index + 1,
+            }))
+          );
+        }
+
+        app.logger.info({ coachId, themeId: theme.id }, 'Theme created');
+        return { id: theme.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, name }, 'Failed to create theme');
+        return reply.status(500).send({ error: 'Failed to create theme' });
+      }
+    }
+  );
+
+  // GET /api/coach/themes/:id - Returns a theme with all its items in order
+  fastify.get(
+    '/api/coach/themes/:id',
+    {
+      schema: {
+        description: 'Get theme with items',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: themeDetailSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id }, 'Fetching theme');
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        const items = await loadThemeItems(app, theme.id);
+        const source = theme.sourceThemeId
+          ? await app.db.query.themes.findFirst({
+              where: eq(schema.themes.id, theme.sourceThemeId),
+              columns: { id: true, name: true, version: true },
+            })
+          : null;
+
+        app.logger.info({ coachId, themeId: id, items: items.length }, 'Theme fetched');
+        return { ...theme, items, source: source ?? null };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id }, 'Failed to fetch theme');
+        return reply.status(500).send({ error: 'Failed to fetch theme' });
+      }
+    }
+  );
+
+  // PUT /api/coach/themes/:id - Updates a theme's name or description
+  fastify.put(
+    '/api/coach/themes/:id',
+    {
+      schema: {
+        description: 'Update theme',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: ['string', 'null'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { name, description } = request.body as { name?: string; description?: string | null };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id }, 'Updating theme');
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        await app.db
+          .update(schema.themes)
+          .set({
+            name: name !== undefined ? name.trim() : undefined,
+            description: description !== undefined ? description?.trim() || null : undefined,
+          })
+          .where(eq(schema.themes.id, theme.id));
+        await touchTheme(app, theme.id);
+
+        app.logger.info({ coachId, themeId: id }, 'Theme updated');
+        return { id: theme.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id }, 'Failed to update theme');
+        return reply.status(500).send({ error: 'Failed to update theme' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/themes/:id - Deletes a theme, or archives it when clients have answered it
+  fastify.delete(
+    '/api/coach/themes/:id',
+    {
+      schema: {
+        description: 'Delete or archive theme',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' }, archived: { type: 'boolean' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id }, 'Deleting theme');
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        // Check-in answers cascade with the theme's items, so answered themes are only archived
+        const [answered] = await app.db
+          .select({ id: schema.checkinResponses.id })
+          .from(schema.checkinResponses)
+          .innerJoin(schema.themeItems, eq(schema.themeItems.id, schema.checkinResponses.themeItemId))
+          .where(eq(schema.themeItems.themeId, theme.id))
+          .limit(1);
+        if (answered) {
+          await app.db.transaction(async (tx) => {
+            await tx
+              .update(schema.themes)
+              .set({ archivedAt: new Date() })
+              .where(eq(schema.themes.id, theme.id));
+            await tx
+              .update(schema.clientThemeAssignments)
+              .set({ active: false })
+              .where(eq(schema.clientThemeAssignments.themeId, theme.id));
+          });
+
+          app.logger.info({ coachId, themeId: id }, 'Theme archived');
+          return { message: 'Theme archived', archived: true };
+        }
+
+        await app.db.delete(schema.themes).where(eq(schema.themes.id, theme.id));
+
+        app.logger.info({ coachId, themeId: id }, 'Theme deleted');
+        return { message: 'Theme deleted', archived: false };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id }, 'Failed to delete theme');
+        return reply.status(500).send({ error: 'Failed to delete theme' });
+      }
+    }
+  );
+
+  // POST /api/coach/themes/:id/items - Adds an item of any type at the end of the theme
+  fastify.post(
+    '/api/coach/themes/:id/items',
+    {
+      schema: {
+        description: 'Add item to theme',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            label: { type: 'string', minLength: 1 },
+            type: { type: 'string', enum: [...THEME_ITEM_TYPES] },
+            config: themeItemConfigSchema,
+            minValue: { type: ['integer', 'null'] },
+            maxValue: { type: ['integer', 'null'] },
+          },
+          required: ['label'],
+        },
+        response: {
+          200: themeItemSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { label, type = 'slider', ...settings } = request.body as ThemeItemSettingsInput & {
+        label: string;
+        type?: ThemeItemType;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id, label, type }, 'Creating theme item');
+
+      const settingsError = validateThemeItemSettings(type, settings);
+      if (settingsError) {
+        return reply.status(400).send({ error: settingsError });
+      }
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        const [{ count, maxSortOrder }] = await app.db
+          .select({
+            count: sql<number>`count(*)`,
+            maxSortOrder: sql<number | null>`max(${schema.themeItems.sortOrder})`,
+          })
+          .from(schema.themeItems)
+          .where(eq(schema.themeItems.themeId, theme.id));
+
+        if (Number(count) >= MAX_THEME_ITEMS) {
+          return reply.status(400).send({ error: `A theme can have at most ${MAX_THEME_ITEMS} items` });
+        }
+
+        const [item] = await app.db
+          .insert(schema.themeItems)
+          .values({
+            themeId: theme.id,
+            label: label.trim(),
+            type,
+            ...themeItemSettings(type, settings),
+            sortOrder: Number(maxSortOrder ?? 0) + 1,
+          })
+          .returning();
+
+        await touchTheme(app, theme.id);
+
+        app.logger.info({ coachId, themeId: id, itemId: item.id }, 'Theme item created');
+        return item;
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id }, 'Failed to create theme item');
+        return reply.status(500).send({ error: 'Failed to create theme item' });
+      }
+    }
+  );
+
+  // PUT /api/coach/themes/:id/items/order - Reorders all items of a theme
+  fastify.put(
+    '/api/coach/themes/:id/items/order',
+    {
+      schema: {
+        description: 'Reorder theme items',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            itemIds: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+          },
+          required: ['itemIds'],
+        },
+        response: {
+          200: { type: 'array', items: themeItemSchema },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const { itemIds } = request.body as { itemIds: string[] };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id, items: itemIds.length }, 'Reordering theme items');
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        // The new order must name every item of the theme exactly once
+        const items = await loadThemeItems(app, theme.id);
+        const known = new Set(items.map((item) => item.id));
+        if (itemIds.length !== items.length || itemIds.some((itemId) => !known.has(itemId))) {
+          return reply.status(400).send({ error: 'itemIds must list every item of the theme' });
+        }
+
+        const now = new Date();
+        for (const [index, itemId] of itemIds.entries()) {
+          await app.db
+            .update(schema.themeItems)
+            .set({ sortOrder: index + 1, updatedAt: now })
+            .where(eq(schema.themeItems.id, itemId));
+        }
+
+        await touchTheme(app, theme.id);
+
+        app.logger.info({ coachId, themeId: id }, 'Theme items reordered');
+        return loadThemeItems(app, theme.id);
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id }, 'Failed to reorder theme items');
+        return reply.status(500).send({ error: 'Failed to reorder theme items' });
+      }
+    }
+  );
+
+  // PUT /api/coach/themes/:id/items/:itemId - Updates an item's label, settings or active state; the type is fixed
+  fastify.put(
+    '/api/coach/themes/:id/items/:itemId',
+    {
+      schema: {
+        description: 'Update theme item',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, itemId: { type: 'string' } },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            label: { type: 'string', minLength: 1 },
+            isActive: { type: 'boolean' },
+            config: themeItemConfigSchema,
+            minValue: { type: ['integer', 'null'] },
+            maxValue: { type: ['integer', 'null'] },
+          },
+        },
+        response: {
+          200: themeItemSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, itemId } = request.params as { id: string; itemId: string };
+      const { label, isActive, ...settings } = request.body as ThemeItemSettingsInput & {
+        label?: string;
+        isActive?: boolean;
+      };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id, itemId, isActive }, 'Updating theme item');
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        const existing = await app.db.query.themeItems.findFirst({
+          where: and(eq(schema.themeItems.id, itemId as any), eq(schema.themeItems.themeId, theme.id)),
+        });
+        if (!existing) {
+          return reply.status(404).send({ error: 'Theme item not found' });
+        }
+
+        // Settings that are not part of the request keep their current values
+        const type = existing.type as ThemeItemType;
+        const merged: ThemeItemSettingsInput = {
+          config: settings.config !== undefined ? settings.config : (existing.config as ThemeItemConfig | null),
+          minValue: settings.minValue !== undefined ? settings.minValue : existing.minValue,
+          maxValue: settings.maxValue !== undefined ? settings.maxValue : existing.maxValue,
+        };
+        const settingsError = validateThemeItemSettings(type, merged);
+        if (settingsError) {
+          return reply.status(400).send({ error: settingsError });
+        }
+
+        const [item] = await app.db
+          .update(schema.themeItems)
+          .set({
+            label: label !== undefined ? label.trim() : undefined,
+            isActive,
+            ...themeItemSettings(type, merged),
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.themeItems.id, existing.id))
+          .returning();
+
+        await touchTheme(app, theme.id);
+
+        app.logger.info({ coachId, themeId: id, itemId }, 'Theme item updated');
+        return item;
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id, itemId }, 'Failed to update theme item');
+        return reply.status(500).send({ error: 'Failed to update theme item' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/themes/:id/items/:itemId - Deletes an item, or deactivates it when clients have answered it
+  fastify.delete(
+    '/api/coach/themes/:id/items/:itemId',
+    {
+      schema: {
+        description: 'Delete or deactivate theme item',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, itemId: { type: 'string' } },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { message: { type: 'string' }, archived: { type: 'boolean' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, itemId } = request.params as { id: string; itemId: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, themeId: id, itemId }, 'Deleting theme item');
+
+      try {
+        const theme = await findCoachTheme(coachId, id);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        const item = await app.db.query.themeItems.findFirst({
+          where: and(eq(schema.themeItems.id, itemId as any), eq(schema.themeItems.themeId, theme.id)),
+        });
+        if (!item) {
+          return reply.status(404).send({ error: 'Theme item not found' });
+        }
+
+        // Deleting would cascade to the item's check-in answers, so answered items are deactivated
+        const answered = await app.db.query.checkinResponses.findFirst({
+          where: eq(schema.checkinResponses.themeItemId, item.id),
+        });
+        if (answered) {
+          await app.db
+            .update(schema.themeItems)
+            .set({ isActive: false, updatedAt: new Date() })
+            .where(eq(schema.themeItems.id, item.id));
+          await touchTheme(app, theme.id);
+
+          app.logger.info({ coachId, themeId: id, itemId }, 'Theme item deactivated');
+          return { message: 'Theme item deactivated', archived: true };
+        }
+
+        await app.db.delete(schema.themeItems).where(eq(schema.themeItems.id, item.id));
+        await touchTheme(app, theme.id);
+
+        app.logger.info({ coachId, themeId: id, itemId }, 'Theme item deleted');
+        return { message: 'Theme item deleted', archived: false };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, themeId: id, itemId }, 'Failed to delete theme item');
+        return reply.status(500).send({ error: 'Failed to delete theme item' });
+      }
+    }
+  );
+
+  // GET /api/coach/themes/library - Returns published themes of the coach's organizations
+  fastify.get(
+    '/api/coach/themes/library',
+    {
+      schema: {
+        description: 'Get published organization themes available to the coach',
+        tags: ['themes'],
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                description: { type: ['string', 'null'] },
+                orgId: { type: 'string' },
+                orgName: { type: 'string' },
+                version: { type: 'number' },
+                itemCount: { type: 'number' },
+                clonedThemeId: { type: ['string', 'null'] },
+                clonedVersion: { type: ['number', 'null'] },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const coachId = session.user.id;
+      app.logger.info({ coachId }, 'Fetching theme library');
+
+      try {
+        const themes = await app.db
+          .select({
+            id: schema.themes.id,
+            name: schema.themes.name,
+            description: schema.themes.description,
+            orgId: schema.organizations.id,
+            orgName: schema.organizations.name,
+            version: schema.themes.version,
+            itemCount: sql<number>`(
+              select count(*) from ${schema.themeItems}
+              where ${schema.themeItems.themeId} = ${schema.themes.id}
+            )`,
+            clone: sql<{ id: string; version: number } | null>`(
+              select json_build_object('id', clone.id, 'version', clone.source_version)
+              from ${schema.themes} clone
+              where clone.source_theme_id = ${schema.themes.id}
+                and clone.coach_id = ${coachId}
+                and clone.org_id is null
+                and clone.archived_at is null
+              order by clone.created_at desc
+              limit 1
+            )`,
+          })
+          .from(schema.themes)
+          .innerJoin(schema.organizations, eq(schema.organizations.id, schema.themes.orgId))
+          .innerJoin(
+            schema.orgMembers,
+            and(eq(schema.orgMembers.orgId, schema.themes.orgId), eq(schema.orgMembers.userId, coachId))
+          )
+          .where(eq(schema.themes.isPublished, true))
+          .orderBy(asc(schema.organizations.name), asc(schema.themes.name));
+
+        app.logger.info({ coachId, count: themes.length }, 'Theme library fetched');
+        return themes.map(({ clone, ...theme }) => ({
+          ...theme,
+          itemCount: Number(theme.itemCount),
+          clonedThemeId: clone?.id ?? null,
+          clonedVersion: clone?.version ?? null,
+        }));
+      } catch (error) {
+        app.logger.error({ err: error, coachId }, 'Failed to fetch theme library');
+        return reply.status(500).send({ error: 'Failed to fetch theme library' });
+      }
+    }
+  );
+
+  // POST /api/coach/themes/library/:id/clone - Copies a published library theme into the coach's themes
+  fastify.post(
+    '/api/coach/themes/library/:id/clone',
+    {
+      schema: {
+        description: 'Clone a published organization theme',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' } },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, sourceThemeId: id }, 'Cloning library theme');
+
+      try {
+        const source = await app.db.query.themes.findFirst({
+          where: and(eq(schema.themes.id, id as any), eq(schema.themes.isPublished, true)),
+        });
+        const membership =
+          source?.orgId &&
+          (await app.db.query.orgMembers.findFirst({
+            where: and(eq(schema.orgMembers.orgId, source.orgId), eq(schema.orgMembers.userId, coachId)),
+          }));
+        if (!source || !membership) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        const clone = await cloneTheme(app, source, coachId);
+
+        app.logger.info({ coachId, sourceThemeId: id, themeId: clone.id }, 'Library theme cloned');
+        return { id: clone.id };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, sourceThemeId: id }, 'Failed to clone library theme');
+        return reply.status(500).send({ error: 'Failed to clone library theme' });
+      }
+    }
+  );
+
+  // Helper to load one of the client's assignments when the coach coaches the client
+  const findClientAssignment = (clientId: string, assignmentId: string) =>
+    app.db.query.clientThemeAssignments.findFirst({
+      where: and(
+        eq(schema.clientThemeAssignments.id, assignmentId as any),
+        eq(schema.clientThemeAssignments.clientId, clientId)
+      ),
+    });
+
+  // Today in the client's time zone; assignment dates are day keys in that zone
+  const clientToday = async (clientId: string) =>
+    getZonedDateParts(new Date(), await getUserTimezone(app, clientId)).dateKey;
+
+  const assignmentSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      themeId: { type: 'string' },
+      themeName: { type: 'string' },
+      startDate: { type: 'string' },
+      endDate: { type: ['string', 'null'] },
+      frequency: { type: 'string' },
+      status: { type: 'string' },
+    },
+  };
+
+  // GET /api/coach/clients/:id/themes - Returns the client's theme assignments, current and scheduled first
+  fastify.get(
+    '/api/coach/clients/:id/themes',
+    {
+      schema: {
+        description: 'Get theme assignments of client',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              today: { type: 'string' },
+              assignments: { type: 'array', items: assignmentSchema },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId: id }, 'Fetching client theme assignments');
+
+      try {
+        if (!(await isCoachOfClient(coachId, id))) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const today = await clientToday(id);
+        const rows = await app.db
+          .select({ assignment: schema.clientThemeAssignments, themeName: schema.themes.name })
+          .from(schema.clientThemeAssignments)
+          .innerJoin(schema.themes, eq(schema.clientThemeAssignments.themeId, schema.themes.id))
+          .where(eq(schema.clientThemeAssignments.clientId, id))
+          .orderBy(asc(schema.clientThemeAssignments.startDate), asc(schema.clientThemeAssignments.createdAt));
+
+        const statusOrder = { active: 0, scheduled: 1, ended: 2 };
+        const assignments = rows
+          .map(({ assignment, themeName }) => ({
+            ...assignment,
+            themeName,
+            status: assignmentStatus(assignment, today),
+          }))
+          .sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
+
+        app.logger.info({ coachId, clientId: id, count: assignments.length }, 'Client theme assignments fetched');
+        return { today, assignments };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId: id }, 'Failed to fetch client theme assignments');
+        return reply.status(500).send({ error: 'Failed to fetch client theme assignments' });
+      }
+    }
+  );
+
+  // POST /api/coach/clients/:id/themes - Assigns a theme from a start date (today by default) until an optional end date
+  fastify.post(
+    '/api/coach/clients/:id/themes',
+    {
+      schema: {
+        description: 'Assign theme to client',
+        tags: ['themes'],
+        params: { type: 'object', properties: { id: { type: 'string' } } },
+        body: {
+          type: 'object',
+          properties: {
+            themeId: { type: 'string' },
+            startDate: { type: 'string', pattern: DATE_PATTERN },
+            endDate: { type: ['string', 'null'], pattern: DATE_PATTERN },
+            frequency: { type: 'string', enum: Object.keys(THEME_FREQUENCIES) },
+          },
+          required: ['themeId'],
+        },
+        response: {
+          200: assignmentSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id } = request.params as { id: string };
+      const body = request.body as { themeId: string; startDate?: string; endDate?: string | null; frequency?: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId: id, ...body }, 'Assigning theme');
+
+      try {
+        if (!(await isCoachOfClient(coachId, id))) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const theme = await findCoachTheme(coachId, body.themeId);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        const today = await clientToday(id);
+        const startDate = body.startDate ?? today;
+        if (startDate < today) {
+          return reply.status(400).send({ error: 'startDate cannot be in the past' });
+        }
+        if (body.endDate && body.endDate < startDate) {
+          return reply.status(400).send({ error: 'endDate cannot be before startDate' });
+        }
+
+        const [assignment] = await app.db
+          .insert(schema.clientThemeAssignments)
+          .values({
+            clientId: id,
+            themeId: theme.id,
+            assignedBy: coachId,
+            active: true,
+            startDate,
+            endDate: body.endDate ?? null,
+            frequency: body.frequency ?? 'daily',
+          })
+          .returning();
+
+        app.logger.info(
+          { coachId, clientId: id, themeId: theme.id, assignmentId: assignment.id },
+          'Theme assigned'
+        );
+        return { ...assignment, themeName: theme.name, status: assignmentStatus(assignment, today) };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId: id, themeId: body.themeId }, 'Failed to assign theme');
+        return reply.status(500).send({ error: 'Failed to assign theme' });
+      }
+    }
+  );
+
+  // PUT /api/coach/clients/:id/themes/:assignmentId - Reschedules an assignment or changes its frequency
+  fastify.put(
+    '/api/coach/clients/:id/themes/:assignmentId',
+    {
+      schema: {
+        description: 'Update theme assignment of client',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, assignmentId: { type: 'string' } },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            startDate: { type: 'string', pattern: DATE_PATTERN },
+            endDate: { type: ['string', 'null'], pattern: DATE_PATTERN },
+            frequency: { type: 'string', enum: Object.keys(THEME_FREQUENCIES) },
+          },
+        },
+        response: {
+          200: assignmentSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, assignmentId } = request.params as { id: string; assignmentId: string };
+      const body = request.body as { startDate?: string; endDate?: string | null; frequency?: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId: id, assignmentId, ...body }, 'Updating theme assignment');
+
+      try {
+        if (!(await isCoachOfClient(coachId, id))) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const existing = await findClientAssignment(id, assignmentId);
+        if (!existing) {
+          return reply.status(404).send({ error: 'Assignment not found' });
+        }
+
+        const today = await clientToday(id);
+        if (assignmentStatus(existing, today) === 'ended') {
+          return reply.status(400).send({ error: 'Ended assignments cannot be changed' });
+        }
+
+        // A running assignment keeps its start date; it can only be moved before it starts
+        const startDate = body.startDate ?? String(existing.startDate);
+        if (body.startDate !== undefined && body.startDate !== String(existing.startDate)) {
+          if (String(existing.startDate) <= today || body.startDate < today) {
+            return reply.status(400).send({ error: 'startDate can only be moved to a future date before it starts' });
+          }
+        }
+        const endDate = body.endDate !== undefined ? body.endDate : existing.endDate;
+        if (endDate && (endDate < startDate || endDate < addDaysToDateKey(today, -1))) {
+          return reply.status(400).send({ error: 'endDate cannot be before startDate or in the past' });
+        }
+
+        const [assignment] = await app.db
+          .update(schema.clientThemeAssignments)
+          .set({ startDate, endDate, frequency: body.frequency })
+          .where(eq(schema.clientThemeAssignments.id, existing.id))
+          .returning();
+
+        const theme = await app.db.query.themes.findFirst({ where: eq(schema.themes.id, assignment.themeId) });
+
+        app.logger.info({ coachId, clientId: id, assignmentId }, 'Theme assignment updated');
+        return { ...assignment, themeName: theme?.name ?? '', status: assignmentStatus(assignment, today) };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId: id, assignmentId }, 'Failed to update theme assignment');
+        return reply.status(500).send({ error: 'Failed to update theme assignment' });
+      }
+    }
+  );
+
+  // DELETE /api/coach/clients/:id/themes/:assignmentId - Ends an assignment today, or drops it if it has not started
+  fastify.delete(
+    '/api/coach/clients/:id/themes/:assignmentId',
+    {
+      schema: {
+        description: 'Remove theme assignment of client',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, assignmentId: { type: 'string' } },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { success: { type: 'boolean' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const coach = await requireCoach(session, reply);
+      if (!coach) return;
+
+      const { id, assignmentId } = request.params as { id: string; assignmentId: string };
+      const coachId = session.user.id;
+
+      app.logger.info({ coachId, clientId: id, assignmentId }, 'Removing theme assignment');
+
+      try {
+        if (!(await isCoachOfClient(coachId, id))) {
+          return reply.status(404).send({ error: 'Client not found' });
+        }
+
+        const existing = await findClientAssignment(id, assignmentId);
+        if (!existing) {
+          return reply.status(404).send({ error: 'Assignment not found' });
+        }
+
+        const today = await clientToday(id);
+        const status = assignmentStatus(existing, today);
+        if (status === 'scheduled') {
+          await app.db.delete(schema.clientThemeAssignments).where(eq(schema.clientThemeAssignments.id, existing.id));
+        } else if (status === 'active') {
+          // Kept as history; answers given so far stay linked to the theme
+          await app.db
+            .update(schema.clientThemeAssignments)
+            .set({ active: false, endDate: today })
+            .where(eq(schema.clientThemeAssignments.id, existing.id));
+        }
+
+        app.logger.info({ coachId, clientId: id, assignmentId, status }, 'Theme assignment removed');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, coachId, clientId: id, assignmentId }, 'Failed to remove theme assignment');
+        return reply.status(500).send({ error: 'Failed to remove theme assignment' });
+      }
+    }
+  );
+
+  // GET /api/client/themes - Returns the client's current themes with their active items and weekly progress
+  fastify.get(
+    '/api/client/themes',
+    {
+      schema: {
+        description: 'Get current themes for current client',
+        tags: ['themes'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              today: { type: 'string' },
+              themes: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const client = await requireClient(session, reply);
+      if (!client) return;
+
+      const userId = session.user.id;
+      app.logger.info({ userId }, 'Fetching current themes');
+
+      try {
+        const current = await getCurrentClientThemes(app, userId);
+
+        app.logger.info({ userId, count: current.themes.length }, 'Current themes fetched');
+        return current;
+      } catch (error) {
+        app.logger.error({ err: error, userId }, 'Failed to fetch current themes');
+        return reply.status(500).send({ error: 'Failed to fetch current themes' });
+      }
+    }
+  );
+
+  // Helper to check if user is an org_admin
+  const requireOrgAdmin = async (session: any, reply: FastifyReply) => {
+    const profile = await app.db.query.profiles.findFirst({
+      where: eq(schema.profiles.id, session.user.id),
+    });
+    if (!profile || profile.role !== 'org_admin') {
+      reply.status(403).send({ error: 'Forbidden: org_admin role required' });
+      return null;
+    }
+    return profile;
+  };
+
+  // Helper to check if admin owns org
+  const verifyOrgOwnership = async (userId: string, orgId: string, reply: FastifyReply): Promise<boolean> => {
+    const membership = await app.db.query.orgMembers.findFirst({
+      where: and(
+        eq(schema.orgMembers.orgId, orgId as any),
+        eq(schema.orgMembers.userId, userId),
+        eq(schema.orgMembers.role, 'admin')
+      ),
+    });
+    if (!membership) {
+      reply.status(403).send({ error: 'Forbidden: not an admin of this organization' });
+      return false;
+    }
+    return true;
+  };
+
+  // Helper to load a library theme of the organization
+  const findOrgTheme = (orgId: string, themeId: string) =>
+    app.db.query.themes.findFirst({
+      where: and(eq(schema.themes.id, themeId as any), eq(schema.themes.orgId, orgId as any)),
+    });
+
+  // GET /api/org/organizations/:id/themes - Returns the organization's theme library with items
+  fastify.get(
+    '/api/org/organizations/:id/themes',
+    {
+      schema: {
+        description: 'Get theme library of organization',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' } },
+          required: ['id'],
+        },
+        response: {
+          200: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                description: { type: ['string', 'null'] },
+                isPublished: { type: 'boolean' },
+                version: { type: 'number' },
+                updatedAt: { type: 'string' },
+                cloneCount: { type: 'number' },
+                items: { type: 'array', items: themeItemSchema },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const admin = await requireOrgAdmin(session, reply);
+      if (!admin) return;
+
+      const { id } = request.params as { id: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, orgId: id }, 'Fetching organization themes');
+
+      try {
+        const isOwner = await verifyOrgOwnership(userId, id, reply);
+        if (!isOwner) return;
+
+        const themes = await app.db
+          .select({
+            id: schema.themes.id,
+            name: schema.themes.name,
+            description: schema.themes.description,
+            isPublished: schema.themes.isPublished,
+            version: schema.themes.version,
+            updatedAt: schema.themes.updatedAt,
+            cloneCount: sql<number>`(
+              select count(*) from ${schema.themes} clone
+              where clone.source_theme_id = ${schema.themes.id}
+            )`,
+          })
+          .from(schema.themes)
+          .where(eq(schema.themes.orgId, id as any))
+          .orderBy(asc(schema.themes.name));
+
+        const items =
+          themes.length > 0
+            ? await app.db
+                .select()
+                .from(schema.themeItems)
+                .where(
+                  inArray(
+                    schema.themeItems.themeId,
+                    themes.map((theme) => theme.id)
+                  )
+                )
+                .orderBy(asc(schema.themeItems.sortOrder), asc(schema.themeItems.createdAt))
+            : [];
+
+        app.logger.info({ userId, orgId: id, count: themes.length }, 'Organization themes fetched');
+        return themes.map((theme) => ({
+          ...theme,
+          cloneCount: Number(theme.cloneCount),
+          items: items.filter((item) => item.themeId === theme.id),
+        }));
+      } catch (error) {
+        app.logger.error({ err: error, userId, orgId: id }, 'Failed to fetch organization themes');
+        return reply.status(500).send({ error: 'Failed to fetch organization themes' });
+      }
+    }
+  );
+
+  // POST /api/org/organizations/:id/themes - Creates a library theme, unpublished until the admin publishes it
+  fastify.post(
+    '/api/org/organizations/:id/themes',
+    {
+      schema: {
+        description: 'Create organization library theme',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' } },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: ['string', 'null'] },
+            items: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: MAX_THEME_ITEMS },
+          },
+          required: ['name'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const admin = await requireOrgAdmin(session, reply);
+      if (!admin) return;
+
+      const { id } = request.params as { id: string };
+      const { name, description, items = [] } = request.body as {
+        name: string;
+        description?: string | null;
+        items?: string[];
+      };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, orgId: id, name, items: items.length }, 'Creating organization theme');
+
+      try {
+        const isOwner = await verifyOrgOwnership(userId, id, reply);
+        if (!isOwner) return;
+
+        const [theme] = await app.db
+          .insert(schema.themes)
+          .values({ coachId: userId, orgId: id, name: name.trim(), description: description?.trim() || null })
+          .returning();
+
+        if (items.length > 0) {
+          await app.db.insert(schema.themeItems).values(
+            items.map((label, index) => ({
+              themeId: theme.id,
+              label: label.trim(),
+              sortOrder: index + 1,
+            }))
+          );
+        }
+
+        app.logger.info({ userId, orgId: id, themeId: theme.id }, 'Organization theme created');
+        return { id: theme.id };
+      } catch (error) {
+        app.logger.error({ err: error, userId, orgId: id, name }, 'Failed to create organization theme');
+        return reply.status(500).send({ error: 'Failed to create organization theme' });
+      }
+    }
+  );
+
+  // PUT /api/org/organizations/:id/themes/:themeId - Updates a library theme; items replace the current list in order
+  fastify.put(
+    '/api/org/organizations/:id/themes/:themeId',
+    {
+      schema: {
+        description: 'Update organization library theme',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, themeId: { type: 'string' } },
+          required: ['id', 'themeId'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: ['string', 'null'] },
+            isPublished: { type: 'boolean' },
+            items: {
+              type: 'array',
+              maxItems: MAX_THEME_ITEMS,
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  label: { type: 'string', minLength: 1 },
+                },
+                required: ['label'],
+              },
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { success: { type: 'boolean' }, version: { type: 'number' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const admin = await requireOrgAdmin(session, reply);
+      if (!admin) return;
+
+      const { id, themeId } = request.params as { id: string; themeId: string };
+      const { name, description, isPublished, items } = request.body as {
+        name?: string;
+        description?: string | null;
+        isPublished?: boolean;
+        items?: { id?: string; label: string }[];
+      };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, orgId: id, themeId, isPublished }, 'Updating organization theme');
+
+      try {
+        const isOwner = await verifyOrgOwnership(userId, id, reply);
+        if (!isOwner) return;
+
+        const theme = await findOrgTheme(id, themeId);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        await app.db
+          .update(schema.themes)
+          .set({
+            name: name !== undefined ? name.trim() : undefined,
+            description: description !== undefined ? description?.trim() || null : undefined,
+            isPublished,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.themes.id, theme.id));
+
+        if (items) {
+          const existingIds = new Set((await loadThemeItems(app, theme.id)).map((item) => item.id));
+          const keptIds = items.filter((item) => item.id && existingIds.has(item.id)).map((item) => item.id!);
+
+          await app.db
+            .delete(schema.themeItems)
+            .where(
+              and(
+                eq(schema.themeItems.themeId, theme.id),
+                keptIds.length > 0 ? notInArray(schema.themeItems.id, keptIds) : undefined
+              )
+            );
+
+          for (const [index, item] of items.entries()) {
+            if (item.id && existingIds.has(item.id)) {
+              await app.db
+                .update(schema.themeItems)
+                .set({ label: item.label.trim(), sortOrder: index + 1, updatedAt: new Date() })
+                .where(eq(schema.themeItems.id, item.id));
+            } else {
+              await app.db
+                .insert(schema.themeItems)
+                .values({ themeId: theme.id, label: item.label.trim(), sortOrder: index + 1 });
+            }
+          }
+        }
+
+        // Publishing alone does not change the content clones were made from
+        if (name !== undefined || description !== undefined || items) {
+          await touchTheme(app, theme.id);
+        }
+
+        const updated = await findOrgTheme(id, themeId);
+
+        app.logger.info({ userId, orgId: id, themeId, version: updated?.version }, 'Organization theme updated');
+        return { success: true, version: updated?.version };
+      } catch (error) {
+        app.logger.error({ err: error, userId, orgId: id, themeId }, 'Failed to update organization theme');
+        return reply.status(500).send({ error: 'Failed to update organization theme' });
+      }
+    }
+  );
+
+  // DELETE /api/org/organizations/:id/themes/:themeId - Deletes a library theme; existing clones stay with their coaches
+  fastify.delete(
+    '/api/org/organizations/:id/themes/:themeId',
+    {
+      schema: {
+        description: 'Delete organization library theme',
+        tags: ['themes'],
+        params: {
+          type: 'object',
+          properties: { id: { type: 'string' }, themeId: { type: 'string' } },
+          required: ['id', 'themeId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: { success: { type: 'boolean' } },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const session = await requireAuth(request, reply);
+      if (!session) return;
+
+      const admin = await requireOrgAdmin(session, reply);
+      if (!admin) return;
+
+      const { id, themeId } = request.params as { id: string; themeId: string };
+      const userId = session.user.id;
+
+      app.logger.info({ userId, orgId: id, themeId }, 'Deleting organization theme');
+
+      try {
+        const isOwner = await verifyOrgOwnership(userId, id, reply);
+        if (!isOwner) return;
+
+        const theme = await findOrgTheme(id, themeId);
+        if (!theme) {
+          return reply.status(404).send({ error: 'Theme not found' });
+        }
+
+        await app.db.delete(schema.themes).where(eq(schema.themes.id, theme.id));
+
+        app.logger.info({ userId, orgId: id, themeId }, 'Organization theme deleted');
+        return { success: true };
+      } catch (error) {
+        app.logger.error({ err: error, userId, orgId: id, themeId }, 'Failed to delete organization theme');
+        return reply.status(500).send({ error: 'Failed to delete organization theme' });
+      }
+    }
+  );
+}
@@ -0,0 +1,445 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { IconSymbol } from "@/components/IconSymbol";
+import {
+  authenticatedGet,
+  authenticatedPost,
+  authenticatedPut,
+  getWebSocketUrl,
+} from "@/utils/api";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+export interface ChatMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  readAt: string | null;
+  createdAt: string;
+  clientMessageId?: string | null;
+  pending?: boolean;
+  failed?: boolean;
+}
+
+interface ChatThreadProps {
+  conversationId: string;
+  currentUserId: string;
+  messagesEndpoint: string;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+const sortByCreatedAt = (list: ChatMessage[]) =>
+  [...list].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+// Insert or replace a message, matching on server id or the optimistic clientMessageId
+const mergeMessage = (list: ChatMessage[], incoming: ChatMessage) => {
+  const index = list.findIndex(
+    (m) =>
+      m.id === incoming.id ||
+      (!!incoming.clientMessageId && m.clientMessageId === incoming.clientMessageId)
+  );
+  if (index >= 0) {
+    const copy = [...list];
+    copy[index] = { ...copy[index], ...incoming, pending: false, failed: false };
+    return copy;
+  }
+  return sortByCreatedAt([...list, incoming]);
+};
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return date.toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+};
+
+export default function ChatThread({
+  conversationId,
+  currentUserId,
+  messagesEndpoint,
+}: ChatThreadProps) {
+  const { colors } = useTheme();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [connected, setConnected] = useState(false);
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectAttempt = useRef(0);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const unmounted = useRef(false);
+
+  const markConversationRead = useCallback(async () => {
+    try {
+      await authenticatedPut(`/api/conversations/${conversationId}/read`, {});
+    } catch (error) {
+      console.error("[Chat] Error marking conversation as read", error);
+    }
+  }, [conversationId]);
+
+  const fetchHistory = useCallback(async () => {
+    console.log("[Chat] Fetching history from", messagesEndpoint);
+    try {
+      const data = await authenticatedGet<ChatMessage[]>(messagesEndpoint);
+      setMessages((current) => {
+        // Keep optimistic messages that the server has not confirmed yet
+        const unconfirmed = current.filter((m) => m.pending || m.failed);
+        return unconfirmed.reduce(mergeMessage, sortByCreatedAt(data));
+      });
+      const hasUnread = data.some((m) => m.senderId !== currentUserId && !m.readAt);
+      if (hasUnread) {
+        markConversationRead();
+      }
+    } catch (error) {
+      console.error("[Chat] Error fetching history", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [messagesEndpoint, currentUserId, markConversationRead]);
+
+  // Exponential backoff: 1s, 2s, 4s ... capped at 30s
+  const scheduleReconnect = useCallback((connectFn: () => void) => {
+    const delay = Math.min(1000 * 2 ** reconnectAttempt.current, MAX_RECONNECT_DELAY);
+    reconnectAttempt.current += 1;
+    console.log("[Chat] Reconnecting in", delay, "ms");
+    reconnectTimer.current = setTimeout(connectFn, delay);
+  }, []);
+
+  const connect = useCallback(async () => {
+    // The socket is opened with a single-use ticket so the bearer token never ends up in a URL
+    let ticket: string;
+    try {
+      const data = await authenticatedPost<{ ticket: string }>(
+        `/api/conversations/${conversationId}/socket-ticket`,
+        {}
+      );
+      ticket = data.ticket;
+    } catch (error) {
+      console.error("[Chat] Error fetching socket ticket", error);
+      if (!unmounted.current) scheduleReconnect(connect);
+      return;
+    }
+    if (unmounted.current) return;
+
+    const socket = new WebSocket(getWebSocketUrl(`/ws/chat/${conversationId}`, ticket));
+    socketRef.current = socket;
+
+    socket.onmessage = (event) => {
+      try {
+        const payload = JSON.parse(event.data);
+
+        if (payload.type === "connected") {
+          console.log("[Chat] Socket connected");
+          reconnectAttempt.current = 0;
+          setConnected(true);
+          // Fill any gap that opened while we were disconnected
+          fetchHistory();
+        } else if (payload.type === "message") {
+          const message = payload.data as ChatMessage;
+          setMessages((current) => mergeMessage(current, message));
+          if (message.senderId !== currentUserId && socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ type: "read", messageId: message.id }));
+          }
+        } else if (payload.type === "read") {
+          const ids: string[] = payload.messageIds || [];
+          setMessages((current) =>
+            current.map((m) => (ids.includes(m.id) ? { ...m, readAt: payload.readAt } : m))
+          );
+        } else if (payload.error) {
+          console.error("[Chat] Socket error message", payload.error);
+        }
+      } catch (error) {
+        console.error("[Chat] Invalid socket payload", error);
+      }
+    };
+
+    socket.onclose = () => {
+      setConnected(false);
+      if (unmounted.current) return;
+
+      console.log("[Chat] Socket closed");
+      scheduleReconnect(connect);
+    };
+
+    socket.onerror = (error) => {
+      console.error("[Chat] Socket error", error);
+    };
+  }, [conversationId, currentUserId, fetchHistory, scheduleReconnect]);
+
+  useEffect(() => {
+    unmounted.current = false;
+    fetchHistory();
+    connect();
+
+    return () => {
+      unmounted.current = true;
+      if (reconnectTimer.current) {
+        clearTimeout(reconnectTimer.current);
+      }
+      socketRef.current?.close();
+    };
+  }, [fetchHistory, connect]);
+
+  const sendMessage = async (content: string, retryOf?: ChatMessage) => {
+    const clientMessageId =
+      retryOf?.clientMessageId || `tmp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    const optimistic: ChatMessage = {
+      id: retryOf?.id || clientMessageId,
+      conversationId,
+      senderId: currentUserId,
+      content,
+      readAt: null,
+      createdAt: retryOf?.createdAt || new Date().toISOString(),
+      clientMessageId,
+      pending: true,
+    };
+    setMessages((current) =>
+      retryOf
+        ? current.map((m) =>
+            m.clientMessageId === clientMessageId ? { ...m, pending: true, failed: false } : m
+          )
+        : [...current, optimistic]
+    );
+
+    try {
+      const saved = await authenticatedPost<ChatMessage>("/api/messages", {
+        conversationId,
+        content,
+        clientMessageId,
+      });
+      setMessages((current) => mergeMessage(current, saved));
+    } catch (error) {
+      console.error("[Chat] Error sending message", error);
+      setMessages((current) =>
+        current.map((m) =>
+          m.clientMessageId === clientMessageId ? { ...m, pending: false, failed: true } : m
+        )
+      );
+    }
+  };
+
+  const handleSend = () => {
+    const content = draft.trim();
+    if (!content) return;
+    setDraft("");
+    sendMessage(content);
+  };
+
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
+    const isOwn = item.senderId === currentUserId;
+    const timeText = formatTime(item.createdAt);
+
+    return (
+      <TouchableOpacity
+        activeOpacity={item.failed ? 0.7 : 1}
+        disabled={!item.failed}
+        onPress={() => sendMessage(item.content, item)}
+        style={[styles.messageRow, isOwn ? styles.ownRow : styles.otherRow]}
+      >
+        <View
+          style={[
+            styles.bubble,
+            isOwn
+              ? { backgroundColor: bcctColors.primaryOrange }
+              : { backgroundColor: colors.card, borderColor: colors.border, borderWidth: 1 },
+            item.pending && styles.pendingBubble,
+          ]}
+        >
+          <Text style={[styles.messageText, { color: isOwn ? "#FFFFFF" : colors.text }]}>
+            {item.content}
+          </Text>
+          <View style={styles.metaRow}>
+            <Text style={[styles.timeText, { color: isOwn ? "#FFFFFF" : bcctColors.textSecondary }]}>
+              {timeText}
+            </Text>
+            {isOwn && !item.failed ? (
+              <IconSymbol
+                ios_icon_name={item.readAt ? "checkmark.circle.fill" : "checkmark"}
+                android_material_icon_name={item.pending ? "schedule" : item.readAt ? "done-all" : "done"}
+                size={14}
+                color="#FFFFFF"
+              />
+            ) : null}
+          </View>
+        </View>
+        {item.failed ? (
+          <Text style={[styles.failedText, { color: bcctColors.error }]}>
+            Niet verzonden. Tik om opnieuw te proberen.
+          </Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      keyboardVerticalOffset={Platform.OS === "ios" ? 90 : 0}
+    >
+      {!connected ? (
+        <View style={[styles.connectionBanner, { backgroundColor: bcctColors.accentOrange + "20" }]}>
+          <Text style={[styles.connectionText, { color: bcctColors.accentOrange }]}>
+            Verbinding maken…
+          </Text>
+        </View>
+      ) : null}
+
+      <FlatList
+        ref={listRef}
+        data={messages}
+        keyExtractor={(item) => item.clientMessageId || item.id}
+        renderItem={renderMessage}
+        contentContainerStyle={styles.listContent}
+        onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: true })}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={[styles.emptyText, { color: bcctColors.textSecondary }]}>
+              Nog geen berichten. Stuur het eerste bericht!
+            </Text>
+          </View>
+        }
+      />
+
+      <View style={[styles.inputRow, { borderTopColor: colors.border, backgroundColor: colors.card }]}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+          placeholder="Typ een bericht…"
+          placeholderTextColor={bcctColors.textSecondary}
+          value={draft}
+          onChangeText={setDraft}
+          multiline
+          maxLength={2000}
+        />
+        <TouchableOpacity
+          style={[
+            styles.sendButton,
+            { backgroundColor: draft.trim() ? bcctColors.primaryOrange : bcctColors.primaryOrangeDisabled },
+          ]}
+          onPress={handleSend}
+          disabled={!draft.trim()}
+        >
+          <IconSymbol
+            ios_icon_name="paperplane.fill"
+            android_material_icon_name="send"
+            size={20}
+            color="#FFFFFF"
+          />
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  connectionBanner: {
+    paddingVertical: 6,
+    alignItems: "center",
+  },
+  connectionText: {
+    ...bcctTypography.small,
+  },
+  listContent: {
+    padding: 16,
+    gap: 8,
+    flexGrow: 1,
+  },
+  messageRow: {
+    maxWidth: "80%",
+  },
+  ownRow: {
+    alignSelf: "flex-end",
+    alignItems: "flex-end",
+  },
+  otherRow: {
+    alignSelf: "flex-start",
+    alignItems: "flex-start",
+  },
+  bubble: {
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  pendingBubble: {
+    opacity: 0.7,
+  },
+  messageText: {
+    ...bcctTypography.body,
+  },
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "flex-end",
+    gap: 4,
+  },
+  timeText: {
+    ...bcctTypography.small,
+    fontSize: 11,
+    opacity: 0.8,
+  },
+  failedText: {
+    ...bcctTypography.small,
+    marginTop: 4,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyText: {
+    ...bcctTypography.body,
+    textAlign: "center",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    padding: 12,
+    gap: 8,
+    borderTopWidth: 1,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    maxHeight: 120,
+    ...bcctTypography.body,
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+export interface ChartPoint {
+  date: string;
+  value: number | null;
+}
+
+export interface ChartMarker {
+  date: string;
+  kind: "appointment" | "programWeek";
+}
+
+interface CheckinTrendChartProps {
+  series: ChartPoint[];
+  // Optional smoothed series drawn as dots on top of the daily bars
+  average?: ChartPoint[];
+  markers?: ChartMarker[];
+  color: string;
+  maxValue?: number;
+  height?: number;
+  // Bars suit short ranges; a line reads better for long ones
+  variant?: "bar" | "line";
+}
+
+export const MARKER_COLORS: Record<ChartMarker["kind"], string> = {
+  appointment: bcctColors.primaryBlue,
+  programWeek: bcctColors.gradientTeal,
+};
+
+const formatAxisDate = (dateKey: string) =>
+  new Date(`${dateKey}T12:00:00`).toLocaleDateString("nl-NL", { day: "numeric", month: "short" });
+
+const LINE_THICKNESS = 2;
+
+// Daily check-in values on a fixed 0-max scale, one column per day
+export default function CheckinTrendChart({
+  series,
+  average,
+  markers = [],
+  color,
+  maxValue = 10,
+  height = 140,
+  variant = "bar",
+}: CheckinTrendChartProps) {
+  const { colors } = useTheme();
+  const [plotWidth, setPlotWidth] = useState(0);
+  const averageByDate = new Map((average || []).map((point) => [point.date, point.value]));
+  const markersByDate = new Map(markers.map((marker) => [marker.date, marker]));
+
+  if (series.length === 0) {
+    return null;
+  }
+
+  // Line segments join consecutive check-ins, skipping over days without one
+  const columnWidth = plotWidth / series.length;
+  const linePoints = series
+    .map((point, index) =>
+      point.value !== null
+        ? { x: (index + 0.5) * columnWidth, y: height - (point.value / maxValue) * height }
+        : null
+    )
+    .filter((point): point is { x: number; y: number } => point !== null);
+
+  return (
+    <View>
+      <View style={styles.chartRow}>
+        <View style={[styles.axis, { height }]}>
+          <Text style={[styles.axisLabel, { color: bcctColors.textSecondary }]}>{maxValue}</Text>
+          <Text style={[styles.axisLabel, { color: bcctColors.textSecondary }]}>{maxValue / 2}</Text>
+          <Text style={[styles.axisLabel, { color: bcctColors.textSecondary }]}>0</Text>
+        </View>
+        <View
+          style={[styles.plot, { height, borderColor: colors.border }]}
+          onLayout={(event) => setPlotWidth(event.nativeEvent.layout.width)}
+        >
+          {series.map((point) => {
+            const marker = markersByDate.get(point.date);
+            const averageValue = averageByDate.get(point.date);
+            return (
+              <View key={point.date} style={styles.column}>
+                {marker ? (
+                  <View style={[styles.marker, { backgroundColor: MARKER_COLORS[marker.kind] }]} />
+                ) : null}
+                {variant === "bar" && point.value !== null ? (
+                  <View
+                    style={[
+                      styles.bar,
+                      { height: (point.value / maxValue) * height, backgroundColor: color + "99" },
+                    ]}
+                  />
+                ) : null}
+                {averageValue !== null && averageValue !== undefined ? (
+                  <View
+                    style={[
+                      styles.averageDot,
+                      { bottom: (averageValue / maxValue) * height - 2, backgroundColor: color },
+                    ]}
+                  />
+                ) : null}
+              </View>
+            );
+          })}
+          {variant === "line" && plotWidth > 0
+            ? linePoints.slice(1).map((point, index) => {
+                const previous = linePoints[index];
+                const dx = point.x - previous.x;
+                const dy = point.y - previous.y;
+                const length = Math.sqrt(dx * dx + dy * dy);
+                return (
+                  <View
+                    key={`segment-${index}`}
+                    style={[
+                      styles.segment,
+                      {
+                        width: length,
+                        left: (previous.x + point.x) / 2 - length / 2,
+                        top: (previous.y + point.y) / 2 - LINE_THICKNESS / 2,
+                        backgroundColor: color,
+                        transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+                      },
+                    ]}
+                  />
+                );
+              })
+            : null}
+          {variant === "line" && plotWidth > 0
+            ? linePoints.map((point, index) => (
+                <View
+                  key={`point-${index}`}
+                  style={[styles.linePoint, { left: point.x - 3, top: point.y - 3, backgroundColor: color }]}
+                />
+              ))
+            : null}
+        </View>
+      </View>
+      <View style={styles.dateRow}>
+        <Text style={[styles.axisLabel, { color: bcctColors.textSecondary }]}>
+          {formatAxisDate(series[0].date)}
+        </Text>
+        <Text style={[styles.axisLabel, { color: bcctColors.textSecondary }]}>
+          {formatAxisDate(series[series.length - 1].date)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chartRow: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  axis: {
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+    width: 20,
+  },
+  axisLabel: {
+    ...bcctTypography.small,
+    fontSize: 10,
+  },
+  plot: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+  },
+  column: {
+    flex: 1,
+    height: "100%",
+    justifyContent: "flex-end",
+    alignItems: "center",
+  },
+  bar: {
+    width: "70%",
+    minWidth: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  averageDot: {
+    position: "absolute",
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+  },
+  segment: {
+    position: "absolute",
+    height: LINE_THICKNESS,
+    borderRadius: LINE_THICKNESS / 2,
+  },
+  linePoint: {
+    position: "absolute",
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  marker: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 1,
+  },
+  dateRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginLeft: 26,
+    marginTop: 4,
+  },
+});
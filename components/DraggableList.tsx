@@ -0,0 +1,194 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  runOnJS,
+  SharedValue,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { IconSymbol } from "@/components/IconSymbol";
+import { bcctColors } from "@/styles/bcctTheme";
+
+interface DraggableListProps<T> {
+  items: T[];
+  keyExtractor: (item: T) => string;
+  // The handle must be rendered somewhere in the row; dragging it moves the row
+  renderItem: (item: T, dragHandle: React.ReactNode, index: number) => React.ReactNode;
+  onReorder: (items: T[]) => void;
+  gap?: number;
+  disabled?: boolean;
+  // Lets a surrounding ScrollView stop scrolling while a row is dragged
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+}
+
+interface DragState {
+  activeIndex: SharedValue<number>;
+  targetIndex: SharedValue<number>;
+  dragY: SharedValue<number>;
+  heights: SharedValue<number[]>;
+}
+
+// Index the dragged row lands on: it passes a row once it is over that row's middle
+const dropIndex = (heights: number[], count: number, gap: number, active: number, dy: number) => {
+  "worklet";
+  let target = active;
+  let travelled = 0;
+  const step = dy > 0 ? 1 : -1;
+  for (let index = active + step; index >= 0 && index < count; index += step) {
+    const size = (heights[index] ?? 0) + gap;
+    if (Math.abs(dy) > travelled + size / 2) {
+      target = index;
+      travelled += size;
+    } else {
+      break;
+    }
+  }
+  return target;
+};
+
+interface DraggableRowProps {
+  index: number;
+  count: number;
+  gap: number;
+  disabled: boolean;
+  state: DragState;
+  onDrop: (from: number, to: number) => void;
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  children: (dragHandle: React.ReactNode) => React.ReactNode;
+}
+
+function DraggableRow({ index, count, gap, disabled, state, onDrop, onDragStart, onDragEnd, children }: DraggableRowProps) {
+  const { activeIndex, targetIndex, dragY, heights } = state;
+
+  const pan = Gesture.Pan()
+    .enabled(!disabled)
+    .onStart(() => {
+      activeIndex.value = index;
+      targetIndex.value = index;
+      dragY.value = 0;
+      if (onDragStart) runOnJS(onDragStart)();
+    })
+    .onUpdate((event) => {
+      dragY.value = event.translationY;
+      targetIndex.value = dropIndex(heights.value, count, gap, index, event.translationY);
+    })
+    .onEnd(() => {
+      runOnJS(onDrop)(index, targetIndex.value);
+    })
+    .onFinalize(() => {
+      activeIndex.value = -1;
+      dragY.value = 0;
+      if (onDragEnd) runOnJS(onDragEnd)();
+    });
+
+  const animatedStyle = useAnimatedStyle(() => {
+    const active = activeIndex.value;
+    if (active === -1) {
+      return { transform: [{ translateY: 0 }, { scale: 1 }], zIndex: 0, opacity: 1 };
+    }
+    if (active === index) {
+      return { transform: [{ translateY: dragY.value }, { scale: 1.02 }], zIndex: 10, opacity: 0.9 };
+    }
+
+    // Rows between the dragged row and its drop index make room for it
+    const target = targetIndex.value;
+    const size = (heights.value[active] ?? 0) + gap;
+    let shift = 0;
+    if (active < target && index > active && index <= target) {
+      shift = -size;
+    } else if (active > target && index >= target && index < active) {
+      shift = size;
+    }
+    return { transform: [{ translateY: withTiming(shift, { duration: 150 }) }, { scale: 1 }], zIndex: 0, opacity: 1 };
+  });
+
+  const dragHandle = (
+    <GestureDetector gesture={pan}>
+      <View style={[styles.handle, disabled && styles.handleDisabled]} hitSlop={8}>
+        <IconSymbol
+          ios_icon_name="line.3.horizontal"
+          android_material_icon_name="drag-indicator"
+          size={22}
+          color={bcctColors.textSecondary}
+        />
+      </View>
+    </GestureDetector>
+  );
+
+  return (
+    <Animated.View
+      style={animatedStyle}
+      onLayout={(event) => {
+        const height = event.nativeEvent.layout.height;
+        const next = [...heights.value];
+        next[index] = height;
+        heights.value = next;
+      }}
+    >
+      {children(dragHandle)}
+    </Animated.View>
+  );
+}
+
+// A vertical list whose rows can be reordered by dragging their handle
+export default function DraggableList<T>({
+  items,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  gap = 8,
+  disabled = false,
+  onDragStart,
+  onDragEnd,
+}: DraggableListProps<T>) {
+  const state: DragState = {
+    activeIndex: useSharedValue(-1),
+    targetIndex: useSharedValue(-1),
+    dragY: useSharedValue(0),
+    heights: useSharedValue<number[]>([]),
+  };
+
+  const drop = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...items];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onReorder(next);
+  };
+
+  return (
+    <View style={{ gap }}>
+      {items.map((item, index) => (
+        <DraggableRow
+          key={keyExtractor(item)}
+          index={index}
+          count={items.length}
+          gap={gap}
+          disabled={disabled || items.length < 2}
+          state={state}
+          onDrop={drop}
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+        >
+          {(dragHandle) => renderItem(item, dragHandle, index)}
+        </DraggableRow>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    width: 32,
+    height: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  handleDisabled: {
+    opacity: 0.3,
+  },
+});
@@ -0,0 +1,131 @@
+import React from "react";
+import { View, Text, StyleSheet, TextStyle } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { bcctTypography } from "@/styles/bcctTheme";
+
+interface MarkdownTextProps {
+  markdown: string;
+}
+
+type Block =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "bullet"; marker: string; text: string }
+  | { kind: "paragraph"; text: string };
+
+// Headings, bullet and numbered lists and paragraphs; anything else reads as plain text
+const parseBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.split("\n")) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^([-*]|\d+\.)\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet) {
+      flush();
+      blocks.push({ kind: "bullet", marker: /\d/.test(bullet[1]) ? bullet[1] : "•", text: bullet[2] });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+};
+
+// Splits **bold** and *italic* runs out of a line of text
+const renderInline = (text: string) =>
+  text
+    .split(/(\*\*[^*]+\*\*|\*[^*]+\*)/g)
+    .filter(Boolean)
+    .map((part, index) => {
+      if (part.startsWith("**") && part.endsWith("**")) {
+        return (
+          <Text key={index} style={styles.bold}>
+            {part.slice(2, -2)}
+          </Text>
+        );
+      }
+      if (part.length > 2 && part.startsWith("*") && part.endsWith("*")) {
+        return (
+          <Text key={index} style={styles.italic}>
+            {part.slice(1, -1)}
+          </Text>
+        );
+      }
+      return part;
+    });
+
+const HEADING_STYLES: Record<number, TextStyle> = {
+  1: bcctTypography.h2,
+  2: bcctTypography.h3,
+  3: bcctTypography.bodySemiBold,
+};
+
+export default function MarkdownText({ markdown }: MarkdownTextProps) {
+  const { colors } = useTheme();
+
+  return (
+    <View style={styles.container}>
+      {parseBlocks(markdown).map((block, index) => {
+        if (block.kind === "heading") {
+          return (
+            <Text key={index} style={[HEADING_STYLES[block.level], { color: colors.text }]}>
+              {renderInline(block.text)}
+            </Text>
+          );
+        }
+        if (block.kind === "bullet") {
+          return (
+            <View key={index} style={styles.bulletRow}>
+              <Text style={[styles.body, styles.bulletMarker, { color: colors.text }]}>{block.marker}</Text>
+              <Text style={[styles.body, styles.bulletText, { color: colors.text }]}>{renderInline(block.text)}</Text>
+            </View>
+          );
+        }
+        return (
+          <Text key={index} style={[styles.body, { color: colors.text }]}>
+            {renderInline(block.text)}
+          </Text>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  body: {
+    ...bcctTypography.body,
+  },
+  bold: {
+    fontWeight: "700",
+  },
+  italic: {
+    fontStyle: "italic",
+  },
+  bulletRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  bulletMarker: {
+    minWidth: 16,
+  },
+  bulletText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,429 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Switch,
+} from "react-native";
+import Modal from "react-native-modal";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useTheme } from "@react-navigation/native";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/IconSymbol";
+import { authenticatedGet, authenticatedPut } from "@/utils/api";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+import { LinearGradient } from "expo-linear-gradient";
+
+export type NotificationCategory =
+  | "chatMessage"
+  | "appointmentReminder"
+  | "checkinReminder"
+  | "programUpdate"
+  | "coachAlert";
+
+interface QuietHoursWindow {
+  start: string;
+  end: string;
+}
+
+interface NotificationPrefs {
+  pushEnabled: boolean;
+  timezone: string | null;
+  categories: Record<NotificationCategory, boolean>;
+  quietHours: QuietHoursWindow[];
+}
+
+interface NotificationSettingsProps {
+  // Categories that apply to this kind of user, in display order
+  categories: NotificationCategory[];
+}
+
+const CATEGORY_LABELS: Record<NotificationCategory, { title: string; description: string }> = {
+  chatMessage: { title: "Chatberichten", description: "Nieuwe berichten in je gesprekken" },
+  appointmentReminder: { title: "Afspraken", description: "Herinneringen en wijzigingen van sessies" },
+  checkinReminder: { title: "Dagelijkse check-in", description: "Herinnering om je check-in in te vullen" },
+  programUpdate: { title: "Programma", description: "Nieuwe of gewijzigde onderdelen van je programma" },
+  coachAlert: { title: "Cliëntsignalen", description: "Meldingen over cliënten die aandacht nodig hebben" },
+};
+
+// The backend accepts at most three quiet-hours windows
+const MAX_QUIET_HOURS_WINDOWS = 3;
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function NotificationSettings({ categories }: NotificationSettingsProps) {
+  const { colors } = useTheme();
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [prefs, setPrefs] = useState<NotificationPrefs | null>(null);
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  useEffect(() => {
+    fetchPrefs();
+  }, []);
+
+  const fetchPrefs = async () => {
+    console.log("[Notification Settings] Fetching preferences");
+    try {
+      const data = await authenticatedGet<NotificationPrefs>("/api/notifications/prefs");
+      setPrefs(data);
+      setLoadError(false);
+    } catch (error: any) {
+      console.error("[Notification Settings] Error fetching preferences", error);
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCategory = (category: NotificationCategory, enabled: boolean) => {
+    setPrefs((current) =>
+      current ? { ...current, categories: { ...current.categories, [category]: enabled } } : current
+    );
+  };
+
+  const addQuietHours = () => {
+    setPrefs((current) =>
+      current ? { ...current, quietHours: [...current.quietHours, { start: "22:00", end: "07:00" }] } : current
+    );
+  };
+
+  const updateQuietHours = (index: number, field: "start" | "end", value: string) => {
+    setPrefs((current) =>
+      current
+        ? {
+            ...current,
+            quietHours: current.quietHours.map((w, i) => (i === index ? { ...w, [field]: value } : w)),
+          }
+        : current
+    );
+  };
+
+  const removeQuietHours = (index: number) => {
+    setPrefs((current) =>
+      current ? { ...current, quietHours: current.quietHours.filter((_, i) => i !== index) } : current
+    );
+  };
+
+  const savePrefs = async () => {
+    if (!prefs) return;
+
+    const invalid = prefs.quietHours.find(
+      (w) => !TIME_REGEX.test(w.start) || !TIME_REGEX.test(w.end) || w.start === w.end
+    );
+    if (invalid) {
+      showModal("Fout", "Controleer je stille uren: gebruik UU:MM en kies verschillende begin- en eindtijden.");
+      return;
+    }
+
+    console.log("[Notification Settings] Saving preferences");
+    setSaving(true);
+    try {
+      const updated = await authenticatedPut<NotificationPrefs>("/api/notifications/prefs", {
+        pushEnabled: prefs.pushEnabled,
+        categories: prefs.categories,
+        quietHours: prefs.quietHours,
+      });
+      setPrefs(updated);
+      showModal("Opgeslagen", "Je notificatie-instellingen zijn bijgewerkt.");
+    } catch (error: any) {
+      console.error("[Notification Settings] Error saving preferences", error);
+      showModal("Fout", "Kon notificatie-instellingen niet opslaan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={bcctColors.primaryOrange} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["top"]}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <IconSymbol
+              ios_icon_name="chevron.left"
+              android_material_icon_name="arrow-back"
+              size={24}
+              color={colors.text}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Notificaties</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {loadError || !prefs ? (
+            <Text style={[styles.mutedText, { color: bcctColors.error }]}>
+              Kon notificatie-instellingen niet laden. Probeer het later opnieuw.
+            </Text>
+          ) : (
+            <>
+              <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <View style={styles.toggleRow}>
+                  <View style={styles.toggleContent}>
+                    <Text style={[styles.cardTitle, { color: colors.text }]}>Pushmeldingen</Text>
+                    <Text style={[styles.cardSubtitle, { color: bcctColors.textSecondary }]}>
+                      Zet alle meldingen op dit account aan of uit.
+                    </Text>
+                  </View>
+                  <Switch
+                    value={prefs.pushEnabled}
+                    onValueChange={(value) => setPrefs({ ...prefs, pushEnabled: value })}
+                    trackColor={{ false: colors.border, true: bcctColors.primaryOrange }}
+                    thumbColor="#fff"
+                  />
+                </View>
+
+                {categories.map((category) => (
+                  <View key={category} style={[styles.toggleRow, styles.categoryRow, { borderTopColor: colors.border }]}>
+                    <View style={styles.toggleContent}>
+                      <Text style={[styles.toggleTitle, { color: colors.text }]}>
+                        {CATEGORY_LABELS[category].title}
+                      </Text>
+                      <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>
+                        {CATEGORY_LABELS[category].description}
+                      </Text>
+                    </View>
+                    <Switch
+                      value={prefs.pushEnabled && prefs.categories[category]}
+                      disabled={!prefs.pushEnabled}
+                      onValueChange={(value) => toggleCategory(category, value)}
+                      trackColor={{ false: colors.border, true: bcctColors.primaryOrange }}
+                      thumbColor="#fff"
+                    />
+                  </View>
+                ))}
+              </View>
+
+              <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <Text style={[styles.cardTitle, { color: colors.text }]}>Stille uren</Text>
+                <Text style={[styles.cardSubtitle, { color: bcctColors.textSecondary }]}>
+                  Meldingen die binnen deze tijden vallen, ontvang je zodra de stille uren voorbij zijn
+                  {prefs.timezone ? ` (${prefs.timezone})` : ""}.
+                </Text>
+
+                {prefs.quietHours.length === 0 ? (
+                  <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>Geen stille uren ingesteld</Text>
+                ) : (
+                  prefs.quietHours.map((window, index) => (
+                    <View key={index} style={styles.windowRow}>
+                      <TextInput
+                        style={[styles.timeInput, { color: colors.text, borderColor: colors.border }]}
+                        value={window.start}
+                        onChangeText={(value) => updateQuietHours(index, "start", value)}
+                        placeholder="22:00"
+                        placeholderTextColor={bcctColors.textSecondary}
+                      />
+                      <Text style={[styles.mutedText, { color: bcctColors.textSecondary }]}>tot</Text>
+                      <TextInput
+                        style={[styles.timeInput, { color: colors.text, borderColor: colors.border }]}
+                        value={window.end}
+                        onChangeText={(value) => updateQuietHours(index, "end", value)}
+                        placeholder="07:00"
+                        placeholderTextColor={bcctColors.textSecondary}
+                      />
+                      <TouchableOpacity onPress={() => removeQuietHours(index)}>
+                        <IconSymbol
+                          ios_icon_name="trash"
+                          android_material_icon_name="delete"
+                          size={20}
+                          color={bcctColors.error}
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+
+                {prefs.quietHours.length < MAX_QUIET_HOURS_WINDOWS ? (
+                  <TouchableOpacity onPress={addQuietHours}>
+                    <Text style={[styles.linkText, { color: bcctColors.primaryOrange }]}>+ Tijdvak</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+
+              <TouchableOpacity onPress={savePrefs} disabled={saving}>
+                <LinearGradient
+                  colors={[bcctColors.primaryOrange, bcctColors.primaryOrangeDark]}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 0 }}
+                  style={styles.saveButton}
+                >
+                  {saving ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Instellingen opslaan</Text>
+                  )}
+                </LinearGradient>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {/* Bottom padding for tab bar */}
+          <View style={{ height: 100 }} />
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal
+        isVisible={modalVisible}
+        onBackdropPress={() => setModalVisible(false)}
+        onBackButtonPress={() => setModalVisible(false)}
+        animationIn="fadeIn"
+        animationOut="fadeOut"
+        backdropOpacity={0.5}
+      >
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <Text style={[styles.modalTitle, { color: bcctColors.primaryOrange }]}>{modalTitle}</Text>
+          <Text style={[styles.modalMessage, { color: bcctColors.textSecondary }]}>{modalMessage}</Text>
+          <TouchableOpacity
+            style={[styles.modalButton, { backgroundColor: bcctColors.primaryOrange }]}
+            onPress={() => setModalVisible(false)}
+          >
+            <Text style={styles.modalButtonText}>OK</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    ...bcctTypography.h2,
+    flex: 1,
+    textAlign: "center",
+  },
+  placeholder: {
+    width: 40,
+  },
+  scrollContent: {
+    padding: 20,
+    gap: 20,
+  },
+  card: {
+    padding: 20,
+    borderRadius: 20,
+    borderWidth: 1,
+    gap: 12,
+  },
+  cardTitle: {
+    ...bcctTypography.h3,
+  },
+  cardSubtitle: {
+    ...bcctTypography.small,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  categoryRow: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+  },
+  toggleContent: {
+    flex: 1,
+    gap: 2,
+  },
+  toggleTitle: {
+    ...bcctTypography.bodyMedium,
+  },
+  linkText: {
+    ...bcctTypography.smallMedium,
+  },
+  mutedText: {
+    ...bcctTypography.small,
+  },
+  windowRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  timeInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    width: 80,
+    textAlign: "center",
+    ...bcctTypography.body,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    ...bcctTypography.button,
+  },
+  modalContent: {
+    borderRadius: 20,
+    padding: 24,
+    alignItems: "center",
+  },
+  modalTitle: {
+    ...bcctTypography.h3,
+    marginBottom: 12,
+  },
+  modalMessage: {
+    ...bcctTypography.body,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  modalButton: {
+    borderRadius: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    minWidth: 100,
+  },
+  modalButtonText: {
+    color: "#fff",
+    ...bcctTypography.button,
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,468 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { authenticatedGet } from "@/utils/api";
+import {
+  AudioContent,
+  emptyTaskContent,
+  ExerciseContent,
+  ExerciseStep,
+  PROGRAM_TASK_TYPE_LABELS,
+  ProgramBuilderTask,
+  ProgramBuilderWeek,
+  ProgramTaskType,
+  ReadingContent,
+  ReflectionContent,
+  ReflectionPrompt,
+  TASK_CONTENT_VERSION,
+  TaskContent,
+} from "@/utils/programs";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+const TASK_TYPES: ProgramTaskType[] = ["reflection", "exercise", "reading", "audio"];
+
+const ANSWER_TYPE_LABELS: Record<ReflectionPrompt["answerType"], string> = {
+  text: "Tekst",
+  scale: "Schaal 0-10",
+  choice: "Keuze",
+};
+
+// An uploaded file as listed by GET /api/files
+interface UploadedFile {
+  id: string;
+  filename: string;
+  mimeType: string | null;
+}
+
+export interface ProgramTaskDraft {
+  weekId: string;
+  type: ProgramTaskType;
+  title: string;
+  contentJson: TaskContent;
+}
+
+interface ProgramTaskEditorProps {
+  // The task being edited, or null for a new task
+  task: ProgramBuilderTask | null;
+  weekId: string;
+  weeks: ProgramBuilderWeek[];
+  saving: boolean;
+  onSave: (draft: ProgramTaskDraft) => void;
+  onDelete?: () => void;
+}
+
+const parseWholeNumber = (value: string) => {
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) || number <= 0 ? undefined : number;
+};
+
+/**
+ * Checks a task before it is saved. Returns a message for the coach, or null when
+ * the backend will accept it.
+ */
+const validateTaskDraft = (draft: ProgramTaskDraft): string | null => {
+  if (!draft.title.trim()) {
+    return "Geef de opdracht een titel";
+  }
+  switch (draft.type) {
+    case "reflection": {
+      const { prompts } = draft.contentJson as ReflectionContent;
+      if (prompts.length === 0 || prompts.some((prompt) => !prompt.question.trim())) {
+        return "Elke vraag heeft een vraagtekst nodig";
+      }
+      const choiceWithoutOptions = prompts.some(
+        (prompt) =>
+          prompt.answerType === "choice" &&
+          new Set((prompt.options || []).map((option) => option.trim()).filter(Boolean)).size < 2
+      );
+      return choiceWithoutOptions ? "Keuzevragen hebben minstens twee verschillende opties nodig" : null;
+    }
+    case "exercise": {
+      const { steps } = draft.contentJson as ExerciseContent;
+      return steps.length === 0 || steps.some((step) => !step.title.trim()) ? "Elke stap heeft een titel nodig" : null;
+    }
+    case "reading":
+      return (draft.contentJson as ReadingContent).markdown.trim() ? null : "Schrijf de tekst die de cliënt leest";
+    default:
+      return (draft.contentJson as AudioContent).fileId ? null : "Kies een audiobestand";
+  }
+};
+
+// Form for the title and type-specific content of a program task
+export default function ProgramTaskEditor({ task, weekId, weeks, saving, onSave, onDelete }: ProgramTaskEditorProps) {
+  const { colors } = useTheme();
+  const [type, setType] = useState<ProgramTaskType>(task?.type ?? "reflection");
+  const [title, setTitle] = useState(task?.title ?? "");
+  const [targetWeekId, setTargetWeekId] = useState(weekId);
+  // Tasks saved before content was versioned start over from an empty form
+  const [content, setContent] = useState<TaskContent>(
+    task?.contentJson && task.contentJson.version === TASK_CONTENT_VERSION
+      ? task.contentJson
+      : emptyTaskContent(task?.type ?? "reflection")
+  );
+  const [audioFiles, setAudioFiles] = useState<UploadedFile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (type !== "audio" || audioFiles !== null) return;
+
+    const fetchAudioFiles = async () => {
+      console.log("[ProgramTaskEditor] Fetching audio files");
+      try {
+        const files = await authenticatedGet<UploadedFile[]>("/api/files");
+        setAudioFiles(files.filter((file) => file.mimeType?.startsWith("audio/")));
+      } catch (fetchError: any) {
+        console.error("[ProgramTaskEditor] Error fetching audio files", fetchError);
+        setAudioFiles([]);
+      }
+    };
+
+    fetchAudioFiles();
+  }, [type, audioFiles]);
+
+  const changeType = (next: ProgramTaskType) => {
+    setType(next);
+    setContent(emptyTaskContent(next));
+    setError(null);
+  };
+
+  const save = () => {
+    const draft: ProgramTaskDraft = { weekId: targetWeekId, type, title: title.trim(), contentJson: content };
+    const message = validateTaskDraft(draft);
+    setError(message);
+    if (!message) {
+      onSave(draft);
+    }
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+        selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderInput = (
+    value: string,
+    onChangeText: (value: string) => void,
+    placeholder: string,
+    options: { multiline?: boolean; numeric?: boolean } = {}
+  ) => (
+    <TextInput
+      style={[
+        styles.input,
+        options.multiline && styles.textArea,
+        { color: colors.text, borderColor: colors.border, backgroundColor: colors.background },
+      ]}
+      placeholder={placeholder}
+      placeholderTextColor={bcctColors.textSecondary}
+      value={value}
+      onChangeText={onChangeText}
+      multiline={options.multiline}
+      keyboardType={options.numeric ? "number-pad" : "default"}
+    />
+  );
+
+  const renderRemoveButton = (onPress: () => void, disabled: boolean) => (
+    <TouchableOpacity style={styles.iconButton} onPress={onPress} disabled={disabled}>
+      <IconSymbol
+        ios_icon_name="trash"
+        android_material_icon_name="delete"
+        size={18}
+        color={disabled ? colors.border : bcctColors.error}
+      />
+    </TouchableOpacity>
+  );
+
+  const renderAddButton = (label: string, onPress: () => void) => (
+    <TouchableOpacity style={[styles.addButton, { borderColor: colors.border }]} onPress={onPress}>
+      <IconSymbol ios_icon_name="plus" android_material_icon_name="add" size={16} color={bcctColors.primaryOrange} />
+      <Text style={[styles.addButtonText, { color: bcctColors.primaryOrange }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderReflection = (reflection: ReflectionContent) => {
+    const updatePrompt = (index: number, changes: Partial<ReflectionPrompt>) =>
+      setContent({
+        ...reflection,
+        prompts: reflection.prompts.map((prompt, position) => (position === index ? { ...prompt, ...changes } : prompt)),
+      });
+
+    return (
+      <View style={styles.section}>
+        {renderInput(reflection.intro || "", (intro) => setContent({ ...reflection, intro }), "Inleiding (optioneel)", {
+          multiline: true,
+        })}
+        {reflection.prompts.map((prompt, index) => (
+          <View key={prompt.id || `new-${index}`} style={[styles.block, { borderColor: colors.border }]}>
+            <View style={styles.blockHeader}>
+              <Text style={[styles.label, { color: colors.text }]}>{`Vraag ${index + 1}`}</Text>
+              {renderRemoveButton(
+                () => setContent({ ...reflection, prompts: reflection.prompts.filter((_, position) => position !== index) }),
+                reflection.prompts.length === 1
+              )}
+            </View>
+            {renderInput(prompt.question, (question) => updatePrompt(index, { question }), "Vraag")}
+            <View style={styles.chipRow}>
+              {(Object.keys(ANSWER_TYPE_LABELS) as ReflectionPrompt["answerType"][]).map((answerType) =>
+                renderChip(
+                  ANSWER_TYPE_LABELS[answerType],
+                  prompt.answerType === answerType,
+                  () => updatePrompt(index, { answerType, options: answerType === "choice" ? prompt.options || [] : undefined }),
+                  answerType
+                )
+              )}
+              {renderChip(
+                "Verplicht",
+                prompt.required !== false,
+                () => updatePrompt(index, { required: prompt.required === false }),
+                "required"
+              )}
+            </View>
+            {prompt.answerType === "choice"
+              ? renderInput(
+                  (prompt.options || []).join(","),
+                  (value) => updatePrompt(index, { options: value.split(",") }),
+                  "Opties, gescheiden door komma's"
+                )
+              : null}
+          </View>
+        ))}
+        {renderAddButton("Vraag toevoegen", () =>
+          setContent({ ...reflection, prompts: [...reflection.prompts, { id: "", question: "", answerType: "text" }] })
+        )}
+      </View>
+    );
+  };
+
+  const renderExercise = (exercise: ExerciseContent) => {
+    const updateStep = (index: number, changes: Partial<ExerciseStep>) =>
+      setContent({
+        ...exercise,
+        steps: exercise.steps.map((step, position) => (position === index ? { ...step, ...changes } : step)),
+      });
+
+    return (
+      <View style={styles.section}>
+        {renderInput(exercise.intro || "", (intro) => setContent({ ...exercise, intro }), "Inleiding (optioneel)", {
+          multiline: true,
+        })}
+        {exercise.steps.map((step, index) => (
+          <View key={step.id || `new-${index}`} style={[styles.block, { borderColor: colors.border }]}>
+            <View style={styles.blockHeader}>
+              <Text style={[styles.label, { color: colors.text }]}>{`Stap ${index + 1}`}</Text>
+              {renderRemoveButton(
+                () => setContent({ ...exercise, steps: exercise.steps.filter((_, position) => position !== index) }),
+                exercise.steps.length === 1
+              )}
+            </View>
+            {renderInput(step.title, (stepTitle) => updateStep(index, { title: stepTitle }), "Titel")}
+            {renderInput(step.instruction || "", (instruction) => updateStep(index, { instruction }), "Instructie (optioneel)", {
+              multiline: true,
+            })}
+            {renderInput(
+              step.durationSeconds ? String(step.durationSeconds) : "",
+              (value) => updateStep(index, { durationSeconds: parseWholeNumber(value) }),
+              "Duur in seconden (optioneel)",
+              { numeric: true }
+            )}
+          </View>
+        ))}
+        {renderAddButton("Stap toevoegen", () =>
+          setContent({ ...exercise, steps: [...exercise.steps, { id: "", title: "" }] })
+        )}
+      </View>
+    );
+  };
+
+  const renderReading = (reading: ReadingContent) => (
+    <View style={styles.section}>
+      {renderInput(reading.markdown, (markdown) => setContent({ ...reading, markdown }), "Tekst (# kopjes, - opsommingen, **vet**)", {
+        multiline: true,
+      })}
+      {renderInput(
+        reading.estimatedMinutes ? String(reading.estimatedMinutes) : "",
+        (value) => setContent({ ...reading, estimatedMinutes: parseWholeNumber(value) }),
+        "Leestijd in minuten (optioneel)",
+        { numeric: true }
+      )}
+    </View>
+  );
+
+  const renderAudio = (audio: AudioContent) => (
+    <View style={styles.section}>
+      <Text style={[styles.label, { color: colors.text }]}>Audiobestand</Text>
+      {audioFiles === null ? (
+        <ActivityIndicator color={bcctColors.primaryOrange} />
+      ) : audioFiles.length === 0 ? (
+        <Text style={[styles.hint, { color: bcctColors.textSecondary }]}>
+          Je hebt nog geen audiobestanden geüpload.
+        </Text>
+      ) : (
+        <View style={styles.chipRow}>
+          {audioFiles.map((file) =>
+            renderChip(file.filename, audio.fileId === file.id, () => setContent({ ...audio, fileId: file.id }), file.id)
+          )}
+        </View>
+      )}
+      {renderInput(audio.description || "", (description) => setContent({ ...audio, description }), "Beschrijving (optioneel)", {
+        multiline: true,
+      })}
+      {renderInput(
+        audio.durationSeconds ? String(audio.durationSeconds) : "",
+        (value) => setContent({ ...audio, durationSeconds: parseWholeNumber(value) }),
+        "Duur in seconden (optioneel)",
+        { numeric: true }
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    switch (type) {
+      case "reflection":
+        return renderReflection(content as ReflectionContent);
+      case "exercise":
+        return renderExercise(content as ExerciseContent);
+      case "reading":
+        return renderReading(content as ReadingContent);
+      default:
+        return renderAudio(content as AudioContent);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {task ? (
+        <Text style={[styles.hint, { color: bcctColors.textSecondary }]}>{PROGRAM_TASK_TYPE_LABELS[type]}</Text>
+      ) : (
+        // The type is fixed once the task exists
+        <View style={styles.chipRow}>
+          {TASK_TYPES.map((option) =>
+            renderChip(PROGRAM_TASK_TYPE_LABELS[option], type === option, () => changeType(option), option)
+          )}
+        </View>
+      )}
+      {renderInput(title, setTitle, "Titel van de opdracht")}
+      {task && weeks.length > 1 ? (
+        <View style={styles.section}>
+          <Text style={[styles.label, { color: colors.text }]}>Week</Text>
+          <View style={styles.chipRow}>
+            {weeks.map((week) =>
+              renderChip(`Week ${week.weekNumber}`, targetWeekId === week.id, () => setTargetWeekId(week.id), week.id)
+            )}
+          </View>
+        </View>
+      ) : null}
+      {renderContent()}
+      {error ? <Text style={[styles.hint, { color: bcctColors.error }]}>{error}</Text> : null}
+      <TouchableOpacity
+        style={[styles.saveButton, { backgroundColor: bcctColors.primaryOrange }, saving && styles.saveDisabled]}
+        onPress={save}
+        disabled={saving}
+      >
+        {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.saveText}>Opslaan</Text>}
+      </TouchableOpacity>
+      {onDelete ? (
+        <TouchableOpacity style={styles.deleteButton} onPress={onDelete} disabled={saving}>
+          <Text style={[styles.deleteText, { color: bcctColors.error }]}>Opdracht verwijderen</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  section: {
+    gap: 10,
+  },
+  block: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  blockHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  label: {
+    ...bcctTypography.bodySemiBold,
+  },
+  hint: {
+    ...bcctTypography.small,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  input: {
+    ...bcctTypography.body,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  addButtonText: {
+    ...bcctTypography.smallMedium,
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  saveDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    color: "#fff",
+    ...bcctTypography.button,
+  },
+  deleteButton: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  deleteText: {
+    ...bcctTypography.button,
+  },
+});
@@ -0,0 +1,390 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import * as WebBrowser from "expo-web-browser";
+import { IconSymbol } from "@/components/IconSymbol";
+import MarkdownText from "@/components/MarkdownText";
+import {
+  AudioContent,
+  ExerciseContent,
+  ExerciseResponse,
+  formatSeconds,
+  hasVersionedContent,
+  ProgramTask,
+  ReadingContent,
+  ReflectionContent,
+  ReflectionResponse,
+  TASK_CONTENT_VERSION,
+  TaskResponse,
+} from "@/utils/programs";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+const MAX_ANSWER_LENGTH = 2000;
+
+const SCALE_VALUES = Array.from({ length: 11 }, (_, index) => index);
+
+interface ProgramTaskPlayerProps {
+  task: ProgramTask;
+  submitting: boolean;
+  onSubmit: (response: TaskResponse | null) => void;
+}
+
+// Renders a program task by type and collects the client's response
+export default function ProgramTaskPlayer({ task, submitting, onSubmit }: ProgramTaskPlayerProps) {
+  const { colors } = useTheme();
+  const versioned = hasVersionedContent(task);
+
+  const [answers, setAnswers] = useState<Record<string, string | number>>(
+    (task.response as ReflectionResponse | null)?.answers || {}
+  );
+  const [doneStepIds, setDoneStepIds] = useState<string[]>(
+    (task.response as ExerciseResponse | null)?.completedStepIds || []
+  );
+  const [note, setNote] = useState((task.response as ExerciseResponse | null)?.note || "");
+  const [timer, setTimer] = useState<{ stepId: string; remaining: number } | null>(null);
+
+  // Counts the running step down and ticks it off when time is up
+  useEffect(() => {
+    if (!timer) return;
+    if (timer.remaining <= 0) {
+      setDoneStepIds((current) => (current.includes(timer.stepId) ? current : [...current, timer.stepId]));
+      setTimer(null);
+      return;
+    }
+    const timeout = setTimeout(
+      () => setTimer((current) => (current ? { ...current, remaining: current.remaining - 1 } : null)),
+      1000
+    );
+    return () => clearTimeout(timeout);
+  }, [timer]);
+
+  const toggleStep = (stepId: string) =>
+    setDoneStepIds((current) =>
+      current.includes(stepId) ? current.filter((id) => id !== stepId) : [...current, stepId]
+    );
+
+  const openAudio = async () => {
+    if (!task.audioUrl) return;
+    console.log("[ProgramTaskPlayer] Opening audio", task.id);
+    await WebBrowser.openBrowserAsync(task.audioUrl);
+  };
+
+  const missingAnswer =
+    versioned &&
+    task.type === "reflection" &&
+    (task.contentJson as ReflectionContent).prompts.some(
+      (prompt) => prompt.required !== false && (answers[prompt.id] === undefined || answers[prompt.id] === "")
+    );
+
+  const submit = () => {
+    if (!versioned) {
+      onSubmit(null);
+      return;
+    }
+    switch (task.type) {
+      case "reflection": {
+        // Blank optional answers are left out
+        const filled = Object.fromEntries(
+          Object.entries(answers).filter(([, value]) => (typeof value === "string" ? value.trim() !== "" : true))
+        );
+        onSubmit({ version: TASK_CONTENT_VERSION, answers: filled });
+        break;
+      }
+      case "exercise":
+        onSubmit({
+          version: TASK_CONTENT_VERSION,
+          completedStepIds: doneStepIds,
+          note: note.trim() || undefined,
+        });
+        break;
+      default:
+        onSubmit({ version: TASK_CONTENT_VERSION });
+    }
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? bcctColors.primaryOrange : colors.border },
+        selected && { backgroundColor: bcctColors.primaryOrange + "20" },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderReflection = (content: ReflectionContent) => (
+    <View style={styles.section}>
+      {content.intro ? <Text style={[styles.body, { color: colors.text }]}>{content.intro}</Text> : null}
+      {content.prompts.map((prompt) => {
+        const answer = answers[prompt.id];
+        const setAnswer = (value: string | number) => setAnswers((current) => ({ ...current, [prompt.id]: value }));
+        return (
+          <View key={prompt.id} style={styles.prompt}>
+            <Text style={[styles.promptQuestion, { color: colors.text }]}>
+              {prompt.question}
+              {prompt.required === false ? (
+                <Text style={{ color: bcctColors.textSecondary }}> (optioneel)</Text>
+              ) : null}
+            </Text>
+            {prompt.answerType === "scale" ? (
+              <View style={styles.chipRow}>
+                {SCALE_VALUES.map((value) =>
+                  renderChip(String(value), answer === value, () => setAnswer(value), String(value))
+                )}
+              </View>
+            ) : prompt.answerType === "choice" ? (
+              <View style={styles.chipRow}>
+                {(prompt.options || []).map((option) =>
+                  renderChip(option, answer === option, () => setAnswer(option), option)
+                )}
+              </View>
+            ) : (
+              <TextInput
+                style={[styles.textInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+                placeholder="Typ hier je antwoord…"
+                placeholderTextColor={bcctColors.textSecondary}
+                value={typeof answer === "string" ? answer : ""}
+                onChangeText={setAnswer}
+                maxLength={MAX_ANSWER_LENGTH}
+                multiline
+              />
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderExercise = (content: ExerciseContent) => (
+    <View style={styles.section}>
+      {content.intro ? <Text style={[styles.body, { color: colors.text }]}>{content.intro}</Text> : null}
+      {content.steps.map((step, index) => {
+        const done = doneStepIds.includes(step.id);
+        const running = timer?.stepId === step.id;
+        return (
+          <View key={step.id} style={[styles.step, { borderColor: running ? bcctColors.primaryOrange : colors.border }]}>
+            <TouchableOpacity style={styles.stepHeader} onPress={() => toggleStep(step.id)}>
+              <IconSymbol
+                ios_icon_name={done ? "checkmark.circle.fill" : "circle"}
+                android_material_icon_name={done ? "check-circle" : "radio-button-unchecked"}
+                size={22}
+                color={done ? bcctColors.success : bcctColors.textSecondary}
+              />
+              <Text style={[styles.stepTitle, { color: colors.text }]}>{`${index + 1}. ${step.title}`}</Text>
+            </TouchableOpacity>
+            {step.instruction ? (
+              <Text style={[styles.small, { color: bcctColors.textSecondary }]}>{step.instruction}</Text>
+            ) : null}
+            {step.durationSeconds ? (
+              <TouchableOpacity
+                style={[styles.timerButton, { borderColor: bcctColors.primaryOrange }]}
+                onPress={() => setTimer(running ? null : { stepId: step.id, remaining: step.durationSeconds! })}
+                disabled={!running && timer !== null}
+              >
+                <IconSymbol
+                  ios_icon_name={running ? "stop.fill" : "timer"}
+                  android_material_icon_name={running ? "stop" : "timer"}
+                  size={16}
+                  color={bcctColors.primaryOrange}
+                />
+                <Text style={[styles.timerText, { color: bcctColors.primaryOrange }]}>
+                  {running ? formatSeconds(timer.remaining) : `Start ${formatSeconds(step.durationSeconds)}`}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        );
+      })}
+      <TextInput
+        style={[styles.textInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+        placeholder="Hoe ging de oefening? (optioneel)"
+        placeholderTextColor={bcctColors.textSecondary}
+        value={note}
+        onChangeText={setNote}
+        maxLength={MAX_ANSWER_LENGTH}
+        multiline
+      />
+    </View>
+  );
+
+  const renderReading = (content: ReadingContent) => (
+    <View style={styles.section}>
+      {content.estimatedMinutes ? (
+        <Text style={[styles.small, { color: bcctColors.textSecondary }]}>
+          {`Leestijd ongeveer ${content.estimatedMinutes} min`}
+        </Text>
+      ) : null}
+      <MarkdownText markdown={content.markdown} />
+    </View>
+  );
+
+  const renderAudio = (content: AudioContent) => (
+    <View style={styles.section}>
+      {content.description ? (
+        <Text style={[styles.body, { color: colors.text }]}>{content.description}</Text>
+      ) : null}
+      {task.audioUrl ? (
+        <TouchableOpacity
+          style={[styles.audioButton, { backgroundColor: bcctColors.primaryOrange + "20" }]}
+          onPress={openAudio}
+        >
+          <IconSymbol
+            ios_icon_name="play.circle.fill"
+            android_material_icon_name="play-circle-filled"
+            size={32}
+            color={bcctColors.primaryOrange}
+          />
+          <Text style={[styles.audioText, { color: colors.text }]}>
+            {content.durationSeconds ? `Afspelen (${formatSeconds(content.durationSeconds)})` : "Afspelen"}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={[styles.small, { color: bcctColors.textSecondary }]}>Audiobestand is niet beschikbaar</Text>
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!versioned) {
+      return null;
+    }
+    switch (task.type) {
+      case "reflection":
+        return renderReflection(task.contentJson as ReflectionContent);
+      case "exercise":
+        return renderExercise(task.contentJson as ExerciseContent);
+      case "reading":
+        return renderReading(task.contentJson as ReadingContent);
+      default:
+        return renderAudio(task.contentJson as AudioContent);
+    }
+  };
+
+  const submitLabel = task.completed
+    ? "Bijwerken"
+    : task.type === "reading"
+      ? "Gelezen"
+      : task.type === "audio"
+        ? "Beluisterd"
+        : "Afronden";
+
+  return (
+    <View style={styles.container}>
+      {renderContent()}
+      <TouchableOpacity
+        style={[
+          styles.submitButton,
+          { backgroundColor: bcctColors.primaryOrange },
+          (submitting || missingAnswer) && styles.submitDisabled,
+        ]}
+        onPress={submit}
+        disabled={submitting || missingAnswer}
+      >
+        {submitting ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.submitText}>{submitLabel}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  section: {
+    gap: 16,
+  },
+  body: {
+    ...bcctTypography.body,
+  },
+  small: {
+    ...bcctTypography.small,
+  },
+  prompt: {
+    gap: 8,
+  },
+  promptQuestion: {
+    ...bcctTypography.bodySemiBold,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 36,
+    alignItems: "center",
+  },
+  chipText: {
+    ...bcctTypography.small,
+  },
+  textInput: {
+    ...bcctTypography.body,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  step: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  stepHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  stepTitle: {
+    ...bcctTypography.bodyMedium,
+    flex: 1,
+  },
+  timerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  timerText: {
+    ...bcctTypography.smallMedium,
+  },
+  audioButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderRadius: 12,
+    padding: 16,
+  },
+  audioText: {
+    ...bcctTypography.bodySemiBold,
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  submitDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    color: "#fff",
+    ...bcctTypography.button,
+  },
+});
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from "react-native";
+import { useTheme } from "@react-navigation/native";
+import { IconSymbol } from "@/components/IconSymbol";
+import { TaskComment } from "@/utils/programs";
+import { bcctColors, bcctTypography } from "@/styles/bcctTheme";
+
+const MAX_COMMENT_LENGTH = 2000;
+
+interface TaskCommentThreadProps {
+  comments: TaskComment[];
+  // The viewer's role; their own comments are aligned right
+  viewerRole: "coach" | "client";
+  placeholder: string;
+  onSend: (content: string) => Promise<void>;
+}
+
+const formatCommentDate = (value: string) =>
+  new Date(value).toLocaleString("nl-NL", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+// Feedback on a task response, with an input to add to it
+export default function TaskCommentThread({ comments, viewerRole, placeholder, onSend }: TaskCommentThreadProps) {
+  const { colors } = useTheme();
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const send = async () => {
+    const content = draft.trim();
+    if (!content) return;
+
+    setSending(true);
+    setFailed(false);
+    try {
+      await onSend(content);
+      setDraft("");
+    } catch (error) {
+      // The draft stays so it can be sent again
+      console.error("[TaskCommentThread] Error sending comment", error);
+      setFailed(true);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {comments.map((comment) => {
+        const own = comment.authorRole === viewerRole;
+        return (
+          <View
+            key={comment.id}
+            style={[
+              styles.bubble,
+              own ? styles.bubbleOwn : styles.bubbleOther,
+              { backgroundColor: own ? bcctColors.primaryOrange + "20" : colors.background, borderColor: colors.border },
+            ]}
+          >
+            <Text style={[styles.author, { color: bcctColors.textSecondary }]}>
+              {`${comment.authorRole === "coach" ? comment.authorName || "Coach" : comment.authorName || "Cliënt"} · ${formatCommentDate(comment.createdAt)}`}
+            </Text>
+            <Text style={[styles.content, { color: colors.text }]}>{comment.content}</Text>
+          </View>
+        );
+      })}
+      {failed ? (
+        <Text style={[styles.author, { color: bcctColors.error }]}>Kon bericht niet versturen</Text>
+      ) : null}
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.background }]}
+          placeholder={placeholder}
+          placeholderTextColor={bcctColors.textSecondary}
+          value={draft}
+          onChangeText={setDraft}
+          maxLength={MAX_COMMENT_LENGTH}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, { backgroundColor: bcctColors.primaryOrange }, !draft.trim() && styles.sendDisabled]}
+          onPress={send}
+          disabled={sending || !draft.trim()}
+        >
+          {sending ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <IconSymbol ios_icon_name="paperplane.fill" android_material_icon_name="send" size={18} color="#fff" />
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  bubble: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    maxWidth: "90%",
+    gap: 2,
+  },
+  bubbleOwn: {
+    alignSelf: "flex-end",
+  },
+  bubbleOther: {
+    alignSelf: "flex-start",
+  },
+  author: {
+    ...bcctTypography.small,
+  },
+  content: {
+    ...bcctTypography.body,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 8,
+  },
+  input: {
+    ...bcctTypography.body,
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    maxHeight: 120,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  sendDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -122,33 +122,33 @@ export const BCCTDarkTheme: BCCTTheme = {
 // Helper function to get slider color based on value and type
 export const getSliderColor = (value: number, type: 'energy' | 'stress' | 'sleep') => {
   if (type === 'stress') {
-    // Stress: 0 = green (good), 100 = red (bad)
-    if (value <= 33) return bcctColors.success;
-    if (value <= 66) return bcctColors.accentOrange;
+    // Stress: 0 = green (good), 10 = red (bad)
+    if (value <= 3) return bcctColors.success;
+    if (value <= 6) return bcctColors.accentOrange;
     return bcctColors.error;
   } else {
-    // Energy & Sleep: 0 = red (bad), 100 = green (good)
-    if (value <= 33) return bcctColors.error;
-    if (value <= 66) return bcctColors.accentOrange;
+    // Energy & Sleep: 0 = red (bad), 10 = green (good)
+    if (value <= 3) return bcctColors.error;
+    if (value <= 6) return bcctColors.accentOrange;
     return bcctColors.success;
   }
 };
 
-// Helper function to get text labels for sliders
+// Helper function to get text labels for sliders (0-10 check-in scale)
 export const getStressLabel = (value: number) => {
-  if (value <= 33) return 'Rustig';
-  if (value <= 66) return 'Spanning';
+  if (value <= 3) return 'Rustig';
+  if (value <= 6) return 'Spanning';
   return 'Hoog';
 };
 
 export const getSleepLabel = (value: number) => {
-  if (value <= 33) return 'Slecht';
-  if (value <= 66) return 'Oké';
+  if (value <= 3) return 'Slecht';
+  if (value <= 6) return 'Oké';
   return 'Goed';
 };
 
 export const getEnergyLabel = (value: number) => {
-  if (value <= 33) return 'Laag';
-  if (value <= 66) return 'Gemiddeld';
+  if (value <= 3) return 'Laag';
+  if (value <= 6) return 'Gemiddeld';
   return 'Hoog';
 };
@@ -16,6 +16,20 @@ export const isBackendConfigured = (): boolean => {
   return !!BACKEND_URL && BACKEND_URL.length > 0;
 };
 
+/**
+ * Build a WebSocket URL for a backend path (http -> ws, https -> wss)
+ * Browsers cannot set headers on a WebSocket handshake, so the socket is
+ * authenticated with a short-lived, single-use ticket in the query string
+ *
+ * @param path - WebSocket path (e.g., '/ws/chat/123')
+ * @param ticket - Optional socket ticket issued by the backend
+ */
+export const getWebSocketUrl = (path: string, ticket?: string | null): string => {
+  const base = BACKEND_URL.replace(/^http/, "ws");
+  const query = ticket ? `?ticket=${encodeURIComponent(ticket)}` : "";
+  return `${base}${path}${query}`;
+};
+
 /**
  * Get bearer token from platform-specific storage
  * Web: localStorage
@@ -233,3 +247,24 @@ export const authenticatedDelete = async <T = any>(endpoint: string, data: any =
     body: JSON.stringify(data),
   });
 };
+
+/**
+ * Extract the HTTP status and JSON body from an error thrown by apiCall
+ * Errors are raised as "API error: <status> - <body>"
+ *
+ * @returns Status code and parsed body, or nulls if the error has another shape
+ */
+export const parseApiError = (error: unknown): { status: number | null; body: any } => {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = /^API error: (\d+) - ([\s\S]*)$/.exec(message);
+
+  if (!match) {
+    return { status: null, body: null };
+  }
+
+  try {
+    return { status: Number(match[1]), body: JSON.parse(match[2]) };
+  } catch {
+    return { status: Number(match[1]), body: match[2] };
+  }
+};
@@ -0,0 +1,181 @@
+import { Linking, Share } from "react-native";
+import { bcctColors } from "@/styles/bcctTheme";
+import { BACKEND_URL, authenticatedGet } from "@/utils/api";
+
+/**
+ * Shared appointment types and date helpers used by the coach planner
+ * and the client appointments list.
+ */
+
+export type AppointmentStatus = "requested" | "scheduled" | "completed" | "cancelled";
+
+export interface Appointment {
+  id: string;
+  coachId: string;
+  clientId: string;
+  clientName?: string | null;
+  clientEmail?: string | null;
+  coachName?: string | null;
+  scheduledAt: string;
+  durationMinutes: number | null;
+  notes: string | null;
+  status: AppointmentStatus;
+  seriesId?: string | null;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly";
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: "Wekelijks",
+  biweekly: "Om de week",
+  monthly: "Maandelijks",
+};
+
+export const DEFAULT_SERIES_COUNT = 10;
+
+// Matches the backend cap on generated occurrences
+export const MAX_SERIES_COUNT = 52;
+
+export const DEFAULT_DURATION_MINUTES = 60;
+
+export const DURATION_OPTIONS = [30, 45, 60, 90];
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  requested: "Aangevraagd",
+  scheduled: "Gepland",
+  completed: "Afgerond",
+  cancelled: "Geannuleerd",
+};
+
+export const APPOINTMENT_STATUS_COLORS: Record<AppointmentStatus, string> = {
+  requested: bcctColors.accentOrange,
+  scheduled: bcctColors.primaryOrange,
+  completed: bcctColors.success,
+  cancelled: bcctColors.textSecondary,
+};
+
+export const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Returns the Monday of the week containing the given date
+ */
+export const startOfWeek = (date: Date): Date => {
+  const result = startOfDay(date);
+  const weekday = (result.getDay() + 6) % 7;
+  result.setDate(result.getDate() - weekday);
+  return result;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export const toDateKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const formatTime = (date: Date): string =>
+  date.toLocaleTimeString("nl-NL", { hour: "2-digit", minute: "2-digit" });
+
+export const formatDayLabel = (date: Date): string =>
+  date.toLocaleDateString("nl-NL", { weekday: "long", day: "numeric", month: "long" });
+
+export const formatTimeRange = (appointment: Appointment): string => {
+  const start = new Date(appointment.scheduledAt);
+  const end = new Date(
+    start.getTime() + (appointment.durationMinutes || DEFAULT_DURATION_MINUTES) * 60000
+  );
+  return `${formatTime(start)} – ${formatTime(end)}`;
+};
+
+/**
+ * Parses a local date (YYYY-MM-DD) and time (HH:MM) into a Date, or null when invalid
+ */
+export const parseLocalDateTime = (dateText: string, timeText: string): Date | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateText.trim());
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(timeText.trim());
+  if (!dateMatch || !timeMatch) {
+    return null;
+  }
+
+  const [, year, month, day] = dateMatch.map(Number);
+  const [, hours, minutes] = timeMatch.map(Number);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  const result = new Date(year, month - 1, day, hours, minutes);
+  if (result.getMonth() !== month - 1 || result.getDate() !== day) {
+    return null;
+  }
+  return result;
+};
+
+/**
+ * Turns a structured slot rejection from the backend (400/409) into a Dutch message
+ */
+export const describeSlotRejection = (body: any): string | null => {
+  switch (body?.code) {
+    case "in_past":
+      return "Je kunt geen afspraak in het verleden plannen.";
+    case "outside_working_hours":
+      return "Dit tijdstip valt buiten de werktijden.";
+    case "not_offered":
+      return "Dit tijdstip is niet (meer) vrij. Kies een van de open momenten.";
+    case "blocked":
+      return body.exception?.reason
+        ? `Op dit moment is er geen beschikbaarheid (${body.exception.reason}).`
+        : "Op dit moment is er geen beschikbaarheid.";
+    case "conflict": {
+      const clash = body.conflicts?.[0];
+      if (!clash) {
+        return "Dit tijdstip is inmiddels bezet. Kies een ander moment.";
+      }
+      const start = new Date(clash.scheduledAt);
+      return `Deze afspraak overlapt met ${clash.clientName || "een andere cliënt"} op ${formatDayLabel(start)} om ${formatTime(start)}.`;
+    }
+    case "series_conflict": {
+      const first = body.occurrences?.[0];
+      if (!first) {
+        return "Niet alle sessies uit de reeks kunnen worden ingepland.";
+      }
+      const start = new Date(first.scheduledAt);
+      const count = body.occurrences.length;
+      return `${count} ${count === 1 ? "sessie" : "sessies"} uit de reeks ${count === 1 ? "past" : "passen"} niet in de agenda, o.a. op ${formatDayLabel(start)} om ${formatTime(start)}.`;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Opens the user's personal iCalendar feed in their calendar app, falling back
+ * to the share sheet when no app handles webcal:// links
+ */
+export const openCalendarSubscription = async (): Promise<void> => {
+  const feed = await authenticatedGet<{ path: string }>("/api/calendar/feed");
+  const httpUrl = `${BACKEND_URL}${feed.path}`;
+  const webcalUrl = httpUrl.replace(/^https?:/, "webcal:");
+
+  if (await Linking.canOpenURL(webcalUrl)) {
+    await Linking.openURL(webcalUrl);
+    return;
+  }
+
+  await Share.share({
+    message: `Voeg deze link toe als agenda-abonnement: ${httpUrl}`,
+    title: "Agenda koppelen",
+  });
+};
@@ -0,0 +1,151 @@
+import { bcctColors } from "@/styles/bcctTheme";
+import type { ChartPoint, ChartMarker } from "@/components/CheckinTrendChart";
+import type { ThemeItemAnalytics } from "@/utils/themes";
+
+/**
+ * Shared check-in analytics types and labels used by the coach client detail
+ * and the client's own history screen.
+ */
+
+export type CheckinMetric = "stress" | "energy" | "sleep" | "mood";
+
+export const CHECKIN_METRICS: CheckinMetric[] = ["stress", "energy", "sleep", "mood"];
+
+export const CHECKIN_METRIC_LABELS: Record<CheckinMetric, string> = {
+  stress: "Stress",
+  energy: "Energie",
+  sleep: "Slaap",
+  mood: "Stemming",
+};
+
+export const CHECKIN_METRIC_COLORS: Record<CheckinMetric, string> = {
+  stress: bcctColors.error,
+  energy: bcctColors.primaryOrange,
+  sleep: bcctColors.primaryBlue,
+  mood: bcctColors.success,
+};
+
+// Core metrics and theme item sliders share one 0-10 scale
+export const CHECKIN_SCALE_MAX = 10;
+
+// Text and choice answers are in `text`, other theme item types in `value`
+export interface CheckinResponse {
+  themeItemId: string;
+  value: number | null;
+  text: string | null;
+}
+
+// A day's check-in as returned by GET /api/client/checkins
+export interface Checkin {
+  id: string;
+  date: string;
+  stress: number | null;
+  energy: number | null;
+  sleep: number | null;
+  mood: number | null;
+  note: string | null;
+  lockedEnergy: boolean;
+  lockedStress: boolean;
+  lockedSleep: boolean;
+  responses: CheckinResponse[];
+}
+
+export type AnalyticsRange = "14d" | "90d" | "all";
+
+export const ANALYTICS_RANGE_LABELS: Record<AnalyticsRange, string> = {
+  "14d": "2 weken",
+  "90d": "3 maanden",
+  all: "Volledig traject",
+};
+
+export interface MetricAnalytics {
+  series: ChartPoint[];
+  rolling7: ChartPoint[];
+  rolling30: ChartPoint[];
+  average: number | null;
+  min: ChartPoint | null;
+  max: ChartPoint | null;
+  weekOverWeek: {
+    current: number | null;
+    previous: number | null;
+    delta: number | null;
+  };
+}
+
+export interface CheckinAnalytics {
+  timezone: string;
+  range: AnalyticsRange;
+  from: string;
+  to: string;
+  checkinCount: number;
+  metrics: Record<CheckinMetric, MetricAnalytics>;
+  streaks: {
+    current: number;
+    longest: number;
+    lastCheckinDate: string | null;
+  };
+  markers?: {
+    appointments: { id: string; date: string; scheduledAt: string; status: string }[];
+    programWeeks: { date: string; weekNumber: number; clientProgramId: string; title: string }[];
+  };
+  // Only included in the coach's analytics
+  themeItems?: ThemeItemAnalytics[];
+}
+
+// Flattens appointment and program week markers for the trend chart
+export const toChartMarkers = (analytics: CheckinAnalytics): ChartMarker[] => [
+  ...(analytics.markers?.programWeeks || []).map((week) => ({ date: week.date, kind: "programWeek" as const })),
+  ...(analytics.markers?.appointments || []).map((appointment) => ({
+    date: appointment.date,
+    kind: "appointment" as const,
+  })),
+];
+
+export const formatDelta = (delta: number | null): string => {
+  if (delta === null) return "–";
+  return `${delta > 0 ? "+" : ""}${delta.toLocaleString("nl-NL")}`;
+};
+
+export type CheckinInsight =
+  | {
+      kind: "condition";
+      metric: CheckinMetric;
+      condition: { metric: CheckinMetric; comparator: "gt"; threshold: number };
+      average: number;
+      otherAverage: number;
+      difference: number;
+      sampleSize: number;
+    }
+  | {
+      kind: "weekday";
+      metric: CheckinMetric;
+      highestWeekday: number;
+      highestAverage: number;
+      lowestWeekday: number;
+      lowestAverage: number;
+      difference: number;
+      sampleSize: number;
+    };
+
+// Indexed like Date#getDay, starting at Sunday
+const WEEKDAY_NAMES = ["zondag", "maandag", "dinsdag", "woensdag", "donderdag", "vrijdag", "zaterdag"];
+
+const formatScore = (value: number) => value.toLocaleString("nl-NL");
+
+// Turns a server-side insight into a sentence for the client
+export const describeInsight = (insight: CheckinInsight): string => {
+  const metric = CHECKIN_METRIC_LABELS[insight.metric].toLowerCase();
+  if (insight.kind === "condition") {
+    const condition = CHECKIN_METRIC_LABELS[insight.condition.metric].toLowerCase();
+    return (
+      `Je ${metric} is ${insight.difference < 0 ? "lager" : "hoger"} op dagen dat je ${condition} ` +
+      `hoger dan ${insight.condition.threshold} is (gemiddeld ${formatScore(insight.average)} ` +
+      `tegenover ${formatScore(insight.otherAverage)}).`
+    );
+  }
+  return (
+    `Je ${metric} is het hoogst op ${WEEKDAY_NAMES[insight.highestWeekday]} ` +
+    `(${formatScore(insight.highestAverage)}) en het laagst op ${WEEKDAY_NAMES[insight.lowestWeekday]} ` +
+    `(${formatScore(insight.lowestAverage)}).`
+  );
+};
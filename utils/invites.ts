@@ -0,0 +1,61 @@
+import { bcctColors } from "@/styles/bcctTheme";
+
+/**
+ * Client invite codes as managed by the coach and claimed by the client.
+ */
+
+export type InviteStatus = "active" | "used" | "expired" | "revoked";
+
+export interface ClientInvite {
+  id: string;
+  code: string;
+  email: string | null;
+  maxUses: number;
+  useCount: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastSentAt: string | null;
+  createdAt: string;
+  status: InviteStatus;
+  emailSent?: boolean;
+  claims: { clientId: string; name: string | null; email: string; claimedAt: string }[];
+}
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  active: "Actief",
+  used: "Gebruikt",
+  expired: "Verlopen",
+  revoked: "Ingetrokken",
+};
+
+export const INVITE_STATUS_COLORS: Record<InviteStatus, string> = {
+  active: bcctColors.primaryOrange,
+  used: bcctColors.success,
+  expired: bcctColors.textSecondary,
+  revoked: bcctColors.error,
+};
+
+// Validity in days; null keeps the code valid until it is used up or revoked
+export const INVITE_EXPIRY_OPTIONS = [7, 14, 30, null];
+
+export const INVITE_MAX_USES_OPTIONS = [1, 5, 10];
+
+/**
+ * Turns a rejected claim (404/409/410) into a Dutch message
+ */
+export const describeInviteRejection = (body: any): string | null => {
+  switch (body?.code) {
+    case "invalid":
+      return "Code ongeldig. Controleer de code van je coach.";
+    case "expired":
+      return "Deze code is verlopen. Vraag je coach om een nieuwe code.";
+    case "used":
+      return "Deze code is al gebruikt. Vraag je coach om een nieuwe code.";
+    case "revoked":
+      return "Deze code is ingetrokken door je coach.";
+    case "already_linked":
+      return "Je bent al gekoppeld aan deze coach.";
+    default:
+      return null;
+  }
+};
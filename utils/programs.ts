@@ -0,0 +1,294 @@
+/**
+ * Program types shared by the client's program screen, home and the coach's program builder.
+ */
+
+export type ProgramTaskType = "reflection" | "exercise" | "reading" | "audio";
+
+export const PROGRAM_TASK_TYPE_LABELS: Record<ProgramTaskType, string> = {
+  reflection: "Reflectie",
+  exercise: "Oefening",
+  reading: "Lezen",
+  audio: "Audio",
+};
+
+// Version of the task content and response shapes below; matches the backend
+export const TASK_CONTENT_VERSION = 1;
+
+export interface ReflectionPrompt {
+  id: string;
+  question: string;
+  answerType: "text" | "scale" | "choice";
+  options?: string[];
+  required?: boolean;
+}
+
+export interface ReflectionContent {
+  version: number;
+  intro?: string;
+  prompts: ReflectionPrompt[];
+}
+
+export interface ExerciseStep {
+  id: string;
+  title: string;
+  instruction?: string;
+  durationSeconds?: number;
+}
+
+export interface ExerciseContent {
+  version: number;
+  intro?: string;
+  steps: ExerciseStep[];
+}
+
+export interface ReadingContent {
+  version: number;
+  markdown: string;
+  estimatedMinutes?: number;
+}
+
+export interface AudioContent {
+  version: number;
+  fileId: string;
+  description?: string;
+  durationSeconds?: number;
+}
+
+export type TaskContent = ReflectionContent | ExerciseContent | ReadingContent | AudioContent;
+
+export interface ReflectionResponse {
+  version: number;
+  answers: Record<string, string | number>;
+}
+
+export interface ExerciseResponse {
+  version: number;
+  completedStepIds: string[];
+  note?: string;
+}
+
+export interface ListenResponse {
+  version: number;
+  listenedSeconds?: number;
+}
+
+export type TaskResponse = ReflectionResponse | ExerciseResponse | ListenResponse;
+
+export type ReviewStatus = "unread" | "reviewed";
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  unread: "Nieuw",
+  reviewed: "Bekeken",
+};
+
+// A feedback comment on a task response, by the coach or the client
+export interface TaskComment {
+  id: string;
+  completionId: string;
+  authorId: string;
+  authorName: string | null;
+  authorRole: "coach" | "client" | string;
+  content: string;
+  createdAt: string;
+}
+
+export interface ProgramTask {
+  id: string;
+  weekId: string;
+  type: ProgramTaskType;
+  title: string;
+  // Tasks created before content was versioned may hold anything here
+  contentJson: TaskContent | null;
+  orderIndex: number | null;
+  completed: boolean;
+  completedAt: string | null;
+  completionId: string | null;
+  response: TaskResponse | null;
+  reviewStatus: ReviewStatus | null;
+  comments: TaskComment[];
+  // Signed URL of an audio task's file; only set once its week is open
+  audioUrl?: string | null;
+}
+
+export interface ProgramWeek {
+  id: string;
+  weekNumber: number;
+  title: string | null;
+  unlocked: boolean;
+  // Date key (YYYY-MM-DD) the week opens on; null once it is open
+  unlocksOn: string | null;
+  completed: boolean;
+  completedCount: number;
+  taskCount: number;
+  tasks: ProgramTask[];
+}
+
+// An assigned program as listed by GET /api/client/programs
+export interface ClientProgramSummary {
+  id: string;
+  programId: string;
+  title: string;
+  description: string | null;
+  assignedAt: string;
+  completedAt: string | null;
+  weekCount: number;
+  currentWeekNumber: number | null;
+  taskCount: number;
+  completedTaskCount: number;
+}
+
+// An assigned program with progress as returned by GET /api/client/programs/:id
+export interface ClientProgramProgress extends Omit<ClientProgramSummary, "weekCount" | "currentWeekNumber"> {
+  startDate: string;
+  currentWeek: ProgramWeek | null;
+  nextTask: ProgramTask | null;
+  weeks: ProgramWeek[];
+}
+
+// A client's task response as listed for the coach
+export interface TaskCompletionReview {
+  id: string;
+  clientProgramId: string;
+  programTitle: string;
+  weekNumber: number;
+  weekTitle: string | null;
+  taskId: string;
+  taskTitle: string;
+  taskType: ProgramTaskType;
+  contentJson: TaskContent | null;
+  responseJson: TaskResponse | null;
+  completedAt: string;
+  reviewStatus: ReviewStatus;
+  reviewedAt: string | null;
+  comments: TaskComment[];
+}
+
+// A program as listed for the coach by GET /api/coach/programs
+export interface CoachProgramSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  published: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  latestVersion: number | null;
+  draftVersion: number | null;
+  assigneeCount: number;
+  // Running assignments pinned to an older version than the latest
+  outdatedAssigneeCount: number;
+}
+
+export interface ProgramBuilderTask {
+  id: string;
+  weekId: string;
+  taskKey: string;
+  type: ProgramTaskType;
+  title: string;
+  contentJson: TaskContent | null;
+  orderIndex: number | null;
+}
+
+export interface ProgramBuilderWeek {
+  id: string;
+  weekNumber: number;
+  title: string | null;
+  tasks: ProgramBuilderTask[];
+}
+
+export interface ProgramVersionSummary {
+  id: string;
+  version: number;
+  status: "draft" | "published";
+  title: string;
+  description: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  assigneeCount: number;
+}
+
+export interface ProgramVersionContent extends ProgramVersionSummary {
+  weeks: ProgramBuilderWeek[];
+}
+
+// A program with its versions as returned by GET /api/coach/programs/:id; `published` holds the latest published content
+export interface CoachProgramDetail extends Omit<CoachProgramSummary, "published"> {
+  versions: ProgramVersionSummary[];
+  draft: ProgramVersionContent | null;
+  published: ProgramVersionContent | null;
+}
+
+// Content a new task of the given type starts with in the builder
+export const emptyTaskContent = (type: ProgramTaskType): TaskContent => {
+  switch (type) {
+    case "reflection":
+      return { version: TASK_CONTENT_VERSION, prompts: [{ id: "", question: "", answerType: "text" }] };
+    case "exercise":
+      return { version: TASK_CONTENT_VERSION, steps: [{ id: "", title: "" }] };
+    case "reading":
+      return { version: TASK_CONTENT_VERSION, markdown: "" };
+    case "audio":
+      return { version: TASK_CONTENT_VERSION, fileId: "" };
+  }
+};
+
+// A builder task as the client would get it, for the preview
+export const previewProgramTask = (task: ProgramBuilderTask): ProgramTask => ({
+  id: task.id,
+  weekId: task.weekId,
+  type: task.type,
+  title: task.title,
+  contentJson: task.contentJson,
+  orderIndex: task.orderIndex,
+  completed: false,
+  completedAt: null,
+  completionId: null,
+  response: null,
+  reviewStatus: null,
+  comments: [],
+  audioUrl: null,
+});
+
+/**
+ * The answers of a response as label/value pairs in the order of the task content.
+ * Tasks without versioned content fall back to the raw JSON.
+ */
+export const describeTaskResponse = (
+  type: ProgramTaskType,
+  content: TaskContent | null,
+  response: TaskResponse | null
+): { label: string; value: string }[] => {
+  if (!response) {
+    return [];
+  }
+  if (!content || content.version !== TASK_CONTENT_VERSION) {
+    return [{ label: "Antwoord", value: JSON.stringify(response) }];
+  }
+  if (type === "reflection") {
+    const answers = (response as ReflectionResponse).answers || {};
+    return (content as ReflectionContent).prompts
+      .filter((prompt) => answers[prompt.id] !== undefined)
+      .map((prompt) => ({
+        label: prompt.question,
+        value: prompt.answerType === "scale" ? `${answers[prompt.id]}/10` : String(answers[prompt.id]),
+      }));
+  }
+  if (type === "exercise") {
+    const { completedStepIds = [], note } = response as ExerciseResponse;
+    const steps = (content as ExerciseContent).steps;
+    const lines = [{ label: "Stappen", value: `${completedStepIds.length}/${steps.length} gedaan` }];
+    return note ? [...lines, { label: "Notitie", value: note }] : lines;
+  }
+  return [];
+};
+
+// Whether the task content follows a schema the player knows
+export const hasVersionedContent = (task: ProgramTask) =>
+  !!task.contentJson && task.contentJson.version === TASK_CONTENT_VERSION;
+
+// Formats seconds as "m:ss"
+export const formatSeconds = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+// Formats a date key as "3 november"
+export const formatUnlockDate = (dateKey: string): string =>
+  new Date(`${dateKey}T12:00:00`).toLocaleDateString("nl-NL", { day: "numeric", month: "long" });
@@ -0,0 +1,122 @@
+import type { ChartPoint } from "@/components/CheckinTrendChart";
+
+/**
+ * Theme item types shared by the coach theme editor, the client check-in and
+ * the coach's check-in analytics.
+ */
+
+export type ThemeItemType = "slider" | "yes_no" | "choice" | "likert" | "number" | "text";
+
+export const THEME_ITEM_TYPES: ThemeItemType[] = ["slider", "yes_no", "choice", "likert", "number", "text"];
+
+export const THEME_ITEM_TYPE_LABELS: Record<ThemeItemType, string> = {
+  slider: "Schuifregelaar 0-10",
+  yes_no: "Ja / nee",
+  choice: "Meerkeuze",
+  likert: "Schaal 1-5",
+  number: "Getal",
+  text: "Vrije tekst",
+};
+
+// Shown on likert items without custom anchor labels
+export const DEFAULT_LIKERT_LABELS = { minLabel: "Helemaal oneens", maxLabel: "Helemaal eens" };
+
+export interface ThemeItemConfig {
+  options?: string[];
+  minLabel?: string;
+  maxLabel?: string;
+  unit?: string;
+}
+
+export interface ThemeItem {
+  id: string;
+  label: string;
+  type: ThemeItemType;
+  config: ThemeItemConfig | null;
+  minValue: number | null;
+  maxValue: number | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+// Per item aggregates returned with the coach's check-in analytics
+export type ThemeItemAnalytics = Pick<ThemeItem, "id" | "label" | "config" | "minValue" | "maxValue"> & {
+  responseCount: number;
+} & (
+    | {
+        type: "slider" | "likert" | "number";
+        summary: {
+          series: ChartPoint[];
+          average: number | null;
+          min: number | null;
+          max: number | null;
+          latest: number | null;
+        };
+      }
+    | { type: "yes_no"; summary: { yesCount: number; noCount: number; yesRate: number | null } }
+    | { type: "choice"; summary: { counts: { option: string; count: number }[] } }
+    | { type: "text"; summary: { entries: { date: string; text: string }[] } }
+  );
+
+// Short description of an item's settings for the theme editor
+export const describeThemeItem = (item: ThemeItem): string => {
+  const type = THEME_ITEM_TYPE_LABELS[item.type];
+  if (item.type === "choice") {
+    return `${type}: ${(item.config?.options || []).join(", ")}`;
+  }
+  if (item.type === "number") {
+    const bounds =
+      item.minValue !== null || item.maxValue !== null ? ` (${item.minValue ?? "…"} – ${item.maxValue ?? "…"})` : "";
+    return `${type}${item.config?.unit ? ` in ${item.config.unit}` : ""}${bounds}`;
+  }
+  if (item.type === "likert") {
+    const labels = { ...DEFAULT_LIKERT_LABELS, ...item.config };
+    return `${type}: ${labels.minLabel} – ${labels.maxLabel}`;
+  }
+  return type;
+};
+
+export type ThemeFrequency = "daily" | "three_per_week" | "weekly";
+
+export const THEME_FREQUENCIES: ThemeFrequency[] = ["daily", "three_per_week", "weekly"];
+
+export const THEME_FREQUENCY_LABELS: Record<ThemeFrequency, string> = {
+  daily: "Dagelijks",
+  three_per_week: "3x per week",
+  weekly: "Wekelijks",
+};
+
+export type ThemeAssignmentStatus = "active" | "scheduled" | "ended";
+
+export const THEME_ASSIGNMENT_STATUS_LABELS: Record<ThemeAssignmentStatus, string> = {
+  active: "Actief",
+  scheduled: "Gepland",
+  ended: "Afgelopen",
+};
+
+// A theme assignment as listed for the coach on the client detail
+export interface ThemeAssignment {
+  id: string;
+  themeId: string;
+  themeName: string;
+  startDate: string;
+  endDate: string | null;
+  frequency: ThemeFrequency;
+  status: ThemeAssignmentStatus;
+}
+
+// A theme that is current for the client today, as returned by GET /api/client/themes
+export interface CurrentTheme {
+  id: string;
+  assignmentId: string;
+  name: string;
+  description: string | null;
+  startDate: string;
+  endDate: string | null;
+  frequency: ThemeFrequency;
+  items: ThemeItem[];
+  checkinsThisWeek: number;
+  checkinsPerWeek: number;
+  answeredToday: boolean;
+  due: boolean;
+}